@@ -10,6 +10,9 @@
 #
 # Usage: claude-parallel [command] [args...]
 # Recommended: alias claude='claude-parallel'
+#
+# Set PARALLEL_CC_SESSION_NAME to label the session (e.g. "auth refactor");
+# the name is used for the worktree/branch and shown in `parallel-cc status`.
 
 set -e
 
@@ -55,7 +58,16 @@ if ! command -v jq &> /dev/null; then
 fi
 
 # Register and get worktree path
-RESULT=$(parallel-cc register --repo "$REPO_PATH" --pid $$ --json 2>/dev/null || echo '{}')
+REGISTER_ARGS=(--repo "$REPO_PATH" --pid $$ --json)
+if [ -n "$PARALLEL_CC_SESSION_NAME" ]; then
+    REGISTER_ARGS+=(--name "$PARALLEL_CC_SESSION_NAME")
+fi
+RESULT=$(parallel-cc register "${REGISTER_ARGS[@]}" 2>/dev/null || true)
+
+REGISTER_ERROR=$(echo "$RESULT" | jq -r '.error // empty' 2>/dev/null | tr -d '\n' || true)
+if [ -n "$REGISTER_ERROR" ]; then
+    echo "⚠️  parallel-cc registration failed: $REGISTER_ERROR" >&2
+fi
 
 # Parse JSON results - ensure clean integers/strings
 WORKTREE_PATH=$(echo "$RESULT" | jq -r '.worktreePath // empty' 2>/dev/null | tr -d '\n' || true)
@@ -76,6 +88,9 @@ if [ -n "$WORKTREE_PATH" ] && [ "$WORKTREE_PATH" != "$REPO_PATH" ]; then
     echo "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━" >&2
     echo "📂 Parallel session detected - working in worktree" >&2
     echo "   Path: $WORKTREE_PATH" >&2
+    if [ -n "$PARALLEL_CC_SESSION_NAME" ]; then
+        echo "   Name: $PARALLEL_CC_SESSION_NAME" >&2
+    fi
     echo "   Sessions: $PARALLEL_COUNT active" >&2
     echo "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━" >&2
     cd "$WORKTREE_PATH"
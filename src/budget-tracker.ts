@@ -2,14 +2,21 @@
  * Budget tracking and enforcement for parallel-cc
  *
  * Manages cost tracking by period, budget limits, and spending reports.
+ * Session costs are split into sandbox compute and Anthropic API (model) cost
+ * and attributed to a repo, template and git user for per-group reports.
  */
 
 import type { SessionDB } from './db.js';
 import type { ConfigManager } from './config.js';
+import { sumClaudeUsage } from './e2b/claude-usage.js';
 import type {
   BudgetPeriod,
   BudgetTracking,
-  BudgetStatus
+  BudgetStatus,
+  BudgetReport,
+  BudgetReportGroupBy,
+  ClaudeUsage,
+  CostAttribution
 } from './types.js';
 
 /**
@@ -50,7 +57,7 @@ export interface SessionBudgetValidation {
  * Features:
  * - Period-based spending tracking (daily, weekly, monthly)
  * - Budget limit enforcement with configurable thresholds
- * - Session cost recording
+ * - Session cost recording (compute and model cost)
  * - Budget status reports
  *
  * Note: Uses integer percentages (0-100) internally for Set keys
@@ -112,6 +119,31 @@ export class BudgetTracker {
     }
   }
 
+  /**
+   * Get the first day after the period containing a date
+   *
+   * @param period - Budget period type
+   * @param date - Date within the period (default: now)
+   * @returns ISO date string (YYYY-MM-DD, UTC)
+   */
+  getPeriodEnd(period: BudgetPeriod, date: Date = new Date()): string {
+    const end = new Date(`${this.getPeriodStart(period, date)}T00:00:00Z`);
+
+    switch (period) {
+      case 'daily':
+        end.setUTCDate(end.getUTCDate() + 1);
+        break;
+      case 'weekly':
+        end.setUTCDate(end.getUTCDate() + 7);
+        break;
+      case 'monthly':
+        end.setUTCMonth(end.getUTCMonth() + 1);
+        break;
+    }
+
+    return end.toISOString().substring(0, 10);
+  }
+
   /**
    * Get or create a budget tracking record for the current period
    *
@@ -164,17 +196,72 @@ export class BudgetTracker {
   /**
    * Record cost for a specific session
    *
-   * Updates both the session's cost_estimate and the monthly budget tracking.
+   * Stores the sandbox compute cost as the session's cost_estimate and the
+   * total (compute plus model) as its actual_cost, keeps the breakdown and
+   * token usage in session_costs, and adds the total to the monthly budget
+   * tracking. The session's repo, template and git user are recorded with
+   * the cost for budget reports.
    *
    * @param sessionId - Session ID
-   * @param cost - Cost in USD
+   * @param computeCost - Sandbox compute cost in USD
+   * @param modelCost - Anthropic API cost in USD (default: 0)
+   * @param usage - Claude token usage, if reported
+   * @param attribution - Template and git user of the session, if known
    */
-  recordSessionCost(sessionId: string, cost: number): void {
-    // Update session cost estimate
-    this.db.updateSessionCost(sessionId, cost);
+  recordSessionCost(
+    sessionId: string,
+    computeCost: number,
+    modelCost: number = 0,
+    usage?: ClaudeUsage,
+    attribution?: CostAttribution
+  ): void {
+    if (computeCost < 0 || modelCost < 0) {
+      throw new Error('Cost must be a non-negative number');
+    }
+    const total = computeCost + modelCost;
+
+    // Update session cost (a released session may no longer exist)
+    if (attribution) {
+      this.db.updateSessionAttribution(sessionId, attribution);
+    }
+    this.db.updateSessionCost(sessionId, computeCost, total);
+    this.db.recordSessionCosts(sessionId, computeCost, modelCost, usage);
 
     // Update monthly tracking
-    this.recordCost(cost, 'monthly');
+    this.recordCost(total, 'monthly');
+  }
+
+  /**
+   * Add the cost of a further run to a session's recorded cost
+   *
+   * Used for follow-up prompts in a session's sandbox: compute cost, model
+   * cost and token usage accumulate instead of replacing the first run's.
+   * The record keeps its original date, so budget reports do not move the
+   * first run's cost to the follow-up's day. Only the added cost counts
+   * towards the monthly budget tracking.
+   *
+   * @param sessionId - Session ID
+   * @param computeCost - Additional sandbox compute cost in USD
+   * @param modelCost - Additional Anthropic API cost in USD (default: 0)
+   * @param usage - Claude token usage of the further run, if reported
+   */
+  addSessionCost(
+    sessionId: string,
+    computeCost: number,
+    modelCost: number = 0,
+    usage?: ClaudeUsage
+  ): void {
+    if (computeCost < 0 || modelCost < 0) {
+      throw new Error('Cost must be a non-negative number');
+    }
+    const previous = this.db.getSessionCosts(sessionId);
+    const totalCompute = (previous?.computeCost ?? 0) + computeCost;
+    const totalModel = (previous?.modelCost ?? 0) + modelCost;
+
+    this.db.updateSessionCost(sessionId, totalCompute, totalCompute + totalModel);
+    this.db.recordSessionCosts(sessionId, totalCompute, totalModel, sumClaudeUsage([previous?.usage, usage]), true);
+
+    this.recordCost(computeCost + modelCost, 'monthly');
   }
 
   /**
@@ -243,11 +330,16 @@ export class BudgetTracker {
     const sessions = e2bSessions.map(e2bSession => {
       // Get full session data which includes cost fields
       const fullSession = this.db.getSessionById(e2bSession.id);
+      const costs = this.db.getSessionCosts(e2bSession.id);
       return {
         sessionId: e2bSession.id,
         sandboxId: e2bSession.sandbox_id,
         budgetLimit: fullSession?.budget_limit ?? undefined,
         costEstimate: fullSession?.cost_estimate ?? undefined,
+        computeCost: costs?.computeCost,
+        modelCost: costs?.modelCost,
+        inputTokens: costs?.usage?.inputTokens,
+        outputTokens: costs?.usage?.outputTokens,
         status: e2bSession.status ?? undefined,
         createdAt: e2bSession.created_at
       };
@@ -257,6 +349,7 @@ export class BudgetTracker {
     const totalSpent = periodRecord.spent;
     const limit = period === 'monthly' ? budgetConfig.monthlyLimit : undefined;
     const remaining = limit !== undefined ? limit - totalSpent : undefined;
+    const breakdown = this.db.getCostBreakdownSince(periodRecord.periodStart);
 
     return {
       currentPeriod: {
@@ -264,6 +357,8 @@ export class BudgetTracker {
         start: periodRecord.periodStart,
         limit,
         spent: totalSpent,
+        computeSpent: breakdown.computeCost,
+        modelSpent: breakdown.modelCost,
         remaining
       },
       sessions,
@@ -272,6 +367,34 @@ export class BudgetTracker {
     };
   }
 
+  /**
+   * Generate a report of recorded spend per repo, template, git user or day
+   *
+   * @param period - Budget period type (default: monthly)
+   * @param groupBy - Dimension to group by (default: repo)
+   * @param date - Date within the period to report on (default: now)
+   * @returns Budget report
+   */
+  generateBudgetReport(
+    period: BudgetPeriod = 'monthly',
+    groupBy: BudgetReportGroupBy = 'repo',
+    date: Date = new Date()
+  ): BudgetReport {
+    const start = this.getPeriodStart(period, date);
+    const end = this.getPeriodEnd(period, date);
+    const groups = this.db.getCostReport(start, end, groupBy);
+
+    return {
+      period,
+      start,
+      end,
+      groupBy,
+      groups,
+      totalSessions: groups.reduce((sum, group) => sum + group.sessions, 0),
+      totalCost: groups.reduce((sum, group) => sum + group.totalCost, 0)
+    };
+  }
+
   /**
    * Get warning thresholds from config
    *
@@ -0,0 +1,196 @@
+/**
+ * Claim path patterns for parallel-cc file claims
+ *
+ * A claim's file_path is one of:
+ * - A file path (`src/app.ts`) - claims exactly that file
+ * - A directory path with a trailing slash (`src/auth/`) - claims everything below it
+ * - A glob pattern (`src/auth/**`, `src/*.ts`, `src/**\/*.{ts,tsx}`) - claims matching paths
+ *
+ * Glob syntax: `*` and `?` match within one path segment, `**` matches any
+ * number of segments, `[abc]` / `[!abc]` match one character from a set and
+ * `{a,b}` matches either alternative.
+ */
+
+import { posix } from 'path';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Characters that make a path segment a glob pattern
+ */
+const GLOB_CHARS = /[*?[\]{}]/;
+
+/**
+ * Characters that match variable text within a segment
+ */
+const WILDCARD_CHARS = /[*?[\]]/;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Expand `{a,b}` alternatives into separate patterns
+ */
+function expandBraces(pattern: string): string[] {
+  const open = pattern.indexOf('{');
+  if (open === -1) {
+    return [pattern];
+  }
+
+  // Find the matching close brace and the top-level commas in between
+  let depth = 0;
+  const commas: number[] = [];
+  for (let i = open; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        const prefix = pattern.substring(0, open);
+        const suffix = pattern.substring(i + 1);
+        const bounds = [open, ...commas, i];
+        return bounds.slice(0, -1).flatMap((start, index) =>
+          expandBraces(prefix + pattern.substring(start + 1, bounds[index + 1]) + suffix)
+        );
+      }
+    } else if (char === ',' && depth === 1) {
+      commas.push(i);
+    }
+  }
+
+  // Unbalanced brace: treat it literally
+  return [pattern];
+}
+
+/**
+ * Split a claim path into segments; a directory claim ends in `**`
+ */
+function toSegments(claimPath: string): string[] {
+  const segments = claimPath.split('/').filter(segment => segment !== '' && segment !== '.');
+  return claimPath.endsWith('/') ? [...segments, '**'] : segments;
+}
+
+/**
+ * Convert one glob segment to a regular expression
+ */
+function segmentToRegExp(segment: string): RegExp {
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const close = segment.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      const set = segment.substring(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${set}]`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether two segments can match the same name
+ *
+ * Exact when either segment is literal. For two wildcard segments only the
+ * literal text before the first and after the last wildcard is compared, so
+ * the result errs towards reporting an overlap.
+ */
+function segmentsIntersect(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (!WILDCARD_CHARS.test(a)) return segmentToRegExp(b).test(a);
+  if (!WILDCARD_CHARS.test(b)) return segmentToRegExp(a).test(b);
+
+  const prefix = (segment: string) => segment.substring(0, segment.search(WILDCARD_CHARS));
+  const suffix = (segment: string) => {
+    const last = Math.max(segment.lastIndexOf('*'), segment.lastIndexOf('?'), segment.lastIndexOf(']'));
+    return segment.substring(last + 1);
+  };
+  const [prefixA, prefixB] = [prefix(a), prefix(b)];
+  const [suffixA, suffixB] = [suffix(a), suffix(b)];
+  return (prefixA.startsWith(prefixB) || prefixB.startsWith(prefixA)) &&
+    (suffixA.endsWith(suffixB) || suffixB.endsWith(suffixA));
+}
+
+/**
+ * Whether two segment lists can match the same path
+ */
+function segmentListsOverlap(a: string[], b: string[], i = 0, j = 0): boolean {
+  if (i === a.length && j === b.length) {
+    return true;
+  }
+  if (i < a.length && a[i] === '**') {
+    return segmentListsOverlap(a, b, i + 1, j) || (j < b.length && segmentListsOverlap(a, b, i, j + 1));
+  }
+  if (j < b.length && b[j] === '**') {
+    return segmentListsOverlap(a, b, i, j + 1) || (i < a.length && segmentListsOverlap(a, b, i + 1, j));
+  }
+  if (i === a.length || j === b.length) {
+    return false;
+  }
+  return segmentsIntersect(a[i], b[j]) && segmentListsOverlap(a, b, i + 1, j + 1);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Whether a claim path covers more than one file (directory or glob)
+ */
+export function isClaimPattern(claimPath: string): boolean {
+  return claimPath.endsWith('/') || GLOB_CHARS.test(claimPath);
+}
+
+/**
+ * Normalize a claim path to the form stored in file_claims
+ *
+ * Uses forward slashes, drops `./` segments and keeps a trailing slash that
+ * marks a directory claim.
+ *
+ * @param claimPath - File path, directory path or glob pattern (relative to the repo)
+ * @returns Normalized claim path
+ */
+export function normalizeClaimPath(claimPath: string): string {
+  const normalized = posix.normalize(claimPath.replace(/\\/g, '/'));
+  return normalized.startsWith('./') ? normalized.substring(2) : normalized;
+}
+
+/**
+ * Whether two claim paths can refer to the same file
+ *
+ * Works for any mix of file paths, directories and globs, so a requested
+ * file is matched against pattern claims and a requested pattern against
+ * file claims inside it.
+ *
+ * @param a - Claim path
+ * @param b - Claim path
+ * @returns true if some file could be covered by both
+ */
+export function claimPathsOverlap(a: string, b: string): boolean {
+  const normalizedA = normalizeClaimPath(a);
+  const normalizedB = normalizeClaimPath(b);
+  if (normalizedA === normalizedB) {
+    return true;
+  }
+  if (!isClaimPattern(normalizedA) && !isClaimPattern(normalizedB)) {
+    return false;
+  }
+  return expandBraces(normalizedA).some(patternA =>
+    expandBraces(normalizedB).some(patternB =>
+      segmentListsOverlap(toSegments(patternA), toSegments(patternB))
+    )
+  );
+}
@@ -3,13 +3,16 @@
  * parallel-cc CLI - Coordinate parallel Claude Code sessions
  */
 
-import { program } from 'commander';
+import { program, type Command } from 'commander';
 import chalk from 'chalk';
 import { execSync, spawnSync } from 'child_process';
 import * as readline from 'readline';
 import { Coordinator } from './coordinator.js';
 import { GtrWrapper } from './gtr.js';
-import { MergeDetector } from './merge-detector.js';
+import { MergeDetector, isAutoRebaseEnabled, setAutoRebaseEnabled } from './merge-detector.js';
+import { OverlapWatcher, sendDesktopNotification } from './overlap-watcher.js';
+import { FileClaimsManager } from './file-claims.js';
+import { isClaimPattern } from './claim-patterns.js';
 import { SessionDB } from './db.js';
 import { DEFAULT_CONFIG } from './types.js';
 import {
@@ -25,25 +28,34 @@ import {
   uninstallMcpServer,
   checkMcpStatus,
   installWrapperScript,
+  installGitHooks,
+  uninstallGitHooks,
+  installMergeHooks,
+  uninstallMergeHooks,
   type InstallHooksOptions
 } from './hooks-installer.js';
 import { startMcpServer } from './mcp/index.js';
 import { SandboxManager } from './e2b/sandbox-manager.js';
-import { createTarball, uploadToSandbox, downloadChangedFiles, scanForCredentials } from './e2b/file-sync.js';
-import { executeClaudeInSandbox } from './e2b/claude-runner.js';
+import { createSandboxProvider, SANDBOX_PROVIDER_NAMES, type SandboxProvider } from './e2b/sandbox-provider.js';
+import { createTarball, uploadToSandbox, uploadIncremental, recordUploadManifest, downloadChangedFiles, downloadCommitHistory, scanForCredentials, type HistoryDownloadFormat } from './e2b/file-sync.js';
+import { executeClaudeInSandbox, resolveGitIdentity } from './e2b/claude-runner.js';
+import { getModelCost } from './e2b/claude-usage.js';
+import { MAX_REPAIR_ROUNDS } from './e2b/verification.js';
 import { pushToRemoteAndCreatePR } from './e2b/git-live.js';
 import { validateSSHKeyPath, injectSSHKey, cleanupSSHKey, getSecurityWarning } from './e2b/ssh-key-injector.js';
 import { TemplateManager, validateTemplateName, validateTemplate } from './e2b/templates.js';
-import { ParallelExecutor } from './e2b/parallel-executor.js';
+import { ParallelExecutor, cancelParallelBatch, getBatchTaskDuration } from './e2b/parallel-executor.js';
+import { ResultIntegrator } from './e2b/result-integrator.js';
+import { normalizeTasks, parseTaskFile } from './e2b/task-graph.js';
 import { ConfigManager, DEFAULT_CONFIG_PATH } from './config.js';
 import { BudgetTracker } from './budget-tracker.js';
 import { logger } from './logger.js';
 import * as fs from 'fs/promises';
-import { existsSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { randomUUID } from 'crypto';
-import { SandboxStatus, type BudgetConfig, type E2BSession, type StatusResult, type SessionInfo, type ParallelProgressUpdate } from './types.js';
+import { SandboxStatus, type BudgetConfig, type E2BSession, type StatusResult, type SessionInfo, type ParallelProgressUpdate, type ParallelProgressCallback, type ParallelTaskDefinition, type ParallelExecutionResult, type IntegrationResult, type ParallelBatchStatus, type TaskFailureKind, type BudgetPeriod, type BudgetReportGroupBy, type WorktreeOverlap, type WorktreeConfig } from './types.js';
 import { showDeprecationWarning, DEPRECATED_COMMANDS } from './cli-deprecation.js';
 
 program
@@ -76,17 +88,23 @@ program
   .description('Register a Claude Code session (called by SessionStart hook)')
   .requiredOption('--repo <path>', 'Repository path')
   .requiredOption('--pid <number>', 'Process ID', parseInt)
+  .option('--name <name>', 'Human-readable session name, used for the worktree and accepted in place of the session ID')
   .option('--json', 'Output as JSON')
   .action(async (options) => {
-    const coordinator = new Coordinator();
+    const worktreeConfig = new ConfigManager().getWorktreeConfig();
+    const coordinator = new Coordinator({
+      worktreeBaseRef: worktreeConfig.baseRef,
+      branchTemplate: worktreeConfig.branchTemplate
+    });
     try {
-      const result = await coordinator.register(options.repo, options.pid);
+      const result = await coordinator.register(options.repo, options.pid, { name: options.name });
 
       if (options.json) {
         console.log(JSON.stringify(result));
       } else {
+        const label = result.name ? ` "${result.name}"` : '';
         if (result.isMainRepo) {
-          console.log(chalk.green('✓ Registered in main repository'));
+          console.log(chalk.green(`✓ Registered${label} in main repository`));
         } else {
           console.log(chalk.blue(`✓ Created worktree: ${result.worktreeName}`));
           console.log(chalk.dim(`  Path: ${result.worktreePath}`));
@@ -204,6 +222,7 @@ program
 
           return {
             sessionId: e2b.id,
+            name: e2b.name ?? null,
             pid: e2b.pid,
             worktreePath: e2b.worktree_path,
             worktreeName: e2b.worktree_name,
@@ -242,7 +261,9 @@ program
               ? chalk.dim('(main)')
               : chalk.blue(`(${session.worktreeName})`);
 
-            console.log(`\n  ${status} PID ${session.pid} ${location}`);
+            const label = session.name ? `${chalk.bold(session.name)} · ` : '';
+
+            console.log(`\n  ${status} ${label}PID ${session.pid} ${location}`);
             console.log(chalk.dim(`    Path: ${session.worktreePath}`));
             console.log(chalk.dim(`    Duration: ${session.durationMinutes}m`));
             console.log(chalk.dim(`    Last heartbeat: ${session.lastHeartbeat}`));
@@ -400,6 +421,11 @@ program
   .option('--hooks', 'Install PostToolUse heartbeat hook for better session tracking')
   .option('--alias', 'Add claude=claude-parallel alias to shell profile')
   .option('--mcp', 'Configure MCP server in Claude Code settings (v0.3)')
+  .option('--git-hooks', 'Install git pre-commit hook that enforces file claims (shared by all worktrees of --repo)')
+  .option('--merge-hooks', 'Install git hooks that run merge detection as soon as branch refs change in --repo')
+  .option('--auto-claim', 'With --hooks: also install PreToolUse hook that claims files before Edit/Write')
+  .option('--claim-mode <mode>', 'With --auto-claim: claim mode to acquire (INTENT or SHARED)', 'INTENT')
+  .option('--warn-only', 'With --git-hooks or --auto-claim: warn about claimed files instead of blocking')
   .option('--all', 'Install everything (hooks globally + alias + MCP)')
   .option('--interactive', 'Interactive mode - prompt for each option')
   .option('--global', 'Install hooks to global settings (~/.claude/settings.json)')
@@ -433,6 +459,15 @@ program
         console.log(`    Local:  ${localStatus}`);
         console.log(chalk.dim(`      Path: ${status.hooks.localPath}`));
 
+        const autoClaimLocations = [
+          status.hooks.globalAutoClaim ? 'global' : null,
+          status.hooks.localAutoClaim ? 'local' : null
+        ].filter(Boolean);
+        const autoClaimStatus = autoClaimLocations.length > 0
+          ? chalk.green(`✓ Installed (${autoClaimLocations.join(', ')})`)
+          : chalk.dim('Not installed');
+        console.log(`    Auto-claim: ${autoClaimStatus}`);
+
         // Alias status
         console.log(chalk.bold('\n  Alias:'));
         const aliasStatus = status.alias.installed
@@ -453,6 +488,23 @@ program
         if (status.mcp?.settingsPath) {
           console.log(chalk.dim(`    Path:   ${status.mcp.settingsPath}`));
         }
+
+        // Git hook status
+        console.log(chalk.bold('\n  Git Pre-commit Hook:'));
+        const gitHookStatus = status.gitHooks?.installed
+          ? chalk.green(`✓ Installed${status.gitHooks.warnOnly ? ' (warn only)' : ''}`)
+          : chalk.dim('Not installed');
+        console.log(`    Status: ${gitHookStatus}`);
+        if (status.gitHooks?.hookPath) {
+          console.log(chalk.dim(`    Path:   ${status.gitHooks.hookPath}`));
+        }
+
+        // Merge detection hooks status
+        console.log(chalk.bold('\n  Git Merge Detection Hooks:'));
+        const mergeHooksStatus = status.mergeHooks?.installed
+          ? chalk.green(`✓ Installed (${status.mergeHooks.hooks.join(', ')})`)
+          : chalk.dim('Not installed');
+        console.log(`    Status: ${mergeHooksStatus}`);
         console.log('');
       }
       return;
@@ -721,6 +773,84 @@ program
       return;
     }
 
+    // Handle --git-hooks flag
+    if (options.gitHooks) {
+      if (options.uninstall) {
+        const result = uninstallGitHooks({ repoPath: options.repo });
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+        } else if (result.success) {
+          console.log(chalk.green('✓ Git pre-commit hook removed'));
+          console.log(chalk.dim(`  From: ${result.hookPath}`));
+        } else {
+          console.error(chalk.red(`✗ Uninstall failed: ${result.error}`));
+          process.exit(1);
+        }
+        return;
+      }
+
+      const result = installGitHooks({ repoPath: options.repo, warnOnly: options.warnOnly });
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else if (result.success) {
+        if (result.alreadyInstalled) {
+          console.log(chalk.green('✓ Git pre-commit hook already installed'));
+        } else {
+          console.log(chalk.green(`✓ Git pre-commit hook installed${options.warnOnly ? ' (warn only)' : ''}`));
+          console.log(chalk.dim('  Commits of files EXCLUSIVE-claimed by other live sessions will be ' +
+            (options.warnOnly ? 'reported' : 'rejected')));
+        }
+        console.log(chalk.dim(`  Path: ${result.hookPath}`));
+        console.log(chalk.dim('  Bypass once: PARALLEL_CC_SKIP_CLAIMS=1 git commit ... (or git commit --no-verify)'));
+      } else {
+        console.error(chalk.red(`✗ Installation failed: ${result.error}`));
+        process.exit(1);
+      }
+      return;
+    }
+
+    // Handle --merge-hooks flag
+    if (options.mergeHooks) {
+      if (options.uninstall) {
+        const result = uninstallMergeHooks({ repoPath: options.repo });
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+        } else if (result.success) {
+          console.log(chalk.green('✓ Git merge detection hooks removed'));
+          for (const hookPath of result.hookPaths) {
+            console.log(chalk.dim(`  From: ${hookPath}`));
+          }
+        } else {
+          console.error(chalk.red(`✗ Uninstall failed: ${result.error}`));
+          process.exit(1);
+        }
+        return;
+      }
+
+      const result = installMergeHooks({ repoPath: options.repo });
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else if (result.success) {
+        if (result.alreadyInstalled) {
+          console.log(chalk.green('✓ Git merge detection hooks already installed'));
+        } else {
+          console.log(chalk.green('✓ Git merge detection hooks installed'));
+          console.log(chalk.dim('  Merge subscriptions are checked as soon as branch refs change'));
+        }
+        for (const hookPath of result.hookPaths) {
+          console.log(chalk.dim(`  Path: ${hookPath}`));
+        }
+      } else {
+        console.error(chalk.red(`✗ Installation failed: ${result.error}`));
+        process.exit(1);
+      }
+      return;
+    }
+
     // Handle --hooks flag
     if (options.hooks) {
       // Uninstall mode
@@ -768,12 +898,19 @@ program
         }
       }
 
+      if (options.autoClaim && !['INTENT', 'SHARED'].includes(options.claimMode)) {
+        console.error(chalk.red(`✗ Invalid --claim-mode: ${options.claimMode} (expected INTENT or SHARED)`));
+        process.exit(1);
+      }
+
       // Install hooks
       const installOptions: InstallHooksOptions = {
         global: installGlobal,
         local: installLocal,
         repoPath: options.repo,
-        addToGitignore: options.gitignore && installLocal
+        addToGitignore: options.gitignore && installLocal,
+        autoClaim: options.autoClaim,
+        autoClaimOptions: { mode: options.claimMode, warnOnly: options.warnOnly }
       };
 
       const result = installHooks(installOptions);
@@ -789,6 +926,10 @@ program
           console.log(chalk.green('✓ Hooks installed (merged with existing settings)'));
         }
         console.log(chalk.dim(`  Path: ${result.settingsPath}`));
+        if (options.autoClaim) {
+          console.log(chalk.dim(`  Auto-claim: ${options.claimMode} claim before Edit/Write; EXCLUSIVE claims of other sessions ` +
+            (options.warnOnly ? 'produce a warning' : 'block the edit')));
+        }
 
         if (result.gitignoreUpdated) {
           console.log(chalk.dim('  Added .claude/ to .gitignore'));
@@ -808,8 +949,11 @@ program
     console.log('  parallel-cc install --interactive     # Prompted installation');
     console.log('  parallel-cc install --hooks           # Install hooks (interactive)');
     console.log('  parallel-cc install --hooks --global  # Install hooks globally');
+    console.log('  parallel-cc install --hooks --global --auto-claim  # Also claim files before edits');
     console.log('  parallel-cc install --alias           # Install shell alias');
     console.log('  parallel-cc install --mcp             # Configure MCP server');
+    console.log('  parallel-cc install --git-hooks       # Enforce file claims on commit');
+    console.log('  parallel-cc install --merge-hooks     # Detect merges when refs change');
     console.log('  parallel-cc install --status          # Check status');
     console.log('');
   });
@@ -862,7 +1006,7 @@ program
 /**
  * Shared handler for watch-merges functionality
  */
-async function handleWatchMerges(options: { interval: string; once?: boolean; json?: boolean }) {
+async function handleWatchMerges(options: { interval: string; once?: boolean; watchRefs?: boolean; json?: boolean }) {
   const db = new SessionDB();
   const pollInterval = parseInt(options.interval, 10);
 
@@ -872,7 +1016,9 @@ async function handleWatchMerges(options: { interval: string; once?: boolean; js
   }
 
   const detector = new MergeDetector(db, {
-    pollIntervalSeconds: pollInterval
+    pollIntervalSeconds: pollInterval,
+    watchRefs: options.watchRefs !== false,
+    fetchRemote: true
   });
 
   try {
@@ -900,6 +1046,18 @@ async function handleWatchMerges(options: { interval: string; once?: boolean; js
           }
         }
 
+        if (result.autoRebases && result.autoRebases.length > 0) {
+          console.log(chalk.bold('\nAuto-rebased Worktrees:'));
+          for (const rebase of result.autoRebases) {
+            const icon = rebase.status === 'rebased' ? chalk.green('✓') : chalk.yellow('○');
+            console.log(`  ${icon} ${rebase.branch}: ${rebase.status.replace('_', ' ')}`);
+            console.log(chalk.dim(`    Worktree: ${rebase.worktreePath}`));
+            if (rebase.conflictingFiles) {
+              console.log(chalk.dim(`    Would conflict: ${rebase.conflictingFiles.join(', ')}`));
+            }
+          }
+        }
+
         if (result.errors.length > 0) {
           console.log(chalk.bold('\nErrors:'));
           for (const err of result.errors) {
@@ -912,6 +1070,9 @@ async function handleWatchMerges(options: { interval: string; once?: boolean; js
       // Continuous polling daemon
       console.log(chalk.bold('\nStarting merge detection daemon...\n'));
       console.log(chalk.dim(`  Poll interval: ${pollInterval} seconds`));
+      if (options.watchRefs !== false) {
+        console.log(chalk.dim('  Watching refs of subscribed repositories for immediate checks'));
+      }
       console.log(chalk.dim('  Press Ctrl+C to stop\n'));
 
       // Handle graceful shutdown
@@ -945,10 +1106,131 @@ async function handleWatchMerges(options: { interval: string; once?: boolean; js
   }
 }
 
+/**
+ * Describe which worktrees modify an overlapping file
+ */
+function describeOverlap(overlap: WorktreeOverlap): string {
+  const worktrees = overlap.sessions
+    .map(s => `${s.worktreeName ?? 'main repo'} (pid ${s.pid})`)
+    .join(', ');
+  return `${overlap.filePath} modified in ${overlap.sessions.length} worktrees: ${worktrees}`;
+}
+
+/**
+ * Handler for watching overlapping changes between active worktrees
+ */
+async function handleWatchOverlaps(options: { interval: string; once?: boolean; repo?: string; notify?: boolean; json?: boolean }) {
+  const db = new SessionDB();
+  const pollInterval = parseInt(options.interval, 10);
+
+  if (isNaN(pollInterval) || pollInterval < 5) {
+    console.error(chalk.red('Poll interval must be at least 5 seconds'));
+    process.exit(1);
+  }
+
+  const repoPath = options.repo ? path.resolve(options.repo) : undefined;
+  const watcher = new OverlapWatcher(db, {
+    pollIntervalSeconds: pollInterval,
+    onNewOverlap: options.once ? undefined : (overlap) => {
+      const message = describeOverlap(overlap);
+      if (options.json) {
+        console.log(JSON.stringify({ event: 'overlap', detectedAt: new Date().toISOString(), ...overlap }));
+      } else {
+        // Terminal bell draws attention to the watcher's terminal
+        console.log(`\x07${chalk.yellow('⚠')} ${chalk.dim(new Date().toLocaleTimeString())} ${message}`);
+        console.log(chalk.dim(`    Repo: ${overlap.repoPath}`));
+      }
+      if (options.notify) {
+        sendDesktopNotification('parallel-cc: overlapping edits', message);
+      }
+    }
+  });
+
+  try {
+    if (options.once) {
+      const result = await watcher.pollForOverlaps(repoPath);
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(chalk.bold('\nOverlapping Changes Between Worktrees\n'));
+        console.log(`Repositories checked: ${result.reposChecked}`);
+
+        if (result.overlaps.length === 0) {
+          console.log(chalk.green('✓ No files are modified in more than one worktree'));
+        } else {
+          for (const overlap of result.overlaps) {
+            console.log(`  ${chalk.yellow('●')} ${describeOverlap(overlap)}`);
+            console.log(chalk.dim(`    Repo: ${overlap.repoPath}`));
+          }
+        }
+
+        if (result.errors.length > 0) {
+          console.log(chalk.bold('\nErrors:'));
+          for (const err of result.errors) {
+            console.log(chalk.red(`  ✗ ${err}`));
+          }
+        }
+        console.log('');
+      }
+      db.close();
+    } else {
+      // Continuous polling daemon
+      if (!options.json) {
+        console.log(chalk.bold('\nWatching active worktrees for overlapping changes...\n'));
+        console.log(chalk.dim(`  Poll interval: ${pollInterval} seconds`));
+        console.log(chalk.dim('  Press Ctrl+C to stop\n'));
+      }
+
+      process.on('SIGINT', () => {
+        if (!options.json) {
+          console.log(chalk.yellow('\nStopping overlap watcher...'));
+        }
+        watcher.stopPolling();
+        db.close();
+        process.exit(0);
+      });
+
+      process.on('SIGTERM', () => {
+        watcher.stopPolling();
+        db.close();
+        process.exit(0);
+      });
+
+      watcher.startPolling();
+
+      // Keep process alive
+      await new Promise(() => {}); // Never resolves, runs until signal
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: errorMessage }));
+    } else {
+      console.error(chalk.red(`✗ Overlap detection failed: ${errorMessage}`));
+    }
+    db.close();
+    process.exit(1);
+  }
+}
+
 const watchCmd = program
   .command('watch')
   .description('Watch and monitoring operations');
 
+/**
+ * Watch for files modified in more than one active worktree
+ */
+watchCmd
+  .command('overlaps')
+  .description('Watch active worktrees (including uncommitted changes) for files modified in more than one of them')
+  .option('--interval <seconds>', 'Poll interval in seconds', '30')
+  .option('--once', 'Run a single check and exit')
+  .option('--repo <path>', 'Only check this repository')
+  .option('--notify', 'Also send desktop notifications for new overlaps')
+  .option('--json', 'Output as JSON')
+  .action(handleWatchOverlaps);
+
 /**
  * Watch for merged branches (v0.4)
  */
@@ -957,6 +1239,7 @@ watchCmd
   .description('Start merge detection daemon to monitor for merged branches (v0.4)')
   .option('--interval <seconds>', 'Poll interval in seconds', '60')
   .option('--once', 'Run a single poll iteration and exit')
+  .option('--no-watch-refs', 'Only poll; do not watch refs/ and packed-refs for changes')
   .option('--json', 'Output as JSON')
   .action(handleWatchMerges);
 
@@ -1009,7 +1292,7 @@ function handleMergeStatus(options: { repo?: string; branch?: string; limit: str
           console.log(chalk.dim('  No active subscriptions'));
         } else {
           for (const sub of filtered) {
-            console.log(`\n  ${chalk.blue('●')} ${sub.branch_name} → ${sub.target_branch}`);
+            console.log(`\n  ${chalk.blue('●')} ${sub.branch_name} → ${sub.target_branch}${sub.auto_rebase ? chalk.dim(' (auto-rebase)') : ''}`);
             console.log(chalk.dim(`    Session: ${sub.session_id}`));
             console.log(chalk.dim(`    Repo: ${sub.repo_path}`));
             console.log(chalk.dim(`    Created: ${sub.created_at}`));
@@ -1044,7 +1327,7 @@ function handleMergeStatus(options: { repo?: string; branch?: string; limit: str
               : chalk.yellow('○');
             console.log(`\n  ${status} ${event.branch_name} → ${event.target_branch}`);
             console.log(chalk.dim(`    Repo: ${event.repo_path}`));
-            console.log(chalk.dim(`    Merged: ${event.merged_at}`));
+            console.log(chalk.dim(`    Merged: ${event.merged_at}${event.merge_style ? ` (${event.merge_style})` : ''}`));
             console.log(chalk.dim(`    Detected: ${event.detected_at}`));
             console.log(chalk.dim(`    Source commit: ${event.source_commit.substring(0, 8)}`));
           }
@@ -1082,6 +1365,89 @@ mergeCmd
   .option('--json', 'Output as JSON')
   .action(handleMergeStatus);
 
+/**
+ * Check merge subscriptions affected by changed refs (run by the merge git hooks)
+ */
+mergeCmd
+  .command('check [refs...]')
+  .description('Check merge subscriptions for changed branch refs now (all subscriptions of the repo if no refs given)')
+  .option('--repo <path>', 'Repository or worktree path', process.cwd())
+  .option('--json', 'Output as JSON')
+  .action(async (refs: string[], options: { repo: string; json?: boolean }) => {
+    const db = new SessionDB();
+    try {
+      const detector = new MergeDetector(db);
+      const result = await detector.checkChangedRefs(path.resolve(options.repo), refs);
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(`Subscriptions checked: ${result.subscriptionsChecked}`);
+        console.log(`New merges detected: ${result.newMerges.length}`);
+        for (const merge of result.newMerges) {
+          console.log(`  ${chalk.green('●')} ${merge.branch_name} → ${merge.target_branch}`);
+        }
+        for (const err of result.errors) {
+          console.log(chalk.red(`  ✗ ${err}`));
+        }
+      }
+
+      if (result.errors.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: errorMessage }));
+      } else {
+        console.error(chalk.red(`✗ Merge check failed: ${errorMessage}`));
+      }
+      process.exitCode = 1;
+    } finally {
+      db.close();
+    }
+  });
+
+/**
+ * Repo-wide auto-rebase policy: rebase clean worktrees onto the target after merges
+ */
+mergeCmd
+  .command('auto-rebase [state]')
+  .description('Show or set (on/off) automatic rebasing of all clean worktrees of the repo after a detected merge')
+  .option('--repo <path>', 'Repository path', process.cwd())
+  .option('--json', 'Output as JSON')
+  .action((state: string | undefined, options: { repo: string; json?: boolean }) => {
+    const repoPath = path.resolve(options.repo);
+    try {
+      if (state !== undefined) {
+        if (state !== 'on' && state !== 'off') {
+          throw new Error(`Invalid state "${state}" (expected on or off)`);
+        }
+        setAutoRebaseEnabled(repoPath, state === 'on');
+      }
+
+      const enabled = isAutoRebaseEnabled(repoPath);
+      if (options.json) {
+        console.log(JSON.stringify({ success: true, repoPath, autoRebase: enabled }));
+      } else {
+        console.log(enabled
+          ? chalk.green(`✓ Auto-rebase after merges is on for ${repoPath}`)
+          : chalk.dim(`Auto-rebase after merges is off for ${repoPath}`));
+        if (enabled) {
+          console.log(chalk.dim('  Clean worktrees are rebased onto the target branch unless conflicts are predicted'));
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: errorMessage }));
+      } else {
+        console.error(chalk.red(`✗ Failed to update auto-rebase: ${errorMessage}`));
+      }
+      process.exit(1);
+    }
+  });
+
 /**
  * DEPRECATED: Use 'merge status' instead
  */
@@ -1263,21 +1629,21 @@ program
 /**
  * List active file claims (v0.5)
  */
-program
+const claimsCmd = program
   .command('claims')
-  .description('List active file claims - shows EXCLUSIVE/SHARED/INTENT locks on files (v0.5)')
+  .description('List active file claims - shows EXCLUSIVE/SHARED/INTENT locks on files, directories and patterns (v0.5)')
   .option('--repo <path>', 'Filter by repository path')
-  .option('--session <id>', 'Filter by session ID')
-  .option('--file <path>', 'Filter by file path')
+  .option('--session <id>', 'Filter by session ID or name')
+  .option('--file <path>', 'Filter by file path, directory or glob pattern (includes overlapping pattern claims)')
   .option('--json', 'Output as JSON')
   .action((options) => {
     const coordinator = new Coordinator();
     try {
-      const claims = coordinator['db'].listClaims({
-        repo_path: options.repo,
-        session_id: options.session,
-        file_path: options.file,
-        is_active: true
+      const db = coordinator.getDB();
+      const claims = new FileClaimsManager(db).listClaims({
+        repoPath: options.repo,
+        sessionId: options.session ? db.resolveSession(options.session)?.id ?? options.session : undefined,
+        filePaths: options.file ? [options.file] : undefined
       });
 
       if (options.json) {
@@ -1295,9 +1661,12 @@ program
               ? chalk.yellow
               : chalk.blue;
 
-            console.log(`  ${modeColor('●')} ${claim.file_path}`);
+            const pattern = isClaimPattern(claim.file_path) ? chalk.dim(' (pattern)') : '';
+            console.log(`  ${modeColor('●')} ${claim.file_path}${pattern}`);
             console.log(chalk.dim(`    Mode: ${claim.claim_mode}`));
-            console.log(chalk.dim(`    Session: ${claim.session_id.substring(0, 8)}...`));
+            const session = db.getSessionById(claim.session_id);
+            console.log(chalk.dim(`    Session: ${claim.session_id.substring(0, 8)}...` +
+              (session?.name ? ` (${session.name})` : '')));
             console.log(chalk.dim(`    Claimed: ${claim.claimed_at}`));
             console.log(chalk.dim(`    Expires: ${claim.expires_at}`));
             if (claim.metadata) {
@@ -1321,46 +1690,242 @@ program
   });
 
 /**
- * View conflict resolution history (v0.5)
+ * Claude Code PreToolUse hook input (fields used by auto-claim)
  */
-program
-  .command('conflicts')
-  .description('View conflict resolution history - tracks semantic, structural, and concurrent edit conflicts (v0.5)')
-  .option('--repo <path>', 'Filter by repository path')
-  .option('--file <path>', 'Filter by file path')
-  .option('--type <type>', 'Filter by conflict type (TRIVIAL, CONCURRENT_EDIT, STRUCTURAL, SEMANTIC)')
-  .option('--resolved', 'Show only resolved conflicts')
-  .option('--limit <n>', 'Limit number of results', '20')
-  .option('--json', 'Output as JSON')
-  .action((options) => {
-    const coordinator = new Coordinator();
+interface PreToolUseHookInput {
+  tool_name?: string;
+  tool_input?: {
+    file_path?: string;
+    notebook_path?: string;
+  };
+}
+
+/**
+ * Claim the file of an Edit/Write tool call - called by the PreToolUse hook
+ *
+ * Exits with code 2 to block the edit (Claude Code shows stderr to Claude).
+ */
+claimsCmd
+  .command('auto')
+  .description('Claim the file of an Edit/Write tool call read from stdin (called by PreToolUse hook)')
+  .option('--mode <mode>', 'Claim mode to acquire (INTENT or SHARED)', 'INTENT')
+  .option('--warn', 'Warn about EXCLUSIVE claims of other sessions instead of blocking the edit')
+  .action(async (options) => {
+    let coordinator: Coordinator | undefined;
     try {
-      const limit = parseInt(options.limit, 10) || 20;
+      const input = process.stdin.isTTY ? '' : readFileSync(0, 'utf-8');
+      const payload = (input.trim() ? JSON.parse(input) : {}) as PreToolUseHookInput;
+      const filePath = payload.tool_input?.file_path ?? payload.tool_input?.notebook_path;
+      if (!filePath) {
+        return;
+      }
 
-      let resolutions = coordinator['db'].getConflictResolutions({
-        repo_path: options.repo,
-        file_path: options.file,
-        conflict_type: options.type as any,
-        is_resolved: options.resolved ? true : undefined
+      coordinator = new Coordinator();
+      const db = coordinator.getDB();
+      const session = process.env.PARALLEL_CC_SESSION_ID
+        ? db.getSessionById(process.env.PARALLEL_CC_SESSION_ID)
+        : db.getSessionByPid(process.ppid);
+      if (!session) {
+        // Not a parallel-cc managed session
+        return;
+      }
+
+      const result = await new FileClaimsManager(db).autoClaim({
+        sessionId: session.id,
+        filePath,
+        mode: options.mode === 'SHARED' ? 'SHARED' : 'INTENT'
       });
+      if (result.status !== 'blocked') {
+        return;
+      }
 
-      // Apply limit
-      resolutions = resolutions.slice(0, limit);
+      const holders = result.violations.map(({ claim }) => {
+        const holder = db.getSessionById(claim.session_id);
+        const where = holder
+          ? ` (${holder.name ? `"${holder.name}", ` : ''}pid ${holder.pid}, ${holder.worktree_path})`
+          : '';
+        const via = claim.file_path !== result.filePath ? ` via claim on ${claim.file_path}` : '';
+        const reason = claim.metadata?.reason ? `, reason: ${String(claim.metadata.reason)}` : '';
+        return `session ${claim.session_id}${where}${via}${reason}`;
+      });
+      const message = `${result.filePath} is EXCLUSIVE-claimed by ${holders.join('; ')}`;
 
-      if (options.json) {
-        console.log(JSON.stringify({ resolutions, total: resolutions.length }, null, 2));
-      } else {
-        if (resolutions.length === 0) {
-          console.log(chalk.dim('\nNo conflict resolutions found\n'));
-        } else {
-          console.log(chalk.bold(`\nConflict Resolution History: ${resolutions.length}\n`));
+      if (options.warn) {
+        console.log(JSON.stringify({ systemMessage: `parallel-cc: ${message}` }));
+        return;
+      }
 
-          for (const res of resolutions) {
-            const statusIcon = res.resolved_at ? chalk.green('✓') : chalk.yellow('○');
+      console.error(`parallel-cc: ${message}. Do not edit this file until the claim is released; ` +
+        'use claim_file with wait: true to queue for it.');
+      process.exitCode = 2;
+    } catch (error) {
+      // Never get in the way of an edit because the hook failed
+      logger.warn(`Auto-claim failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      coordinator?.close();
+    }
+  });
 
-            console.log(`  ${statusIcon} ${res.file_path}`);
-            console.log(chalk.dim(`    Type: ${res.conflict_type}`));
-            console.log(chalk.dim(`    Strategy: ${res.resolution_strategy}`));
+/**
+ * Run a git command for claim verification and return its stdout
+ */
+function runGit(cwd: string, args: string[]): string {
+  const result = spawnSync('git', args, { cwd, encoding: 'utf-8' });
+  if (result.status !== 0) {
+    throw new Error(result.stderr?.trim() || `git ${args[0]} failed`);
+  }
+  return result.stdout;
+}
+
+/**
+ * Verify changed files against EXCLUSIVE claims of other sessions - run by the pre-commit hook
+ */
+claimsCmd
+  .command('verify [files...]')
+  .description('Check files against EXCLUSIVE claims held by other live sessions (used by the git pre-commit hook)')
+  .option('--staged', 'Verify files staged for commit')
+  .option('--warn', 'Report claimed files without failing')
+  .option('--session <id>', 'Session ID or name making the change (default: PARALLEL_CC_SESSION_ID or sessions in this worktree)')
+  .option('--json', 'Output as JSON')
+  .action((files: string[], _options, command: Command) => {
+    // --json and --session are also options of `claims`, which parses them first
+    const options = command.optsWithGlobals();
+
+    if (process.env.PARALLEL_CC_SKIP_CLAIMS === '1') {
+      if (!options.json) {
+        console.error(chalk.yellow('⚠ PARALLEL_CC_SKIP_CLAIMS=1 set - skipping file claim check'));
+      }
+      return;
+    }
+
+    const coordinator = new Coordinator();
+    try {
+      const worktreeRoot = runGit(process.cwd(), ['rev-parse', '--show-toplevel']).trim();
+
+      // Changed files relative to the repo root (deletions and both sides of renames included)
+      const filePaths = options.staged
+        ? runGit(worktreeRoot, ['diff', '--cached', '--name-only', '--no-renames', '-z']).split('\0').filter(Boolean)
+        : files.map(file => path.relative(worktreeRoot, path.resolve(file)));
+
+      // Claims may be recorded under the main repo or any of its worktrees
+      const repoPaths = runGit(worktreeRoot, ['worktree', 'list', '--porcelain'])
+        .split('\n')
+        .filter(line => line.startsWith('worktree '))
+        .map(line => line.substring('worktree '.length));
+
+      const db = coordinator.getDB();
+      const sessionId = options.session
+        ? db.resolveSession(options.session)?.id ?? options.session
+        : process.env.PARALLEL_CC_SESSION_ID;
+      const sessionIds = sessionId
+        ? [sessionId]
+        : db.getAllSessions().filter(s => s.worktree_path === worktreeRoot).map(s => s.id);
+
+      const violations = new FileClaimsManager(db).verifyFiles({
+        repoPaths: [worktreeRoot, ...repoPaths],
+        filePaths,
+        sessionIds
+      });
+      const blocked = violations.length > 0 && !options.warn;
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          success: !blocked,
+          files: filePaths.length,
+          violations: violations.map(v => ({
+            filePath: v.filePath,
+            claimPath: v.claim.file_path,
+            claimId: v.claim.id,
+            sessionId: v.claim.session_id,
+            reason: v.claim.metadata?.reason ?? null
+          }))
+        }, null, 2));
+      } else if (violations.length === 0) {
+        console.log(chalk.green(`✓ No ${options.staged ? 'staged ' : ''}files are claimed by other sessions`));
+      } else {
+        const color = blocked ? chalk.red : chalk.yellow;
+        const icon = blocked ? '✗' : '⚠';
+        console.error(color(`${icon} ${violations.length} file claim violation(s):`));
+        for (const { filePath, claim } of violations) {
+          const via = claim.file_path !== filePath ? ` (claim on ${claim.file_path})` : '';
+          const session = db.getSessionById(claim.session_id);
+          console.error(`  ${color('●')} ${filePath}${via}`);
+          console.error(chalk.dim(`    EXCLUSIVE claim held by session ${claim.session_id.substring(0, 8)}...` +
+            (session?.name ? ` (${session.name})` : '') +
+            (session ? ` in ${session.worktree_path}` : '')));
+          if (claim.metadata?.reason) {
+            console.error(chalk.dim(`    Reason: ${String(claim.metadata.reason)}`));
+          }
+        }
+        console.error(chalk.dim('\n  Coordinate with the claim holder, or bypass once with:'));
+        console.error(chalk.dim('    PARALLEL_CC_SKIP_CLAIMS=1 git commit ...   (or git commit --no-verify)'));
+      }
+
+      if (blocked) {
+        process.exit(1);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: errorMessage }));
+      } else {
+        console.error(chalk.red(`✗ Failed to verify claims: ${errorMessage}`));
+      }
+      process.exit(1);
+    } finally {
+      coordinator.close();
+    }
+  });
+
+/**
+ * View conflict resolution history (v0.5)
+ */
+program
+  .command('conflicts')
+  .description('View conflict resolution history - tracks semantic, structural, and concurrent edit conflicts (v0.5)')
+  .option('--repo <path>', 'Filter by repository path')
+  .option('--session <id>', 'Filter by session ID or name')
+  .option('--file <path>', 'Filter by file path')
+  .option('--type <type>', 'Filter by conflict type (TRIVIAL, CONCURRENT_EDIT, STRUCTURAL, SEMANTIC)')
+  .option('--resolved', 'Show only resolved conflicts')
+  .option('--limit <n>', 'Limit number of results', '20')
+  .option('--json', 'Output as JSON')
+  .action((options) => {
+    const coordinator = new Coordinator();
+    try {
+      const limit = parseInt(options.limit, 10) || 20;
+
+      const db = coordinator.getDB();
+      let resolutions = db.getConflictResolutions({
+        session_id: options.session ? db.resolveSession(options.session)?.id ?? options.session : undefined,
+        repo_path: options.repo,
+        file_path: options.file,
+        conflict_type: options.type as any,
+        is_resolved: options.resolved ? true : undefined
+      });
+
+      // Apply limit
+      resolutions = resolutions.slice(0, limit);
+
+      if (options.json) {
+        console.log(JSON.stringify({ resolutions, total: resolutions.length }, null, 2));
+      } else {
+        if (resolutions.length === 0) {
+          console.log(chalk.dim('\nNo conflict resolutions found\n'));
+        } else {
+          console.log(chalk.bold(`\nConflict Resolution History: ${resolutions.length}\n`));
+
+          for (const res of resolutions) {
+            const statusIcon = res.resolved_at ? chalk.green('✓') : chalk.yellow('○');
+
+            console.log(`  ${statusIcon} ${res.file_path}`);
+            console.log(chalk.dim(`    Type: ${res.conflict_type}`));
+            if (res.session_id) {
+              const session = db.getSessionById(res.session_id);
+              console.log(chalk.dim(`    Session: ${res.session_id.substring(0, 8)}...` +
+                (session?.name ? ` (${session.name})` : '')));
+            }
+            console.log(chalk.dim(`    Strategy: ${res.resolution_strategy}`));
             if (res.confidence_score !== undefined && res.confidence_score !== null) {
               const confidencePercent = (res.confidence_score * 100).toFixed(1);
               console.log(chalk.dim(`    Confidence: ${confidencePercent}%`));
@@ -1487,6 +2052,11 @@ interface SandboxRunOptions {
   npmRegistry: string;
   budget?: string;
   json?: boolean;
+  provider?: string;
+  verify?: string[];
+  repairRounds?: string;
+  keepAlive?: string | boolean;
+  downloadMode?: string;
   // Multi-task parallel execution options (v2.1)
   multi?: boolean;
   task?: string[];
@@ -1494,6 +2064,11 @@ interface SandboxRunOptions {
   maxConcurrent?: string;
   failFast?: boolean;
   outputDir?: string;
+  integrate?: string | boolean;
+  integrateThreshold?: string;
+  retries?: string;
+  retryOn?: string;
+  batchBudget?: string;
 }
 
 /**
@@ -1523,6 +2098,36 @@ NPM Authentication (for private packages):
   --npm-token <token>     NPM token (or set PARALLEL_CC_NPM_TOKEN env var)
   --npm-registry <url>    Custom registry (default: registry.npmjs.org)
 
+Sandbox Provider:
+  --provider e2b          E2B cloud sandbox (default, requires E2B_API_KEY)
+  --provider docker       Local Docker container (source stays on this machine)
+  --provider podman       Local Podman container
+  --provider process      Temp directory on this machine (offline testing;
+                          PARALLEL_CC_SANDBOX_BINARIES="claude=/path/fake-claude"
+                          installs hook binaries, PARALLEL_CC_SANDBOX_BWRAP=1
+                          isolates commands with bubblewrap)
+  --template <image>      With docker/podman: container image (default: node:20
+                          or PARALLEL_CC_SANDBOX_IMAGE env var)
+
+Follow-up Prompts:
+  --keep-alive [minutes]  Keep the sandbox running after the run (default: 30
+                          minutes) so "sandbox continue <sessionId>" can send
+                          follow-up prompts to the same Claude conversation
+
+Verification:
+  --verify <command>      Run a command in the sandbox after Claude finishes
+                          (repeatable); any failure fails the run. Overrides
+                          the verify section of --use-template
+  --repair-rounds <n>     Feed verify failures back to Claude up to n times
+                          before giving up (default: 0)
+
+Download Mode:
+  --download-mode files   Copy changed files back (default)
+  --download-mode patch   Apply the sandbox's commits with git am, keeping
+                          history, deletions, renames and binary files
+  --download-mode bundle  Same, transferred as a git bundle and cherry-picked
+                          (with --branch, commits go onto the new branch)
+
 Examples:
   # Default: uncommitted changes, review before committing
   parallel-cc sandbox run --repo . --prompt "Fix bug"
@@ -1533,6 +2138,9 @@ Examples:
   # Custom branch name
   parallel-cc sandbox run --repo . --prompt "Fix #42" --branch feature/issue-42
 
+  # Keep Claude's commits (one local commit per sandbox commit)
+  parallel-cc sandbox run --repo . --prompt "Refactor parser" --download-mode patch --branch auto
+
   # Override git identity for commits
   parallel-cc sandbox run --repo . --prompt "Fix bug" --git-user "CI Bot" --git-email "ci@example.com"
 
@@ -1542,13 +2150,35 @@ Examples:
   # Custom NPM registry
   parallel-cc sandbox run --repo . --prompt "Task" --npm-token "xxx" --npm-registry "https://npm.company.com"
 
+  # Run locally in Docker instead of E2B
+  parallel-cc sandbox run --repo . --prompt "Fix bug" --provider docker
+
+  # Keep the sandbox for follow-up prompts
+  parallel-cc sandbox run --repo . --prompt "Add feature" --keep-alive
+  parallel-cc sandbox continue <sessionId> --prompt "Also handle empty input"
+
+  # Require tests and lint to pass, giving Claude two attempts to fix failures
+  parallel-cc sandbox run --repo . --prompt "Fix bug" --verify "npm test" --verify "npm run lint" --repair-rounds 2
+
 Parallel Execution (v2.1):
   --multi                 Execute multiple tasks in parallel
   --task <text>           Task description (repeatable for multiple tasks)
-  --task-file <path>      File with one task per line
+  --task-file <path>      File with one task per line, or a .json/.yaml/.yml
+                          task list with ids and dependsOn (task graph)
   --max-concurrent <n>    Max parallel sandboxes (default: 3)
   --fail-fast             Stop all tasks on first failure
   --output-dir <path>     Results directory (default: ./parallel-results)
+  --integrate [branch]    Merge successful tasks onto an integration branch
+                          (default: parallel-cc/integration-<batch>)
+  --integrate-threshold <n>
+                          Min confidence (0-1) to auto-apply conflict fixes
+                          during integration (default: 0.8)
+  --retries <n>           Retry failed tasks up to n times with exponential
+                          backoff (default: 0)
+  --retry-on <kinds>      Failure kinds to retry: timeout, infra, task
+                          (default: timeout,infra)
+  --batch-budget <amount> Budget for the whole batch in USD; queued tasks are
+                          cancelled once spend would exceed it (requires --budget)
 
 Examples (parallel):
   # Execute multiple tasks in parallel
@@ -1557,12 +2187,24 @@ Examples (parallel):
   # Load tasks from file
   parallel-cc sandbox run --repo . --multi --task-file tasks.txt --max-concurrent 5
 
+  # Task graph: tasks with ids and dependsOn run after their dependencies
+  parallel-cc sandbox run --repo . --multi --task-file tasks.yaml
+
   # Fail fast mode (stop on first failure)
-  parallel-cc sandbox run --repo . --multi --task "Task 1" --task "Task 2" --fail-fast`)
+  parallel-cc sandbox run --repo . --multi --task "Task 1" --task "Task 2" --fail-fast
+
+  # Merge all task results onto one branch, auto-resolving confident conflicts
+  parallel-cc sandbox run --repo . --multi --task-file tasks.yaml --integrate
+
+  # Retry tasks whose sandbox failed or timed out, up to twice
+  parallel-cc sandbox run --repo . --multi --task-file tasks.yaml --retries 2
+
+  # Stop starting tasks once the batch would cost more than $5
+  parallel-cc sandbox run --repo . --multi --task-file tasks.yaml --budget 1.00 --batch-budget 5.00`)
   .requiredOption('--repo <path>', 'Repository path')
   .option('--prompt <text>', 'Prompt text to execute')
   .option('--prompt-file <path>', 'Path to prompt file (e.g., PLAN.md, .apm/Implementation_Plan.md)')
-  .option('--template <image>', 'E2B sandbox template (default: anthropic-claude-code or E2B_TEMPLATE env var)')
+  .option('--template <image>', 'E2B sandbox template (default: anthropic-claude-code or E2B_TEMPLATE env var), or container image with --provider docker|podman')
   .option('--use-template <name>', 'Use managed template from templates list (runs setup commands and sets environment)')
   .option('--auth-method <method>', 'Authentication method: api-key (ANTHROPIC_API_KEY env var) or oauth (Claude subscription credentials)', 'api-key')
   .option('--dry-run', 'Test upload without execution (useful for verifying workspace)')
@@ -1576,16 +2218,184 @@ Examples (parallel):
   .option('--npm-token <token>', 'NPM authentication token for private packages (or set PARALLEL_CC_NPM_TOKEN env var)')
   .option('--npm-registry <url>', 'Custom NPM registry URL (default: https://registry.npmjs.org)', 'https://registry.npmjs.org')
   .option('--budget <amount>', 'Per-session budget limit in USD (e.g., 0.50 for $0.50)')
+  .option('--provider <name>', `Sandbox provider: ${SANDBOX_PROVIDER_NAMES.join(', ')}`, 'e2b')
   .option('--json', 'Output as JSON')
+  .option('--verify <command...>', 'Command to run in the sandbox after Claude finishes; any failure fails the run (repeatable)')
+  .option('--repair-rounds <n>', 'Feed verify failures back to Claude up to n times before giving up (default: 0)')
+  .option('--keep-alive [minutes]', 'Keep the sandbox running for follow-up prompts with "sandbox continue" (default: 30 minutes)')
+  .option('--download-mode <mode>', 'How results are downloaded: files (changed files), patch or bundle (sandbox commits with history)', 'files')
   // Multi-task parallel execution options (v2.1)
   .option('--multi', 'Execute multiple tasks in parallel')
   .option('--task <text...>', 'Task description (repeatable for multiple tasks)')
-  .option('--task-file <path>', 'File with one task per line')
+  .option('--task-file <path>', 'File with one task per line, or a .json/.yaml task graph with ids and dependsOn')
   .option('--max-concurrent <n>', 'Max parallel sandboxes (default: 3)', '3')
   .option('--fail-fast', 'Stop all tasks on first failure')
   .option('--output-dir <path>', 'Results directory (default: ./parallel-results)', './parallel-results')
+  .option('--integrate [branch]', 'Merge successful tasks onto an integration branch (default: parallel-cc/integration-<batch>)')
+  .option('--integrate-threshold <n>', 'Min confidence (0-1) to auto-apply conflict fixes during integration (default: 0.8)')
+  .option('--retries <n>', 'Retry failed tasks up to n times with exponential backoff (default: 0)')
+  .option('--retry-on <kinds>', 'Comma-separated failure kinds to retry: timeout, infra, task (default: timeout,infra)')
+  .option('--batch-budget <amount>', 'Budget for the whole batch in USD; queued tasks are cancelled once spend would exceed it (requires --budget)')
   .action(handleSandboxRun);
 
+/**
+ * Resolve the sandbox provider selected with --provider
+ *
+ * For local container providers, --template names the container image.
+ * Exits the process with an error if the provider name is unknown.
+ */
+function resolveSandboxProvider(options: SandboxRunOptions): SandboxProvider {
+  try {
+    return createSandboxProvider(options.provider || 'e2b', { image: options.template });
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: errorMsg }));
+    } else {
+      console.error(chalk.red(`✗ ${errorMsg}`));
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Sandbox manager for the provider a sandbox session was started with
+ *
+ * @throws Error if the recorded provider name is not supported
+ */
+function createSessionSandboxManager(session: E2BSession): SandboxManager {
+  const provider = createSandboxProvider(session.sandbox_provider, { image: session.sandbox_image });
+  return new SandboxManager(logger, {}, provider);
+}
+
+/**
+ * Resolve verify commands and repair rounds for a sandbox run
+ *
+ * --verify and --repair-rounds take precedence over the managed template's
+ * verify section.
+ */
+function resolveVerifyOptions(
+  options: Pick<SandboxRunOptions, 'verify' | 'repairRounds'>,
+  template?: import('./types.js').SandboxTemplate | null
+): { commands: string[]; repairRounds: number } | { error: string } {
+  const commands = options.verify && options.verify.length > 0
+    ? options.verify
+    : template?.verify?.commands ?? [];
+  if (commands.some(command => command.trim() === '')) {
+    return { error: 'Verify commands cannot be empty' };
+  }
+
+  const repairRounds = options.repairRounds !== undefined
+    ? Number(options.repairRounds)
+    : template?.verify?.repairRounds ?? 0;
+  if (!Number.isInteger(repairRounds) || repairRounds < 0 || repairRounds > MAX_REPAIR_ROUNDS) {
+    return { error: `Invalid repair rounds: ${options.repairRounds ?? repairRounds}. Must be an integer between 0 and ${MAX_REPAIR_ROUNDS}` };
+  }
+  if (repairRounds > 0 && commands.length === 0) {
+    return { error: '--repair-rounds requires at least one --verify command' };
+  }
+
+  return { commands, repairRounds };
+}
+
+/**
+ * Print the verify command results of a sandbox run
+ */
+function printVerification(verification: import('./types.js').VerificationResult): void {
+  const rounds = verification.repairRounds > 0 ? ` after ${verification.repairRounds} repair round(s)` : '';
+  console.log(verification.passed
+    ? chalk.green(`\n✓ Verification passed${rounds}`)
+    : chalk.red(`\n✗ Verification failed${rounds}`));
+  for (const result of verification.commands) {
+    const mark = result.exitCode === 0 ? chalk.green('✓') : chalk.red('✗');
+    console.log(`  ${mark} ${result.command} ${chalk.dim(`(exit ${result.exitCode}, ${(result.durationMs / 1000).toFixed(1)}s)`)}`);
+    if (result.exitCode !== 0 && result.outputTail) {
+      console.log(chalk.dim(result.outputTail.split('\n').map(line => `      ${line}`).join('\n')));
+    }
+  }
+}
+
+/**
+ * Minutes a sandbox stays up after a run when --keep-alive has no value
+ */
+const DEFAULT_KEEP_ALIVE_MINUTES = 30;
+
+/**
+ * Resolve --keep-alive to the minutes a sandbox stays up after a run
+ *
+ * @returns Minutes (0 when the sandbox is not kept alive) or a validation error
+ */
+function resolveKeepAliveMinutes(keepAlive: string | boolean | undefined): { minutes: number } | { error: string } {
+  if (keepAlive === undefined || keepAlive === false) {
+    return { minutes: 0 };
+  }
+  if (keepAlive === true) {
+    return { minutes: DEFAULT_KEEP_ALIVE_MINUTES };
+  }
+  const minutes = Number(keepAlive);
+  if (!Number.isInteger(minutes) || minutes <= 0) {
+    return { error: `Invalid --keep-alive value: ${keepAlive}. Must be a positive number of minutes` };
+  }
+  return { minutes };
+}
+
+/**
+ * Resolve --download-mode to a commit history format
+ *
+ * @returns Format (undefined for plain file download) or a validation error
+ */
+function resolveDownloadMode(mode: string | undefined): { format?: HistoryDownloadFormat } | { error: string } {
+  if (mode === undefined || mode === 'files') {
+    return {};
+  }
+  if (mode === 'patch' || mode === 'bundle') {
+    return { format: mode };
+  }
+  return { error: `Invalid download mode: ${mode}. Must be files, patch or bundle` };
+}
+
+/**
+ * Branch name for --branch: "auto" derives one from the prompt and time
+ */
+function resolveDownloadBranchName(branch: string, prompt: string): string {
+  if (branch !== 'auto') {
+    return branch;
+  }
+  const slug = prompt
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') // Remove leading/trailing dashes
+    .slice(0, 50);
+  const timestamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-');
+  return `e2b/${slug}-${timestamp}`;
+}
+
+/**
+ * Leave a sandbox running for follow-up prompts
+ *
+ * Extends its timeout so it stops by itself once keepAliveMinutes pass
+ * without a follow-up.
+ */
+async function keepSandboxAlive(
+  sandboxManager: SandboxManager,
+  sandboxId: string,
+  sessionId: string,
+  keepAliveMinutes: number,
+  json?: boolean
+): Promise<void> {
+  const extended = await sandboxManager.extendTimeout(sandboxId, keepAliveMinutes);
+  if (json) {
+    return;
+  }
+  if (extended) {
+    console.log(chalk.cyan(`\nSandbox kept alive for ${keepAliveMinutes} minutes`));
+  } else {
+    console.log(chalk.yellow('\n⚠ Sandbox kept alive, but its timeout could not be extended'));
+  }
+  console.log(chalk.dim(`  Follow up: parallel-cc sandbox continue ${sessionId} --prompt "..."`));
+  console.log(chalk.dim(`  Stop now:  parallel-cc sandbox kill --session-id ${sessionId}`));
+}
+
 /**
  * Shared handler for sandbox-run functionality
  */
@@ -1626,9 +2436,10 @@ async function handleSandboxRun(options: SandboxRunOptions) {
                            options.template ||
                            (process.env.E2B_TEMPLATE?.trim() || '') ||
                            'anthropic-claude-code';
+      const provider = resolveSandboxProvider(options);
       sandboxManager = new SandboxManager(logger, {
         sandboxImage
-      });
+      }, provider);
 
       // Check schema version - E2B features require v1.0.0 migration
       const db = coordinator['db'];
@@ -1666,6 +2477,29 @@ async function handleSandboxRun(options: SandboxRunOptions) {
         process.exit(1);
       }
 
+      // Validate verify commands (--verify overrides the managed template's verify section)
+      const verifyOptions = resolveVerifyOptions(options, managedTemplate);
+      if ('error' in verifyOptions) {
+        console.error(chalk.red(`✗ Error: ${verifyOptions.error}`));
+        process.exit(1);
+      }
+
+      const keepAlive = resolveKeepAliveMinutes(options.keepAlive);
+      if ('error' in keepAlive) {
+        console.error(chalk.red(`✗ Error: ${keepAlive.error}`));
+        process.exit(1);
+      }
+
+      const downloadMode = resolveDownloadMode(options.downloadMode);
+      if ('error' in downloadMode) {
+        console.error(chalk.red(`✗ Error: ${downloadMode.error}`));
+        process.exit(1);
+      }
+      if (downloadMode.format && options.gitLive) {
+        console.error(chalk.red('✗ Error: --download-mode cannot be combined with --git-live (results are pushed, not downloaded)'));
+        process.exit(1);
+      }
+
       // Validate authentication credentials
       if (options.authMethod === 'api-key') {
         if (!process.env.ANTHROPIC_API_KEY) {
@@ -1713,7 +2547,9 @@ async function handleSandboxRun(options: SandboxRunOptions) {
 
       // Validate E2B API key early (fail fast before resource-intensive operations)
       try {
-        SandboxManager.validateApiKey();
+        if (provider.requiresApiKey) {
+          SandboxManager.validateApiKey();
+        }
       } catch (error) {
         if (options.json) {
           console.log(JSON.stringify({
@@ -1806,7 +2642,7 @@ async function handleSandboxRun(options: SandboxRunOptions) {
       const repoPath = path.resolve(options.repo);
 
       if (!options.json) {
-        console.log(chalk.bold('\n🚀 Starting E2B Sandbox Execution\n'));
+        console.log(chalk.bold(`\n🚀 Starting ${provider.displayName} Sandbox Execution\n`));
         console.log(chalk.dim(`Repository: ${repoPath}`));
         console.log(chalk.dim(`Prompt length: ${prompt.length} characters`));
         if (options.dryRun) {
@@ -1898,7 +2734,7 @@ async function handleSandboxRun(options: SandboxRunOptions) {
       try {
         // Step 4: Create sandbox and upload
         if (!options.json) {
-          console.log(chalk.blue('\nStep 4/6: Creating E2B sandbox...'));
+          console.log(chalk.blue(`\nStep 4/6: Creating ${provider.displayName} sandbox...`));
         }
 
         const createResult = await sandboxManager.createSandbox(sessionId);
@@ -2035,7 +2871,9 @@ async function handleSandboxRun(options: SandboxRunOptions) {
         worktree_name: registerResult.worktreeName,
         sandbox_id: sandboxId,
         prompt,
-        status: SandboxStatus.RUNNING
+        status: SandboxStatus.RUNNING,
+        sandbox_provider: options.provider || 'e2b',
+        sandbox_image: options.template
       });
 
       // Step 5: Execute (unless dry-run)
@@ -2100,7 +2938,9 @@ async function handleSandboxRun(options: SandboxRunOptions) {
           oauthCredentials,
           gitUser: options.gitUser,
           gitEmail: options.gitEmail,
-          localRepoPath: repoPath
+          localRepoPath: repoPath,
+          verifyCommands: verifyOptions.commands,
+          repairRounds: verifyOptions.repairRounds
         }
       );
 
@@ -2111,9 +2951,38 @@ async function handleSandboxRun(options: SandboxRunOptions) {
         executionResult.output
       );
 
+      // Record sandbox compute and model cost
+      const computeCost = parseFloat((sandboxManager.getEstimatedCost(sandboxId) ?? '$0').replace('$', '')) || 0;
+      const modelCost = getModelCost(executionResult.usage, options.authMethod as 'api-key' | 'oauth');
+      try {
+        const gitIdentity = await resolveGitIdentity({
+          gitUser: options.gitUser,
+          gitEmail: options.gitEmail,
+          repoPath
+        });
+        new BudgetTracker(db, new ConfigManager()).recordSessionCost(sessionId, computeCost, modelCost, executionResult.usage, {
+          templateName: managedTemplate?.name ?? sandboxImage,
+          gitUser: gitIdentity.source !== 'default' ? gitIdentity.name : undefined
+        });
+      } catch (error) {
+        logger.warn(`Failed to record session cost: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (!options.json && executionResult.usage) {
+        const { inputTokens, outputTokens, turns } = executionResult.usage;
+        console.log(chalk.dim(`\n  Usage: ${turns} turns, ${inputTokens} input / ${outputTokens} output tokens`));
+        console.log(chalk.dim(`  Cost: $${computeCost.toFixed(2)} compute + $${modelCost.toFixed(2)} model`));
+      }
+      if (!options.json && executionResult.verification) {
+        printVerification(executionResult.verification);
+      }
+
       if (!executionResult.success) {
         console.error(chalk.red(`\n✗ Execution failed: ${executionResult.error}`));
-        await sandboxManager.terminateSandbox(sandboxId);
+        if (keepAlive.minutes > 0) {
+          await keepSandboxAlive(sandboxManager, sandboxId, sessionId, keepAlive.minutes, options.json);
+        } else {
+          await sandboxManager.terminateSandbox(sandboxId);
+        }
         process.exit(1);
       }
 
@@ -2124,6 +2993,7 @@ async function handleSandboxRun(options: SandboxRunOptions) {
       // Step 6: Git Live or Download results
       let gitLiveResult;
       let downloadResult;
+      let historyResult: Awaited<ReturnType<typeof downloadCommitHistory>> | undefined;
 
       if (options.gitLive) {
         // Git Live Mode: Push to remote and create PR
@@ -2155,6 +3025,30 @@ async function handleSandboxRun(options: SandboxRunOptions) {
           }
         }
 
+      } else if (downloadMode.format) {
+        // History Download Mode: apply the sandbox's commits
+        if (!options.json) {
+          console.log(chalk.blue(`\nStep 6/6: Downloading commits (${downloadMode.format})...`));
+        }
+
+        historyResult = await downloadCommitHistory(sandbox, '/workspace', worktreePath, {
+          format: downloadMode.format,
+          branch: options.branch ? resolveDownloadBranchName(options.branch, prompt) : undefined
+        });
+
+        if (!historyResult.success) {
+          console.error(chalk.red(`✗ Download failed: ${historyResult.error}`));
+          await sandboxManager.terminateSandbox(sandboxId);
+          process.exit(1);
+        }
+
+        if (!options.json) {
+          console.log(chalk.green(`✓ Applied ${historyResult.commitsApplied} commits${historyResult.branch ? ` to ${historyResult.branch}` : ''}`));
+          console.log(chalk.dim('  Review with: git log, git show'));
+          if (options.branch && historyResult.branch) {
+            console.log(chalk.dim(`\n  Next: git push origin ${historyResult.branch}`));
+          }
+        }
       } else {
         // Default Download Mode
         if (!options.json) {
@@ -2175,27 +3069,16 @@ async function handleSandboxRun(options: SandboxRunOptions) {
         }
       }
 
-      // Create branch and commit if requested (download mode only)
-      if (!options.gitLive && options.branch) {
+      // Create branch and commit if requested (file download mode only;
+      // the history modes applied the sandbox's commits as they are)
+      if (!options.gitLive && options.branch && !downloadMode.format) {
         if (!options.json) {
           console.log(chalk.blue('\nCreating feature branch...'));
         }
 
         try {
           // Generate branch name
-          let branchName: string;
-          if (options.branch === 'auto') {
-            // Auto-generate from prompt and timestamp
-            const slug = prompt
-              .toLowerCase()
-              .replace(/[^a-z0-9]+/g, '-')
-              .replace(/^-+|-+$/g, '') // Remove leading/trailing dashes
-              .slice(0, 50);
-            const timestamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-');
-            branchName = `e2b/${slug}-${timestamp}`;
-          } else {
-            branchName = options.branch;
-          }
+          const branchName = resolveDownloadBranchName(options.branch, prompt);
 
           if (!options.json) {
             console.log(chalk.dim(`  Branch: ${branchName}`));
@@ -2247,7 +3130,7 @@ async function handleSandboxRun(options: SandboxRunOptions) {
             console.log(chalk.yellow(`⚠ Branch creation or commit failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
           }
         }
-      } else {
+      } else if (!downloadMode.format) {
         // No --branch flag: leave changes uncommitted
         if (!options.json) {
           console.log(chalk.blue('\nChanges downloaded as uncommitted files'));
@@ -2257,12 +3140,21 @@ async function handleSandboxRun(options: SandboxRunOptions) {
         }
       }
 
-      // Cleanup sandbox
-      await sandboxManager.terminateSandbox(sandboxId);
-      db.cleanupE2BSession(sandboxId, SandboxStatus.COMPLETED);
+      if (keepAlive.minutes > 0) {
+        // Keep sandbox and session for "sandbox continue", which then uploads
+        // only the worktree edits made in between
+        if (!options.gitLive) {
+          await recordUploadManifest(worktreePath, sandbox);
+        }
+        await keepSandboxAlive(sandboxManager, sandboxId, sessionId, keepAlive.minutes, options.json);
+      } else {
+        // Cleanup sandbox
+        await sandboxManager.terminateSandbox(sandboxId);
+        db.cleanupE2BSession(sandboxId, SandboxStatus.COMPLETED);
 
-      // Release session
-      await coordinator.release(pid);
+        // Release session
+        await coordinator.release(pid);
+      }
 
       if (!options.json) {
         console.log(chalk.bold.green('\n✅ Sandbox execution complete!\n'));
@@ -2283,7 +3175,12 @@ async function handleSandboxRun(options: SandboxRunOptions) {
           sessionId,
           sandboxId,
           executionTime: executionResult.executionTime,
-          exitCode: executionResult.exitCode
+          exitCode: executionResult.exitCode,
+          computeCost,
+          modelCost,
+          usage: executionResult.usage,
+          verification: executionResult.verification,
+          keepAliveMinutes: keepAlive.minutes || undefined
         };
 
         if (options.gitLive && gitLiveResult) {
@@ -2292,6 +3189,11 @@ async function handleSandboxRun(options: SandboxRunOptions) {
             prUrl: gitLiveResult.prUrl,
             targetBranch: gitLiveResult.targetBranch
           };
+        } else if (historyResult) {
+          output.worktreePath = worktreePath;
+          output.downloadMode = historyResult.format;
+          output.commitsApplied = historyResult.commitsApplied;
+          output.branch = historyResult.branch;
         } else if (downloadResult) {
           output.worktreePath = worktreePath;
           output.filesDownloaded = downloadResult.filesDownloaded;
@@ -2354,7 +3256,7 @@ async function handleSandboxRunMulti(options: SandboxRunOptions) {
 
   try {
     // Step 1: Collect tasks from --task flags or --task-file
-    let tasks: string[] = [];
+    let tasks: Array<string | ParallelTaskDefinition> = [];
 
     if (options.task && options.task.length > 0) {
       tasks = options.task;
@@ -2372,10 +3274,7 @@ async function handleSandboxRunMulti(options: SandboxRunOptions) {
       }
 
       const fileContent = await fs.readFile(taskFilePath, 'utf-8');
-      const fileTasks = fileContent
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line.length > 0 && !line.startsWith('#'));
+      const fileTasks = parseTaskFile(fileContent, taskFilePath);
 
       tasks = [...tasks, ...fileTasks];
     }
@@ -2393,6 +3292,20 @@ async function handleSandboxRunMulti(options: SandboxRunOptions) {
       process.exit(1);
     }
 
+    // Validate task IDs and dependencies before touching any sandbox
+    let resolvedTasks: ReturnType<typeof normalizeTasks>;
+    try {
+      resolvedTasks = normalizeTasks(tasks);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: `Invalid task graph: ${errorMessage}` }));
+      } else {
+        console.error(chalk.red(`✗ Invalid task graph: ${errorMessage}`));
+      }
+      process.exit(1);
+    }
+
     // Step 2: Validate authentication method
     const authMethod = options.authMethod as string;
     if (authMethod !== 'api-key' && authMethod !== 'oauth') {
@@ -2440,8 +3353,9 @@ async function handleSandboxRunMulti(options: SandboxRunOptions) {
       oauthCredentials = await fs.readFile(credentialsPath, 'utf-8');
     }
 
-    // Step 3: Validate E2B API key
-    if (!process.env.E2B_API_KEY) {
+    // Step 3: Resolve sandbox provider and validate E2B API key
+    const provider = resolveSandboxProvider(options);
+    if (provider.requiresApiKey && !process.env.E2B_API_KEY) {
       if (options.json) {
         console.log(JSON.stringify({
           success: false,
@@ -2484,13 +3398,119 @@ async function handleSandboxRunMulti(options: SandboxRunOptions) {
       process.exit(1);
     }
 
+    // Step 5.6: Validate integration options
+    const integrationThreshold = options.integrateThreshold !== undefined
+      ? parseFloat(options.integrateThreshold)
+      : undefined;
+    let integrationError: string | undefined;
+    if (integrationThreshold !== undefined && (!Number.isFinite(integrationThreshold) || integrationThreshold < 0 || integrationThreshold > 1)) {
+      integrationError = `Invalid integrate threshold: ${options.integrateThreshold}. Must be a number between 0 and 1`;
+    } else if (options.integrate && options.gitLive) {
+      integrationError = '--integrate cannot be combined with --git-live (results are pushed, not downloaded)';
+    }
+    if (integrationError) {
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: integrationError }));
+      } else {
+        console.error(chalk.red(`✗ ${integrationError}`));
+      }
+      process.exit(1);
+    }
+
+    // Step 5.7: Validate retry options
+    const retries = options.retries !== undefined ? Number(options.retries) : undefined;
+    const retryOn = options.retryOn?.split(',').map(kind => kind.trim()).filter(Boolean);
+    const validFailureKinds: TaskFailureKind[] = ['timeout', 'infra', 'task'];
+    let retryError: string | undefined;
+    if (retries !== undefined && (!Number.isInteger(retries) || retries < 0)) {
+      retryError = `Invalid retries value: ${options.retries}. Must be a non-negative integer`;
+    } else if (retryOn?.some(kind => !validFailureKinds.includes(kind as TaskFailureKind))) {
+      retryError = `Invalid --retry-on value: ${options.retryOn}. Must be a comma-separated list of: ${validFailureKinds.join(', ')}`;
+    }
+    if (retryError) {
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: retryError }));
+      } else {
+        console.error(chalk.red(`✗ ${retryError}`));
+      }
+      process.exit(1);
+    }
+
+    // Step 5.8: Validate batch budget
+    const batchBudget = options.batchBudget !== undefined ? Number(options.batchBudget) : undefined;
+    const budgetError = batchBudget !== undefined && !(Number.isFinite(batchBudget) && batchBudget > 0)
+      ? `Invalid batch budget: ${options.batchBudget}. Must be a positive number`
+      : batchBudget !== undefined && !options.budget
+        ? '--batch-budget requires --budget, the per-task cost projected for tasks before any has finished'
+        : undefined;
+    if (budgetError) {
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: budgetError }));
+      } else {
+        console.error(chalk.red(`✗ ${budgetError}`));
+      }
+      process.exit(1);
+    }
+
+    // Step 5.9: Validate verify commands
+    const verifyOptions = resolveVerifyOptions(options);
+    if ('error' in verifyOptions) {
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: verifyOptions.error }));
+      } else {
+        console.error(chalk.red(`✗ ${verifyOptions.error}`));
+      }
+      process.exit(1);
+    }
+    if (options.keepAlive !== undefined) {
+      const keepAliveError = '--keep-alive is not supported with --multi (task sandboxes are always terminated)';
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: keepAliveError }));
+      } else {
+        console.error(chalk.red(`✗ ${keepAliveError}`));
+      }
+      process.exit(1);
+    }
+    if (options.downloadMode !== undefined && options.downloadMode !== 'files') {
+      const downloadModeError = '--download-mode is not supported with --multi (task results are saved as changed files)';
+      if (options.json) {
+        console.log(JSON.stringify({ success: false, error: downloadModeError }));
+      } else {
+        console.error(chalk.red(`✗ ${downloadModeError}`));
+      }
+      process.exit(1);
+    }
+
+    // Step 5.10: Load managed template (setup commands run in every task's workspace)
+    let managedTemplate: import('./types.js').SandboxTemplate | null = null;
+    if (options.useTemplate) {
+      managedTemplate = await new TemplateManager().getTemplate(options.useTemplate);
+      if (!managedTemplate) {
+        const templateError = `Template "${options.useTemplate}" not found`;
+        if (options.json) {
+          console.log(JSON.stringify({
+            success: false,
+            error: templateError,
+            hint: 'Run "parallel-cc templates list" to see available templates'
+          }));
+        } else {
+          console.error(chalk.red(`✗ ${templateError}`));
+          console.log(chalk.dim('Run "parallel-cc templates list" to see available templates'));
+        }
+        process.exit(1);
+      }
+    }
+
     // Step 6: Create sandbox manager
-    const sandboxImage = options.template ||
+    // Precedence: --use-template > --template > E2B_TEMPLATE env var > default
+    const sandboxImage = managedTemplate?.e2bTemplate ||
+                         options.template ||
                          (process.env.E2B_TEMPLATE?.trim() || '') ||
                          'anthropic-claude-code';
-    const sandboxManager = new SandboxManager(logger, { sandboxImage });
+    const sandboxManager = new SandboxManager(logger, { sandboxImage }, provider);
 
     // Step 7: Build configuration
+    const warmPool = new ConfigManager().getWarmPoolConfig();
     const config = {
       tasks,
       maxConcurrent: parsedMaxConcurrent,
@@ -2498,8 +3518,9 @@ async function handleSandboxRunMulti(options: SandboxRunOptions) {
       outputDir,
       repoPath,
       authMethod: validatedAuthMethod,
-      sandboxImage: options.template,
+      sandboxImage: managedTemplate?.e2bTemplate || options.template,
       templateName: options.useTemplate,
+      template: managedTemplate ?? undefined,
       branch: options.branch,
       gitLive: options.gitLive || false,
       targetBranch: options.targetBranch || 'main',
@@ -2509,7 +3530,14 @@ async function handleSandboxRunMulti(options: SandboxRunOptions) {
       budgetPerTask: options.budget ? parseFloat(options.budget) : undefined,
       npmToken: options.npmToken || process.env.PARALLEL_CC_NPM_TOKEN,
       npmRegistry: options.npmRegistry,
-      sshKeyPath: options.sshKey
+      sshKeyPath: options.sshKey,
+      provider: options.provider || 'e2b',
+      retries,
+      retryOn: retryOn as TaskFailureKind[] | undefined,
+      batchBudget,
+      verifyCommands: verifyOptions.commands.length > 0 ? verifyOptions.commands : undefined,
+      repairRounds: verifyOptions.repairRounds || undefined,
+      warmPool: warmPool.size > 0 ? warmPool : undefined
     };
 
     // Step 8: Display execution plan
@@ -2519,126 +3547,582 @@ async function handleSandboxRunMulti(options: SandboxRunOptions) {
       console.log(`Tasks: ${tasks.length}`);
       console.log(`Max concurrent: ${config.maxConcurrent}`);
       console.log(`Fail-fast: ${config.failFast ? 'Yes' : 'No'}`);
+      if (retries) {
+        console.log(`Retries: ${retries} (on ${(retryOn ?? ['timeout', 'infra']).join(', ')})`);
+      }
+      if (batchBudget !== undefined) {
+        console.log(`Batch budget: $${batchBudget.toFixed(2)}`);
+      }
+      if (verifyOptions.commands.length > 0) {
+        const repair = verifyOptions.repairRounds > 0 ? ` (${verifyOptions.repairRounds} repair rounds)` : '';
+        console.log(`Verify: ${verifyOptions.commands.join(', ')}${repair}`);
+      }
+      if (config.warmPool) {
+        console.log(`Warm pool: ${Math.min(config.warmPool.size, tasks.length)} sandboxes (idle TTL ${config.warmPool.idleTtlMinutes} min)`);
+      }
       console.log(`Output directory: ${outputDir}`);
       console.log(chalk.dim('─'.repeat(50)));
       console.log('Tasks:');
-      tasks.forEach((task, i) => {
-        console.log(`  ${i + 1}. ${task.substring(0, 60)}${task.length > 60 ? '...' : ''}`);
+      resolvedTasks.forEach(task => {
+        const prompt = `${task.prompt.substring(0, 60)}${task.prompt.length > 60 ? '...' : ''}`;
+        const deps = task.dependsOn.length > 0 ? chalk.dim(` (after ${task.dependsOn.join(', ')})`) : '';
+        console.log(`  ${task.id}: ${prompt}${deps}`);
       });
       console.log(chalk.dim('─'.repeat(50)));
       console.log('');
     }
 
     // Step 9: Create and execute ParallelExecutor
-    const executor = new ParallelExecutor(config, coordinator, sandboxManager, logger);
+    const budgetTracker = new BudgetTracker(coordinator.getDB(), new ConfigManager());
+    const executor = new ParallelExecutor(config, coordinator, sandboxManager, logger, coordinator.getDB(), budgetTracker);
+
+    const result = await executor.execute(createParallelProgressPrinter(options.json));
+
+    // Step 9.5: Merge task results onto an integration branch
+    let integration: import('./types.js').IntegrationResult | undefined;
+    if (options.integrate) {
+      if (!options.json) {
+        console.log(chalk.dim('\nIntegrating task results...'));
+      }
+      const integrator = new ResultIntegrator({
+        repoPath,
+        outputDir,
+        integrationBranch: typeof options.integrate === 'string' ? options.integrate : undefined,
+        confidenceThreshold: integrationThreshold,
+        gitUser: options.gitUser,
+        gitEmail: options.gitEmail
+      }, coordinator.getDB(), logger);
+      integration = await integrator.integrate(result);
+    }
+
+    // Step 10: Output results
+    printParallelExecutionResult(result, outputDir, integration, options.json);
+
+    // Exit with appropriate code
+    process.exit(result.success && (integration?.success ?? true) ? 0 : 1);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: errorMessage }));
+    } else {
+      console.error(chalk.red(`\n✗ Parallel execution failed: ${errorMessage}`));
+    }
+    process.exit(1);
+  } finally {
+    coordinator.close();
+  }
+}
+
+/**
+ * Format duration in milliseconds to human-readable string
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${seconds % 60}s`;
+  } else {
+    return `${seconds}s`;
+  }
+}
+
+/**
+ * Create a progress printer for parallel execution (undefined in JSON mode)
+ *
+ * The first update prints the batch ID so an interrupted batch can be resumed.
+ */
+function createParallelProgressPrinter(json?: boolean): ParallelProgressCallback | undefined {
+  if (json) return undefined;
+
+  let announced = false;
+  return (update: ParallelProgressUpdate) => {
+    if (!announced) {
+      announced = true;
+      console.log(chalk.dim(`Batch: ${update.batchId} (if interrupted: parallel-cc sandbox batch resume ${update.batchId})`));
+    }
+
+    const statusIcon = update.status === 'running' ? '●' :
+                       update.status === 'completed' ? '✓' :
+                       update.status === 'failed' ? '✗' :
+                       update.status === 'cancelled' ? '○' : '?';
+
+    const statusColor = update.status === 'running' ? chalk.blue :
+                        update.status === 'completed' ? chalk.green :
+                        update.status === 'failed' ? chalk.red :
+                        chalk.gray;
+
+    console.log(statusColor(`[${update.taskId}] ${statusIcon} ${update.message}`));
+
+    // Show overall progress
+    const percent = Math.round((update.completedTasks / update.totalTasks) * 100);
+    if (update.completedTasks > 0) {
+      console.log(chalk.dim(`  Progress: ${update.completedTasks}/${update.totalTasks} (${percent}%)`));
+    }
+  };
+}
+
+/**
+ * Print the result of a parallel execution (and optional integration)
+ */
+function printParallelExecutionResult(
+  result: ParallelExecutionResult,
+  outputDir: string,
+  integration: IntegrationResult | undefined,
+  json?: boolean
+): void {
+  if (json) {
+    console.log(JSON.stringify({
+      success: result.success && (integration?.success ?? true),
+      tasks: result.tasks.map(t => ({
+        taskId: t.taskId,
+        description: t.taskDescription,
+        dependsOn: t.dependsOn,
+        status: t.status,
+        duration: t.duration,
+        filesChanged: t.filesChanged,
+        outputPath: t.outputPath,
+        error: t.error,
+        costEstimate: t.costEstimate,
+        modelCost: t.modelCost,
+        usage: t.usage,
+        failureKind: t.failureKind,
+        attempts: t.attempts
+      })),
+      summary: result.summary,
+      reportPath: result.reportPath,
+      integration
+    }, null, 2));
+  } else {
+    console.log('');
+    console.log(chalk.bold('📊 Execution Summary'));
+    console.log(chalk.dim('─'.repeat(50)));
+    console.log(`Total tasks: ${result.tasks.length}`);
+    console.log(chalk.green(`✓ Successful: ${result.summary.successCount}`));
+    if (result.summary.failureCount > 0) {
+      console.log(chalk.red(`✗ Failed: ${result.summary.failureCount}`));
+    }
+    if (result.summary.cancelledCount > 0) {
+      console.log(chalk.gray(`○ Cancelled: ${result.summary.cancelledCount}`));
+    }
+    console.log(`Total duration: ${formatDuration(result.summary.totalDuration)}`);
+    console.log(`Time saved: ${formatDuration(result.summary.timeSaved)} (vs sequential)`);
+    console.log(`Files changed: ${result.summary.totalFilesChanged}`);
+    console.log(`Estimated cost: $${result.summary.totalCost.toFixed(2)}`);
+    if (result.summary.budgetExceeded) {
+      console.log(chalk.yellow('⚠ Batch budget exceeded: remaining tasks were not started'));
+    }
+    console.log(chalk.dim('─'.repeat(50)));
+
+    if (result.reportPath) {
+      console.log(`\nFull report: ${result.reportPath}`);
+    }
+    console.log(`Results directory: ${outputDir}`);
+
+    // Show failed tasks
+    const failedTasks = result.tasks.filter(t => t.status === 'failed');
+    if (failedTasks.length > 0) {
+      console.log('');
+      console.log(chalk.red.bold('Failed Tasks:'));
+      for (const task of failedTasks) {
+        const attempts = task.attempts ? ` (after ${task.attempts.length} attempts)` : '';
+        console.log(chalk.red(`  ${task.taskId}: ${task.error || 'Unknown error'}${attempts}`));
+      }
+    }
+
+    // Show tasks skipped because a dependency did not complete (or the batch budget ran out)
+    const skippedTasks = result.tasks.filter(t => t.status === 'cancelled' && t.error);
+    if (skippedTasks.length > 0) {
+      console.log('');
+      console.log(chalk.gray.bold('Skipped Tasks:'));
+      for (const task of skippedTasks) {
+        console.log(chalk.gray(`  ${task.taskId}: ${task.error}`));
+      }
+    }
+
+    if (integration) {
+      console.log('');
+      console.log(chalk.bold(`🔀 Integration: ${integration.integrationBranch}`));
+      console.log(chalk.dim('─'.repeat(50)));
+      for (const task of integration.tasks) {
+        if (task.outcome === 'merged') {
+          console.log(chalk.green(`  ✓ ${task.taskId}: merged cleanly`));
+        } else if (task.outcome === 'auto-resolved') {
+          console.log(chalk.green(`  ✓ ${task.taskId}: auto-resolved ${task.autoResolvedFiles.join(', ')}`));
+        } else if (task.outcome === 'needs-attention') {
+          console.log(chalk.yellow(`  ⚠ ${task.taskId}: needs attention (${task.unresolvedFiles.join(', ') || task.reason})`));
+          if (task.taskBranch) {
+            console.log(chalk.dim(`      git checkout ${integration.integrationBranch} && git cherry-pick ${task.taskBranch}`));
+          }
+        } else {
+          console.log(chalk.gray(`  ○ ${task.taskId}: skipped (${task.reason})`));
+        }
+      }
+      console.log(chalk.dim('─'.repeat(50)));
+      if (integration.reportPath) {
+        console.log(`Integration report: ${integration.reportPath}`);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Parallel Batch Commands (v2.1)
+// ============================================================================
+
+const batchCmd = sandboxCmd
+  .command('batch')
+  .description('Manage parallel sandbox batches (v2.1)');
+
+// Type definition for sandbox batch resume options
+interface SandboxBatchResumeOptions {
+  npmToken?: string;
+  json?: boolean;
+}
+
+/**
+ * Resume a parallel batch interrupted by a CLI crash or Ctrl-C
+ *
+ * Secrets are never persisted with the batch, so OAuth credentials and the
+ * NPM token are re-read from the same sources as `sandbox run`.
+ */
+async function handleSandboxBatchResume(batchId: string, options: SandboxBatchResumeOptions) {
+  const coordinator = new Coordinator();
+
+  const fail = (message: string, hint?: string): never => {
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: message }));
+    } else {
+      console.error(chalk.red(`✗ ${message}`));
+      if (hint) {
+        console.log(chalk.dim(hint));
+      }
+    }
+    coordinator.close();
+    process.exit(1);
+  };
+
+  try {
+    const db = coordinator.getDB();
+    const batch = db.getParallelBatch(batchId);
+    if (!batch) {
+      return fail(`Batch not found: ${batchId}`);
+    }
+    const persisted = batch.config;
 
-    // Progress callback for non-JSON mode
-    const onProgress = options.json ? undefined : (update: import('./types.js').ParallelProgressUpdate) => {
-      const statusIcon = update.status === 'running' ? '●' :
-                         update.status === 'completed' ? '✓' :
-                         update.status === 'failed' ? '✗' :
-                         update.status === 'cancelled' ? '○' : '?';
+    // Re-supply credentials that were stripped before persisting
+    let oauthCredentials: string | undefined;
+    if (persisted.authMethod === 'oauth') {
+      const credentialsPath = path.join(os.homedir(), '.claude', '.credentials.json');
+      if (!existsSync(credentialsPath)) {
+        fail('OAuth credentials not found. Run "claude /login" first');
+      }
+      oauthCredentials = await fs.readFile(credentialsPath, 'utf-8');
+    } else if (!process.env.ANTHROPIC_API_KEY) {
+      fail('ANTHROPIC_API_KEY environment variable not set');
+    }
+
+    let provider: SandboxProvider;
+    try {
+      provider = createSandboxProvider(persisted.provider || 'e2b', { image: persisted.sandboxImage });
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : String(error));
+    }
+    if (provider.requiresApiKey && !process.env.E2B_API_KEY) {
+      fail('E2B_API_KEY environment variable not set', 'Set E2B_API_KEY to use E2B sandbox execution');
+    }
+
+    const sandboxImage = persisted.sandboxImage ||
+                         (process.env.E2B_TEMPLATE?.trim() || '') ||
+                         'anthropic-claude-code';
+    const sandboxManager = new SandboxManager(logger, { sandboxImage }, provider);
+
+    const executor = new ParallelExecutor({
+      ...persisted,
+      oauthCredentials,
+      npmToken: options.npmToken || process.env.PARALLEL_CC_NPM_TOKEN
+    }, coordinator, sandboxManager, logger, db, new BudgetTracker(db, new ConfigManager()));
+
+    if (!options.json) {
+      console.log(chalk.bold(`\n📦 Resuming batch ${batchId}`));
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log(`Repository: ${batch.repoPath}`);
+      console.log(`Output directory: ${batch.outputDir}`);
+      console.log(chalk.dim('─'.repeat(50)));
+      console.log('');
+    }
+
+    const result = await executor.resume(batchId, createParallelProgressPrinter(options.json));
+    printParallelExecutionResult(result, batch.outputDir, undefined, options.json);
+
+    process.exit(result.success ? 0 : 1);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: errorMessage }));
+    } else {
+      console.error(chalk.red(`\n✗ Failed to resume batch: ${errorMessage}`));
+    }
+    process.exit(1);
+  } finally {
+    coordinator.close();
+  }
+}
+
+/**
+ * Resume an interrupted parallel batch
+ */
+batchCmd
+  .command('resume <batchId>')
+  .description(`Resume a parallel batch interrupted by a crash or Ctrl-C (v2.1)
+
+Tasks that finished keep their results. Tasks whose sandbox is still alive
+are reattached and their results downloaded when Claude exits. Tasks that
+never started (or whose sandbox is gone) are re-run.
+
+Example:
+  parallel-cc sandbox batch resume 3f2c9a1e-...`)
+  .option('--npm-token <token>', 'NPM authentication token for private packages (or set PARALLEL_CC_NPM_TOKEN env var)')
+  .option('--json', 'Output as JSON')
+  .action(handleSandboxBatchResume);
 
-      const statusColor = update.status === 'running' ? chalk.blue :
-                          update.status === 'completed' ? chalk.green :
-                          update.status === 'failed' ? chalk.red :
-                          chalk.gray;
+// Type definition for sandbox batch list options
+interface SandboxBatchListOptions {
+  repo?: string;
+  status?: string;
+  limit: string;
+  json?: boolean;
+}
+
+/**
+ * List parallel batches
+ */
+function handleSandboxBatchList(options: SandboxBatchListOptions) {
+  const coordinator = new Coordinator();
+  try {
+    const db = coordinator.getDB();
+    const validStatuses: ParallelBatchStatus[] = ['running', 'completed', 'failed', 'cancelled'];
+    if (options.status && !validStatuses.includes(options.status as ParallelBatchStatus)) {
+      throw new Error(`Invalid status: ${options.status}. Must be one of: ${validStatuses.join(', ')}`);
+    }
+
+    const batches = db.listParallelBatches({
+      repoPath: options.repo ? path.resolve(options.repo) : undefined,
+      status: options.status as ParallelBatchStatus | undefined,
+      limit: parseInt(options.limit, 10) || undefined
+    }).map(batch => {
+      const tasks = db.getParallelBatchTasks(batch.id);
+      return {
+        ...batch,
+        totalTasks: tasks.length,
+        finishedTasks: tasks.filter(t => t.status !== 'pending' && t.status !== 'running').length,
+        failedTasks: tasks.filter(t => t.status === 'failed').length
+      };
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify({ batches, total: batches.length }, null, 2));
+      return;
+    }
+
+    console.log(chalk.bold(`\nParallel Batches: ${batches.length}\n`));
+    if (batches.length === 0) {
+      console.log(chalk.dim('  No parallel batches found'));
+      return;
+    }
+
+    for (const batch of batches) {
+      const statusColor =
+        batch.status === 'completed' ? chalk.green :
+        batch.status === 'failed' ? chalk.red :
+        batch.status === 'cancelled' ? chalk.gray :
+        chalk.blue;
+
+      console.log(`  ${statusColor('●')} ${batch.id}`);
+      console.log(chalk.dim(`    Status: ${batch.status}`));
+      console.log(chalk.dim(`    Tasks: ${batch.finishedTasks}/${batch.totalTasks} finished${batch.failedTasks > 0 ? `, ${batch.failedTasks} failed` : ''}`));
+      if (batch.budgetExceeded) {
+        console.log(chalk.yellow('    Batch budget exceeded: remaining tasks were not started'));
+      }
+      console.log(chalk.dim(`    Repository: ${batch.repoPath}`));
+      console.log(chalk.dim(`    Created: ${batch.createdAt}`));
+      console.log('');
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: errorMessage }));
+    } else {
+      console.error(chalk.red(`✗ Failed to list batches: ${errorMessage}`));
+    }
+    process.exit(1);
+  } finally {
+    coordinator.close();
+  }
+}
+
+/**
+ * List parallel batches
+ */
+batchCmd
+  .command('list')
+  .description('List parallel batches, newest first (v2.1)')
+  .option('--repo <path>', 'Filter by repository path')
+  .option('--status <status>', 'Filter by status: running, completed, failed, cancelled')
+  .option('--limit <n>', 'Maximum batches to show', '20')
+  .option('--json', 'Output as JSON')
+  .action(handleSandboxBatchList);
+
+// Type definition for sandbox batch show/cancel options
+interface SandboxBatchOptions {
+  json?: boolean;
+}
+
+/**
+ * Show per-task status of a parallel batch
+ */
+function handleSandboxBatchShow(batchId: string, options: SandboxBatchOptions) {
+  const coordinator = new Coordinator();
+  try {
+    const db = coordinator.getDB();
+    const batch = db.getParallelBatch(batchId);
+    if (!batch) {
+      throw new Error(`Batch not found: ${batchId}`);
+    }
+
+    const now = new Date();
+    const tasks = db.getParallelBatchTasks(batchId).map(task => ({
+      ...task,
+      duration: getBatchTaskDuration(task, now)
+    }));
+    const totalCost = tasks.reduce((sum, t) => sum + (t.costEstimate ?? 0), 0);
+
+    if (options.json) {
+      const { config: _config, ...batchInfo } = batch;
+      console.log(JSON.stringify({ batch: batchInfo, tasks, totalCost }, null, 2));
+      return;
+    }
+
+    console.log(chalk.bold(`\nParallel Batch: ${batch.id}\n`));
+    console.log(`  Status: ${batch.status}`);
+    console.log(`  Repository: ${batch.repoPath}`);
+    console.log(`  Output directory: ${batch.outputDir}`);
+    console.log(`  Created: ${batch.createdAt}`);
+    if (batch.completedAt) {
+      console.log(`  Completed: ${batch.completedAt}`);
+    }
+    console.log(`  Estimated cost: $${totalCost.toFixed(2)}`);
+    if (batch.budgetExceeded) {
+      console.log(chalk.yellow('  Batch budget exceeded: remaining tasks were not started'));
+    }
+    console.log('');
+    console.log(chalk.bold('  Tasks:'));
+
+    for (const task of tasks) {
+      const statusColor =
+        task.status === 'completed' ? chalk.green :
+        task.status === 'failed' ? chalk.red :
+        task.status === 'running' ? chalk.blue :
+        chalk.gray;
+
+      const details = [
+        task.duration !== undefined ? formatDuration(task.duration) : null,
+        task.status === 'completed' || task.filesChanged > 0 ? `${task.filesChanged} files` : null,
+        task.costEstimate !== undefined ? `$${task.costEstimate.toFixed(2)}` : null
+      ].filter(Boolean).join(', ');
+
+      console.log(`  ${statusColor('●')} ${task.taskId} ${statusColor(task.status)}${details ? chalk.dim(` (${details})`) : ''}`);
+      console.log(chalk.dim(`      ${task.prompt.substring(0, 80)}${task.prompt.length > 80 ? '...' : ''}`));
+      if (task.sandboxId && task.status === 'running') {
+        console.log(chalk.dim(`      Sandbox: ${task.sandboxId}`));
+      }
+      if (task.error) {
+        console.log(chalk.red(`      Error: ${task.error}`));
+      }
+    }
+    console.log('');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error: errorMessage }));
+    } else {
+      console.error(chalk.red(`✗ ${errorMessage}`));
+    }
+    process.exit(1);
+  } finally {
+    coordinator.close();
+  }
+}
 
-      console.log(statusColor(`[${update.taskId}] ${statusIcon} ${update.message}`));
+/**
+ * Show a parallel batch
+ */
+batchCmd
+  .command('show <batchId>')
+  .description('Show per-task status, duration, cost and errors of a parallel batch (v2.1)')
+  .option('--json', 'Output as JSON')
+  .action(handleSandboxBatchShow);
 
-      // Show overall progress
-      const percent = Math.round((update.completedTasks / update.totalTasks) * 100);
-      if (update.completedTasks > 0) {
-        console.log(chalk.dim(`  Progress: ${update.completedTasks}/${update.totalTasks} (${percent}%)`));
-      }
-    };
+/**
+ * Cancel a running parallel batch
+ */
+async function handleSandboxBatchCancel(batchId: string, options: SandboxBatchOptions) {
+  const coordinator = new Coordinator();
+  let exitCode = 0;
+  try {
+    const db = coordinator.getDB();
+    const batch = db.getParallelBatch(batchId);
+    if (!batch) {
+      throw new Error(`Batch not found: ${batchId}`);
+    }
 
-    const result = await executor.execute(onProgress);
+    const provider = createSandboxProvider(batch.config.provider || 'e2b', { image: batch.config.sandboxImage });
+    const sandboxManager = new SandboxManager(logger, {}, provider);
+    const result = await cancelParallelBatch(batchId, db, sandboxManager, coordinator, logger);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    exitCode = result.errors.length > 0 ? 1 : 0;
 
-    // Step 10: Output results
     if (options.json) {
-      console.log(JSON.stringify({
-        success: result.success,
-        tasks: result.tasks.map(t => ({
-          taskId: t.taskId,
-          description: t.taskDescription,
-          status: t.status,
-          duration: t.duration,
-          filesChanged: t.filesChanged,
-          outputPath: t.outputPath,
-          error: t.error,
-          costEstimate: t.costEstimate
-        })),
-        summary: result.summary,
-        reportPath: result.reportPath
-      }, null, 2));
+      console.log(JSON.stringify(result, null, 2));
     } else {
-      console.log('');
-      console.log(chalk.bold('📊 Execution Summary'));
-      console.log(chalk.dim('─'.repeat(50)));
-      console.log(`Total tasks: ${result.tasks.length}`);
-      console.log(chalk.green(`✓ Successful: ${result.summary.successCount}`));
-      if (result.summary.failureCount > 0) {
-        console.log(chalk.red(`✗ Failed: ${result.summary.failureCount}`));
-      }
-      if (result.summary.cancelledCount > 0) {
-        console.log(chalk.gray(`○ Cancelled: ${result.summary.cancelledCount}`));
-      }
-      console.log(`Total duration: ${formatDuration(result.summary.totalDuration)}`);
-      console.log(`Time saved: ${formatDuration(result.summary.timeSaved)} (vs sequential)`);
-      console.log(`Files changed: ${result.summary.totalFilesChanged}`);
-      console.log(`Estimated cost: $${result.summary.totalCost.toFixed(2)}`);
-      console.log(chalk.dim('─'.repeat(50)));
-
-      if (result.reportPath) {
-        console.log(`\nFull report: ${result.reportPath}`);
-      }
-      console.log(`Results directory: ${outputDir}`);
-
-      // Show failed tasks
-      const failedTasks = result.tasks.filter(t => t.status === 'failed');
-      if (failedTasks.length > 0) {
-        console.log('');
-        console.log(chalk.red.bold('Failed Tasks:'));
-        for (const task of failedTasks) {
-          console.log(chalk.red(`  ${task.taskId}: ${task.error || 'Unknown error'}`));
-        }
+      console.log(chalk.green(`✓ Cancelled batch ${batchId}`));
+      console.log(chalk.dim(`  Tasks cancelled: ${result.cancelledTasks.length}`));
+      console.log(chalk.dim(`  Sandboxes terminated: ${result.terminatedSandboxes.length}`));
+      for (const error of result.errors) {
+        console.log(chalk.yellow(`  ⚠ ${error}`));
       }
     }
-
-    // Exit with appropriate code
-    process.exit(result.success ? 0 : 1);
-
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
     if (options.json) {
       console.log(JSON.stringify({ success: false, error: errorMessage }));
     } else {
-      console.error(chalk.red(`\n✗ Parallel execution failed: ${errorMessage}`));
+      console.error(chalk.red(`✗ Failed to cancel batch: ${errorMessage}`));
     }
-    process.exit(1);
+    exitCode = 1;
   } finally {
     coordinator.close();
   }
+  process.exit(exitCode);
 }
 
 /**
- * Format duration in milliseconds to human-readable string
+ * Cancel a parallel batch
  */
-function formatDuration(ms: number): string {
-  const seconds = Math.floor(ms / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const hours = Math.floor(minutes / 60);
-
-  if (hours > 0) {
-    return `${hours}h ${minutes % 60}m`;
-  } else if (minutes > 0) {
-    return `${minutes}m ${seconds % 60}s`;
-  } else {
-    return `${seconds}s`;
-  }
-}
+batchCmd
+  .command('cancel <batchId>')
+  .description('Cancel a running parallel batch and terminate its sandboxes (v2.1)')
+  .option('--json', 'Output as JSON')
+  .action(handleSandboxBatchCancel);
 
 /**
  * DEPRECATED: Use 'sandbox run' instead
@@ -2669,6 +4153,272 @@ program
     await handleSandboxRun(options);
   });
 
+// Type definition for sandbox-continue options
+interface SandboxContinueOptions {
+  prompt?: string;
+  promptFile?: string;
+  authMethod: string;
+  output?: string;
+  timeout: string;
+  verify?: string[];
+  repairRounds?: string;
+  keepAlive?: string | boolean;
+  upload?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Send a follow-up prompt to a session's still-running sandbox
+ *
+ * Reconnects to the sandbox, uploads the worktree edits made since the last
+ * download, continues Claude's conversation in /workspace and downloads the
+ * changes again. The sandbox is terminated afterwards unless --keep-alive is
+ * given.
+ */
+async function handleSandboxContinue(sessionRef: string, options: SandboxContinueOptions) {
+  const coordinator = new Coordinator();
+
+  const fail = (error: string, hint?: string): never => {
+    if (options.json) {
+      console.log(JSON.stringify({ success: false, error, ...(hint ? { hint } : {}) }));
+    } else {
+      console.error(chalk.red(`✗ ${error}`));
+      if (hint) {
+        console.error(chalk.dim(`  ${hint}`));
+      }
+    }
+    coordinator.close();
+    process.exit(1);
+  };
+
+  try {
+    const db = coordinator['db'];
+    if (!db.hasE2BColumns()) {
+      return fail('E2B sandbox features require database migration to v1.0.0', 'Run: parallel-cc update');
+    }
+    const sessionId = db.resolveSession(sessionRef)?.id ?? sessionRef;
+    const session = db.listE2BSessions().find(s => s.id === sessionId);
+    if (!session) {
+      return fail(`Session not found: ${sessionRef}`, 'Run "parallel-cc sandbox list" to see sandbox sessions');
+    }
+
+    // Validate inputs
+    if (!options.prompt === !options.promptFile) {
+      fail('Exactly one of --prompt or --prompt-file is required');
+    }
+    if (options.authMethod !== 'api-key' && options.authMethod !== 'oauth') {
+      fail(`Invalid --auth-method "${options.authMethod}". Must be "api-key" or "oauth"`);
+    }
+    const timeout = Number(options.timeout);
+    if (!Number.isInteger(timeout) || timeout <= 0) {
+      fail(`Invalid timeout: ${options.timeout}. Must be a positive number of minutes`);
+    }
+    const verifyOptions = resolveVerifyOptions(options);
+    if ('error' in verifyOptions) {
+      return fail(verifyOptions.error);
+    }
+    const keepAlive = resolveKeepAliveMinutes(options.keepAlive);
+    if ('error' in keepAlive) {
+      return fail(keepAlive.error);
+    }
+    const outputPath = path.resolve(options.output ?? session.worktree_path);
+    if (!existsSync(outputPath)) {
+      fail(`Output directory not found: ${outputPath}`, 'The session worktree may have been removed; pass --output <path>');
+    }
+
+    let prompt: string;
+    if (options.promptFile) {
+      try {
+        prompt = await fs.readFile(path.resolve(options.promptFile), 'utf-8');
+      } catch (error) {
+        return fail(`Failed to read prompt file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    } else {
+      prompt = options.prompt!;
+    }
+
+    let oauthCredentials: string | undefined;
+    if (options.authMethod === 'api-key' && !process.env.ANTHROPIC_API_KEY) {
+      fail('ANTHROPIC_API_KEY environment variable required when using --auth-method api-key');
+    } else if (options.authMethod === 'oauth') {
+      const credPath = path.join(os.homedir(), '.claude', '.credentials.json');
+      try {
+        oauthCredentials = await fs.readFile(credPath, 'utf-8');
+      } catch {
+        fail(`OAuth credentials not found: ${credPath}`, 'Run "claude login" to authenticate with your Claude subscription');
+      }
+    }
+
+    // Reconnect through the session's provider and make sure the sandbox outlives the follow-up run
+    let sandboxManager: SandboxManager;
+    try {
+      sandboxManager = createSessionSandboxManager(session);
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : String(error));
+    }
+    if (sandboxManager.getProvider().requiresApiKey && !process.env.E2B_API_KEY) {
+      fail('E2B_API_KEY environment variable not set', 'Set E2B_API_KEY to use E2B sandbox execution');
+    }
+    const sandbox = await sandboxManager.getOrReconnectSandbox(session.sandbox_id);
+    if (!sandbox) {
+      return fail(
+        `Sandbox ${session.sandbox_id} is no longer running`,
+        'Start a new run with "parallel-cc sandbox run" (use --keep-alive to allow follow-ups)'
+      );
+    }
+    await sandboxManager.extendTimeout(session.sandbox_id, timeout);
+
+    if (!options.json) {
+      console.log(chalk.bold('\nContinuing Sandbox Session\n'));
+      console.log(chalk.dim(`Session ID: ${sessionId}`));
+      console.log(chalk.dim(`Sandbox ID: ${session.sandbox_id}`));
+    }
+
+    // Bring edits made in the worktree since the last download into the sandbox.
+    // The sandbox holds Claude's work, so a mismatch fails instead of a full upload.
+    let filesUploaded = 0;
+    if (options.upload !== false) {
+      const uploadResult = await uploadIncremental(outputPath, sandbox);
+      if (uploadResult.mismatchReason) {
+        fail(
+          `Local changes not uploaded: ${uploadResult.mismatchReason}`,
+          'Pass --no-upload to continue without uploading local edits'
+        );
+      } else if (!uploadResult.success) {
+        fail(`Upload of local changes failed: ${uploadResult.error}`);
+      }
+      filesUploaded = uploadResult.filesUploaded;
+      if (!options.json) {
+        console.log(chalk.green(`✓ Local changes uploaded: ${uploadResult.filesUploaded} changed, ${uploadResult.filesDeleted} deleted`));
+      }
+    } else if (!options.json) {
+      console.log(chalk.dim('Local changes not uploaded (--no-upload)'));
+    }
+    if (!options.json) {
+      console.log(chalk.blue('\nSending follow-up prompt to Claude...\n'));
+    }
+    db.updateE2BSessionStatus(session.sandbox_id, SandboxStatus.RUNNING);
+
+    const executionResult = await executeClaudeInSandbox(
+      sandbox,
+      sandboxManager,
+      prompt,
+      logger,
+      {
+        workingDir: '/workspace',
+        timeout,
+        streamOutput: true,
+        captureFullLog: true,
+        onProgress: (chunk) => {
+          if (!options.json) {
+            process.stdout.write(chunk);
+          }
+        },
+        authMethod: options.authMethod as 'api-key' | 'oauth',
+        oauthCredentials,
+        verifyCommands: verifyOptions.commands,
+        repairRounds: verifyOptions.repairRounds,
+        continueConversation: true
+      }
+    );
+
+    db.updateE2BSessionStatus(
+      session.sandbox_id,
+      executionResult.success ? SandboxStatus.COMPLETED : SandboxStatus.FAILED,
+      [session.output_log, executionResult.output].filter(Boolean).join('\n')
+    );
+
+    // Add the follow-up's cost to the session
+    const computeCost = parseFloat((sandboxManager.getEstimatedCost(session.sandbox_id) ?? '$0').replace('$', '')) || 0;
+    const modelCost = getModelCost(executionResult.usage, options.authMethod as 'api-key' | 'oauth');
+    try {
+      new BudgetTracker(db, new ConfigManager()).addSessionCost(sessionId, computeCost, modelCost, executionResult.usage);
+    } catch (error) {
+      logger.warn(`Failed to record session cost: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!options.json && executionResult.verification) {
+      printVerification(executionResult.verification);
+    }
+
+    const finish = async () => {
+      if (keepAlive.minutes > 0) {
+        await keepSandboxAlive(sandboxManager, session.sandbox_id, sessionId, keepAlive.minutes, options.json);
+      } else {
+        await sandboxManager.terminateSandbox(session.sandbox_id);
+        db.cleanupE2BSession(
+          session.sandbox_id,
+          executionResult.success ? SandboxStatus.COMPLETED : SandboxStatus.FAILED
+        );
+      }
+    };
+
+    if (!executionResult.success) {
+      await finish();
+      fail(`Execution failed: ${executionResult.error}`);
+    }
+
+    const downloadResult = await downloadChangedFiles(sandbox, '/workspace', outputPath);
+    if (!downloadResult.success) {
+      await finish();
+      fail(`Download failed: ${downloadResult.error}`);
+    }
+    if (keepAlive.minutes > 0) {
+      await recordUploadManifest(outputPath, sandbox);
+    }
+    await finish();
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        success: true,
+        sessionId,
+        sandboxId: session.sandbox_id,
+        executionTime: executionResult.executionTime,
+        exitCode: executionResult.exitCode,
+        modelCost,
+        usage: executionResult.usage,
+        verification: executionResult.verification,
+        outputPath,
+        filesUploaded,
+        filesDownloaded: downloadResult.filesDownloaded,
+        keepAliveMinutes: keepAlive.minutes || undefined
+      }, null, 2));
+    } else {
+      console.log(chalk.green(`\n✓ Follow-up completed: ${(executionResult.executionTime / 1000 / 60).toFixed(1)} minutes`));
+      console.log(chalk.green(`✓ Results downloaded: ${downloadResult.filesDownloaded} files`));
+      console.log(chalk.dim(`  Output: ${outputPath}`));
+    }
+
+  } catch (error) {
+    fail(`Sandbox continue failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    coordinator.close();
+  }
+}
+
+/**
+ * Send a follow-up prompt to a kept-alive sandbox
+ */
+sandboxCmd
+  .command('continue <sessionId>')
+  .description(`Send a follow-up prompt to the Claude conversation in a still-running sandbox (start it with "sandbox run --keep-alive")
+
+The sandbox is reconnected, edits made in the session worktree since the last
+download are uploaded, Claude continues its previous conversation in
+/workspace, and the changes are downloaded again into the session worktree.
+If the sandbox's files no longer match the last download, nothing is uploaded
+and the command fails; pass --no-upload to continue without local edits.`)
+  .option('--prompt <text>', 'Follow-up prompt text')
+  .option('--prompt-file <path>', 'Path to a file with the follow-up prompt')
+  .option('--auth-method <method>', 'Authentication method: api-key or oauth', 'api-key')
+  .option('--output <path>', 'Download directory (default: the session worktree)')
+  .option('--timeout <minutes>', 'Execution timeout in minutes', '60')
+  .option('--verify <command...>', 'Command to run in the sandbox after Claude finishes; any failure fails the run (repeatable)')
+  .option('--repair-rounds <n>', 'Feed verify failures back to Claude up to n times before giving up (default: 0)')
+  .option('--keep-alive [minutes]', 'Keep the sandbox running for further follow-ups (default: 30 minutes)')
+  .option('--no-upload', 'Continue without uploading local edits (e.g. when the sandbox no longer matches the last download)')
+  .option('--json', 'Output as JSON')
+  .action(handleSandboxContinue);
+
 // Type definition for sandbox-logs options
 interface SandboxLogsOptions {
   sessionId: string;
@@ -2684,7 +4434,7 @@ async function handleSandboxLogs(options: SandboxLogsOptions) {
   const coordinator = new Coordinator();
   try {
     const db = coordinator['db'];
-    const sessionId = options.sessionId;
+    const sessionId = db.resolveSession(options.sessionId)?.id ?? options.sessionId;
 
     // Get E2B session by ID
     const sessions = db.listE2BSessions();
@@ -2754,7 +4504,7 @@ async function handleSandboxLogs(options: SandboxLogsOptions) {
 sandboxCmd
   .command('logs')
   .description('View E2B sandbox execution logs (v1.0)')
-  .requiredOption('--session-id <id>', 'Session ID')
+  .requiredOption('--session-id <id>', 'Session ID or name')
   .option('--follow', 'Follow log output in real-time (like tail -f)')
   .option('--lines <n>', 'Number of lines to show', '100')
   .option('--json', 'Output as JSON')
@@ -2766,7 +4516,7 @@ sandboxCmd
 program
   .command('sandbox-logs')
   .description('[DEPRECATED] Use "sandbox logs" instead')
-  .requiredOption('--session-id <id>', 'Session ID')
+  .requiredOption('--session-id <id>', 'Session ID or name')
   .option('--follow', 'Follow log output in real-time (like tail -f)')
   .option('--lines <n>', 'Number of lines to show', '100')
   .option('--json', 'Output as JSON')
@@ -2779,6 +4529,8 @@ program
 interface SandboxDownloadOptions {
   sessionId: string;
   output: string;
+  mode?: string;
+  branch?: string;
   json?: boolean;
 }
 
@@ -2787,28 +4539,21 @@ interface SandboxDownloadOptions {
  */
 async function handleSandboxDownload(options: SandboxDownloadOptions) {
   const coordinator = new Coordinator();
-  const sandboxManager = new SandboxManager(logger);
 
   try {
-    // Validate E2B API key early
-    try {
-      SandboxManager.validateApiKey();
-    } catch (error) {
+    const downloadMode = resolveDownloadMode(options.mode);
+    if ('error' in downloadMode || (options.branch && !downloadMode.format)) {
+      const error = 'error' in downloadMode ? downloadMode.error : '--branch requires --mode patch or --mode bundle';
       if (options.json) {
-        console.log(JSON.stringify({
-          success: false,
-          error: error instanceof Error ? error.message : 'E2B API key validation failed',
-          hint: 'Set E2B_API_KEY environment variable. Get your key from https://e2b.dev/dashboard'
-        }));
+        console.log(JSON.stringify({ success: false, error }));
       } else {
-        console.error(chalk.red(`✗ ${error instanceof Error ? error.message : 'E2B API key validation failed'}`));
-        console.error(chalk.dim('  Get your E2B API key from: https://e2b.dev/dashboard'));
+        console.error(chalk.red(`✗ ${error}`));
       }
       process.exit(1);
     }
 
     const db = coordinator['db'];
-    const sessionId = options.sessionId;
+    const sessionId = db.resolveSession(options.sessionId)?.id ?? options.sessionId;
 
     // Get E2B session
     const sessions = db.listE2BSessions();
@@ -2823,6 +4568,26 @@ async function handleSandboxDownload(options: SandboxDownloadOptions) {
       process.exit(1);
     }
 
+    // Sessions on E2B need the API key to reconnect
+    const sandboxManager = createSessionSandboxManager(session);
+    try {
+      if (sandboxManager.getProvider().requiresApiKey) {
+        SandboxManager.validateApiKey();
+      }
+    } catch (error) {
+      if (options.json) {
+        console.log(JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : 'E2B API key validation failed',
+          hint: 'Set E2B_API_KEY environment variable. Get your key from https://e2b.dev/dashboard'
+        }));
+      } else {
+        console.error(chalk.red(`✗ ${error instanceof Error ? error.message : 'E2B API key validation failed'}`));
+        console.error(chalk.dim('  Get your E2B API key from: https://e2b.dev/dashboard'));
+      }
+      process.exit(1);
+    }
+
     if (!options.json) {
       console.log(chalk.bold(`\nDownloading Sandbox Results\n`));
       console.log(chalk.dim(`Sandbox ID: ${session.sandbox_id}`));
@@ -2843,6 +4608,41 @@ async function handleSandboxDownload(options: SandboxDownloadOptions) {
       process.exit(1);
     }
 
+    if (downloadMode.format) {
+      // Apply the sandbox's commits to the output worktree
+      const historyResult = await downloadCommitHistory(sandbox, '/workspace', path.resolve(options.output), {
+        format: downloadMode.format,
+        branch: options.branch
+      });
+
+      if (!historyResult.success) {
+        if (options.json) {
+          console.log(JSON.stringify({ success: false, error: historyResult.error }));
+        } else {
+          console.error(chalk.red(`✗ Download failed: ${historyResult.error}`));
+        }
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          success: true,
+          sessionId,
+          sandboxId: session.sandbox_id,
+          outputPath: options.output,
+          downloadMode: historyResult.format,
+          commitsApplied: historyResult.commitsApplied,
+          branch: historyResult.branch,
+          sizeBytes: historyResult.sizeBytes
+        }, null, 2));
+      } else {
+        console.log(chalk.green(`\n✓ Applied ${historyResult.commitsApplied} commits${historyResult.branch ? ` to ${historyResult.branch}` : ''}`));
+        console.log(chalk.dim(`  Size: ${(historyResult.sizeBytes / 1024 / 1024).toFixed(2)} MB`));
+        console.log(chalk.dim(`  Duration: ${(historyResult.duration / 1000).toFixed(1)}s`));
+      }
+      return;
+    }
+
     // Create output directory
     await fs.mkdir(options.output, { recursive: true });
 
@@ -2888,8 +4688,10 @@ async function handleSandboxDownload(options: SandboxDownloadOptions) {
 sandboxCmd
   .command('download')
   .description('Download results from E2B sandbox to local directory (v1.0)')
-  .requiredOption('--session-id <id>', 'Session ID')
-  .requiredOption('--output <path>', 'Output directory for downloaded files')
+  .requiredOption('--session-id <id>', 'Session ID or name')
+  .requiredOption('--output <path>', 'Output directory for downloaded files (a git worktree with --mode patch|bundle)')
+  .option('--mode <mode>', 'files (copy changed files), patch (git am) or bundle (git bundle + cherry-pick) to keep sandbox commits', 'files')
+  .option('--branch <name>', 'With --mode patch|bundle: create this branch and apply the commits there')
   .option('--json', 'Output as JSON')
   .action(handleSandboxDownload);
 
@@ -2899,7 +4701,7 @@ sandboxCmd
 program
   .command('sandbox-download')
   .description('[DEPRECATED] Use "sandbox download" instead')
-  .requiredOption('--session-id <id>', 'Session ID')
+  .requiredOption('--session-id <id>', 'Session ID or name')
   .requiredOption('--output <path>', 'Output directory for downloaded files')
   .option('--json', 'Output as JSON')
   .action(async (options: SandboxDownloadOptions) => {
@@ -2918,11 +4720,10 @@ interface SandboxKillOptions {
  */
 async function handleSandboxKill(options: SandboxKillOptions) {
   const coordinator = new Coordinator();
-  const sandboxManager = new SandboxManager(logger);
 
   try {
     const db = coordinator['db'];
-    const sessionId = options.sessionId;
+    const sessionId = db.resolveSession(options.sessionId)?.id ?? options.sessionId;
 
     // Get E2B session
     const sessions = db.listE2BSessions();
@@ -2937,11 +4738,14 @@ async function handleSandboxKill(options: SandboxKillOptions) {
       process.exit(1);
     }
 
+    const sandboxManager = createSessionSandboxManager(session);
+
     if (!options.json) {
       console.log(chalk.bold(`\nTerminating Sandbox: ${session.sandbox_id}\n`));
     }
 
-    // Terminate sandbox
+    // Terminate sandbox (reconnect first: it was started by another process)
+    await sandboxManager.getOrReconnectSandbox(session.sandbox_id);
     const termResult = await sandboxManager.terminateSandbox(session.sandbox_id);
 
     if (!termResult.success) {
@@ -2991,7 +4795,7 @@ async function handleSandboxKill(options: SandboxKillOptions) {
 sandboxCmd
   .command('kill')
   .description('Terminate E2B sandbox and cleanup resources (v1.0)')
-  .requiredOption('--session-id <id>', 'Session ID')
+  .requiredOption('--session-id <id>', 'Session ID or name')
   .option('--json', 'Output as JSON')
   .action(handleSandboxKill);
 
@@ -3001,7 +4805,7 @@ sandboxCmd
 program
   .command('sandbox-kill')
   .description('[DEPRECATED] Use "sandbox kill" instead')
-  .requiredOption('--session-id <id>', 'Session ID')
+  .requiredOption('--session-id <id>', 'Session ID or name')
   .option('--json', 'Output as JSON')
   .action(async (options: SandboxKillOptions) => {
     showDeprecationWarning('sandbox-kill', 'sandbox kill');
@@ -3098,11 +4902,10 @@ interface SandboxStatusOptions {
  */
 async function handleSandboxStatus(options: SandboxStatusOptions) {
   const coordinator = new Coordinator();
-  const sandboxManager = new SandboxManager(logger);
 
   try {
     const db = coordinator['db'];
-    const sessionId = options.sessionId;
+    const sessionId = db.resolveSession(options.sessionId)?.id ?? options.sessionId;
 
     // Get E2B session
     const sessions = db.listE2BSessions();
@@ -3117,6 +4920,8 @@ async function handleSandboxStatus(options: SandboxStatusOptions) {
       process.exit(1);
     }
 
+    const sandboxManager = createSessionSandboxManager(session);
+
     if (!options.json) {
       console.log(chalk.bold(`\nSandbox Status: ${session.sandbox_id}\n`));
     }
@@ -3182,7 +4987,7 @@ async function handleSandboxStatus(options: SandboxStatusOptions) {
 sandboxCmd
   .command('status')
   .description('Check health status of E2B sandbox (v1.0)')
-  .requiredOption('--session-id <id>', 'Session ID')
+  .requiredOption('--session-id <id>', 'Session ID or name')
   .option('--json', 'Output as JSON')
   .action(handleSandboxStatus);
 
@@ -3192,7 +4997,7 @@ sandboxCmd
 program
   .command('sandbox-status')
   .description('[DEPRECATED] Use "sandbox status" instead')
-  .requiredOption('--session-id <id>', 'Session ID')
+  .requiredOption('--session-id <id>', 'Session ID or name')
   .option('--json', 'Output as JSON')
   .action(async (options: SandboxStatusOptions) => {
     showDeprecationWarning('sandbox-status', 'sandbox status');
@@ -3316,6 +5121,14 @@ templatesCmd
           }
         }
 
+        if (template.verify && template.verify.commands.length > 0) {
+          const repair = template.verify.repairRounds ? ` (${template.verify.repairRounds} repair rounds)` : '';
+          console.log(`\nVerify Commands${repair}:`);
+          for (const cmd of template.verify.commands) {
+            console.log(chalk.cyan(`  $ ${cmd}`));
+          }
+        }
+
         if (template.environment && Object.keys(template.environment).length > 0) {
           console.log('\nEnvironment Variables:');
           for (const [key, value] of Object.entries(template.environment)) {
@@ -3361,6 +5174,8 @@ templatesCmd
   .option('--e2b-template <name>', 'E2B base template (default: anthropic-claude-code)', 'anthropic-claude-code')
   .option('--setup-commands <cmds...>', 'Setup commands to run after sandbox creation')
   .option('--env <vars...>', 'Environment variables in KEY=value format')
+  .option('--verify <cmds...>', 'Commands run after Claude finishes in "sandbox run"; any failure fails the run')
+  .option('--repair-rounds <n>', 'Feed verify failures back to Claude up to n times (default: 0)')
   .option('--from-repo <path>', 'Detect project type and auto-configure')
   .option('--json', 'Output as JSON')
   .action(async (name: string, options) => {
@@ -3439,7 +5254,13 @@ templatesCmd
         description: options.description,
         e2bTemplate: options.e2bTemplate,
         setupCommands: options.setupCommands || detectedCommands,
-        environment: Object.keys(environment).length > 0 ? environment : undefined
+        environment: Object.keys(environment).length > 0 ? environment : undefined,
+        verify: options.verify
+          ? {
+              commands: options.verify,
+              repairRounds: options.repairRounds !== undefined ? Number(options.repairRounds) : undefined
+            }
+          : undefined
       });
 
       if (options.json) {
@@ -3642,7 +5463,10 @@ configCmd
       // Convert key from kebab-case to camelCase for budget keys
       const normalizedKey = key.replace('monthly-limit', 'monthlyLimit')
         .replace('per-session-default', 'perSessionDefault')
-        .replace('warning-thresholds', 'warningThresholds');
+        .replace('warning-thresholds', 'warningThresholds')
+        .replace('base-ref', 'baseRef')
+        .replace('branch-template', 'branchTemplate')
+        .replace('idle-ttl', 'idleTtlMinutes');
 
       // Parse value based on key type
       let parsedValue: unknown;
@@ -3671,11 +5495,28 @@ configCmd
         parsedValue = value;
       }
 
-      // Route budget keys through setBudgetConfig() for validation
+      // Route budget, worktree and pool keys through their setters for validation
       if (normalizedKey.startsWith('budget.')) {
         const budgetKey = normalizedKey.replace(/^budget\./, '');
         const budgetConfig = { [budgetKey]: parsedValue } as Partial<BudgetConfig>;
         configManager.setBudgetConfig(budgetConfig);
+      } else if (normalizedKey.startsWith('worktree.')) {
+        // Refs and templates are strings even when they look like numbers
+        parsedValue = value;
+        const worktreeKey = normalizedKey.replace(/^worktree\./, '');
+        if (worktreeKey !== 'baseRef' && worktreeKey !== 'branchTemplate') {
+          throw new Error(`Unknown worktree setting: ${worktreeKey} (use worktree.base-ref or worktree.branch-template)`);
+        }
+        configManager.setWorktreeConfig({ [worktreeKey]: parsedValue } as Partial<WorktreeConfig>);
+      } else if (normalizedKey.startsWith('pool.')) {
+        const poolKey = normalizedKey.replace(/^pool\./, '');
+        if (poolKey !== 'size' && poolKey !== 'idleTtlMinutes') {
+          throw new Error(`Unknown pool setting: ${poolKey} (use pool.size or pool.idle-ttl)`);
+        }
+        if (typeof parsedValue !== 'number') {
+          throw new Error(`Invalid number: ${value}`);
+        }
+        configManager.setWarmPoolConfig({ [poolKey]: parsedValue });
       } else {
         configManager.set(normalizedKey, parsedValue);
       }
@@ -3707,7 +5548,10 @@ configCmd
       // Convert key from kebab-case to camelCase
       const normalizedKey = key.replace('monthly-limit', 'monthlyLimit')
         .replace('per-session-default', 'perSessionDefault')
-        .replace('warning-thresholds', 'warningThresholds');
+        .replace('warning-thresholds', 'warningThresholds')
+        .replace('base-ref', 'baseRef')
+        .replace('branch-template', 'branchTemplate')
+        .replace('idle-ttl', 'idleTtlMinutes');
 
       const value = configManager.get(normalizedKey);
 
@@ -3753,8 +5597,20 @@ configCmd
         console.log(`  per-session-default: ${typeof budget.perSessionDefault === 'number' ? `$${budget.perSessionDefault.toFixed(2)}` : chalk.dim('(not set)')}`);
         console.log(`  warning-thresholds: ${Array.isArray(budget.warningThresholds) ? budget.warningThresholds.map(t => `${(t * 100).toFixed(0)}%`).join(', ') : chalk.dim('(not set)')}`);
 
+        // Display worktree config
+        console.log(chalk.cyan('\nWorktree Settings:'));
+        const worktree = configManager.getWorktreeConfig();
+        console.log(`  base-ref: ${worktree.baseRef ?? chalk.dim('HEAD (default)')}`);
+        console.log(`  branch-template: ${worktree.branchTemplate ?? chalk.dim('(not set)')}`);
+
+        // Display warm pool config
+        console.log(chalk.cyan('\nWarm Pool Settings:'));
+        const pool = configManager.getWarmPoolConfig();
+        console.log(`  size: ${pool.size > 0 ? pool.size : chalk.dim('0 (disabled)')} ${chalk.dim('(--multi batches only)')}`);
+        console.log(`  idle-ttl: ${pool.idleTtlMinutes} minutes`);
+
         // Display other config keys
-        const otherKeys = Object.keys(config).filter(k => k !== 'budget');
+        const otherKeys = Object.keys(config).filter(k => k !== 'budget' && k !== 'worktree' && k !== 'pool');
         if (otherKeys.length > 0) {
           console.log(chalk.cyan('\nOther Settings:'));
           for (const key of otherKeys) {
@@ -3817,6 +5673,8 @@ async function budgetStatusAction(options: { period: string; json?: boolean }) {
         console.log(chalk.cyan('Current Period:'));
         console.log(`  Start: ${status.currentPeriod.start}`);
         console.log(`  Spent: ${chalk.yellow(`$${status.currentPeriod.spent.toFixed(2)}`)}`);
+        console.log(chalk.dim(`    Compute (sandboxes): $${status.currentPeriod.computeSpent.toFixed(2)}`));
+        console.log(chalk.dim(`    Model (Anthropic API): $${status.currentPeriod.modelSpent.toFixed(2)}`));
 
         if (status.currentPeriod.limit !== undefined) {
           console.log(`  Limit: $${status.currentPeriod.limit.toFixed(2)}`);
@@ -3835,9 +5693,14 @@ async function budgetStatusAction(options: { period: string; json?: boolean }) {
         if (status.sessions.length > 0) {
           console.log(chalk.cyan('\nActive E2B Sessions:'));
           for (const session of status.sessions) {
-            const cost = session.costEstimate !== undefined ? `$${session.costEstimate.toFixed(2)}` : 'calculating...';
+            const cost = session.computeCost !== undefined && session.modelCost !== undefined
+              ? `$${(session.computeCost + session.modelCost).toFixed(2)} ($${session.computeCost.toFixed(2)} compute + $${session.modelCost.toFixed(2)} model)`
+              : session.costEstimate !== undefined ? `$${session.costEstimate.toFixed(2)}` : 'calculating...';
+            const tokens = session.inputTokens !== undefined
+              ? chalk.dim(` ${session.inputTokens} in / ${session.outputTokens ?? 0} out tokens`)
+              : '';
             const budget = session.budgetLimit !== undefined ? ` (limit: $${session.budgetLimit.toFixed(2)})` : '';
-            console.log(`  ${session.sessionId.substring(0, 8)}... - ${cost}${budget}`);
+            console.log(`  ${session.sessionId.substring(0, 8)}... - ${cost}${budget}${tokens}`);
           }
         } else {
           console.log(chalk.dim('\nNo active E2B sessions.'));
@@ -3866,6 +5729,118 @@ async function budgetStatusAction(options: { period: string; json?: boolean }) {
     }
 }
 
+/**
+ * Column heading for each budget report grouping
+ */
+const BUDGET_REPORT_GROUP_LABELS: Record<BudgetReportGroupBy, string> = {
+  repo: 'Repository',
+  template: 'Template',
+  git_user: 'Git User',
+  day: 'Day'
+};
+
+/**
+ * Quote a CSV field if it contains a separator, quote or newline
+ */
+function toCsvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Action handler for budget report command
+ */
+async function budgetReportAction(options: {
+  period: string;
+  groupBy: string;
+  date?: string;
+  json?: boolean;
+  csv?: boolean;
+}) {
+    let db: SessionDB | null = null;
+    const fail = (message: string): never => {
+      if (options.json) {
+        console.log(JSON.stringify({ error: message }));
+      } else {
+        console.error(chalk.red(`✗ ${message}`));
+      }
+      process.exit(1);
+    };
+
+    try {
+      const allowedPeriods: readonly string[] = ['daily', 'weekly', 'monthly'];
+      if (!allowedPeriods.includes(options.period)) {
+        fail(`Invalid period: ${options.period}. Use daily, weekly, or monthly.`);
+      }
+      const allowedGroups = Object.keys(BUDGET_REPORT_GROUP_LABELS);
+      if (!allowedGroups.includes(options.groupBy)) {
+        fail(`Invalid group: ${options.groupBy}. Use ${allowedGroups.join(', ')}.`);
+      }
+      const date = options.date ? new Date(`${options.date}T00:00:00Z`) : new Date();
+      if (options.date && (!/^\d{4}-\d{2}-\d{2}$/.test(options.date) || isNaN(date.getTime()))) {
+        fail(`Invalid date: ${options.date}. Use YYYY-MM-DD.`);
+      }
+      const period = options.period as BudgetPeriod;
+      const groupBy = options.groupBy as BudgetReportGroupBy;
+
+      db = new SessionDB();
+      const tracker = new BudgetTracker(db, new ConfigManager());
+      const report = tracker.generateBudgetReport(period, groupBy, date);
+      const label = BUDGET_REPORT_GROUP_LABELS[groupBy];
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      if (options.csv) {
+        console.log([groupBy, 'sessions', 'compute_cost', 'model_cost', 'total_cost', 'input_tokens', 'output_tokens'].join(','));
+        for (const group of report.groups) {
+          console.log([
+            group.key,
+            group.sessions,
+            group.computeCost.toFixed(4),
+            group.modelCost.toFixed(4),
+            group.totalCost.toFixed(4),
+            group.inputTokens,
+            group.outputTokens
+          ].map(toCsvField).join(','));
+        }
+        return;
+      }
+
+      console.log(chalk.bold(`\nBudget Report (${period}, by ${label.toLowerCase()})\n`));
+      console.log(chalk.dim(`  Period: ${report.start} to ${report.end} (exclusive)\n`));
+
+      if (report.groups.length === 0) {
+        console.log(chalk.dim('  No costs recorded in this period.'));
+        return;
+      }
+
+      const keyWidth = Math.max(label.length, ...report.groups.map(group => (group.key ?? '(none)').length));
+      console.log(chalk.cyan(
+        `  ${label.padEnd(keyWidth)}  ${'Sessions'.padStart(8)}  ${'Compute'.padStart(9)}  ${'Model'.padStart(9)}  ${'Total'.padStart(9)}`
+      ));
+      for (const group of report.groups) {
+        console.log(
+          `  ${(group.key ?? '(none)').padEnd(keyWidth)}  ${String(group.sessions).padStart(8)}  ` +
+          `${`$${group.computeCost.toFixed(2)}`.padStart(9)}  ${`$${group.modelCost.toFixed(2)}`.padStart(9)}  ` +
+          `${`$${group.totalCost.toFixed(2)}`.padStart(9)}`
+        );
+      }
+      console.log(chalk.bold(
+        `  ${'Total'.padEnd(keyWidth)}  ${String(report.totalSessions).padStart(8)}  ${''.padStart(9)}  ${''.padStart(9)}  ` +
+        `${`$${report.totalCost.toFixed(2)}`.padStart(9)}`
+      ));
+    } catch (error) {
+      fail(`Failed to generate budget report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+}
+
 /**
  * Budget command group - Manage budget settings and view status
  */
@@ -3880,6 +5855,16 @@ budgetCmd
   .option('--json', 'Output as JSON')
   .action(budgetStatusAction);
 
+budgetCmd
+  .command('report')
+  .description('Show spend per repository, template, git user or day')
+  .option('--period <period>', 'Report period (daily, weekly, monthly)', 'monthly')
+  .option('--group-by <group>', 'Group spend by repo, template, git_user or day', 'repo')
+  .option('--date <date>', 'Report on the period containing this date (YYYY-MM-DD, default: today)')
+  .option('--json', 'Output as JSON')
+  .option('--csv', 'Output as CSV')
+  .action(budgetReportAction);
+
 // Backward compatibility alias: budget-status -> budget status
 program
   .command('budget-status')
@@ -7,7 +7,8 @@
 import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { dirname, join as pathJoin } from 'path';
 import { homedir } from 'os';
-import type { BudgetConfig } from './types.js';
+import { BRANCH_TEMPLATE_PLACEHOLDERS } from './gtr.js';
+import type { BudgetConfig, WarmPoolConfig, WorktreeConfig } from './types.js';
 
 /**
  * Default budget configuration values
@@ -19,6 +20,19 @@ export const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
   e2bHourlyRate: 0.10 // Default E2B pricing: $0.10/hour
 };
 
+/**
+ * Default warm pool configuration values (pool disabled)
+ */
+export const DEFAULT_WARM_POOL_CONFIG: Required<WarmPoolConfig> = {
+  size: 0,
+  idleTtlMinutes: 10
+};
+
+/**
+ * Largest allowed warm pool
+ */
+export const MAX_WARM_POOL_SIZE = 20;
+
 /**
  * Default configuration structure
  */
@@ -350,4 +364,87 @@ export class ConfigManager {
 
     this.save();
   }
+
+  /**
+   * Get worktree creation configuration
+   *
+   * @returns Worktree config (empty when not set)
+   */
+  getWorktreeConfig(): WorktreeConfig {
+    const worktree = this.config.worktree;
+    return worktree && typeof worktree === 'object' ? structuredClone(worktree as WorktreeConfig) : {};
+  }
+
+  /**
+   * Set worktree creation configuration (partial update)
+   *
+   * @param config - Partial worktree config to merge
+   * @throws Error if validation fails
+   */
+  setWorktreeConfig(config: Partial<WorktreeConfig>): void {
+    if (config.baseRef !== undefined) {
+      if (typeof config.baseRef !== 'string' || !config.baseRef.trim() || /\s/.test(config.baseRef)) {
+        throw new Error('Base ref must be a git ref name such as HEAD or origin/main');
+      }
+    }
+
+    if (config.branchTemplate !== undefined) {
+      if (typeof config.branchTemplate !== 'string' || !config.branchTemplate.trim()) {
+        throw new Error('Branch template must be a non-empty string');
+      }
+      for (const [, key] of config.branchTemplate.matchAll(/\{([^}]*)\}/g)) {
+        if (!(BRANCH_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(key)) {
+          throw new Error(`Unknown placeholder {${key}} in branch template (use ${BRANCH_TEMPLATE_PLACEHOLDERS.map(p => `{${p}}`).join(', ')})`);
+        }
+      }
+    }
+
+    this.config.worktree = {
+      ...this.getWorktreeConfig(),
+      ...config
+    };
+
+    this.save();
+  }
+
+  /**
+   * Get warm sandbox pool configuration
+   *
+   * @returns Warm pool config with defaults applied
+   */
+  getWarmPoolConfig(): Required<WarmPoolConfig> {
+    const pool = this.config.pool;
+    return {
+      ...DEFAULT_WARM_POOL_CONFIG,
+      ...(pool && typeof pool === 'object' ? structuredClone(pool as WarmPoolConfig) : {})
+    };
+  }
+
+  /**
+   * Set warm sandbox pool configuration (partial update)
+   *
+   * @param config - Partial warm pool config to merge
+   * @throws Error if validation fails
+   */
+  setWarmPoolConfig(config: Partial<WarmPoolConfig>): void {
+    if (config.size !== undefined) {
+      if (!Number.isInteger(config.size) || config.size < 0 || config.size > MAX_WARM_POOL_SIZE) {
+        throw new Error(`Pool size must be an integer between 0 and ${MAX_WARM_POOL_SIZE}`);
+      }
+    }
+
+    if (config.idleTtlMinutes !== undefined) {
+      if (!Number.isFinite(config.idleTtlMinutes) || config.idleTtlMinutes <= 0) {
+        throw new Error('Pool idle TTL must be a positive number of minutes');
+      }
+    }
+
+    const pool = this.config.pool;
+    this.config.pool = {
+      ...(pool && typeof pool === 'object' ? pool as WarmPoolConfig : {}),
+      ...config
+    };
+
+    this.save();
+  }
 }
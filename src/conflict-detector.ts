@@ -92,6 +92,8 @@ export interface DetectConflictsParams {
   currentBranch: string;
   /** Target branch to compare against */
   targetBranch: string;
+  /** Common ancestor to compare from (default: git merge-base of the branches) */
+  mergeBase?: string;
   /** Whether to perform AST-based semantic analysis */
   analyzeSemantics?: boolean;
 }
@@ -136,7 +138,7 @@ export class ConflictDetector {
 
     try {
       // Find merge base (common ancestor)
-      const mergeBase = await this.findMergeBase(currentBranch, targetBranch);
+      const mergeBase = params.mergeBase ?? await this.findMergeBase(currentBranch, targetBranch);
       this.logger?.debug('Found merge base', { mergeBase });
 
       // Run git merge-tree to simulate merge
@@ -269,10 +271,36 @@ export class ConflictDetector {
     }
   }
 
+  /**
+   * Analyze a file that contains conflict markers (e.g. after a failed git merge)
+   *
+   * Produces one conflict per conflicted region, in file order, classified the
+   * same way as conflicts found by detectConflicts().
+   *
+   * @param filePath - Path to the file (relative to repo)
+   * @param content - File content with conflict markers
+   * @param analyzeSemantics - Whether to perform AST-based semantic analysis
+   * @returns Conflicts found in the file (empty if no markers)
+   */
+  async analyzeConflictedFile(
+    filePath: string,
+    content: string,
+    analyzeSemantics: boolean = false
+  ): Promise<Conflict[]> {
+    const conflicts: Conflict[] = [];
+    for (const marker of this.parseConflictMarkers(content)) {
+      conflicts.push(await this.buildConflict(filePath, [marker], analyzeSemantics));
+    }
+    return conflicts;
+  }
+
   /**
    * Parse conflicts from git merge-tree output
    *
-   * merge-tree output format shows files with conflict markers
+   * merge-tree output format shows files with conflict markers. The
+   * three-argument (trivial merge) form prints per-file sections with a
+   * unified diff of the merge result; those are unwrapped to result lines
+   * before looking for markers.
    */
   private async parseConflictsFromMergeTree(
     mergeTreeOutput: string,
@@ -282,8 +310,7 @@ export class ConflictDetector {
 
     // Parse merge-tree output to find conflicting files
     // merge-tree shows the merged result with conflict markers
-    const lines = mergeTreeOutput.split('\n');
-    let currentFile = '';
+    const { lines, files } = this.unwrapMergeTreeOutput(mergeTreeOutput);
     let fileContent: string[] = [];
     let inConflictFile = false;
 
@@ -306,50 +333,9 @@ export class ConflictDetector {
           const markers = this.parseConflictMarkers(content);
 
           if (markers.length > 0) {
-            // Extract file path from merge-tree output (simplified)
-            // In real implementation, would need proper parsing
-            const filePath = this.extractFilePathFromMergeTree(lines, i);
-
-            // Perform AST analysis if requested
-            let astDiff: ASTDiff | undefined;
-            if (analyzeSemantics && this.astAnalyzer && this.isAnalyzableFile(filePath)) {
-              try {
-                const oursContent = markers[0].oursContent;
-                const theirsContent = markers[0].theirsContent;
-
-                const oursAst = await this.astAnalyzer.parseFile(filePath, oursContent);
-                const theirsAst = await this.astAnalyzer.parseFile(filePath, theirsContent);
-
-                if (oursAst && theirsAst) {
-                  const structuralDiff = this.astAnalyzer.detectStructuralChanges(oursAst, theirsAst);
-                  astDiff = {
-                    hasStructuralChanges: structuralDiff.addedNodes.length > 0 ||
-                                         structuralDiff.removedNodes.length > 0 ||
-                                         structuralDiff.modifiedNodes.length > 0,
-                    structuralDiff
-                  };
-                }
-              } catch (error) {
-                this.logger?.warn(`AST analysis failed for ${filePath}: ${error}`);
-              }
-            }
-
-            // Classify conflict
-            const conflictType = this.classifyConflict({ filePath, markers: markers[0], astDiff });
-
-            // Build conflict object
-            const conflict: Conflict = {
-              filePath,
-              conflictType,
-              severity: 'MEDIUM', // Will be calculated
-              markers,
-              analysis: astDiff ? { astDiff } : undefined
-            };
-
-            // Calculate severity
-            conflict.severity = this.calculateSeverity(conflict);
-
-            conflicts.push(conflict);
+            // Prefer the path from the section header, fall back to searching
+            const filePath = files[i] || this.extractFilePathFromMergeTree(lines, i);
+            conflicts.push(await this.buildConflict(filePath, markers, analyzeSemantics));
           }
 
           // Reset for next conflict
@@ -362,6 +348,104 @@ export class ConflictDetector {
     return conflicts;
   }
 
+  /**
+   * Unwrap diff-formatted merge-tree output into merge result lines
+   *
+   * Output without hunk headers is returned unchanged.
+   *
+   * @returns Result lines and, per line, the file path of its section ('' if unknown)
+   */
+  private unwrapMergeTreeOutput(mergeTreeOutput: string): { lines: string[]; files: string[] } {
+    const rawLines = mergeTreeOutput.split('\n');
+    if (!/^@@ /m.test(mergeTreeOutput)) {
+      return { lines: rawLines, files: rawLines.map(() => '') };
+    }
+
+    const lines: string[] = [];
+    const files: string[] = [];
+    let currentFile = '';
+    let inHunk = false;
+
+    for (const raw of rawLines) {
+      // e.g. "  our    100644 0c02ccc... src/file.ts"
+      const fileMatch = raw.match(/^ {2}(?:base|our|their|result)\s+\d+\s+[0-9a-f]+\s+(.+)$/);
+      if (fileMatch) {
+        currentFile = fileMatch[1];
+        inHunk = false;
+        continue;
+      }
+      if (raw.startsWith('@@ ')) {
+        inHunk = true;
+        continue;
+      }
+      if (inHunk && raw.startsWith('-')) {
+        // Base-only line, not part of the merge result
+        continue;
+      }
+
+      if (inHunk && (raw.startsWith('+') || raw.startsWith(' '))) {
+        lines.push(raw.substring(1));
+      } else {
+        // Section header such as "changed in both"
+        inHunk = false;
+        lines.push(raw);
+      }
+      files.push(currentFile);
+    }
+
+    return { lines, files };
+  }
+
+  /**
+   * Build a classified conflict from parsed markers
+   */
+  private async buildConflict(
+    filePath: string,
+    markers: ConflictMarkers[],
+    analyzeSemantics: boolean
+  ): Promise<Conflict> {
+    // Perform AST analysis if requested
+    let astDiff: ASTDiff | undefined;
+    if (analyzeSemantics && this.astAnalyzer && this.isAnalyzableFile(filePath)) {
+      try {
+        const oursContent = markers[0].oursContent;
+        const theirsContent = markers[0].theirsContent;
+
+        const oursAst = await this.astAnalyzer.parseFile(filePath, oursContent);
+        const theirsAst = await this.astAnalyzer.parseFile(filePath, theirsContent);
+
+        if (oursAst && theirsAst) {
+          const structuralDiff = this.astAnalyzer.detectStructuralChanges(oursAst, theirsAst);
+          astDiff = {
+            hasStructuralChanges: structuralDiff.addedNodes.length > 0 ||
+                                 structuralDiff.removedNodes.length > 0 ||
+                                 structuralDiff.modifiedNodes.length > 0,
+            structuralDiff
+          };
+        }
+      } catch (error) {
+        this.logger?.warn(`AST analysis failed for ${filePath}: ${error}`);
+      }
+    }
+
+    // Classify conflict
+    const conflictType = this.classifyConflict({ filePath, markers: markers[0], astDiff });
+
+    // Build conflict object
+    const conflict: Conflict = {
+      filePath,
+      conflictType,
+      severity: 'MEDIUM', // Will be calculated
+      markers,
+      analysis: astDiff ? { astDiff } : undefined
+    };
+
+    // Calculate severity
+    conflict.severity = this.calculateSeverity(conflict);
+
+    return conflict;
+  }
+
   /**
    * Parse conflict markers from file content
    *
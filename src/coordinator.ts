@@ -4,6 +4,7 @@
 
 import { execSync } from 'child_process';
 import { randomUUID } from 'crypto';
+import { userInfo } from 'os';
 import { SessionDB } from './db.js';
 import { GtrWrapper } from './gtr.js';
 import { logger } from './logger.js';
@@ -32,8 +33,11 @@ export class Coordinator {
 
   /**
    * Register a new session. Creates worktree if parallel session exists.
+   *
+   * @param options.name - Human-readable label, used for the worktree/branch
+   *   name and accepted in place of the session ID
    */
-  async register(repoPath: string, pid: number): Promise<RegisterResult> {
+  async register(repoPath: string, pid: number, options: { name?: string } = {}): Promise<RegisterResult> {
     // Validate inputs
     if (!repoPath || typeof repoPath !== 'string') {
       throw new Error('Invalid repository path');
@@ -41,6 +45,10 @@ export class Coordinator {
     if (!pid || pid <= 0 || pid > 2147483647) {
       throw new Error('Invalid process ID');
     }
+    const name = options.name?.trim() || null;
+    if (options.name !== undefined && (!name || name.length > 64)) {
+      throw new Error('Invalid session name (must be 1-64 characters)');
+    }
 
     // Normalize repo path
     const normalizedRepo = this.normalizeRepoPath(repoPath);
@@ -48,8 +56,16 @@ export class Coordinator {
     // Check for existing session with this PID (re-registration)
     const existing = this.db.getSessionByPid(pid);
     if (existing) {
+      // A name given on re-registration renames the session
+      if (name && name !== existing.name) {
+        this.db.transaction(() => {
+          this.claimSessionName(name, existing.id);
+          this.db.updateSessionName(existing.id, name);
+        })();
+      }
       return {
         sessionId: existing.id,
+        name: name ?? existing.name ?? null,
         worktreePath: existing.worktree_path,
         worktreeName: existing.worktree_name,
         isNew: false,
@@ -68,6 +84,10 @@ export class Coordinator {
       const existingSessions = this.db.getSessionsByRepo(normalizedRepo)
         .filter(s => this.isProcessAlive(s.pid));
 
+      if (name) {
+        this.claimSessionName(name);
+      }
+
       const sessionId = randomUUID();
       let worktreePath = normalizedRepo;
       let worktreeName: string | null = null;
@@ -76,9 +96,9 @@ export class Coordinator {
       if (existingSessions.length > 0) {
         // Parallel session exists - create a worktree
         const gtr = new GtrWrapper(normalizedRepo);
-        worktreeName = GtrWrapper.generateWorktreeName(this.config.worktreePrefix);
+        worktreeName = this.getWorktreeName(gtr, name);
 
-        const result = gtr.createWorktree(worktreeName);
+        const result = gtr.createWorktree(worktreeName, this.getWorktreeBaseRef(gtr));
         if (result.success) {
           worktreePath = gtr.getWorktreePath(worktreeName) ?? normalizedRepo;
           isMainRepo = false;
@@ -100,11 +120,13 @@ export class Coordinator {
         repo_path: normalizedRepo,
         worktree_path: worktreePath,
         worktree_name: worktreeName,
-        is_main_repo: isMainRepo
+        is_main_repo: isMainRepo,
+        name
       });
 
       return {
         sessionId,
+        name,
         worktreePath,
         worktreeName,
         isNew: true,
@@ -176,6 +198,7 @@ export class Coordinator {
 
       return {
         sessionId: s.id,
+        name: s.name ?? null,
         pid: s.pid,
         worktreePath: s.worktree_path,
         worktreeName: s.worktree_name,
@@ -249,19 +272,21 @@ export class Coordinator {
 
   /**
    * Subscribe a session to receive notifications when a branch is merged
-   * @param sessionId - Session ID to subscribe
+   * @param sessionId - Session ID (or name) to subscribe
    * @param branchName - Branch name to watch
    * @param targetBranch - Target branch (defaults to 'main')
+   * @param autoRebase - Rebase the session's worktree onto the target once merged
    * @returns Subscription result with ID and status
    */
   subscribeToMerge(
     sessionId: string,
     branchName: string,
-    targetBranch: string = 'main'
+    targetBranch: string = 'main',
+    autoRebase: boolean = false
   ): { subscriptionId: string; success: boolean; message: string } {
     try {
       // Validate session exists
-      const session = this.db.getSessionById(sessionId);
+      const session = this.db.resolveSession(sessionId);
       if (!session) {
         return {
           subscriptionId: '',
@@ -274,11 +299,12 @@ export class Coordinator {
       const subscriptionId = randomUUID();
       this.db.createSubscription({
         id: subscriptionId,
-        session_id: sessionId,
+        session_id: session.id,
         repo_path: session.repo_path,
         branch_name: branchName,
         target_branch: targetBranch,
-        is_active: true
+        is_active: true,
+        auto_rebase: autoRebase
       });
 
       logger.info(`Created merge subscription ${subscriptionId} for session ${sessionId}: ${branchName} -> ${targetBranch}`);
@@ -380,6 +406,70 @@ export class Coordinator {
     await this.cleanup();
   }
 
+  /**
+   * Name (and branch) for a new worktree
+   *
+   * Uses the configured branch template if any, otherwise the worktree prefix
+   * plus the session name or a random suffix.
+   */
+  private getWorktreeName(gtr: GtrWrapper, name: string | null): string {
+    const template = this.config.branchTemplate;
+    if (template) {
+      try {
+        const id = Math.random().toString(36).substring(2, 6);
+        const branch = GtrWrapper.formatBranchName(template, {
+          user: process.env.USER || userInfo().username,
+          date: new Date().toISOString().substring(0, 10),
+          label: name ?? `${Date.now().toString(36)}-${id}`,
+          id
+        });
+        return gtr.branchExists(branch) ? `${branch}-${id}` : branch;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Branch template not used: ${message}`);
+        console.error(`Warning: Branch template not used: ${message}`);
+      }
+    }
+    return GtrWrapper.generateWorktreeName(this.config.worktreePrefix, name ?? undefined);
+  }
+
+  /**
+   * Ref a new worktree starts from (the configured base ref, fetched first if remote)
+   */
+  private getWorktreeBaseRef(gtr: GtrWrapper): string {
+    const configured = this.config.worktreeBaseRef;
+    if (!configured || configured === 'HEAD') {
+      return 'HEAD';
+    }
+
+    const { ref, warning } = gtr.resolveBaseRef(configured);
+    if (warning) {
+      logger.warn(warning);
+      console.error(`Warning: ${warning}`);
+    }
+    return ref;
+  }
+
+  /**
+   * Free a session name for a session to take
+   *
+   * Names identify sessions, so they must be unique among live sessions; a
+   * dead session holding the name loses it.
+   *
+   * @param name - Session name
+   * @param sessionId - Session taking the name, if it already exists
+   */
+  private claimSessionName(name: string, sessionId?: string): void {
+    const holder = this.db.getSessionByName(name);
+    if (!holder || holder.id === sessionId) {
+      return;
+    }
+    if (this.isProcessAlive(holder.pid)) {
+      throw new Error(`Session name "${name}" is already in use (PID ${holder.pid})`);
+    }
+    this.db.updateSessionName(holder.id, null);
+  }
+
   /**
    * Check if a process is still running
    */
@@ -14,6 +14,7 @@ import type {
   Config,
   MergeEvent,
   MergeEventRow,
+  MergeStyle,
   Subscription,
   SubscriptionRow,
   FileClaim,
@@ -33,7 +34,25 @@ import type {
   ExecutionMode,
   BudgetTracking,
   BudgetTrackingRow,
-  BudgetPeriod
+  BudgetPeriod,
+  ClaudeUsage,
+  SessionCosts,
+  SessionCostsRow,
+  CostAttribution,
+  BudgetReportGroupBy,
+  BudgetReportGroup,
+  ClaimRequest,
+  ClaimRequestRow,
+  ClaimRequestFilters,
+  CreateClaimRequestParams,
+  ParallelBatch,
+  ParallelBatchRow,
+  ParallelBatchStatus,
+  ParallelBatchTask,
+  ParallelBatchTaskRow,
+  ParallelBatchTaskUpdate,
+  ParallelTaskDefinition,
+  PersistedBatchConfig
 } from './types.js';
 import { SandboxStatus } from './types.js';
 import { DEFAULT_CONFIG } from './types.js';
@@ -47,6 +66,7 @@ import {
   sanitizeMetadata
 } from './db-validators.js';
 import { logger } from './logger.js';
+import { claimPathsOverlap } from './claim-patterns.js';
 
 /**
  * Get the package root directory (parent of src/)
@@ -119,9 +139,57 @@ export class SessionDB {
       CREATE INDEX IF NOT EXISTS idx_sessions_pid ON sessions(pid);
       CREATE INDEX IF NOT EXISTS idx_sessions_heartbeat ON sessions(last_heartbeat);
     `);
+    this.initSessionNames();
+    this.initSessionSandboxProvider();
 
     // v0.4: Merge detection tables
     this.initMergeDetection();
+
+    // v2.1: Parallel batch state (for resume)
+    this.initParallelBatches();
+
+    // v2.1: Compute vs. model cost per session
+    this.initSessionCosts();
+    this.initClaimQueue();
+    this.initConflictResolutionAction();
+  }
+
+  /**
+   * Add the optional human-readable session name (register --name)
+   *
+   * Names are unique (case-insensitive) among registered sessions so they can
+   * be used in place of a session ID.
+   */
+  private initSessionNames(): void {
+    const hasName = this.db.prepare(`
+      SELECT name FROM pragma_table_info('sessions') WHERE name = 'name'
+    `).get();
+    if (!hasName) {
+      this.db.exec(`ALTER TABLE sessions ADD COLUMN name TEXT`);
+    }
+    this.db.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_name
+        ON sessions(name COLLATE NOCASE) WHERE name IS NOT NULL
+    `);
+  }
+
+  /**
+   * Add the sandbox provider and image a sandbox session was started with
+   *
+   * Later commands (download, kill, status, continue) reconnect through the
+   * same provider. Sessions without a provider were started on E2B.
+   */
+  private initSessionSandboxProvider(): void {
+    const columns = this.db.prepare(`
+      SELECT name FROM pragma_table_info('sessions') WHERE name IN ('sandbox_provider', 'sandbox_image')
+    `).all() as Array<{ name: string }>;
+    const existing = new Set(columns.map(c => c.name));
+    if (!existing.has('sandbox_provider')) {
+      this.db.exec(`ALTER TABLE sessions ADD COLUMN sandbox_provider TEXT`);
+    }
+    if (!existing.has('sandbox_image')) {
+      this.db.exec(`ALTER TABLE sessions ADD COLUMN sandbox_image TEXT`);
+    }
   }
 
   /**
@@ -160,12 +228,167 @@ export class SessionDB {
       CREATE INDEX IF NOT EXISTS idx_subscriptions_repo ON subscriptions(repo_path);
       CREATE INDEX IF NOT EXISTS idx_subscriptions_active ON subscriptions(is_active);
     `);
+
+    // Merge style (merge/squash/rebase) was added after v0.4
+    const hasMergeStyle = this.db.prepare(`
+      SELECT name FROM pragma_table_info('merge_events') WHERE name = 'merge_style'
+    `).get();
+    if (!hasMergeStyle) {
+      this.db.exec(`ALTER TABLE merge_events ADD COLUMN merge_style TEXT`);
+    }
+
+    const hasAutoRebase = this.db.prepare(`
+      SELECT name FROM pragma_table_info('subscriptions') WHERE name = 'auto_rebase'
+    `).get();
+    if (!hasAutoRebase) {
+      this.db.exec(`ALTER TABLE subscriptions ADD COLUMN auto_rebase INTEGER NOT NULL DEFAULT 0`);
+    }
+  }
+
+  /**
+   * Initialize parallel batch tables (v2.1)
+   */
+  private initParallelBatches(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS parallel_batches (
+        id TEXT PRIMARY KEY,
+        repo_path TEXT NOT NULL,
+        output_dir TEXT NOT NULL,
+        config TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'completed', 'failed', 'cancelled')),
+        pid INTEGER NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        completed_at TEXT,
+        budget_exceeded INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS parallel_batch_tasks (
+        batch_id TEXT NOT NULL,
+        task_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        prompt TEXT NOT NULL,
+        depends_on TEXT NOT NULL DEFAULT '[]',
+        status TEXT NOT NULL DEFAULT 'pending'
+          CHECK(status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+        session_id TEXT,
+        session_pid INTEGER,
+        sandbox_id TEXT,
+        worktree_path TEXT,
+        output_path TEXT NOT NULL,
+        started_at TEXT,
+        ended_at TEXT,
+        files_changed INTEGER NOT NULL DEFAULT 0,
+        exit_code INTEGER,
+        cost_estimate REAL,
+        error TEXT,
+        PRIMARY KEY (batch_id, task_id),
+        FOREIGN KEY (batch_id) REFERENCES parallel_batches(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_parallel_batches_status ON parallel_batches(status);
+      CREATE INDEX IF NOT EXISTS idx_parallel_batches_repo ON parallel_batches(repo_path);
+    `);
+
+    const hasBudgetExceeded = this.db.prepare(`
+      SELECT name FROM pragma_table_info('parallel_batches') WHERE name = 'budget_exceeded'
+    `).get();
+    if (!hasBudgetExceeded) {
+      this.db.exec(`ALTER TABLE parallel_batches ADD COLUMN budget_exceeded INTEGER NOT NULL DEFAULT 0`);
+    }
+  }
+
+  /**
+   * Initialize session cost breakdown table (v2.1)
+   *
+   * Kept separate from sessions so costs survive session cleanup. When the
+   * table is first created, sessions that already have an actual cost are
+   * copied in as compute cost (model cost was not tracked before v2.1).
+   */
+  private initSessionCosts(): void {
+    const exists = this.db.prepare(`
+      SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'session_costs'
+    `).get();
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS session_costs (
+        session_id TEXT PRIMARY KEY,
+        compute_cost REAL NOT NULL DEFAULT 0,
+        model_cost REAL NOT NULL DEFAULT 0,
+        turns INTEGER,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        cache_creation_input_tokens INTEGER,
+        cache_read_input_tokens INTEGER,
+        repo_path TEXT,
+        template_name TEXT,
+        git_user TEXT,
+        recorded_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_session_costs_recorded ON session_costs(recorded_at);
+    `);
+
+    if (!exists && this.hasV11Columns()) {
+      this.db.exec(`
+        INSERT OR IGNORE INTO session_costs (session_id, compute_cost, repo_path, template_name, git_user, recorded_at)
+        SELECT id, actual_cost, repo_path, template_name, git_user, last_heartbeat
+        FROM sessions
+        WHERE actual_cost IS NOT NULL
+      `);
+    }
+  }
+
+  /**
+   * Add the action column to conflict_resolutions (created by the v0.5.0 migration)
+   *
+   * Marks rows logged by auto-rebase, so they can be told apart from resolved
+   * merge conflicts.
+   */
+  private initConflictResolutionAction(): void {
+    if (!this.hasConflictResolutionsTable()) {
+      return;
+    }
+    const hasAction = this.db.prepare(`
+      SELECT name FROM pragma_table_info('conflict_resolutions') WHERE name = 'action'
+    `).get();
+    if (!hasAction) {
+      this.db.exec(`ALTER TABLE conflict_resolutions ADD COLUMN action TEXT`);
+    }
+  }
+
+  /**
+   * Initialize claim wait queue table
+   *
+   * seq gives the FIFO order in which waiting requests are granted.
+   */
+  private initClaimQueue(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS claim_requests (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        session_id TEXT NOT NULL,
+        repo_path TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        claim_mode TEXT NOT NULL CHECK (claim_mode IN ('EXCLUSIVE', 'SHARED', 'INTENT')),
+        ttl_hours REAL,
+        reason TEXT,
+        status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'granted', 'cancelled')),
+        claim_id TEXT,
+        cancel_reason TEXT,
+        requested_at TEXT NOT NULL DEFAULT (datetime('now')),
+        resolved_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_claim_requests_status ON claim_requests(repo_path, status);
+      CREATE INDEX IF NOT EXISTS idx_claim_requests_session ON claim_requests(session_id);
+    `);
   }
 
   createSession(session: Omit<Session, 'created_at' | 'last_heartbeat'>): Session {
     const stmt = this.db.prepare(`
-      INSERT INTO sessions (id, pid, repo_path, worktree_path, worktree_name, is_main_repo)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO sessions (id, pid, repo_path, worktree_path, worktree_name, is_main_repo, name)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
       RETURNING *
     `);
 
@@ -175,7 +398,8 @@ export class SessionDB {
       session.repo_path,
       session.worktree_path,
       session.worktree_name,
-      session.is_main_repo ? 1 : 0
+      session.is_main_repo ? 1 : 0,
+      session.name ?? null
     ) as SessionRow;
 
     return this.rowToSession(row);
@@ -205,12 +429,38 @@ export class SessionDB {
     return row ? this.rowToSession(row) : null;
   }
 
+  /**
+   * Get a session by its name (case-insensitive)
+   */
+  getSessionByName(name: string): Session | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM sessions WHERE name = ? COLLATE NOCASE
+    `);
+    const row = stmt.get(name) as SessionRow | undefined;
+    return row ? this.rowToSession(row) : null;
+  }
+
+  /**
+   * Get a session by ID or, failing that, by name
+   *
+   * Used wherever a user can refer to a session (CLI options, MCP inputs).
+   */
+  resolveSession(idOrName: string): Session | null {
+    return this.getSessionById(idOrName) ?? this.getSessionByName(idOrName);
+  }
+
   getAllSessions(): Session[] {
     const stmt = this.db.prepare(`SELECT * FROM sessions`);
     const rows = stmt.all() as SessionRow[];
     return rows.map(row => this.rowToSession(row));
   }
 
+  updateSessionName(sessionId: string, name: string | null): boolean {
+    const stmt = this.db.prepare(`UPDATE sessions SET name = ? WHERE id = ?`);
+    const result = stmt.run(name, sessionId);
+    return result.changes > 0;
+  }
+
   updateHeartbeat(sessionId: string): boolean {
     const stmt = this.db.prepare(`
       UPDATE sessions
@@ -288,7 +538,8 @@ export class SessionDB {
       budget_limit: row.budget_limit ?? undefined,
       cost_estimate: row.cost_estimate ?? undefined,
       actual_cost: row.actual_cost ?? undefined,
-      template_name: row.template_name || undefined
+      template_name: row.template_name || undefined,
+      name: row.name ?? null
     };
   }
 
@@ -306,10 +557,12 @@ export class SessionDB {
   /**
    * Create a new merge event record
    */
-  createMergeEvent(event: Omit<MergeEvent, 'merged_at' | 'detected_at'>): MergeEvent {
+  createMergeEvent(
+    event: Omit<MergeEvent, 'merged_at' | 'detected_at' | 'merge_style'> & { merge_style?: MergeStyle | null }
+  ): MergeEvent {
     const stmt = this.db.prepare(`
-      INSERT INTO merge_events (id, repo_path, branch_name, source_commit, target_branch, target_commit, notification_sent)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO merge_events (id, repo_path, branch_name, source_commit, target_branch, target_commit, notification_sent, merge_style)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       RETURNING *
     `);
 
@@ -320,7 +573,8 @@ export class SessionDB {
       event.source_commit,
       event.target_branch,
       event.target_commit,
-      event.notification_sent ? 1 : 0
+      event.notification_sent ? 1 : 0,
+      event.merge_style ?? null
     ) as MergeEventRow;
 
     return this.rowToMergeEvent(row);
@@ -398,7 +652,8 @@ export class SessionDB {
   private rowToMergeEvent(row: MergeEventRow): MergeEvent {
     return {
       ...row,
-      notification_sent: row.notification_sent === 1
+      notification_sent: row.notification_sent === 1,
+      merge_style: row.merge_style as MergeStyle | null
     };
   }
 
@@ -409,10 +664,12 @@ export class SessionDB {
   /**
    * Create a new subscription
    */
-  createSubscription(sub: Omit<Subscription, 'created_at' | 'notified_at'>): Subscription {
+  createSubscription(
+    sub: Omit<Subscription, 'created_at' | 'notified_at' | 'auto_rebase'> & { auto_rebase?: boolean }
+  ): Subscription {
     const stmt = this.db.prepare(`
-      INSERT INTO subscriptions (id, session_id, repo_path, branch_name, target_branch, is_active)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO subscriptions (id, session_id, repo_path, branch_name, target_branch, is_active, auto_rebase)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
       RETURNING *
     `);
 
@@ -422,7 +679,8 @@ export class SessionDB {
       sub.repo_path,
       sub.branch_name,
       sub.target_branch,
-      sub.is_active ? 1 : 0
+      sub.is_active ? 1 : 0,
+      sub.auto_rebase ? 1 : 0
     ) as SubscriptionRow;
 
     return this.rowToSubscription(row);
@@ -507,7 +765,8 @@ export class SessionDB {
   private rowToSubscription(row: SubscriptionRow): Subscription {
     return {
       ...row,
-      is_active: row.is_active === 1
+      is_active: row.is_active === 1,
+      auto_rebase: row.auto_rebase === 1
     };
   }
 
@@ -568,6 +827,7 @@ export class SessionDB {
       if (tables.length !== 4) {
         throw new Error(`Migration verification failed: expected 4 tables, got ${tables.length}`);
       }
+      this.initConflictResolutionAction();
 
       logger.info('Migration to v0.5.0 completed successfully');
     } catch (error) {
@@ -640,6 +900,36 @@ export class SessionDB {
     }
   }
 
+  /**
+   * Check if conflict_resolutions table exists (v0.5)
+   */
+  hasConflictResolutionsTable(): boolean {
+    try {
+      const result = this.db.prepare(`
+        SELECT name FROM sqlite_master
+        WHERE type='table' AND name='conflict_resolutions'
+      `).get() as { name: string } | undefined;
+      return result !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check if file_claims table exists (v0.5)
+   */
+  hasFileClaimsTable(): boolean {
+    try {
+      const result = this.db.prepare(`
+        SELECT name FROM sqlite_master
+        WHERE type='table' AND name='file_claims'
+      `).get() as { name: string } | undefined;
+      return result !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
   // ============================================================================
   // File Claims (v0.5)
   // ============================================================================
@@ -669,14 +959,15 @@ export class SessionDB {
 
     // Use transaction for atomicity
     return this.db.transaction(() => {
-      // Check for conflicting claims
-      const conflicts = this.db.prepare(`
-        SELECT id, claim_mode, session_id, expires_at
+      // Check for conflicting claims (on the same path or an overlapping pattern)
+      const conflicts = (this.db.prepare(`
+        SELECT id, file_path, claim_mode, session_id, expires_at
         FROM file_claims
-        WHERE repo_path = ? AND file_path = ? AND is_active = 1
+        WHERE repo_path = ? AND is_active = 1
           AND datetime(expires_at) > datetime('now')
           AND deleted_at IS NULL
-      `).all(params.repo_path, params.file_path) as FileClaimRow[];
+      `).all(params.repo_path) as FileClaimRow[])
+        .filter(claim => claimPathsOverlap(claim.file_path, params.file_path));
 
       // Validate compatibility
       for (const conflict of conflicts) {
@@ -934,6 +1225,165 @@ export class SessionDB {
     return result.changes;
   }
 
+  /**
+   * Release claims held by sessions that ended or stopped sending heartbeats
+   *
+   * @param repoPath - Repository path
+   * @param staleMinutes - Heartbeat age after which a session counts as stale
+   * @returns Number of claims released
+   */
+  releaseStaleSessionClaims(repoPath: string, staleMinutes: number): number {
+    const result = this.db.prepare(`
+      UPDATE file_claims
+      SET is_active = 0, released_at = datetime('now'), deleted_reason = 'stale'
+      WHERE repo_path = ? AND is_active = 1 AND deleted_at IS NULL
+        AND session_id NOT IN (
+          SELECT id FROM sessions
+          WHERE datetime(last_heartbeat) >= datetime('now', ? || ' minutes')
+        )
+    `).run(repoPath, -staleMinutes);
+    if (result.changes > 0) {
+      logger.info(`Released ${result.changes} claims held by stale sessions in ${repoPath}`);
+    }
+    return result.changes;
+  }
+
+  /**
+   * Queue a claim request behind conflicting claims
+   *
+   * @param params - Requested claim
+   * @returns The waiting request
+   */
+  createClaimRequest(params: CreateClaimRequestParams): ClaimRequest {
+    validateFilePath(params.repo_path, params.file_path);
+    validateClaimMode(params.claim_mode);
+
+    const row = this.db.prepare(`
+      INSERT INTO claim_requests (id, session_id, repo_path, file_path, claim_mode, ttl_hours, reason)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `).get(
+      randomUUID(),
+      params.session_id,
+      params.repo_path,
+      params.file_path,
+      params.claim_mode,
+      params.ttl_hours ?? null,
+      params.reason ?? null
+    ) as ClaimRequestRow;
+
+    logger.info(`Queued ${params.claim_mode} claim request on ${params.file_path} for session ${params.session_id}`);
+    return this.rowToClaimRequest(row);
+  }
+
+  /**
+   * Get a claim request by ID
+   *
+   * @param requestId - Request ID
+   * @returns The request or null if not found
+   */
+  getClaimRequest(requestId: string): ClaimRequest | null {
+    const row = this.db.prepare('SELECT * FROM claim_requests WHERE id = ?')
+      .get(requestId) as ClaimRequestRow | undefined;
+    return row ? this.rowToClaimRequest(row) : null;
+  }
+
+  /**
+   * List claim requests in FIFO order
+   *
+   * @param filters - Query filters
+   * @returns Matching requests, oldest first
+   */
+  listClaimRequests(filters?: ClaimRequestFilters): ClaimRequest[] {
+    let query = 'SELECT * FROM claim_requests WHERE 1 = 1';
+    const params: unknown[] = [];
+
+    if (filters?.session_id) {
+      query += ' AND session_id = ?';
+      params.push(filters.session_id);
+    }
+
+    if (filters?.repo_path) {
+      query += ' AND repo_path = ?';
+      params.push(filters.repo_path);
+    }
+
+    if (filters?.status) {
+      query += ' AND status = ?';
+      params.push(filters.status);
+    }
+
+    query += ' ORDER BY seq ASC';
+
+    const rows = this.db.prepare(query).all(...params) as ClaimRequestRow[];
+    return rows.map(row => this.rowToClaimRequest(row));
+  }
+
+  /**
+   * Mark a waiting claim request as granted
+   *
+   * @param requestId - Request ID
+   * @param claimId - Claim acquired for the request
+   * @returns true if the request was still waiting
+   */
+  grantClaimRequest(requestId: string, claimId: string): boolean {
+    const result = this.db.prepare(`
+      UPDATE claim_requests
+      SET status = 'granted', claim_id = ?, resolved_at = datetime('now')
+      WHERE id = ? AND status = 'waiting'
+    `).run(claimId, requestId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Cancel waiting claim requests
+   *
+   * @param filters - Request ID or session whose waiting requests to cancel
+   * @param reason - Why the requests were cancelled
+   * @returns Number of requests cancelled
+   */
+  cancelClaimRequests(filters: { id?: string; session_id?: string }, reason: string): number {
+    if (!filters.id && !filters.session_id) {
+      return 0;
+    }
+    let query = `
+      UPDATE claim_requests
+      SET status = 'cancelled', cancel_reason = ?, resolved_at = datetime('now')
+      WHERE status = 'waiting'
+    `;
+    const params: unknown[] = [reason];
+
+    if (filters.id) {
+      query += ' AND id = ?';
+      params.push(filters.id);
+    }
+
+    if (filters.session_id) {
+      query += ' AND session_id = ?';
+      params.push(filters.session_id);
+    }
+
+    return this.db.prepare(query).run(...params).changes;
+  }
+
+  private rowToClaimRequest(row: ClaimRequestRow): ClaimRequest {
+    return {
+      seq: row.seq,
+      id: row.id,
+      session_id: row.session_id,
+      repo_path: row.repo_path,
+      file_path: row.file_path,
+      claim_mode: row.claim_mode,
+      ttl_hours: row.ttl_hours ?? undefined,
+      reason: row.reason ?? undefined,
+      status: row.status,
+      claim_id: row.claim_id ?? undefined,
+      cancel_reason: row.cancel_reason ?? undefined,
+      requested_at: row.requested_at,
+      resolved_at: row.resolved_at ?? undefined
+    };
+  }
+
   private rowToFileClaim(row: FileClaimRow): FileClaim {
     return {
       id: row.id,
@@ -979,11 +1429,11 @@ export class SessionDB {
     const stmt = this.db.prepare(`
       INSERT INTO conflict_resolutions (
         id, session_id, repo_path, file_path, conflict_type,
-        base_commit, source_commit, target_commit, resolution_strategy,
+        base_commit, source_commit, target_commit, resolution_strategy, action,
         confidence_score, conflict_markers, resolved_content,
         auto_fix_suggestion_id, metadata
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       RETURNING *
     `);
 
@@ -997,6 +1447,7 @@ export class SessionDB {
       params.source_commit,
       params.target_commit,
       params.resolution_strategy,
+      params.action ?? null,
       params.confidence_score || null,
       params.conflict_markers,
       params.resolved_content || null,
@@ -1126,6 +1577,7 @@ export class SessionDB {
       source_commit: row.source_commit,
       target_commit: row.target_commit,
       resolution_strategy: row.resolution_strategy,
+      action: row.action ?? undefined,
       confidence_score: row.confidence_score || undefined,
       conflict_markers: row.conflict_markers,
       resolved_content: row.resolved_content || undefined,
@@ -1300,13 +1752,15 @@ export class SessionDB {
     sandbox_id: string;
     prompt: string;
     status?: SandboxStatus;
+    sandbox_provider?: string;
+    sandbox_image?: string | null;
   }): E2BSession {
     const stmt = this.db.prepare(`
       INSERT INTO sessions (
         id, pid, repo_path, worktree_path, worktree_name, is_main_repo,
-        execution_mode, sandbox_id, prompt, status
+        execution_mode, sandbox_id, prompt, status, sandbox_provider, sandbox_image
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       RETURNING *
     `);
 
@@ -1320,7 +1774,9 @@ export class SessionDB {
       'e2b',
       params.sandbox_id,
       params.prompt,
-      params.status || SandboxStatus.INITIALIZING
+      params.status || SandboxStatus.INITIALIZING,
+      params.sandbox_provider ?? 'e2b',
+      params.sandbox_image ?? null
     ) as E2BSessionRow;
 
     logger.info(`Created E2B session ${params.id} with sandbox ${params.sandbox_id}`);
@@ -1452,7 +1908,9 @@ export class SessionDB {
       sandbox_id: row.sandbox_id,
       prompt: row.prompt,
       status: (row.status as SandboxStatus) || SandboxStatus.INITIALIZING,
-      output_log: row.output_log || undefined
+      output_log: row.output_log || undefined,
+      sandbox_provider: row.sandbox_provider || 'e2b',
+      sandbox_image: row.sandbox_image || undefined
     };
   }
 
@@ -1552,6 +2010,11 @@ export class SessionDB {
       // Run migration (already wrapped in transaction in SQL file)
       this.db.exec(migrationSQL);
 
+      // Migrations rebuild the sessions table without columns added since
+      this.initSessionNames();
+      this.initSessionSandboxProvider();
+      this.initConflictResolutionAction();
+
       // Verify schema version was updated
       const newVersion = this.getSchemaVersion();
       if (newVersion !== version) {
@@ -1759,6 +2222,422 @@ export class SessionDB {
     };
   }
 
+  /**
+   * Set the template and git user a session is attributed to (v1.1)
+   *
+   * Values that are not given keep their current value.
+   *
+   * @param sessionId - Session ID
+   * @param attribution - Template and git user
+   * @returns true if session was updated (false before the v1.1 migration)
+   */
+  updateSessionAttribution(sessionId: string, attribution: CostAttribution): boolean {
+    if (!this.hasV11Columns()) {
+      return false;
+    }
+    const result = this.db.prepare(`
+      UPDATE sessions
+      SET template_name = COALESCE(?, template_name), git_user = COALESCE(?, git_user)
+      WHERE id = ?
+    `).run(attribution.templateName ?? null, attribution.gitUser ?? null, sessionId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Record the compute and model cost of a session (replaces an earlier record)
+   *
+   * The session's repo, template and git user are copied into the record so
+   * spend stays attributable after the session is released.
+   *
+   * @param sessionId - Session ID
+   * @param computeCost - Sandbox cost in USD
+   * @param modelCost - Anthropic API cost in USD
+   * @param usage - Token usage, if Claude reported it
+   * @param keepRecordedAt - Keep the date of an earlier record instead of dating it now
+   * @returns The stored record
+   */
+  recordSessionCosts(
+    sessionId: string,
+    computeCost: number,
+    modelCost: number,
+    usage?: ClaudeUsage,
+    keepRecordedAt = false
+  ): SessionCosts {
+    const session = this.getSessionById(sessionId);
+    const stmt = this.db.prepare(`
+      INSERT INTO session_costs (
+        session_id, compute_cost, model_cost, turns, input_tokens, output_tokens,
+        cache_creation_input_tokens, cache_read_input_tokens, repo_path, template_name, git_user
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        compute_cost = excluded.compute_cost,
+        model_cost = excluded.model_cost,
+        turns = excluded.turns,
+        input_tokens = excluded.input_tokens,
+        output_tokens = excluded.output_tokens,
+        cache_creation_input_tokens = excluded.cache_creation_input_tokens,
+        cache_read_input_tokens = excluded.cache_read_input_tokens,
+        repo_path = COALESCE(excluded.repo_path, session_costs.repo_path),
+        template_name = COALESCE(excluded.template_name, session_costs.template_name),
+        git_user = COALESCE(excluded.git_user, session_costs.git_user),
+        recorded_at = CASE WHEN ? THEN session_costs.recorded_at ELSE datetime('now') END
+      RETURNING *
+    `);
+    const row = stmt.get(
+      sessionId,
+      computeCost,
+      modelCost,
+      usage?.turns ?? null,
+      usage?.inputTokens ?? null,
+      usage?.outputTokens ?? null,
+      usage?.cacheCreationInputTokens ?? null,
+      usage?.cacheReadInputTokens ?? null,
+      session?.repo_path ?? null,
+      session?.template_name ?? null,
+      session?.git_user ?? null,
+      keepRecordedAt ? 1 : 0
+    ) as SessionCostsRow;
+    return this.rowToSessionCosts(row);
+  }
+
+  /**
+   * Get the cost record of a session
+   *
+   * @param sessionId - Session ID
+   * @returns Cost record or null if none was recorded
+   */
+  getSessionCosts(sessionId: string): SessionCosts | null {
+    const row = this.db.prepare('SELECT * FROM session_costs WHERE session_id = ?')
+      .get(sessionId) as SessionCostsRow | undefined;
+    return row ? this.rowToSessionCosts(row) : null;
+  }
+
+  /**
+   * Sum compute and model cost recorded since a date
+   *
+   * @param since - ISO date (YYYY-MM-DD, UTC)
+   * @returns Compute and model cost in USD
+   */
+  getCostBreakdownSince(since: string): { computeCost: number; modelCost: number } {
+    const row = this.db.prepare(`
+      SELECT COALESCE(SUM(compute_cost), 0) AS compute_cost, COALESCE(SUM(model_cost), 0) AS model_cost
+      FROM session_costs
+      WHERE recorded_at >= ?
+    `).get(since) as { compute_cost: number; model_cost: number };
+    return { computeCost: row.compute_cost, modelCost: row.model_cost };
+  }
+
+  /**
+   * Sum recorded cost per repo, template, git user or day
+   *
+   * @param start - First day to include (YYYY-MM-DD, UTC)
+   * @param end - First day to exclude (YYYY-MM-DD, UTC)
+   * @param groupBy - Dimension to group by
+   * @returns Groups ordered by total cost, or by day for day grouping
+   */
+  getCostReport(start: string, end: string, groupBy: BudgetReportGroupBy): BudgetReportGroup[] {
+    const groupColumn: Record<BudgetReportGroupBy, string> = {
+      repo: 'repo_path',
+      template: 'template_name',
+      git_user: 'git_user',
+      day: 'date(recorded_at)'
+    };
+    const rows = this.db.prepare(`
+      SELECT
+        ${groupColumn[groupBy]} AS group_key,
+        COUNT(*) AS sessions,
+        SUM(compute_cost) AS compute_cost,
+        SUM(model_cost) AS model_cost,
+        COALESCE(SUM(input_tokens), 0) AS input_tokens,
+        COALESCE(SUM(output_tokens), 0) AS output_tokens
+      FROM session_costs
+      WHERE recorded_at >= ? AND recorded_at < ?
+      GROUP BY group_key
+      ORDER BY ${groupBy === 'day' ? 'group_key ASC' : 'SUM(compute_cost + model_cost) DESC, group_key ASC'}
+    `).all(start, end) as Array<{
+      group_key: string | null;
+      sessions: number;
+      compute_cost: number;
+      model_cost: number;
+      input_tokens: number;
+      output_tokens: number;
+    }>;
+    return rows.map(row => ({
+      key: row.group_key,
+      sessions: row.sessions,
+      computeCost: row.compute_cost,
+      modelCost: row.model_cost,
+      totalCost: row.compute_cost + row.model_cost,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens
+    }));
+  }
+
+  /**
+   * Convert session costs row to model
+   */
+  private rowToSessionCosts(row: SessionCostsRow): SessionCosts {
+    return {
+      sessionId: row.session_id,
+      computeCost: row.compute_cost,
+      modelCost: row.model_cost,
+      usage: row.input_tokens !== null
+        ? {
+            turns: row.turns ?? 0,
+            inputTokens: row.input_tokens,
+            outputTokens: row.output_tokens ?? 0,
+            cacheCreationInputTokens: row.cache_creation_input_tokens ?? 0,
+            cacheReadInputTokens: row.cache_read_input_tokens ?? 0
+          }
+        : undefined,
+      recordedAt: row.recorded_at
+    };
+  }
+
+  // ============================================================================
+  // Parallel Batches (v2.1)
+  // ============================================================================
+
+  /**
+   * Record a new parallel batch and its tasks (all pending)
+   *
+   * @param params - Batch ID, owning process, configuration and tasks
+   * @returns The created batch
+   */
+  createParallelBatch(params: {
+    id: string;
+    pid: number;
+    config: PersistedBatchConfig;
+    tasks: Array<Required<ParallelTaskDefinition> & { outputPath: string }>;
+  }): ParallelBatch {
+    const insertBatch = this.db.prepare(`
+      INSERT INTO parallel_batches (id, repo_path, output_dir, config, pid)
+      VALUES (?, ?, ?, ?, ?)
+      RETURNING *
+    `);
+    const insertTask = this.db.prepare(`
+      INSERT INTO parallel_batch_tasks (batch_id, task_id, position, prompt, depends_on, output_path)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    const create = this.db.transaction(() => {
+      const row = insertBatch.get(
+        params.id,
+        params.config.repoPath,
+        params.config.outputDir,
+        JSON.stringify(params.config),
+        params.pid
+      ) as ParallelBatchRow;
+      params.tasks.forEach((task, position) => {
+        insertTask.run(params.id, task.id, position, task.prompt, JSON.stringify(task.dependsOn), task.outputPath);
+      });
+      return row;
+    });
+
+    return this.rowToParallelBatch(create());
+  }
+
+  /**
+   * Get a parallel batch by ID
+   *
+   * @param id - Batch ID
+   * @returns Batch or null if not found
+   */
+  getParallelBatch(id: string): ParallelBatch | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM parallel_batches WHERE id = ?
+    `);
+    const row = stmt.get(id) as ParallelBatchRow | undefined;
+    return row ? this.rowToParallelBatch(row) : null;
+  }
+
+  /**
+   * List parallel batches, newest first
+   *
+   * @param filters - Optional repository, status and limit filters
+   * @returns Matching batches
+   */
+  listParallelBatches(filters: { repoPath?: string; status?: ParallelBatchStatus; limit?: number } = {}): ParallelBatch[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.repoPath) {
+      conditions.push('repo_path = ?');
+      params.push(filters.repoPath);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+
+    let query = 'SELECT * FROM parallel_batches';
+    if (conditions.length > 0) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    query += ' ORDER BY created_at DESC, rowid DESC';
+    if (filters.limit) {
+      query += ' LIMIT ?';
+      params.push(filters.limit);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as ParallelBatchRow[];
+    return rows.map(row => this.rowToParallelBatch(row));
+  }
+
+  /**
+   * Update batch status and owning process
+   *
+   * Only running batches are updated: once a batch has finished (or was
+   * cancelled) its status is final. Finished statuses also set completed_at.
+   *
+   * @param id - Batch ID
+   * @param status - New status
+   * @param pid - Process now running the batch (e.g. after resume)
+   * @returns true if batch was updated
+   */
+  updateParallelBatchStatus(id: string, status: ParallelBatchStatus, pid?: number): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE parallel_batches
+      SET status = ?,
+          pid = COALESCE(?, pid),
+          updated_at = datetime('now'),
+          completed_at = CASE WHEN ? = 'running' THEN NULL ELSE datetime('now') END
+      WHERE id = ? AND status = 'running'
+    `);
+    const result = stmt.run(status, pid ?? null, status, id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Record that a batch left tasks unstarted because of its batch budget
+   *
+   * @param id - Batch ID
+   * @returns true if batch was updated
+   */
+  markParallelBatchBudgetExceeded(id: string): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE parallel_batches
+      SET budget_exceeded = 1, updated_at = datetime('now')
+      WHERE id = ?
+    `);
+    return stmt.run(id).changes > 0;
+  }
+
+  /**
+   * Get all tasks of a parallel batch, in their original order
+   *
+   * @param batchId - Batch ID
+   * @returns Batch tasks
+   */
+  getParallelBatchTasks(batchId: string): ParallelBatchTask[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM parallel_batch_tasks
+      WHERE batch_id = ?
+      ORDER BY position
+    `);
+    const rows = stmt.all(batchId) as ParallelBatchTaskRow[];
+    return rows.map(row => this.rowToParallelBatchTask(row));
+  }
+
+  /**
+   * Update the persisted state of a batch task
+   *
+   * Only keys present in updates are written; a key set to undefined
+   * clears the column.
+   *
+   * @param batchId - Batch ID
+   * @param taskId - Task ID
+   * @param updates - Fields to update
+   * @returns true if task was updated
+   */
+  updateParallelBatchTask(batchId: string, taskId: string, updates: ParallelBatchTaskUpdate): boolean {
+    const columns: Record<keyof ParallelBatchTaskUpdate, string> = {
+      status: 'status',
+      sessionId: 'session_id',
+      sessionPid: 'session_pid',
+      sandboxId: 'sandbox_id',
+      worktreePath: 'worktree_path',
+      outputPath: 'output_path',
+      startedAt: 'started_at',
+      endedAt: 'ended_at',
+      filesChanged: 'files_changed',
+      exitCode: 'exit_code',
+      costEstimate: 'cost_estimate',
+      error: 'error'
+    };
+
+    const fields: string[] = [];
+    const params: unknown[] = [];
+    for (const [key, column] of Object.entries(columns) as Array<[keyof ParallelBatchTaskUpdate, string]>) {
+      if (key in updates) {
+        fields.push(`${column} = ?`);
+        params.push(updates[key] ?? null);
+      }
+    }
+    if (fields.length === 0) {
+      return false;
+    }
+
+    const updateTask = this.db.prepare(`
+      UPDATE parallel_batch_tasks SET ${fields.join(', ')}
+      WHERE batch_id = ? AND task_id = ?
+    `);
+    const touchBatch = this.db.prepare(`
+      UPDATE parallel_batches SET updated_at = datetime('now') WHERE id = ?
+    `);
+
+    const update = this.db.transaction(() => {
+      const result = updateTask.run(...params, batchId, taskId);
+      touchBatch.run(batchId);
+      return result.changes > 0;
+    });
+    return update();
+  }
+
+  /**
+   * Convert parallel batch row to model
+   */
+  private rowToParallelBatch(row: ParallelBatchRow): ParallelBatch {
+    return {
+      id: row.id,
+      repoPath: row.repo_path,
+      outputDir: row.output_dir,
+      config: safeParseJSON(row.config) ?? { repoPath: row.repo_path, outputDir: row.output_dir },
+      status: row.status,
+      pid: row.pid,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined,
+      budgetExceeded: row.budget_exceeded === 1
+    };
+  }
+
+  /**
+   * Convert parallel batch task row to model
+   */
+  private rowToParallelBatchTask(row: ParallelBatchTaskRow): ParallelBatchTask {
+    return {
+      batchId: row.batch_id,
+      taskId: row.task_id,
+      position: row.position,
+      prompt: row.prompt,
+      dependsOn: safeParseJSON(row.depends_on) ?? [],
+      status: row.status,
+      sessionId: row.session_id ?? undefined,
+      sessionPid: row.session_pid ?? undefined,
+      sandboxId: row.sandbox_id ?? undefined,
+      worktreePath: row.worktree_path ?? undefined,
+      outputPath: row.output_path,
+      startedAt: row.started_at ?? undefined,
+      endedAt: row.ended_at ?? undefined,
+      filesChanged: row.files_changed,
+      exitCode: row.exit_code ?? undefined,
+      costEstimate: row.cost_estimate ?? undefined,
+      error: row.error ?? undefined
+    };
+  }
+
   close(): void {
     this.db.close();
   }
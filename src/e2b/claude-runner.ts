@@ -8,13 +8,18 @@
  * - Timeout enforcement with SandboxManager integration
  * - Comprehensive error handling
  * - Execution state tracking in SessionDB
+ * - Token usage and model cost from Claude's stream-json output
+ * - Verify commands after the run, with optional repair rounds
+ * - Sandbox preparation for the warm pool (Claude installed and updated ahead of time)
  */
 
-import type { Sandbox } from 'e2b';
+import { runSandboxCommand, type SandboxHandle } from './sandbox-provider.js';
 import type { Logger } from '../logger.js';
 import { SandboxManager, sanitizePrompt } from './sandbox-manager.js';
 import { StreamMonitor, createTempLogFile, waitForLogStable } from './output-monitor.js';
-import { SandboxStatus } from '../types.js';
+import { parseClaudeUsage, renderStreamJson, createStreamJsonRenderer, sumClaudeUsage } from './claude-usage.js';
+import { runVerifyCommands, buildRepairPrompt, describeVerifyFailures } from './verification.js';
+import { SandboxStatus, type ClaudeUsage, type VerificationResult } from '../types.js';
 
 // ============================================================================
 // Constants
@@ -36,11 +41,11 @@ const DEFAULT_WORKING_DIR = '/workspace';
 const CLAUDE_UPDATE_TIMEOUT_MS = 2 * 60 * 1000;
 
 /**
- * Claude execution command template
+ * Claude CLI flags for autonomous runs
  * Uses --dangerously-skip-permissions because we're in a sandboxed environment
- * Includes ANTHROPIC_API_KEY for authentication
+ * stream-json output (which requires --verbose with -p) carries per-turn token usage and cost
  */
-const CLAUDE_COMMAND_TEMPLATE = 'cd {workingDir} && ANTHROPIC_API_KEY={apiKey} echo "{prompt}" | claude -p --dangerously-skip-permissions';
+const CLAUDE_FLAGS = '-p --dangerously-skip-permissions --output-format stream-json --verbose';
 
 // ============================================================================
 // Types
@@ -76,7 +81,7 @@ export interface ClaudeExecutionOptions {
   localLogPath?: string;
 
   /**
-   * Callback for real-time output chunks
+   * Callback for real-time output chunks (rendered as text, not raw stream-json)
    */
   onProgress?: (chunk: string) => void;
 
@@ -110,6 +115,29 @@ export interface ClaudeExecutionOptions {
    * Used to read local git config when gitUser/gitEmail not provided
    */
   localRepoPath?: string;
+
+  /**
+   * Commands run in the sandbox after Claude finishes (e.g. `npm test`)
+   * A non-zero exit code from any of them fails the execution
+   */
+  verifyCommands?: string[];
+
+  /**
+   * Times Claude is asked to fix failed verify commands before giving up (default: 0)
+   */
+  repairRounds?: number;
+
+  /**
+   * Continue Claude's previous conversation in a sandbox that already ran it (default: false)
+   * Skips Claude installation, git initialization and tool setup, which the first run did
+   */
+  continueConversation?: boolean;
+
+  /**
+   * Sandbox was already prepared by prepareSandboxForClaude() (default: false)
+   * Skips Claude installation and update; warm pool sandboxes are prepared this way
+   */
+  sandboxPrepared?: boolean;
 }
 
 /**
@@ -132,15 +160,20 @@ export interface ClaudeExecutionResult {
   exitCode: number;
 
   /**
-   * Output from Claude execution (buffered, last 50KB)
+   * Output from Claude execution, rendered as text (buffered, last 50KB)
    */
   output: string;
 
   /**
-   * Full output log (if captureFullLog enabled)
+   * Full raw stream-json output log (if captureFullLog enabled)
    */
   fullOutput?: string;
 
+  /**
+   * Token usage and model cost reported by Claude
+   */
+  usage?: ClaudeUsage;
+
   /**
    * Execution time in milliseconds
    */
@@ -165,6 +198,11 @@ export interface ClaudeExecutionResult {
    * Path to local log file (if saved)
    */
   localLogPath?: string;
+
+  /**
+   * Verify command results (only when verifyCommands were given)
+   */
+  verification?: VerificationResult;
 }
 
 /**
@@ -235,9 +273,10 @@ export interface GitIdentityOptions {
  * 3. Executes Claude with the provided prompt
  * 4. Monitors execution with real-time output streaming
  * 5. Enforces timeout limits
- * 6. Returns comprehensive execution results
+ * 6. Runs verify commands, letting Claude repair failures (if configured)
+ * 7. Returns comprehensive execution results
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param sandboxManager - SandboxManager for health checks and timeout enforcement
  * @param prompt - User prompt to execute with Claude
  * @param logger - Logger instance
@@ -245,7 +284,7 @@ export interface GitIdentityOptions {
  * @returns Execution result with output and state
  */
 export async function executeClaudeInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   sandboxManager: SandboxManager,
   prompt: string,
   logger: Logger,
@@ -265,7 +304,11 @@ export async function executeClaudeInSandbox(
     oauthCredentials: options.oauthCredentials ?? '',
     gitUser: options.gitUser ?? '',
     gitEmail: options.gitEmail ?? '',
-    localRepoPath: options.localRepoPath ?? ''
+    localRepoPath: options.localRepoPath ?? '',
+    verifyCommands: options.verifyCommands ?? [],
+    repairRounds: options.repairRounds ?? 0,
+    continueConversation: options.continueConversation ?? false,
+    sandboxPrepared: options.sandboxPrepared ?? false
   };
 
   logger.info(`Starting Claude execution in sandbox ${sandbox.sandboxId}`);
@@ -288,25 +331,33 @@ export async function executeClaudeInSandbox(
     }
     logger.info('Sandbox is healthy');
 
-    // Step 1.5: Ensure Claude Code is installed
-    logger.info('Step 1.5/5: Ensuring Claude Code CLI is available...');
-    const claudeInstalled = await ensureClaudeCode(sandbox, logger);
-    if (!claudeInstalled) {
-      return {
-        success: false,
-        exitCode: -1,
-        output: '',
-        executionTime: Date.now() - startTime,
-        state: 'failed',
-        error: 'Claude Code CLI not available and installation failed. Use anthropic-claude-code template or check E2B configuration.'
-      };
+    if (opts.continueConversation) {
+      return await continueClaudeInSandbox(sandbox, prompt, logger, opts, startTime);
     }
 
-    // Step 1.6: Update Claude Code to latest version
-    logger.info('Step 1.6/5: Updating Claude Code to latest version...');
-    const claudeUpdated = await updateClaudeCode(sandbox, logger);
-    if (!claudeUpdated) {
-      logger.warn('Claude Code update failed - proceeding with installed version');
+    if (opts.sandboxPrepared) {
+      logger.info('Sandbox prepared by warm pool - skipping Claude installation and update');
+    } else {
+      // Step 1.5: Ensure Claude Code is installed
+      logger.info('Step 1.5/5: Ensuring Claude Code CLI is available...');
+      const claudeInstalled = await ensureClaudeCode(sandbox, logger);
+      if (!claudeInstalled) {
+        return {
+          success: false,
+          exitCode: -1,
+          output: '',
+          executionTime: Date.now() - startTime,
+          state: 'failed',
+          error: 'Claude Code CLI not available and installation failed. Use anthropic-claude-code template or check E2B configuration.'
+        };
+      }
+
+      // Step 1.6: Update Claude Code to latest version
+      logger.info('Step 1.6/5: Updating Claude Code to latest version...');
+      const claudeUpdated = await updateClaudeCode(sandbox, logger);
+      if (!claudeUpdated) {
+        logger.warn('Claude Code update failed - proceeding with installed version');
+      }
     }
 
     // Step 1.75: Setup OAuth credentials if using oauth auth method
@@ -367,8 +418,14 @@ export async function executeClaudeInSandbox(
       opts
     );
 
-    // Step 4: Monitor and return results
-    logger.info('Step 4/5: Execution complete');
+    // Step 4: Verify the result (and let Claude repair failures)
+    if (executionResult.success && opts.verifyCommands.length > 0) {
+      logger.info('Step 4/5: Running verify commands...');
+      return await verifyAndRepair(sandbox, executionResult, logger, opts);
+    }
+
+    // Step 5: Monitor and return results
+    logger.info('Step 5/5: Execution complete');
     return executionResult;
 
   } catch (error) {
@@ -386,21 +443,151 @@ export async function executeClaudeInSandbox(
   }
 }
 
+/**
+ * Prepare a fresh sandbox for Claude ahead of time
+ *
+ * Installs (if needed) and updates Claude Code, the same as the first steps of
+ * executeClaudeInSandbox(). Used as the warm pool's warmup step; pass
+ * `sandboxPrepared: true` when executing in a sandbox prepared this way.
+ *
+ * @param sandbox - Sandbox instance
+ * @param logger - Logger instance
+ * @returns True if Claude Code is available
+ */
+export async function prepareSandboxForClaude(sandbox: SandboxHandle, logger: Logger): Promise<boolean> {
+  const claudeInstalled = await ensureClaudeCode(sandbox, logger);
+  if (!claudeInstalled) {
+    return false;
+  }
+
+  const claudeUpdated = await updateClaudeCode(sandbox, logger);
+  if (!claudeUpdated) {
+    logger.warn('Claude Code update failed - proceeding with installed version');
+  }
+  return true;
+}
+
 // ============================================================================
 // Core Execution Functions
 // ============================================================================
 
+/**
+ * Send a follow-up prompt to Claude in a sandbox where it already ran
+ *
+ * Claude Code, git and tools are already set up there; OAuth credentials are
+ * written again in case they were refreshed locally since the first run.
+ *
+ * @param sandbox - Sandbox instance
+ * @param prompt - Follow-up prompt
+ * @param logger - Logger instance
+ * @param options - Execution options
+ * @param startTime - When execution started (for failure timing)
+ * @returns Execution result with output and state
+ */
+async function continueClaudeInSandbox(
+  sandbox: SandboxHandle,
+  prompt: string,
+  logger: Logger,
+  options: Required<ClaudeExecutionOptions>,
+  startTime: number
+): Promise<ClaudeExecutionResult> {
+  if (options.authMethod === 'oauth') {
+    const oauthSetup = options.oauthCredentials
+      ? await setupOAuthCredentials(sandbox, logger, options.oauthCredentials)
+      : false;
+    if (!oauthSetup) {
+      return {
+        success: false,
+        exitCode: -1,
+        output: '',
+        executionTime: Date.now() - startTime,
+        state: 'failed',
+        error: 'Failed to setup OAuth credentials in sandbox'
+      };
+    }
+  }
+
+  logger.info('Continuing Claude conversation...');
+  const executionResult = await runClaudeWithPrompt(sandbox, prompt, logger, options, true);
+
+  if (executionResult.success && options.verifyCommands.length > 0) {
+    logger.info('Running verify commands...');
+    return await verifyAndRepair(sandbox, executionResult, logger, options);
+  }
+  return executionResult;
+}
+
+/**
+ * Run verify commands after a successful Claude run, feeding failures back to
+ * Claude (continuing its conversation) for up to `repairRounds` rounds
+ *
+ * @param sandbox - Sandbox instance
+ * @param initialResult - Result of the original Claude run
+ * @param logger - Logger instance
+ * @param options - Execution options
+ * @returns Combined result of all runs; fails if verification still fails
+ */
+async function verifyAndRepair(
+  sandbox: SandboxHandle,
+  initialResult: ClaudeExecutionResult,
+  logger: Logger,
+  options: Required<ClaudeExecutionOptions>
+): Promise<ClaudeExecutionResult> {
+  let result = initialResult;
+  const usages = [initialResult.usage];
+  let commands = await runVerifyCommands(sandbox, options.verifyCommands, logger, options.workingDir);
+  let repairRounds = 0;
+
+  while (commands.some(c => c.exitCode !== 0) && repairRounds < options.repairRounds) {
+    repairRounds++;
+    logger.info(`Repair round ${repairRounds}/${options.repairRounds}: ${describeVerifyFailures(commands)}`);
+
+    const repair = await runClaudeWithPrompt(sandbox, buildRepairPrompt(commands), logger, options, true);
+    usages.push(repair.usage);
+    result = {
+      ...repair,
+      output: `${result.output}\n${repair.output}`,
+      fullOutput: result.fullOutput !== undefined || repair.fullOutput !== undefined
+        ? `${result.fullOutput ?? ''}\n${repair.fullOutput ?? ''}`
+        : undefined,
+      executionTime: result.executionTime + repair.executionTime
+    };
+
+    if (!repair.success) {
+      // Claude itself failed; report the last verification alongside its error
+      break;
+    }
+    commands = await runVerifyCommands(sandbox, options.verifyCommands, logger, options.workingDir);
+  }
+
+  const passed = commands.every(c => c.exitCode === 0);
+  const verification: VerificationResult = { passed, repairRounds, commands };
+  const combined: ClaudeExecutionResult = { ...result, usage: sumClaudeUsage(usages), verification };
+
+  if (!result.success) {
+    return combined;
+  }
+  if (!passed) {
+    const error = `Verification failed: ${describeVerifyFailures(commands)}`;
+    logger.error(error);
+    return { ...combined, success: false, state: 'failed', error };
+  }
+
+  logger.info(`Verification passed${repairRounds > 0 ? ` after ${repairRounds} repair round(s)` : ''}`);
+  return combined;
+}
+
 /**
  * Ensure Claude Code CLI is installed in the sandbox
  *
  * Checks if Claude Code is available, and if not, installs it via npm.
  * This fallback supports custom/base E2B images that don't have Claude pre-installed.
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @returns True if Claude Code is available or was successfully installed
  */
-async function ensureClaudeCode(sandbox: Sandbox, logger: Logger): Promise<boolean> {
+async function ensureClaudeCode(sandbox: SandboxHandle, logger: Logger): Promise<boolean> {
   // Check if claude CLI is available
   try {
     const check = await sandbox.commands.run('which claude', { timeoutMs: 10000 });
@@ -459,11 +646,11 @@ async function ensureClaudeCode(sandbox: Sandbox, logger: Logger): Promise<boole
  * 2. Use npm with --prefix to local directory
  * 3. Fall back to existing version
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @returns True if update succeeded or wasn't needed
  */
-async function updateClaudeCode(sandbox: Sandbox, logger: Logger): Promise<boolean> {
+async function updateClaudeCode(sandbox: SandboxHandle, logger: Logger): Promise<boolean> {
   logger.info('Updating Claude Code to latest version...');
 
   try {
@@ -560,13 +747,13 @@ chmod +x /tmp/claude-wrapper.sh`,
  * Copies Claude subscription credentials to the sandbox for OAuth authentication.
  * This allows using Claude subscription instead of API key.
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @param oauthCredentials - OAuth credentials JSON string
  * @returns True if credentials were successfully setup
  */
 async function setupOAuthCredentials(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   logger: Logger,
   oauthCredentials: string
 ): Promise<boolean> {
@@ -715,13 +902,13 @@ export async function resolveGitIdentity(
  * - GitHub CLI operations (gh issue, gh pr, etc.)
  * - Git-based workflows in Claude Code
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @param workingDir - Working directory path (default: /workspace)
  * @returns True if git was successfully initialized
  */
 async function initializeGitRepo(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   logger: Logger,
   workingDir: string = '/workspace',
   gitIdentity?: GitIdentity
@@ -809,7 +996,8 @@ async function initializeGitRepo(
 
       if (remoteUrl) {
         logger.debug(`Setting git remote origin to: ${remoteUrl}`);
-        const remoteResult = await sandbox.commands.run(
+        const remoteResult = await runSandboxCommand(
+          sandbox,
           `git remote add origin "${remoteUrl}"`,
           { cwd: workingDir, timeoutMs: 5000 }
         );
@@ -850,12 +1038,12 @@ async function initializeGitRepo(
  * Copies ~/.mcporter/mcporter.json from host to sandbox so mcporter
  * knows about installed MCP servers and their configurations.
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @returns True if config was copied successfully
  */
 async function copyMcporterConfig(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   logger: Logger
 ): Promise<boolean> {
   logger.info('Copying mcporter configuration to sandbox...');
@@ -917,12 +1105,12 @@ async function copyMcporterConfig(
  *
  * Installs MCP servers and mcporter to match local development environment.
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @returns True if setup succeeded
  */
 async function setupAdditionalTools(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   logger: Logger
 ): Promise<boolean> {
   logger.info('Installing MCP servers and tools...');
@@ -930,7 +1118,8 @@ async function setupAdditionalTools(
   try {
     // Step 1: Always install mcporter for dynamic MCP server management
     logger.info('Installing mcporter...');
-    const mcporterInstall = await sandbox.commands.run(
+    const mcporterInstall = await runSandboxCommand(
+      sandbox,
       'npm install -g mcporter',
       { timeoutMs: 60000 }
     );
@@ -952,7 +1141,8 @@ async function setupAdditionalTools(
 
       for (const serverPackage of mcpServers) {
         logger.info(`Installing MCP server: ${serverPackage}`);
-        const install = await sandbox.commands.run(
+        const install = await runSandboxCommand(
+          sandbox,
           `npm install -g ${serverPackage}`,
           { timeoutMs: 90000 }
         );
@@ -981,19 +1171,20 @@ async function setupAdditionalTools(
  * Reads both global (~/.claude/settings.json) and local (.claude/settings.json)
  * to find configured MCP servers and extract their npm package names.
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @returns Array of npm package names to install
  */
 async function discoverMCPServers(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   logger: Logger
 ): Promise<string[]> {
   const packages = new Set<string>();
 
   // Check local settings in workspace
   const localSettingsPath = '/workspace/.claude/settings.json';
-  const localCheck = await sandbox.commands.run(
+  const localCheck = await runSandboxCommand(
+    sandbox,
     `test -f ${localSettingsPath} && cat ${localSettingsPath}`,
     { timeoutMs: 5000 }
   );
@@ -1117,13 +1308,13 @@ function parseVersion(output: string): string | null {
  * 3. Detects "already up-to-date" messages and treats them as success
  * 4. Falls back to pre-check version when update output lacks version
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @param authMethod - Authentication method ('api-key' or 'oauth')
  * @returns Update result with version info
  */
 export async function runClaudeUpdate(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   logger: Logger,
   authMethod: 'api-key' | 'oauth' = 'api-key'
 ): Promise<ClaudeUpdateResult> {
@@ -1242,21 +1433,25 @@ export async function runClaudeUpdate(
 /**
  * Execute Claude Code with a prompt
  *
- * Runs: `echo "$PROMPT" | claude -p --dangerously-skip-permissions`
+ * Runs: `echo "$PROMPT" | claude -p --dangerously-skip-permissions --output-format stream-json --verbose`
  * - `-p` enables plan mode (autonomous execution)
  * - `--dangerously-skip-permissions` skips permission prompts (safe in sandbox)
+ * - `--output-format stream-json` emits one JSON event per line, including
+ *   token usage per turn and the run's total cost
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param prompt - User prompt for Claude
  * @param logger - Logger instance
  * @param options - Execution options
+ * @param continueConversation - Continue Claude's most recent conversation in the working directory
  * @returns Execution result with output and state
  */
 export async function runClaudeWithPrompt(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   prompt: string,
   logger: Logger,
-  options: Required<ClaudeExecutionOptions>
+  options: Required<ClaudeExecutionOptions>,
+  continueConversation = false
 ): Promise<ClaudeExecutionResult> {
   const startTime = Date.now();
 
@@ -1299,13 +1494,14 @@ export async function runClaudeWithPrompt(
 
     // Build the full command with exports
     const exportPrefix = exportStatements.length > 0 ? exportStatements.join(' && ') + ' && ' : '';
-    command = `cd ${options.workingDir} && ${exportPrefix}echo "${sanitizedPrompt}" | claude -p --dangerously-skip-permissions`;
+    const flags = continueConversation ? `${CLAUDE_FLAGS} --continue` : CLAUDE_FLAGS;
+    command = `cd ${options.workingDir} && ${exportPrefix}echo "${sanitizedPrompt}" | claude ${flags}`;
 
     // Start output monitoring (if enabled)
     let monitor: StreamMonitor | null = null;
     if (options.streamOutput) {
       monitor = new StreamMonitor(sandbox, logger, {
-        onChunk: options.onProgress
+        onChunk: createStreamJsonRenderer(options.onProgress)
       });
       await monitor.startStreaming(remoteLogPath, options.localLogPath || undefined);
       logger.debug('Output streaming started');
@@ -1315,7 +1511,8 @@ export async function runClaudeWithPrompt(
     const fullCommand = `${command} > "${remoteLogPath}" 2>&1`;
     logger.debug(`Executing: ${fullCommand.substring(0, 100)}...`);
 
-    const executionPromise = sandbox.commands.run(fullCommand, {
+    // Claude's exit code decides the state, so a non-zero exit is a result, not an error
+    const executionPromise = runSandboxCommand(sandbox, fullCommand, {
       timeoutMs: options.timeout * 60 * 1000 // Convert minutes to milliseconds
     });
 
@@ -1329,11 +1526,11 @@ export async function runClaudeWithPrompt(
     }
 
     // Get output (buffered or full log)
-    let output = '';
+    let rawOutput = '';
     let fullOutput: string | undefined;
 
     if (monitor) {
-      output = monitor.getBufferedOutput();
+      rawOutput = monitor.getBufferedOutput();
       if (options.captureFullLog) {
         fullOutput = (await monitor.getFullOutput()) ?? undefined;
       }
@@ -1341,13 +1538,20 @@ export async function runClaudeWithPrompt(
       // If streaming disabled, read entire log file
       try {
         const readResult = await sandbox.commands.run(`cat "${remoteLogPath}"`);
-        output = readResult.stdout;
-        fullOutput = output;
+        rawOutput = readResult.stdout;
+        fullOutput = rawOutput;
       } catch (error) {
         logger.warn(`Failed to read log file: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
 
+    const output = renderStreamJson(rawOutput);
+    const usage = parseClaudeUsage(fullOutput ?? rawOutput);
+    if (usage) {
+      const cost = usage.costUsd !== undefined ? `, cost: $${usage.costUsd.toFixed(4)}` : '';
+      logger.info(`Claude usage: ${usage.turns} turns, ${usage.inputTokens} input / ${usage.outputTokens} output tokens${cost}`);
+    }
+
     const executionTime = Date.now() - startTime;
 
     // Determine execution state
@@ -1377,7 +1581,8 @@ export async function runClaudeWithPrompt(
       executionTime,
       state,
       remoteLogPath,
-      localLogPath: options.localLogPath || undefined
+      localLogPath: options.localLogPath || undefined,
+      usage
     };
 
   } catch (error) {
@@ -1487,14 +1692,14 @@ export async function monitorExecution(
  * This is a helper function to capture output from an already-running
  * Claude process. Useful for long-running executions.
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param remoteLogPath - Path to log file in sandbox
  * @param logger - Logger instance
  * @param localLogPath - Optional local path to save log
  * @returns Captured output
  */
 export async function captureOutput(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   remoteLogPath: string,
   logger: Logger,
   localLogPath?: string
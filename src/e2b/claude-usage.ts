@@ -0,0 +1,265 @@
+/**
+ * Claude Usage - Token and cost accounting from Claude's stream-json output
+ *
+ * Features:
+ * - Parses `claude -p --output-format stream-json` event lines
+ * - Per-turn token usage from assistant messages, so runs that never reach
+ *   their result event (timeout, kill) still report tokens
+ * - Totals and model cost from the final result event when present
+ * - Renders the event stream as readable text for progress output
+ */
+
+import type { ClaudeUsage } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Max characters of a tool input shown when rendering a tool call
+ */
+const TOOL_INPUT_PREVIEW_LENGTH = 80;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Token counts as reported by the Anthropic API
+ */
+interface ApiUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * Content block of an assistant message
+ */
+interface ContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+/**
+ * The stream-json events this module reads (other event types are ignored)
+ */
+type StreamEvent =
+  | { type: 'assistant'; message?: { id?: string; content?: ContentBlock[]; usage?: ApiUsage } }
+  | { type: 'result'; subtype?: string; is_error?: boolean; num_turns?: number; total_cost_usd?: number; cost_usd?: number; usage?: ApiUsage }
+  | { type: string };
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parse one output line as a stream-json event
+ *
+ * @returns The event, or null if the line is not a JSON event
+ */
+function parseEvent(line: string): StreamEvent | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('{')) {
+    return null;
+  }
+  try {
+    const event = JSON.parse(trimmed) as unknown;
+    return event && typeof event === 'object' && typeof (event as StreamEvent).type === 'string'
+      ? event as StreamEvent
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert API token counts to ClaudeUsage fields
+ */
+function toTokenCounts(usage: ApiUsage): Omit<ClaudeUsage, 'turns' | 'costUsd'> {
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: usage.cache_read_input_tokens ?? 0
+  };
+}
+
+/**
+ * Short preview of a tool call's input (command, path or pattern)
+ */
+function previewToolInput(input: Record<string, unknown> | undefined): string {
+  if (!input) return '';
+  const value = ['command', 'file_path', 'path', 'pattern', 'url', 'description']
+    .map(key => input[key])
+    .find(v => typeof v === 'string') as string | undefined;
+  if (!value) return '';
+  const oneLine = value.replace(/\s+/g, ' ').trim();
+  return oneLine.length > TOOL_INPUT_PREVIEW_LENGTH
+    ? ` ${oneLine.substring(0, TOOL_INPUT_PREVIEW_LENGTH - 3)}...`
+    : ` ${oneLine}`;
+}
+
+/**
+ * Render one output line for display
+ *
+ * Assistant text and tool calls are shown, other events are dropped and
+ * lines that are not stream-json events (e.g. shell errors) pass through.
+ *
+ * @returns Text to show, or null to drop the line
+ */
+function renderLine(line: string): string | null {
+  const event = parseEvent(line);
+  if (!event) {
+    return line.trim() ? line : null;
+  }
+
+  if (event.type === 'assistant' && 'message' in event) {
+    const parts = (event.message?.content ?? []).flatMap(block => {
+      if (block.type === 'text' && block.text) return [block.text];
+      if (block.type === 'tool_use' && block.name) return [`→ ${block.name}${previewToolInput(block.input)}`];
+      return [];
+    });
+    return parts.length > 0 ? parts.join('\n') : null;
+  }
+
+  if (event.type === 'result' && 'is_error' in event && event.is_error) {
+    return `Claude finished with an error (${event.subtype ?? 'unknown'})`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse token usage and model cost from Claude's stream-json output
+ *
+ * Each assistant message is one turn; a message is emitted once per content
+ * block with the same usage, so turns are counted by message ID. When the
+ * result event is present its totals and reported cost win.
+ *
+ * @param output - Raw stream-json output (one event per line)
+ * @returns Usage, or undefined if the output contains no usage at all
+ */
+export function parseClaudeUsage(output: string): ClaudeUsage | undefined {
+  const turnUsage = new Map<string, ApiUsage>();
+  let result: Extract<StreamEvent, { type: 'result' }> | undefined;
+
+  for (const line of output.split('\n')) {
+    const event = parseEvent(line);
+    if (!event) continue;
+
+    if (event.type === 'assistant' && 'message' in event && event.message?.usage) {
+      const id = event.message.id ?? `turn-${turnUsage.size}`;
+      turnUsage.set(id, event.message.usage);
+    } else if (event.type === 'result') {
+      result = event as Extract<StreamEvent, { type: 'result' }>;
+    }
+  }
+
+  if (result?.usage) {
+    return {
+      turns: result.num_turns ?? turnUsage.size,
+      ...toTokenCounts(result.usage),
+      costUsd: result.total_cost_usd ?? result.cost_usd
+    };
+  }
+
+  if (turnUsage.size === 0) {
+    return undefined;
+  }
+
+  const usage: ClaudeUsage = {
+    turns: turnUsage.size,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: result?.total_cost_usd ?? result?.cost_usd
+  };
+  for (const turn of turnUsage.values()) {
+    const counts = toTokenCounts(turn);
+    usage.inputTokens += counts.inputTokens;
+    usage.outputTokens += counts.outputTokens;
+    usage.cacheCreationInputTokens += counts.cacheCreationInputTokens;
+    usage.cacheReadInputTokens += counts.cacheReadInputTokens;
+  }
+  return usage;
+}
+
+/**
+ * Add up the usage of several Claude runs (e.g. retried attempts)
+ *
+ * @returns Combined usage, or undefined if no run reported any
+ */
+export function sumClaudeUsage(usages: Array<ClaudeUsage | undefined>): ClaudeUsage | undefined {
+  const reported = usages.filter((u): u is ClaudeUsage => u !== undefined);
+  if (reported.length === 0) {
+    return undefined;
+  }
+  const costs = reported.map(u => u.costUsd).filter((c): c is number => c !== undefined);
+  return {
+    turns: reported.reduce((sum, u) => sum + u.turns, 0),
+    inputTokens: reported.reduce((sum, u) => sum + u.inputTokens, 0),
+    outputTokens: reported.reduce((sum, u) => sum + u.outputTokens, 0),
+    cacheCreationInputTokens: reported.reduce((sum, u) => sum + u.cacheCreationInputTokens, 0),
+    cacheReadInputTokens: reported.reduce((sum, u) => sum + u.cacheReadInputTokens, 0),
+    costUsd: costs.length > 0 ? costs.reduce((sum, c) => sum + c, 0) : undefined
+  };
+}
+
+/**
+ * Model cost that is actually billed for a run
+ *
+ * With a Claude subscription (oauth) usage is not billed per token.
+ *
+ * @param usage - Parsed usage (if any)
+ * @param authMethod - How Claude authenticated
+ * @returns Cost in USD
+ */
+export function getModelCost(usage: ClaudeUsage | undefined, authMethod: 'api-key' | 'oauth'): number {
+  return authMethod === 'api-key' ? usage?.costUsd ?? 0 : 0;
+}
+
+/**
+ * Render stream-json output as readable text
+ *
+ * @param output - Raw stream-json output
+ * @returns Assistant text and tool calls, one block per line
+ */
+export function renderStreamJson(output: string): string {
+  const rendered = output.split('\n')
+    .map(renderLine)
+    .filter((text): text is string => text !== null);
+  return rendered.length > 0 ? rendered.join('\n') + '\n' : '';
+}
+
+/**
+ * Create a chunk handler that renders streamed stream-json output
+ *
+ * Chunks may end mid-line, so incomplete lines are held back until the rest
+ * arrives.
+ *
+ * @param onText - Receives rendered text
+ * @returns Handler to feed raw output chunks to
+ */
+export function createStreamJsonRenderer(onText: (text: string) => void): (chunk: string) => void {
+  let pending = '';
+  return (chunk: string) => {
+    pending += chunk;
+    const newline = pending.lastIndexOf('\n');
+    if (newline === -1) return;
+    const complete = pending.substring(0, newline + 1);
+    pending = pending.substring(newline + 1);
+    const text = renderStreamJson(complete);
+    if (text) {
+      onText(text);
+    }
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * Container Sandbox Provider - Local Docker/Podman sandboxes
+ *
+ * Runs the sandbox workflow in a local container instead of the E2B cloud,
+ * so source code never leaves the machine.
+ *
+ * Features:
+ * - Works with both docker and podman (same CLI surface)
+ * - Hard lifetime limit enforced inside the container (mirrors E2B timeouts)
+ * - Containers are started with --rm so they clean up after themselves
+ * - Session metadata recorded as container labels
+ */
+
+import { spawn } from 'child_process';
+import type {
+  SandboxProvider,
+  SandboxHandle,
+  SandboxCreateOptions,
+  SandboxCommandOptions,
+  SandboxCommandResult
+} from './sandbox-provider.js';
+import { SandboxCommandError } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default container image (override with --template or PARALLEL_CC_SANDBOX_IMAGE)
+ *
+ * Needs sh, git, tar and npm; Claude Code is installed on first use if missing.
+ */
+export const DEFAULT_CONTAINER_IMAGE = 'node:20';
+
+/** File inside the container holding the epoch second at which it shuts down */
+const DEADLINE_FILE = '/tmp/.parallel-cc-deadline';
+
+/** Label prefix for session metadata */
+const LABEL_PREFIX = 'parallel-cc';
+
+/** Timeout for container CLI management calls (run, inspect, rm) */
+const CLI_TIMEOUT_MS = 120000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Container runtime binary
+ */
+export type ContainerRuntime = 'docker' | 'podman';
+
+/**
+ * Options for the container provider
+ */
+export interface ContainerProviderOptions {
+  /** Container image to run (default: PARALLEL_CC_SANDBOX_IMAGE or node:20) */
+  image?: string;
+}
+
+/**
+ * Result of invoking the container CLI
+ */
+interface CliResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Invoke the container runtime CLI
+ *
+ * @param runtime - docker or podman
+ * @param args - CLI arguments
+ * @param options - Optional stdin input and timeout
+ * @returns Exit code and captured output
+ * @throws Error if the runtime binary is missing or the call times out
+ */
+function runCli(
+  runtime: ContainerRuntime,
+  args: string[],
+  options: { input?: string | Uint8Array; timeoutMs?: number } = {}
+): Promise<CliResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(runtime, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    let settled = false;
+
+    const timer = options.timeoutMs
+      ? setTimeout(() => {
+          if (settled) return;
+          settled = true;
+          child.kill('SIGKILL');
+          reject(new Error(`Command timeout after ${options.timeoutMs}ms`));
+        }, options.timeoutMs)
+      : undefined;
+
+    child.stdout.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderrChunks.push(chunk));
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      if (error.code === 'ENOENT') {
+        reject(new Error(`${runtime} not found in PATH. Install ${runtime} to use the ${runtime} sandbox provider.`));
+      } else {
+        reject(error);
+      }
+    });
+
+    child.on('close', (code) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      resolve({
+        exitCode: code ?? 1,
+        stdout: Buffer.concat(stdoutChunks).toString('utf-8'),
+        stderr: Buffer.concat(stderrChunks).toString('utf-8')
+      });
+    });
+
+    // Ignore EPIPE if the process exits before consuming stdin
+    child.stdin.on('error', () => {});
+    if (options.input !== undefined) {
+      child.stdin.end(options.input);
+    } else {
+      child.stdin.end();
+    }
+  });
+}
+
+/**
+ * Build the keep-alive command that exits once the deadline passes
+ *
+ * @param timeoutMs - Initial lifetime in milliseconds
+ * @returns Shell script for sh -c
+ */
+function buildKeepAliveScript(timeoutMs: number): string {
+  const seconds = Math.max(1, Math.ceil(timeoutMs / 1000));
+  return `echo $(( $(date +%s) + ${seconds} )) > ${DEADLINE_FILE}; ` +
+    `while [ "$(date +%s)" -lt "$(cat ${DEADLINE_FILE})" ]; do sleep 5; done`;
+}
+
+// ============================================================================
+// Sandbox Handle
+// ============================================================================
+
+/**
+ * Handle to a running local container
+ */
+export class ContainerSandbox implements SandboxHandle {
+  readonly sandboxId: string;
+  private runtime: ContainerRuntime;
+
+  readonly commands = {
+    run: (cmd: string, opts: SandboxCommandOptions = {}): Promise<SandboxCommandResult> => {
+      const args = ['exec'];
+      if (opts.cwd) {
+        args.push('-w', opts.cwd);
+      }
+      for (const [key, value] of Object.entries(opts.envs ?? {})) {
+        args.push('-e', `${key}=${value}`);
+      }
+      args.push(this.sandboxId, 'sh', '-c', cmd);
+      return runCli(this.runtime, args, { timeoutMs: opts.timeoutMs }).then(result => {
+        if (result.exitCode !== 0) {
+          throw new SandboxCommandError(result);
+        }
+        return result;
+      });
+    }
+  };
+
+  readonly files = {
+    write: async (path: string, data: string | ArrayBuffer): Promise<void> => {
+      const input = typeof data === 'string' ? data : new Uint8Array(data);
+      const result = await runCli(
+        this.runtime,
+        ['exec', '-i', this.sandboxId, 'sh', '-c', 'mkdir -p "$(dirname "$1")" && cat > "$1"', 'sh', path],
+        { input, timeoutMs: CLI_TIMEOUT_MS }
+      );
+      if (result.exitCode !== 0) {
+        throw new Error(`Failed to write ${path}: ${result.stderr.trim() || `exit code ${result.exitCode}`}`);
+      }
+    },
+    read: async (path: string): Promise<string> => {
+      const result = await runCli(
+        this.runtime,
+        ['exec', this.sandboxId, 'cat', '--', path],
+        { timeoutMs: CLI_TIMEOUT_MS }
+      );
+      if (result.exitCode !== 0) {
+        throw new Error(`Failed to read ${path}: ${result.stderr.trim() || `exit code ${result.exitCode}`}`);
+      }
+      return result.stdout;
+    }
+  };
+
+  constructor(runtime: ContainerRuntime, containerId: string) {
+    this.runtime = runtime;
+    this.sandboxId = containerId;
+  }
+
+  /**
+   * Check whether the container is still running
+   */
+  async isRunning(): Promise<boolean> {
+    const result = await runCli(
+      this.runtime,
+      ['inspect', '-f', '{{.State.Running}}', this.sandboxId],
+      { timeoutMs: CLI_TIMEOUT_MS }
+    );
+    return result.exitCode === 0 && result.stdout.trim() === 'true';
+  }
+
+  /**
+   * Force-remove the container (no-op if it has already exited)
+   */
+  async kill(): Promise<void> {
+    const result = await runCli(this.runtime, ['rm', '-f', this.sandboxId], { timeoutMs: CLI_TIMEOUT_MS });
+    if (result.exitCode !== 0 && !/no such container/i.test(result.stderr)) {
+      throw new Error(`Failed to remove container ${this.sandboxId}: ${result.stderr.trim()}`);
+    }
+  }
+
+  /**
+   * Reset the container lifetime to timeoutMs from now (same semantics as E2B)
+   *
+   * @param timeoutMs - New lifetime in milliseconds
+   */
+  async setTimeout(timeoutMs: number): Promise<void> {
+    const seconds = Math.max(1, Math.ceil(timeoutMs / 1000));
+    try {
+      await this.commands.run(
+        `echo $(( $(date +%s) + ${seconds} )) > ${DEADLINE_FILE}`,
+        { timeoutMs: CLI_TIMEOUT_MS }
+      );
+    } catch (error) {
+      const detail = error instanceof SandboxCommandError
+        ? error.stderr.trim()
+        : error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to update container timeout: ${detail}`);
+    }
+  }
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+/**
+ * Local container sandbox provider (docker or podman)
+ */
+export class ContainerSandboxProvider implements SandboxProvider {
+  readonly name: ContainerRuntime;
+  readonly displayName: string;
+  readonly requiresApiKey = false;
+  private image: string;
+
+  constructor(runtime: ContainerRuntime, options: ContainerProviderOptions = {}) {
+    this.name = runtime;
+    this.displayName = runtime === 'docker' ? 'Docker' : 'Podman';
+    this.image = options.image ||
+                 process.env.PARALLEL_CC_SANDBOX_IMAGE?.trim() ||
+                 DEFAULT_CONTAINER_IMAGE;
+  }
+
+  /**
+   * Start a new container
+   *
+   * The E2B template name in options.template does not apply to containers;
+   * the image configured on the provider is used instead.
+   *
+   * @param options - Creation options (timeout, metadata)
+   * @returns Container sandbox handle
+   */
+  async create(options: SandboxCreateOptions): Promise<SandboxHandle> {
+    const args = ['run', '-d', '--rm', '-w', '/workspace'];
+    for (const [key, value] of Object.entries(options.metadata)) {
+      args.push('--label', `${LABEL_PREFIX}.${key}=${value}`);
+    }
+    args.push(this.image, 'sh', '-c', buildKeepAliveScript(options.timeoutMs));
+
+    const result = await runCli(this.name, args, { timeoutMs: CLI_TIMEOUT_MS });
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.trim() || `${this.name} run exited with code ${result.exitCode}`);
+    }
+
+    const containerId = result.stdout.trim().split('\n').pop()?.substring(0, 12);
+    if (!containerId) {
+      throw new Error(`${this.name} run did not return a container ID`);
+    }
+
+    return new ContainerSandbox(this.name, containerId);
+  }
+
+  /**
+   * Reconnect to a running container by ID
+   *
+   * @param sandboxId - Container ID
+   * @returns Container sandbox handle
+   * @throws Error if the container is not running
+   */
+  async connect(sandboxId: string): Promise<SandboxHandle> {
+    const sandbox = new ContainerSandbox(this.name, sandboxId);
+    if (!(await sandbox.isRunning())) {
+      throw new Error(`Sandbox ${sandboxId} not found or not running`);
+    }
+    return sandbox;
+  }
+}
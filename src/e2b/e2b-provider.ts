@@ -0,0 +1,51 @@
+/**
+ * E2B Sandbox Provider - E2B cloud sandboxes
+ *
+ * Thin adapter over the E2B SDK. The SDK's Sandbox instance already matches
+ * the SandboxHandle surface, so it is returned as-is.
+ */
+
+import { Sandbox } from 'e2b';
+import type {
+  SandboxProvider,
+  SandboxHandle,
+  SandboxCreateOptions,
+  SandboxConnectOptions
+} from './sandbox-provider.js';
+
+/**
+ * E2B cloud sandbox provider
+ */
+export class E2BSandboxProvider implements SandboxProvider {
+  readonly name = 'e2b' as const;
+  readonly displayName = 'E2B';
+  readonly requiresApiKey = true;
+
+  /**
+   * Create a new E2B sandbox
+   *
+   * @param options - Creation options (template, timeout, metadata, API key)
+   * @returns E2B sandbox instance
+   */
+  async create(options: SandboxCreateOptions): Promise<SandboxHandle> {
+    // E2B SDK signature: Sandbox.create(template, opts)
+    return Sandbox.create(options.template, {
+      apiKey: options.apiKey || process.env.E2B_API_KEY,
+      timeoutMs: options.timeoutMs,
+      metadata: options.metadata
+    });
+  }
+
+  /**
+   * Reconnect to an existing E2B sandbox
+   *
+   * @param sandboxId - Sandbox ID to connect to
+   * @param options - Connection options (API key)
+   * @returns E2B sandbox instance
+   */
+  async connect(sandboxId: string, options: SandboxConnectOptions = {}): Promise<SandboxHandle> {
+    return Sandbox.connect(sandboxId, {
+      apiKey: options.apiKey || process.env.E2B_API_KEY
+    });
+  }
+}
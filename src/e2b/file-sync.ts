@@ -4,20 +4,27 @@
  * Handles file synchronization between local worktrees and E2B sandboxes:
  * - Compress worktree into tarball (respecting .gitignore and .e2bignore)
  * - Upload to E2B sandbox with resumable uploads
- * - Download only changed files from sandbox
+ * - Download only changed files from sandbox, removing files the sandbox deleted
  * - Verify uploads/downloads for data integrity
  * - Scan for credentials and sensitive data
+ * - Incremental upload: a manifest of what a reused or warm sandbox already
+ *   holds lets it receive only a delta tarball and deletions
+ * - History download: the sandbox's commits since the uploaded base, as a
+ *   format-patch series or git bundle, applied to a local worktree
  */
 
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
+import * as os from 'os';
 import * as zlib from 'zlib';
+import { createHash } from 'crypto';
 import { promisify } from 'util';
 import { spawnSync, exec } from 'child_process';
 import { createReadStream, createWriteStream } from 'fs';
 import { pipeline } from 'stream/promises';
 import { logger } from '../logger.js';
+import { runSandboxCommand, type SandboxHandle } from './sandbox-provider.js';
 
 const execAsync = promisify(exec);
 
@@ -79,6 +86,16 @@ export const CHECKPOINT_SIZE_BYTES = 50 * 1024 * 1024;
  */
 export const GZIP_LEVEL = 6;
 
+/**
+ * Directory holding the per-worktree upload manifests
+ */
+export const UPLOAD_MANIFEST_DIR = path.join(os.homedir(), '.parallel-cc', 'upload-manifests');
+
+/**
+ * Upload manifest format version (manifests with another version are ignored)
+ */
+const UPLOAD_MANIFEST_VERSION = 3;
+
 // ============================================================================
 // Path Validation (Security)
 // ============================================================================
@@ -163,6 +180,8 @@ export interface DownloadResult {
   success: boolean;
   localPath: string;
   filesDownloaded: number;
+  /** Workspace-relative paths the sandbox deleted (removed from localPath) */
+  deletedFiles?: string[];
   sizeBytes: number;
   duration: number;
   error?: string;
@@ -191,6 +210,81 @@ export interface UploadCheckpoint {
   chunkIndex: number;
 }
 
+export interface ManifestEntry {
+  /** Path relative to the worktree root */
+  path: string;
+  sizeBytes: number;
+  /** SHA-256 of the file contents (of the link target for symlinks) */
+  hash: string;
+  symlink?: boolean;
+}
+
+/**
+ * Files a sandbox's workspace holds, as uploaded from a worktree or snapshot
+ */
+export interface UploadManifest {
+  version: number;
+  createdAt: string;
+  /** Sandbox the manifest was recorded for */
+  sandboxId: string;
+  remotePath: string;
+  files: ManifestEntry[];
+  /** File count of the workspace as measured by verifyUpload() */
+  remoteFileCount: number;
+  /** Size of the workspace as measured by verifyUpload() */
+  remoteSize: number;
+}
+
+export interface IncrementalUploadOptions {
+  /** Remote path in sandbox (default: /workspace) */
+  remotePath?: string;
+  /** Directory holding manifests (default: ~/.parallel-cc/upload-manifests) */
+  manifestDir?: string;
+  /** Manifest of the sandbox's base snapshot, instead of the worktree's saved manifest */
+  baseManifest?: UploadManifest;
+  /**
+   * Upload the whole worktree when the sandbox doesn't match the manifest.
+   * Only for sandboxes whose workspace holds nothing to keep; without it a
+   * mismatch fails the upload.
+   */
+  fallbackToFull?: boolean;
+}
+
+/**
+ * How sandbox commits are transferred by downloadCommitHistory()
+ * - patch: `git format-patch` series applied with `git am --3way`
+ * - bundle: `git bundle` fetched locally, commits cherry-picked
+ */
+export type HistoryDownloadFormat = 'patch' | 'bundle';
+
+export interface HistoryDownloadOptions {
+  format: HistoryDownloadFormat;
+  /** Create this branch from the current HEAD and apply the commits there */
+  branch?: string;
+}
+
+export interface HistoryDownloadResult {
+  success: boolean;
+  localPath: string;
+  format: HistoryDownloadFormat;
+  /** Commits created in the local worktree */
+  commitsApplied: number;
+  /** Branch the commits were applied to */
+  branch?: string;
+  sizeBytes: number;
+  duration: number;
+  error?: string;
+}
+
+export interface IncrementalUploadResult extends UploadResult {
+  /** delta: only changes since the manifest were uploaded; full: the whole worktree */
+  mode: 'delta' | 'full';
+  filesUploaded: number;
+  filesDeleted: number;
+  /** Why the manifest could not be used */
+  mismatchReason?: string;
+}
+
 // ============================================================================
 // Core Functions
 // ============================================================================
@@ -278,13 +372,13 @@ export async function createTarball(
  * Upload tarball to E2B sandbox with resumable uploads
  *
  * @param tarballPath - Local path to tarball
- * @param sandbox - E2B sandbox instance (type: any to avoid dependency)
+ * @param sandbox - Sandbox instance (any provider)
  * @param remotePath - Remote path in sandbox (default: /workspace)
  * @returns UploadResult with upload metadata
  */
 export async function uploadToSandbox(
   tarballPath: string,
-  sandbox: any, // E2B Sandbox type
+  sandbox: SandboxHandle,
   remotePath: string = '/workspace'
 ): Promise<UploadResult> {
   const startTime = Date.now();
@@ -309,9 +403,9 @@ export async function uploadToSandbox(
     // Upload to sandbox (E2B SDK method)
     // Note: E2B files.write() doesn't support timeout option, so we wrap it with Promise.race
     await Promise.race([
-      sandbox.files.write(remotePath + '/worktree.tar.gz', fileBuffer),
+      sandbox.files.write(remotePath + '/worktree.tar.gz', toArrayBuffer(fileBuffer)),
       new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('File upload timeout after 5 minutes')), 5 * 60 * 1000)
+        setTimeout(() => reject(new Error('File upload timeout after 5 minutes')), 5 * 60 * 1000).unref()
       )
     ]);
 
@@ -346,13 +440,13 @@ export async function uploadToSandbox(
  * Upload large tarball with checkpoints for resumability
  *
  * @param tarballPath - Local path to tarball
- * @param sandbox - E2B sandbox instance
+ * @param sandbox - Sandbox instance
  * @param remotePath - Remote path in sandbox
  * @returns UploadResult with checkpoint metadata
  */
 async function uploadWithCheckpoints(
   tarballPath: string,
-  sandbox: any,
+  sandbox: SandboxHandle,
   remotePath: string
 ): Promise<UploadResult> {
   const startTime = Date.now();
@@ -389,9 +483,9 @@ async function uploadWithCheckpoints(
         const paddedIndex = chunkIndex.toString().padStart(paddingWidth, '0');
         const chunkPath = `${remotePath}/worktree.tar.gz.part${paddedIndex}`;
         await Promise.race([
-          sandbox.files.write(chunkPath, chunk),
+          sandbox.files.write(chunkPath, toArrayBuffer(chunk)),
           new Promise((_, reject) =>
-            setTimeout(() => reject(new Error('Chunk upload timeout after 2 minutes')), 2 * 60 * 1000)
+            setTimeout(() => reject(new Error('Chunk upload timeout after 2 minutes')), 2 * 60 * 1000).unref()
           )
         ]);
 
@@ -438,13 +532,16 @@ async function uploadWithCheckpoints(
 /**
  * Download only changed files from sandbox (selective download)
  *
- * @param sandbox - E2B sandbox instance
+ * Files the sandbox deleted (including the old side of renames) are not part
+ * of the tarball; they are removed from localPath and listed in the result.
+ *
+ * @param sandbox - Sandbox instance
  * @param remotePath - Remote workspace path
  * @param localPath - Local worktree path
  * @returns DownloadResult with download metadata
  */
 export async function downloadChangedFiles(
-  sandbox: any,
+  sandbox: SandboxHandle,
   remotePath: string,
   localPath: string
 ): Promise<DownloadResult> {
@@ -465,10 +562,12 @@ export async function downloadChangedFiles(
     });
 
     let changedFiles = parseGitStatus(gitStatusCmd.stdout);
+    let deletedFilesCmd = 'git diff --name-only --no-renames --diff-filter=D HEAD';
 
     // If no uncommitted changes, get files from the most recent commit
     // (Claude may have committed the changes)
     if (changedFiles.length === 0) {
+      deletedFilesCmd = 'git diff-tree --no-commit-id --name-only --no-renames --diff-filter=D -r HEAD';
       logger.info('No uncommitted changes, checking last commit...');
       const lastCommitCmd = await sandbox.commands.run('git diff-tree --no-commit-id --name-only -r HEAD', {
         cwd: remotePath,
@@ -483,12 +582,23 @@ export async function downloadChangedFiles(
       logger.info(`Found ${changedFiles.length} uncommitted changes`);
     }
 
+    const deletedFiles = await listDeletedFiles(sandbox, remotePath, deletedFilesCmd);
+    if (deletedFiles.length > 0) {
+      const deleted = new Set(deletedFiles);
+      changedFiles = changedFiles.filter(f => !deleted.has(f));
+      const removed = await removeDeletedFiles(localPath, deletedFiles);
+      logger.info(`Removed ${removed} of ${deletedFiles.length} files deleted in sandbox`);
+    }
+
     if (changedFiles.length === 0) {
-      logger.warn('No changes found (neither uncommitted nor in last commit)');
+      if (deletedFiles.length === 0) {
+        logger.warn('No changes found (neither uncommitted nor in last commit)');
+      }
       return {
         success: true,
         localPath,
         filesDownloaded: 0,
+        deletedFiles,
         sizeBytes: 0,
         duration: Date.now() - startTime
       };
@@ -503,7 +613,8 @@ export async function downloadChangedFiles(
 
     // Verify files exist in sandbox before creating tarball
     logger.info('Verifying files exist in sandbox...');
-    const verifyFilesCmd = await sandbox.commands.run(
+    const verifyFilesCmd = await runSandboxCommand(
+      sandbox,
       `cd ${remotePath} && ls -la ${changedFiles.slice(0, 3).map(f => `'${f.replace(/'/g, "'\\''")}'`).join(' ')}`,
       { timeoutMs: 10000 }
     );
@@ -626,6 +737,7 @@ export async function downloadChangedFiles(
       success: true,
       localPath,
       filesDownloaded: changedFiles.length,
+      deletedFiles,
       sizeBytes: stats.size,
       duration
     };
@@ -642,17 +754,222 @@ export async function downloadChangedFiles(
   }
 }
 
+/**
+ * List files deleted in the sandbox workspace
+ *
+ * @param command - git command printing the deleted paths, one per line
+ */
+async function listDeletedFiles(sandbox: SandboxHandle, remotePath: string, command: string): Promise<string[]> {
+  const result = await runSandboxCommand(sandbox, command, { cwd: remotePath, timeoutMs: 30000 });
+  if (result.exitCode !== 0) {
+    logger.warn(`Could not list deleted files in sandbox: ${result.stderr}`);
+    return [];
+  }
+  return result.stdout.split('\n').map(f => f.trim()).filter(f => f.length > 0);
+}
+
+/**
+ * Remove files the sandbox deleted from a local directory
+ *
+ * Paths that would resolve outside the directory are skipped.
+ *
+ * @param localPath - Local worktree or directory the changes apply to
+ * @param files - Workspace-relative paths, as in DownloadResult.deletedFiles
+ * @returns Number of files that existed and were removed
+ */
+export async function removeDeletedFiles(localPath: string, files: string[]): Promise<number> {
+  const root = path.resolve(localPath);
+  let removed = 0;
+
+  for (const file of files) {
+    const target = path.resolve(root, file);
+    if (!target.startsWith(root + path.sep)) {
+      logger.warn(`Skipping deleted file outside ${root}: ${file}`);
+      continue;
+    }
+    try {
+      await fs.unlink(target);
+      removed++;
+    } catch {
+      // Already gone
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Download the sandbox's commits and apply them to a local git worktree
+ *
+ * Unlike downloadChangedFiles(), commits Claude made are kept one by one, and
+ * renames are carried over as renames. Uncommitted sandbox
+ * changes are committed first. The base is the sandbox repository's root commit
+ * (the uploaded workspace state), so only commits made in the sandbox are
+ * transferred. If applying fails, the worktree is restored to where it was.
+ *
+ * @param sandbox - Sandbox instance
+ * @param remotePath - Remote workspace path (a git repository)
+ * @param localPath - Local git worktree without uncommitted changes to tracked files
+ * @param options - Patch or bundle format, and optional new branch
+ * @returns HistoryDownloadResult with the number of applied commits
+ */
+export async function downloadCommitHistory(
+  sandbox: SandboxHandle,
+  remotePath: string,
+  localPath: string,
+  options: HistoryDownloadOptions
+): Promise<HistoryDownloadResult> {
+  const startTime = Date.now();
+  const { format, branch } = options;
+  logger.info(`Downloading sandbox commits as ${format} to: ${localPath}`);
+
+  // Validate remote path to prevent shell injection
+  validateRemotePath(remotePath);
+
+  // Validate local path to prevent shell injection and directory traversal
+  await validatePath(localPath);
+
+  const failure = (error: string): HistoryDownloadResult => ({
+    success: false,
+    localPath,
+    format,
+    commitsApplied: 0,
+    sizeBytes: 0,
+    duration: Date.now() - startTime,
+    error
+  });
+
+  const git = (args: string[]) => {
+    const result = spawnSync('git', args, { cwd: localPath, stdio: 'pipe' });
+    return {
+      ok: result.status === 0,
+      stdout: result.stdout?.toString() ?? '',
+      stderr: result.stderr?.toString().trim() || result.error?.message || 'Unknown error'
+    };
+  };
+
+  if (!git(['rev-parse', '--verify', 'HEAD']).ok) {
+    return failure(`Not a git repository with commits: ${localPath}`);
+  }
+  if (git(['status', '--porcelain', '--untracked-files=no']).stdout.trim()) {
+    return failure('Local worktree has uncommitted changes; commit or stash them first');
+  }
+  if (branch && !git(['check-ref-format', '--branch', branch]).ok) {
+    return failure(`Invalid branch name: ${branch}`);
+  }
+
+  const remoteFile = format === 'patch' ? '/tmp/parallel-cc-history.mbox' : '/tmp/parallel-cc-history.bundle';
+  const tmpDir = await fs.mkdtemp('/tmp/parallel-cc-history-');
+  let branchCreated = false;
+  let previousRef = '';
+
+  try {
+    // Commit what Claude left uncommitted so it is part of the history
+    await sandbox.commands.run(
+      'git add -A && (git diff --cached --quiet || git commit -q -m "Uncommitted sandbox changes")',
+      { cwd: remotePath, timeoutMs: 60000 }
+    );
+
+    const baseCmd = await sandbox.commands.run('git rev-list --max-parents=0 HEAD | tail -n 1', {
+      cwd: remotePath,
+      timeoutMs: 30000
+    });
+    const headCmd = await sandbox.commands.run('git rev-parse HEAD', { cwd: remotePath, timeoutMs: 30000 });
+    const base = baseCmd.stdout.trim();
+    const head = headCmd.stdout.trim();
+    if (!/^[0-9a-f]{40,64}$/.test(base) || !/^[0-9a-f]{40,64}$/.test(head)) {
+      throw new Error('Sandbox workspace has no git history to download');
+    }
+
+    const countCmd = await sandbox.commands.run(`git rev-list --count ${base}..${head}`, {
+      cwd: remotePath,
+      timeoutMs: 30000
+    });
+    const commitCount = parseInt(countCmd.stdout.trim(), 10);
+    if (!commitCount) {
+      logger.warn('No commits made in the sandbox since the uploaded base');
+      return { success: true, localPath, format, commitsApplied: 0, sizeBytes: 0, duration: Date.now() - startTime };
+    }
+    logger.info(`Found ${commitCount} sandbox commits since base ${base.slice(0, 8)}`);
+
+    // Export the commits in the sandbox
+    const exportCmd = format === 'patch'
+      ? `git format-patch --binary -M --stdout ${base}..${head} > ${remoteFile}`
+      : `git bundle create ${remoteFile} HEAD`;
+    await sandbox.commands.run(exportCmd, { cwd: remotePath, timeoutMs: 2 * 60 * 1000 });
+
+    // Binary-safe transfer: base64 in the sandbox, decode locally
+    const base64Cmd = await sandbox.commands.run(`base64 ${remoteFile}`, { timeoutMs: 2 * 60 * 1000 });
+    const content = Buffer.from(base64Cmd.stdout.replace(/\s/g, ''), 'base64');
+    if (content.length === 0) {
+      throw new Error(`Downloaded ${format} is empty`);
+    }
+    const localFile = path.join(tmpDir, path.basename(remoteFile));
+    await fs.writeFile(localFile, content);
+
+    previousRef = git(['symbolic-ref', '-q', '--short', 'HEAD']).stdout.trim() || git(['rev-parse', 'HEAD']).stdout.trim();
+    if (branch) {
+      const checkout = git(['checkout', '-q', '-b', branch]);
+      if (!checkout.ok) {
+        throw new Error(`Failed to create branch ${branch}: ${checkout.stderr}`);
+      }
+      branchCreated = true;
+    }
+
+    if (format === 'patch') {
+      const am = git(['am', '--3way', '--quiet', localFile]);
+      if (!am.ok) {
+        git(['am', '--abort']);
+        throw new Error(`git am failed: ${am.stderr}`);
+      }
+    } else {
+      const fetch = git(['fetch', '--quiet', '--no-tags', localFile, 'HEAD']);
+      if (!fetch.ok) {
+        throw new Error(`git fetch from bundle failed: ${fetch.stderr}`);
+      }
+      const pick = git(['cherry-pick', '--allow-empty', `${base}..${head}`]);
+      if (!pick.ok) {
+        git(['cherry-pick', '--abort']);
+        throw new Error(`git cherry-pick failed: ${pick.stderr}`);
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info(`Applied ${commitCount} sandbox commits (${formatBytes(content.length)} ${format}) in ${duration}ms`);
+
+    return {
+      success: true,
+      localPath,
+      format,
+      commitsApplied: commitCount,
+      branch: branch ?? (git(['symbolic-ref', '-q', '--short', 'HEAD']).stdout.trim() || undefined),
+      sizeBytes: content.length,
+      duration
+    };
+  } catch (error) {
+    logger.error('History download failed', error);
+    if (branchCreated) {
+      git(['checkout', '-q', previousRef]);
+      git(['branch', '-q', '-D', branch!]);
+    }
+    return failure(error instanceof Error ? error.message : String(error));
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+    await sandbox.commands.run(`rm -f ${remoteFile}`, { timeoutMs: 10000 }).catch(() => undefined);
+  }
+}
+
 /**
  * Verify upload integrity (file count and total size)
  *
- * @param sandbox - E2B sandbox instance
+ * @param sandbox - Sandbox instance
  * @param remotePath - Remote workspace path
  * @param expectedFileCount - Expected number of files
  * @param expectedSize - Expected total size in bytes
  * @returns VerificationResult with validation details
  */
 export async function verifyUpload(
-  sandbox: any,
+  sandbox: SandboxHandle,
   remotePath: string,
   expectedFileCount: number,
   expectedSize: number
@@ -770,6 +1087,490 @@ export async function scanForCredentials(worktreePath: string): Promise<Credenti
   }
 }
 
+// ============================================================================
+// Incremental Upload
+// ============================================================================
+
+/**
+ * Upload a worktree, sending only what changed since the sandbox's manifest
+ *
+ * The manifest is the sandbox's base snapshot (options.baseManifest, for warm
+ * sandboxes) or the worktree's saved manifest (for a sandbox kept alive
+ * between runs). It is used when it was recorded for this sandbox and the
+ * workspace still holds its files, as checked by verifyUpload() and by
+ * sha256sum in the sandbox: files changed or added in the worktree are then
+ * uploaded as a delta tarball, files missing from it are deleted, and a saved
+ * manifest is replaced.
+ *
+ * On a mismatch the workspace is replaced by a full upload with
+ * fallbackToFull. Without it the upload fails and nothing is sent, so a
+ * sandbox's own changes are never overwritten.
+ *
+ * @param worktreePath - Worktree to upload
+ * @param sandbox - Sandbox instance (any provider)
+ * @param options - Remote path, manifest source and fallback
+ * @returns IncrementalUploadResult with the upload mode and file counts
+ */
+export async function uploadIncremental(
+  worktreePath: string,
+  sandbox: SandboxHandle,
+  options: IncrementalUploadOptions = {}
+): Promise<IncrementalUploadResult> {
+  const startTime = Date.now();
+  const remotePath = options.remotePath ?? '/workspace';
+  const manifestDir = options.manifestDir ?? UPLOAD_MANIFEST_DIR;
+
+  // Validate remote path to prevent shell injection
+  validateRemotePath(remotePath);
+
+  const failure = (error: string, mismatchReason?: string): IncrementalUploadResult => ({
+    success: false,
+    remotePath,
+    sizeBytes: 0,
+    duration: Date.now() - startTime,
+    mode: 'delta',
+    filesUploaded: 0,
+    filesDeleted: 0,
+    error,
+    ...(mismatchReason ? { mismatchReason } : {})
+  });
+
+  const mismatch = async (mismatchReason: string): Promise<IncrementalUploadResult> => {
+    if (!options.fallbackToFull) {
+      logger.warn(`Sandbox does not match the upload manifest: ${mismatchReason}`);
+      return failure(`Sandbox does not match the upload manifest: ${mismatchReason}`, mismatchReason);
+    }
+    logger.info(`Full upload: ${mismatchReason}`);
+    const result = await uploadFull(worktreePath, sandbox, remotePath);
+    return { ...result, duration: Date.now() - startTime, mismatchReason };
+  };
+
+  const base = options.baseManifest ?? await loadUploadManifest(worktreePath, manifestDir);
+  if (!base) {
+    return mismatch('No upload manifest for this worktree');
+  }
+  const mismatchReason = await findManifestMismatch(sandbox, base, remotePath);
+  if (mismatchReason) {
+    return mismatch(mismatchReason);
+  }
+
+  let files: ManifestEntry[];
+  try {
+    files = await buildWorktreeEntries(worktreePath);
+  } catch (error) {
+    logger.error('Failed to build upload manifest', error);
+    return failure(error instanceof Error ? error.message : String(error));
+  }
+
+  const result = await uploadDelta(base, files, worktreePath, sandbox, remotePath);
+  if (result.success && !options.baseManifest) {
+    try {
+      await writeUploadManifest(worktreePath, manifestDir, await measureManifest(sandbox, remotePath, files));
+    } catch (error) {
+      logger.warn(`Upload manifest not saved: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { ...result, duration: Date.now() - startTime };
+}
+
+/**
+ * Record the worktree's files as the manifest for a kept-alive sandbox
+ *
+ * Call once the worktree and the sandbox workspace hold the same files, i.e.
+ * right after downloading the sandbox's changes, so that a later
+ * uploadIncremental() only sends what is edited locally in between.
+ *
+ * @param worktreePath - Worktree the sandbox's changes were downloaded to
+ * @param sandbox - Sandbox that is kept for reuse
+ * @param options - Remote path and manifest directory
+ * @returns Whether the manifest was saved (failures are logged)
+ */
+export async function recordUploadManifest(
+  worktreePath: string,
+  sandbox: SandboxHandle,
+  options: IncrementalUploadOptions = {}
+): Promise<boolean> {
+  try {
+    const files = await buildWorktreeEntries(worktreePath);
+    const manifest = await measureManifest(sandbox, options.remotePath ?? '/workspace', files);
+    await writeUploadManifest(worktreePath, options.manifestDir ?? UPLOAD_MANIFEST_DIR, manifest);
+    return true;
+  } catch (error) {
+    logger.warn(`Upload manifest not saved: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Upload a base snapshot to a new sandbox, ahead of the worktree it will run
+ *
+ * Used to warm up pooled sandboxes with the repository, so the task that
+ * takes the sandbox only uploads its worktree's differences (pass the
+ * returned manifest to uploadIncremental() as baseManifest).
+ *
+ * @param tarballPath - Snapshot created by createTarball()
+ * @param files - Manifest entries of the snapshot (buildManifestEntries())
+ * @param sandbox - Sandbox with an empty workspace
+ * @param remotePath - Remote path in sandbox (default: /workspace)
+ * @param setup - Runs on the uploaded snapshot before the workspace is measured,
+ *   so files it creates (e.g. installed dependencies) are part of the manifest
+ * @returns Manifest of the sandbox workspace
+ * @throws Error if the upload or the workspace measurement fails
+ */
+export async function uploadBaseSnapshot(
+  tarballPath: string,
+  files: ManifestEntry[],
+  sandbox: SandboxHandle,
+  remotePath: string = '/workspace',
+  setup?: () => Promise<void>
+): Promise<UploadManifest> {
+  const upload = await uploadToSandbox(tarballPath, sandbox, remotePath);
+  if (!upload.success) {
+    throw new Error(upload.error ?? 'Snapshot upload failed');
+  }
+  await sandbox.commands.run(`rm -f ${remotePath}/worktree.tar.gz`, { timeoutMs: 30000 });
+  if (setup) {
+    await setup();
+  }
+  return measureManifest(sandbox, remotePath, files);
+}
+
+/**
+ * Replace the workspace with a full upload of the worktree
+ */
+async function uploadFull(
+  worktreePath: string,
+  sandbox: SandboxHandle,
+  remotePath: string
+): Promise<IncrementalUploadResult> {
+  const startTime = Date.now();
+  try {
+    const tarball = await createTarball(worktreePath);
+    try {
+      // Files of an earlier upload must not survive in the workspace
+      await sandbox.commands.run(`mkdir -p ${remotePath} && find ${remotePath} -mindepth 1 -delete`, { timeoutMs: 5 * 60 * 1000 });
+      const upload = await uploadToSandbox(tarball.path, sandbox, remotePath);
+      // Tarball entries without the directories
+      const listing = spawnSync('tar', ['-tzf', tarball.path], { stdio: 'pipe', maxBuffer: 100 * 1024 * 1024 });
+      const fileCount = listing.stdout.toString().split('\n').filter(line => line && !line.endsWith('/')).length;
+      return {
+        ...upload,
+        duration: Date.now() - startTime,
+        mode: 'full',
+        filesUploaded: upload.success ? fileCount : 0,
+        filesDeleted: 0
+      };
+    } finally {
+      await fs.rm(path.dirname(tarball.path), { recursive: true, force: true });
+    }
+  } catch (error) {
+    logger.error('Full upload failed', error);
+    return {
+      success: false,
+      remotePath,
+      sizeBytes: 0,
+      duration: Date.now() - startTime,
+      mode: 'full',
+      filesUploaded: 0,
+      filesDeleted: 0,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Upload files that differ from the manifest and delete files missing locally
+ */
+async function uploadDelta(
+  base: UploadManifest,
+  files: ManifestEntry[],
+  worktreePath: string,
+  sandbox: SandboxHandle,
+  remotePath: string
+): Promise<IncrementalUploadResult> {
+  const startTime = Date.now();
+  const baseHashes = new Map(base.files.map(entry => [entry.path, entry.hash]));
+  const currentPaths = new Set(files.map(entry => entry.path));
+
+  const changed = files.filter(entry => baseHashes.get(entry.path) !== entry.hash).map(entry => entry.path);
+  const deleted = base.files.filter(entry => !currentPaths.has(entry.path)).map(entry => entry.path);
+  logger.info(`Delta upload: ${changed.length} changed, ${deleted.length} deleted (of ${files.length} files)`);
+
+  let sizeBytes = 0;
+  try {
+    if (changed.length > 0) {
+      const tmpDir = await fs.mkdtemp('/tmp/parallel-cc-delta-');
+      try {
+        const listPath = path.join(tmpDir, 'files');
+        const deltaPath = path.join(tmpDir, 'worktree.tar.gz');
+        await fs.writeFile(listPath, changed.map(file => `./${file}\0`).join(''));
+
+        const tarResult = spawnSync('tar', ['-czf', deltaPath, '-C', worktreePath, '--null', '-T', listPath], {
+          stdio: 'pipe',
+          env: { ...process.env, GZIP: `-${GZIP_LEVEL}` }
+        });
+        if (tarResult.status !== 0) {
+          throw new Error(`tar command failed with exit code ${tarResult.status}: ${tarResult.stderr?.toString() || 'Unknown error'}`);
+        }
+
+        const upload = await uploadToSandbox(deltaPath, sandbox, remotePath);
+        if (!upload.success) {
+          throw new Error(upload.error ?? 'Delta upload failed');
+        }
+        sizeBytes = upload.sizeBytes;
+        await sandbox.commands.run(`rm -f ${remotePath}/worktree.tar.gz`, { timeoutMs: 30000 });
+      } finally {
+        await fs.rm(tmpDir, { recursive: true, force: true });
+      }
+    }
+
+    if (deleted.length > 0) {
+      // NUL-separated list, so file names never reach the shell
+      const listFile = `${remotePath}/.parallel-cc-deleted`;
+      await sandbox.files.write(listFile, toArrayBuffer(Buffer.from(deleted.map(file => `${file}\0`).join(''))));
+      await sandbox.commands.run(
+        `cd ${remotePath} && xargs -0 rm -f -- < ${listFile} && rm -f ${listFile}`,
+        { timeoutMs: 60000 }
+      );
+    }
+
+    return {
+      success: true,
+      remotePath,
+      sizeBytes,
+      duration: Date.now() - startTime,
+      mode: 'delta',
+      filesUploaded: changed.length,
+      filesDeleted: deleted.length
+    };
+  } catch (error) {
+    logger.error('Delta upload failed', error);
+    return {
+      success: false,
+      remotePath,
+      sizeBytes: 0,
+      duration: Date.now() - startTime,
+      mode: 'delta',
+      filesUploaded: 0,
+      filesDeleted: 0,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Build manifest entries for the files in a worktree tarball
+ *
+ * @param tarballPath - Tarball created by createTarball()
+ * @param worktreePath - Worktree the tarball was created from
+ * @returns One entry per file or symlink, sorted by path
+ */
+export async function buildManifestEntries(tarballPath: string, worktreePath: string): Promise<ManifestEntry[]> {
+  const list = spawnSync('tar', ['-tzf', tarballPath], { stdio: 'pipe', maxBuffer: 100 * 1024 * 1024 });
+  if (list.status !== 0) {
+    throw new Error(`tar command failed with exit code ${list.status}: ${list.stderr?.toString() || 'Unknown error'}`);
+  }
+
+  const entries: ManifestEntry[] = [];
+  for (const line of list.stdout.toString().split('\n')) {
+    const relativePath = line.replace(/^\.\//, '');
+    if (!relativePath || relativePath === '.' || relativePath.endsWith('/')) {
+      continue;
+    }
+
+    const filePath = path.join(worktreePath, relativePath);
+    const stats = await fs.lstat(filePath);
+    if (stats.isSymbolicLink()) {
+      const target = await fs.readlink(filePath);
+      entries.push({ path: relativePath, sizeBytes: 0, hash: createHash('sha256').update(target).digest('hex'), symlink: true });
+    } else if (stats.isFile()) {
+      const content = await fs.readFile(filePath);
+      entries.push({ path: relativePath, sizeBytes: stats.size, hash: createHash('sha256').update(content).digest('hex') });
+    }
+  }
+
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Load a worktree's upload manifest
+ *
+ * @param worktreePath - Worktree the manifest was recorded for
+ * @param manifestDir - Directory holding manifests
+ * @returns Manifest, or null if missing, unreadable or of another version
+ */
+export async function loadUploadManifest(
+  worktreePath: string,
+  manifestDir: string = UPLOAD_MANIFEST_DIR
+): Promise<UploadManifest | null> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(getManifestPath(worktreePath, manifestDir), 'utf-8')) as UploadManifest;
+    return manifest.version === UPLOAD_MANIFEST_VERSION && Array.isArray(manifest.files) ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a worktree's upload manifest
+ */
+async function writeUploadManifest(
+  worktreePath: string,
+  manifestDir: string,
+  manifest: UploadManifest
+): Promise<void> {
+  await fs.mkdir(manifestDir, { recursive: true });
+  await fs.writeFile(getManifestPath(worktreePath, manifestDir), JSON.stringify(manifest));
+}
+
+/**
+ * Build a sandbox's manifest, measuring its workspace with verifyUpload()
+ */
+async function measureManifest(
+  sandbox: SandboxHandle,
+  remotePath: string,
+  files: ManifestEntry[]
+): Promise<UploadManifest> {
+  const regular = files.filter(entry => !entry.symlink);
+  const verification = await verifyUpload(
+    sandbox,
+    remotePath,
+    regular.length,
+    regular.reduce((total, entry) => total + entry.sizeBytes, 0)
+  );
+  if (verification.error) {
+    throw new Error(`Could not measure the sandbox workspace: ${verification.error}`);
+  }
+
+  return {
+    version: UPLOAD_MANIFEST_VERSION,
+    createdAt: new Date().toISOString(),
+    sandboxId: sandbox.sandboxId,
+    remotePath,
+    files,
+    remoteFileCount: verification.actualFileCount,
+    remoteSize: verification.actualSize
+  };
+}
+
+/**
+ * Check that the sandbox workspace still holds a manifest's files
+ *
+ * verifyUpload() compares the workspace's file count and size with those
+ * measured when the manifest was recorded (catching added and removed files);
+ * sha256sum then checks the contents.
+ *
+ * @returns Why the sandbox doesn't match the manifest, or null if it does
+ */
+async function findManifestMismatch(
+  sandbox: SandboxHandle,
+  manifest: UploadManifest,
+  remotePath: string
+): Promise<string | null> {
+  if (manifest.sandboxId !== sandbox.sandboxId) {
+    return `Manifest is for sandbox ${manifest.sandboxId}`;
+  }
+  if (manifest.remotePath !== remotePath) {
+    return `Manifest is for ${manifest.remotePath}`;
+  }
+
+  const verification = await verifyUpload(sandbox, remotePath, manifest.remoteFileCount, manifest.remoteSize);
+  if (verification.error) {
+    return `Could not verify the sandbox workspace: ${verification.error}`;
+  }
+  if (!verification.verified) {
+    return `Workspace has ${verification.actualFileCount} files (${formatBytes(verification.actualSize)}), ` +
+      `manifest expects ${manifest.remoteFileCount} (${formatBytes(manifest.remoteSize)})`;
+  }
+
+  try {
+    const modified = await findModifiedFiles(sandbox, manifest);
+    if (modified.length > 0) {
+      return `${modified.length} files in the sandbox differ from the manifest`;
+    }
+  } catch (error) {
+    return `Could not check the sandbox against the manifest: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return null;
+}
+
+/**
+ * Build manifest entries for the files createTarball() would upload
+ */
+async function buildWorktreeEntries(worktreePath: string): Promise<ManifestEntry[]> {
+  const tarball = await createTarball(worktreePath);
+  try {
+    return await buildManifestEntries(tarball.path, worktreePath);
+  } finally {
+    await fs.rm(path.dirname(tarball.path), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Check the sandbox workspace against a manifest
+ *
+ * File contents are checked with sha256sum in the sandbox, symlinks by their
+ * target.
+ *
+ * @returns Manifest paths that are missing or differ in the sandbox
+ */
+async function findModifiedFiles(sandbox: SandboxHandle, manifest: UploadManifest): Promise<string[]> {
+  const modified: string[] = [];
+
+  const regular = manifest.files.filter(entry => !entry.symlink);
+  if (regular.length > 0) {
+    const checkFile = '/tmp/parallel-cc-manifest.sha256';
+    await sandbox.files.write(
+      checkFile,
+      toArrayBuffer(Buffer.from(regular.map(entry => `${entry.hash}  ${entry.path}\n`).join('')))
+    );
+    // --quiet prints only the files that fail, as "<path>: FAILED..."
+    const check = await runSandboxCommand(sandbox, `sha256sum --check --quiet ${checkFile} 2>/dev/null`, {
+      cwd: manifest.remotePath,
+      timeoutMs: 300000
+    });
+    await sandbox.commands.run(`rm -f ${checkFile}`, { timeoutMs: 30000 });
+
+    const failed = check.stdout.split('\n')
+      .filter(line => line.includes(': FAILED'))
+      .map(line => line.slice(0, line.lastIndexOf(': FAILED')));
+    if (check.exitCode !== 0 && failed.length === 0) {
+      throw new Error(`sha256sum exited with code ${check.exitCode}`);
+    }
+    modified.push(...failed);
+  }
+
+  const symlinks = manifest.files.filter(entry => entry.symlink);
+  if (symlinks.length > 0) {
+    // NUL-separated "<path>\0<target>\0" pairs
+    const listing = await sandbox.commands.run(
+      "find . -path ./.git -prune -o -type l -printf '%P\\0%l\\0'",
+      { cwd: manifest.remotePath, timeoutMs: 60000 }
+    );
+    const fields = listing.stdout.split('\0');
+    const targets = new Map<string, string>();
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      targets.set(fields[i], fields[i + 1]);
+    }
+    for (const entry of symlinks) {
+      const target = targets.get(entry.path);
+      if (target === undefined || createHash('sha256').update(target).digest('hex') !== entry.hash) {
+        modified.push(entry.path);
+      }
+    }
+  }
+
+  return modified;
+}
+
+/**
+ * Manifest file for a worktree (hashed, so any path can be used)
+ */
+function getManifestPath(worktreePath: string, manifestDir: string): string {
+  const keyHash = createHash('sha256').update(path.resolve(worktreePath)).digest('hex').slice(0, 16);
+  return path.join(manifestDir, `${keyHash}.json`);
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -948,6 +1749,15 @@ export function isTextFile(filename: string): boolean {
   return textExtensions.includes(ext);
 }
 
+/**
+ * Copy a Buffer's bytes into a standalone ArrayBuffer for sandbox file writes
+ */
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  const copy = new ArrayBuffer(buffer.byteLength);
+  new Uint8Array(copy).set(buffer);
+  return copy;
+}
+
 /**
  * Format bytes to human-readable string
  */
@@ -6,7 +6,7 @@
  * the default download workflow.
  */
 
-import type { Sandbox } from 'e2b';
+import type { SandboxHandle } from './sandbox-provider.js';
 import type { Logger } from '../logger.js';
 
 /**
@@ -166,13 +166,13 @@ This PR was created automatically by \`parallel-cc sandbox-run --git-live\`.
 /**
  * Push results to remote feature branch and create pull request
  *
- * @param sandbox - E2B sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @param options - Git live options
  * @returns Result with branch name and PR URL
  */
 export async function pushToRemoteAndCreatePR(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   logger: Logger,
   options: GitLiveOptions
 ): Promise<GitLiveResult> {
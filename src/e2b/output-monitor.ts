@@ -10,7 +10,7 @@
  */
 
 import { EventEmitter } from 'events';
-import type { Sandbox } from 'e2b';
+import type { SandboxHandle } from './sandbox-provider.js';
 import * as fs from 'fs/promises';
 import type { Logger } from '../logger.js';
 
@@ -92,7 +92,7 @@ interface StreamState {
  * ```
  */
 export class StreamMonitor extends EventEmitter {
-  private sandbox: Sandbox;
+  private sandbox: SandboxHandle;
   private logger: Logger;
   private options: Required<StreamMonitorOptions>;
   private state: StreamState;
@@ -100,7 +100,7 @@ export class StreamMonitor extends EventEmitter {
   private logFilePath?: string;
   private localLogPath?: string;
 
-  constructor(sandbox: Sandbox, logger: Logger, options: StreamMonitorOptions = {}) {
+  constructor(sandbox: SandboxHandle, logger: Logger, options: StreamMonitorOptions = {}) {
     super();
     this.sandbox = sandbox;
     this.logger = logger;
@@ -367,10 +367,10 @@ export class StreamMonitor extends EventEmitter {
 /**
  * Create a temporary log file in the sandbox
  *
- * @param sandbox - E2B sandbox instance
+ * @param sandbox - Sandbox instance
  * @returns Path to temporary log file
  */
-export async function createTempLogFile(sandbox: Sandbox): Promise<string> {
+export async function createTempLogFile(sandbox: SandboxHandle): Promise<string> {
   const timestamp = Date.now();
   const logPath = `/tmp/claude-output-${timestamp}.log`;
 
@@ -383,14 +383,14 @@ export async function createTempLogFile(sandbox: Sandbox): Promise<string> {
 /**
  * Stream output from a command execution
  *
- * @param sandbox - E2B sandbox instance
+ * @param sandbox - Sandbox instance
  * @param command - Command to execute
  * @param logger - Logger instance
  * @param options - Stream options
  * @returns StreamMonitor instance
  */
 export async function streamCommand(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   command: string,
   logger: Logger,
   options: StreamMonitorOptions = {}
@@ -414,14 +414,14 @@ export async function streamCommand(
 /**
  * Wait for a log file to stop growing (indicates completion)
  *
- * @param sandbox - E2B sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logPath - Path to log file
  * @param stableSeconds - Seconds file must remain unchanged (default: 3)
  * @param timeoutSeconds - Max wait time (default: 300 = 5 minutes)
  * @returns true if file stabilized, false if timeout
  */
 export async function waitForLogStable(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   logPath: string,
   stableSeconds: number = 3,
   timeoutSeconds: number = 300
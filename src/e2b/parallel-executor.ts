@@ -8,6 +8,20 @@
  * - Result aggregation and summary reporting
  * - Resource cleanup on errors
  * - Per-task worktree isolation via Coordinator
+ * - Task dependencies (dependsOn): downstream tasks start from upstream changes
+ *   and are cancelled when a dependency does not complete
+ * - Batch and task state persisted in SQLite, so an interrupted batch can be
+ *   resumed (finished tasks kept, running sandboxes reattached, the rest re-run)
+ * - Batches can be cancelled from another process; the owning executor stops
+ *   scheduling tasks once it sees the cancellation
+ * - Retries with exponential backoff for failed tasks, by failure kind
+ *   (timeout, sandbox infrastructure, or the task itself)
+ * - Per-batch budget: queued tasks are not started once the batch's spend
+ *   plus a new task's projected cost would exceed it
+ * - Task cost is sandbox compute plus Claude's reported model cost, recorded
+ *   per attempt in the budget tracker
+ * - Optional warm pool: tasks take sandboxes that were created and prepared
+ *   ahead of time; the pool shrinks as fewer tasks remain
  */
 
 import * as fs from 'fs/promises';
@@ -15,14 +29,27 @@ import * as path from 'path';
 import { randomUUID } from 'crypto';
 import type { Logger } from '../logger.js';
 import type { Coordinator } from '../coordinator.js';
+import type { SessionDB } from '../db.js';
+import type { BudgetTracker } from '../budget-tracker.js';
 import { SandboxManager } from './sandbox-manager.js';
 import {
   createTarball,
   uploadToSandbox,
-  downloadChangedFiles
+  uploadIncremental,
+  uploadBaseSnapshot,
+  buildManifestEntries,
+  downloadChangedFiles,
+  removeDeletedFiles,
+  type ManifestEntry,
+  type UploadManifest,
+  type UploadResult
 } from './file-sync.js';
-import { executeClaudeInSandbox } from './claude-runner.js';
+import { executeClaudeInSandbox, prepareSandboxForClaude, resolveGitIdentity, type ClaudeExecutionResult } from './claude-runner.js';
+import { parseClaudeUsage, sumClaudeUsage, getModelCost } from './claude-usage.js';
+import type { SandboxHandle } from './sandbox-provider.js';
 import { ConcurrencyLimiter } from '../utils/concurrency.js';
+import { normalizeTasks, topologicalOrder, getUpstreamTasks, type ResolvedTask } from './task-graph.js';
+import { BudgetExceededError, SandboxInfrastructureError } from '../types.js';
 import type {
   ParallelExecutionConfig,
   ParallelExecutionResult,
@@ -30,7 +57,16 @@ import type {
   TaskResult,
   ParallelTaskStatus,
   ParallelProgressCallback,
-  ParallelProgressUpdate
+  ParallelProgressUpdate,
+  ParallelBatchTask,
+  ParallelBatchTaskUpdate,
+  ParallelBatchCancelResult,
+  PersistedBatchConfig,
+  TaskAttempt,
+  TaskFailureKind,
+  ClaudeUsage,
+  CostAttribution,
+  VerificationResult
 } from '../types.js';
 
 // ============================================================================
@@ -40,6 +76,74 @@ import type {
 const DEFAULT_MAX_CONCURRENT = 3;
 const DEFAULT_OUTPUT_DIR = './parallel-results';
 
+/** How often to check whether Claude is still running in a reattached sandbox */
+const REATTACH_POLL_INTERVAL_MS = 10000;
+
+/** Max wait for Claude to finish in a reattached sandbox (matches the Claude run timeout) */
+const REATTACH_TIMEOUT_MS = 60 * 60 * 1000;
+
+/** Failure kinds retried when retries are enabled without --retry-on */
+const DEFAULT_RETRY_ON: TaskFailureKind[] = ['timeout', 'infra'];
+
+/** Delay before the first retry; doubled for each further retry */
+const DEFAULT_RETRY_BACKOFF_MS = 5000;
+
+/** Upper bound for the retry delay */
+const MAX_RETRY_BACKOFF_MS = 60000;
+
+/** Error recorded for tasks left unstarted by the batch budget */
+const BATCH_BUDGET_EXCEEDED = 'Batch budget exceeded';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check whether a process is alive
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether an error message describes a timeout
+ */
+function isTimeoutMessage(message: string): boolean {
+  const lower = message.toLowerCase();
+  return lower.includes('timeout') || lower.includes('timed out');
+}
+
+/**
+ * Classify a failed Claude execution
+ *
+ * Exit code -1 means Claude never ran (health check, CLI install or
+ * credentials setup failed), which is a sandbox problem. Any other exit code
+ * is Claude's own failure; 'killed' means the run was stopped on purpose.
+ */
+function classifyExecutionFailure(result: ClaudeExecutionResult): TaskFailureKind {
+  if (result.state === 'timeout') return 'timeout';
+  if (result.state === 'failed' && result.exitCode === -1) return 'infra';
+  return 'task';
+}
+
+/**
+ * Classify an error thrown while running a task
+ *
+ * Budget stops are final. Other unexpected errors happened outside Claude
+ * (worktree setup, sandbox calls) and count as infrastructure failures.
+ */
+function classifyError(error: unknown): TaskFailureKind {
+  if (error instanceof SandboxInfrastructureError) return error.kind;
+  if (error instanceof BudgetExceededError) return 'task';
+  const message = error instanceof Error ? error.message : String(error);
+  return isTimeoutMessage(message) ? 'timeout' : 'infra';
+}
+
 // ============================================================================
 // ParallelExecutor Class
 // ============================================================================
@@ -66,12 +170,28 @@ export class ParallelExecutor {
   private readonly sandboxManager: SandboxManager;
   private readonly logger: Logger;
   private readonly limiter: ConcurrencyLimiter;
+  private readonly tasks: ResolvedTask[];
+  private readonly db?: SessionDB;
+  private readonly budgetTracker?: BudgetTracker;
+  private batchId = '';
 
   // Tracking for cancellation
   private taskStatuses: Map<string, ParallelTaskStatus> = new Map();
   private taskSandboxIds: Map<string, string> = new Map();
   private cancelled = false;
 
+  // Spend tracking for the batch budget
+  private spentCost = 0;
+  private costedAttempts = 0;
+  private budgetExceeded = false;
+
+  // Template and git user that task costs are attributed to
+  private costAttribution: CostAttribution = {};
+
+  // Repository snapshot uploaded to warm sandboxes, and each warm sandbox's manifest
+  private baseSnapshot: Promise<{ tarballPath: string; files: ManifestEntry[] } | null> | null = null;
+  private warmManifests: Map<string, UploadManifest> = new Map();
+
   /**
    * Create a new ParallelExecutor
    *
@@ -79,13 +199,17 @@ export class ParallelExecutor {
    * @param coordinator - Coordinator instance for session management
    * @param sandboxManager - SandboxManager instance for E2B operations
    * @param logger - Logger instance
-   * @throws Error if config is invalid
+   * @param db - Optional database for persisting batch state (required for resume)
+   * @param budgetTracker - Optional tracker each task attempt's cost is recorded in
+   * @throws Error if config is invalid (including invalid task dependencies)
    */
   constructor(
     config: ParallelExecutionConfig,
     coordinator: Coordinator,
     sandboxManager: SandboxManager,
-    logger: Logger
+    logger: Logger,
+    db?: SessionDB,
+    budgetTracker?: BudgetTracker
   ) {
     // Validate config
     if (!config.tasks || config.tasks.length === 0) {
@@ -97,6 +221,19 @@ export class ParallelExecutor {
       throw new Error('maxConcurrent must be at least 1');
     }
 
+    if (config.retries !== undefined && (!Number.isInteger(config.retries) || config.retries < 0)) {
+      throw new Error('retries must be a non-negative integer');
+    }
+
+    if (config.batchBudget !== undefined && !(config.batchBudget > 0)) {
+      throw new Error('batchBudget must be a positive number');
+    }
+
+    // Without a per-task budget there is nothing to project the first tasks against
+    if (config.batchBudget !== undefined && config.budgetPerTask === undefined) {
+      throw new Error('batchBudget requires budgetPerTask');
+    }
+
     this.config = {
       ...config,
       maxConcurrent,
@@ -110,10 +247,13 @@ export class ParallelExecutor {
     this.sandboxManager = sandboxManager;
     this.logger = logger;
     this.limiter = new ConcurrencyLimiter(maxConcurrent);
+    this.tasks = normalizeTasks(config.tasks);
+    this.db = db;
+    this.budgetTracker = budgetTracker;
 
     // Initialize task statuses
-    for (let i = 0; i < config.tasks.length; i++) {
-      this.taskStatuses.set(`task-${i + 1}`, 'pending');
+    for (const task of this.tasks) {
+      this.taskStatuses.set(task.id, 'pending');
     }
   }
 
@@ -124,20 +264,106 @@ export class ParallelExecutor {
    * @returns Execution result with all task results and summary
    */
   async execute(onProgress?: ParallelProgressCallback): Promise<ParallelExecutionResult> {
-    const startTime = Date.now();
     const batchId = randomUUID();
 
     this.logger.info(`Starting parallel execution of ${this.config.tasks.length} tasks (batch: ${batchId})`);
+
+    if (this.db) {
+      // Secrets are re-supplied on resume, never stored
+      const { oauthCredentials: _oauthCredentials, npmToken: _npmToken, ...rest } = this.config;
+      const persistedConfig: PersistedBatchConfig = { ...rest, tasks: this.tasks };
+      try {
+        this.db.createParallelBatch({
+          id: batchId,
+          pid: process.pid,
+          config: persistedConfig,
+          tasks: this.tasks.map(task => ({ ...task, outputPath: path.join(this.config.outputDir, task.id) }))
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to persist batch ${batchId}; it will not be resumable: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return this.run(batchId, new Map(), onProgress);
+  }
+
+  /**
+   * Resume an interrupted batch
+   *
+   * Tasks that already finished keep their recorded results. Tasks that were
+   * running are reattached to their sandbox (if it still exists) and their
+   * results downloaded once Claude exits; all other tasks are re-run.
+   *
+   * @param batchId - ID of the batch to resume
+   * @param onProgress - Optional callback for progress updates
+   * @returns Execution result with all task results and summary
+   * @throws Error if there is no database, the batch is unknown, finished,
+   *   still owned by a live process, or its tasks don't match this executor's
+   */
+  async resume(batchId: string, onProgress?: ParallelProgressCallback): Promise<ParallelExecutionResult> {
+    if (!this.db) {
+      throw new Error('Resuming a batch requires a database');
+    }
+
+    const batch = this.db.getParallelBatch(batchId);
+    if (!batch) {
+      throw new Error(`Batch not found: ${batchId}`);
+    }
+    if (batch.status !== 'running') {
+      throw new Error(`Batch ${batchId} already finished (${batch.status})`);
+    }
+    if (batch.pid !== process.pid && isProcessAlive(batch.pid)) {
+      throw new Error(`Batch ${batchId} is still running in process ${batch.pid}`);
+    }
+
+    const records = this.db.getParallelBatchTasks(batchId);
+    const recordedIds = records.map(r => r.taskId).sort().join(',');
+    if (recordedIds !== this.tasks.map(t => t.id).sort().join(',')) {
+      throw new Error(`Tasks do not match batch ${batchId}`);
+    }
+
+    this.logger.info(`Resuming batch ${batchId} (${records.filter(r => this.isFinished(r.status)).length}/${records.length} tasks already finished)`);
+    this.db.updateParallelBatchStatus(batchId, 'running', process.pid);
+
+    return this.run(batchId, new Map(records.map(r => [r.taskId, r])), onProgress);
+  }
+
+  /**
+   * Run (or continue) a batch
+   *
+   * @param batchId - Batch ID
+   * @param records - Persisted task state from an earlier run (empty for a new batch)
+   * @param onProgress - Optional callback for progress updates
+   */
+  private async run(
+    batchId: string,
+    records: Map<string, ParallelBatchTask>,
+    onProgress?: ParallelProgressCallback
+  ): Promise<ParallelExecutionResult> {
+    const startTime = Date.now();
+    this.batchId = batchId;
+
     this.logger.info(`Max concurrent: ${this.config.maxConcurrent}, Fail-fast: ${this.config.failFast}`);
+    if (this.config.batchBudget !== undefined) {
+      this.logger.info(`Batch budget: $${this.config.batchBudget.toFixed(2)}`);
+    }
+    const warmPool = this.config.warmPool && this.config.warmPool.size > 0 ? this.config.warmPool : undefined;
 
     // Reset state for new execution
     this.cancelled = false;
     this.taskStatuses.clear();
     this.taskSandboxIds.clear();
+    this.spentCost = 0;
+    this.costedAttempts = 0;
+    this.budgetExceeded = false;
+    if (this.budgetTracker) {
+      this.costAttribution = await this.resolveCostAttribution();
+    }
 
     // Initialize task statuses
-    for (let i = 0; i < this.config.tasks.length; i++) {
-      this.taskStatuses.set(`task-${i + 1}`, 'pending');
+    for (const task of this.tasks) {
+      const record = records.get(task.id);
+      this.taskStatuses.set(task.id, record && this.isFinished(record.status) ? record.status : 'pending');
     }
 
     // Create output directory
@@ -147,54 +373,26 @@ export class ParallelExecutor {
       this.logger.warn(`Failed to create output directory: ${error}`);
     }
 
-    try {
-      // Create task execution promises
-      const taskPromises = this.config.tasks.map((taskDescription, index) => {
-        const taskId = `task-${index + 1}`;
-        return this.limiter.run(async () => {
-          // Check if cancelled before starting
-          if (this.cancelled) {
-            return this.createCancelledResult(taskId, taskDescription);
-          }
-
-          // Notify progress: starting
-          this.taskStatuses.set(taskId, 'running');
-          this.notifyProgress(onProgress, {
-            taskId,
-            status: 'running',
-            message: `Starting: ${taskDescription.substring(0, 50)}...`,
-            totalTasks: this.config.tasks.length,
-            completedTasks: this.getCompletedCount()
-          });
-
-          // Execute the task
-          const result = await this.executeTask(taskId, taskDescription);
-
-          // Update status and notify
-          this.taskStatuses.set(taskId, result.status);
-          this.notifyProgress(onProgress, {
-            taskId,
-            status: result.status,
-            message: result.status === 'completed'
-              ? `Completed: ${result.filesChanged} files changed`
-              : `Failed: ${result.error || 'Unknown error'}`,
-            elapsed: result.duration,
-            totalTasks: this.config.tasks.length,
-            completedTasks: this.getCompletedCount()
-          });
-
-          // Check fail-fast
-          if (this.config.failFast && result.status === 'failed') {
-            this.logger.error(`Fail-fast triggered by ${taskId}`);
-            await this.cancelRemainingTasks();
-          }
-
-          return result;
-        });
+    // Prepare sandboxes ahead of time, but never more than there are tasks to run
+    if (warmPool) {
+      this.sandboxManager.startWarmPool({
+        size: Math.min(warmPool.size, this.getPendingCount()),
+        idleTtlMinutes: warmPool.idleTtlMinutes,
+        warmup: sandbox => this.warmUpSandbox(sandbox)
       });
+    }
 
-      // Wait for all tasks
-      const results = await Promise.all(taskPromises);
+    try {
+      // Schedule tasks in dependency order so upstream promises exist before
+      // the tasks that wait on them
+      const taskPromises = new Map<string, Promise<TaskResult>>();
+      for (const taskId of topologicalOrder(this.tasks)) {
+        const task = this.tasks.find(t => t.id === taskId)!;
+        taskPromises.set(taskId, this.scheduleTask(task, taskPromises, onProgress, records.get(taskId)));
+      }
+
+      // Wait for all tasks (results keep input order)
+      const results = await Promise.all(this.tasks.map(task => taskPromises.get(task.id)!));
 
       // Calculate summary
       const endTime = Date.now();
@@ -204,6 +402,7 @@ export class ParallelExecutor {
       const reportPath = await this.generateSummaryReport(results, summary);
 
       const allSucceeded = results.every(r => r.status === 'completed');
+      this.persist(db => db.updateParallelBatchStatus(batchId, allSucceeded ? 'completed' : 'failed'));
 
       this.logger.info(`Parallel execution complete: ${summary.successCount}/${results.length} succeeded`);
 
@@ -220,8 +419,289 @@ export class ParallelExecutor {
 
       // Cleanup all sandboxes
       await this.sandboxManager.cleanupAll();
+      this.persist(db => db.updateParallelBatchStatus(batchId, 'failed'));
 
       throw error;
+    } finally {
+      if (warmPool) {
+        await this.sandboxManager.drainWarmPool();
+        await this.removeBaseSnapshot();
+      }
+    }
+  }
+
+  /**
+   * Warm-pool warmup: install Claude Code, configure NPM authentication and
+   * upload the repository snapshot with the managed template applied to it
+   *
+   * A task that takes the sandbox then only uploads how its worktree differs
+   * from the snapshot. Without a snapshot the task uploads its whole worktree
+   * and applies the template itself.
+   */
+  private async warmUpSandbox(sandbox: SandboxHandle): Promise<boolean> {
+    if (!await prepareSandboxForClaude(sandbox, this.logger)) {
+      return false;
+    }
+    await this.configureNpmAuth(sandbox);
+
+    this.baseSnapshot ??= this.createBaseSnapshot();
+    const snapshot = await this.baseSnapshot;
+    if (snapshot) {
+      try {
+        const manifest = await uploadBaseSnapshot(
+          snapshot.tarballPath,
+          snapshot.files,
+          sandbox,
+          '/workspace',
+          () => this.applyManagedTemplate(sandbox)
+        );
+        this.warmManifests.set(sandbox.sandboxId, manifest);
+      } catch (error) {
+        this.logger.warn(`Repository snapshot upload to ${sandbox.sandboxId} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Create the repository snapshot for warm sandboxes (null if it fails)
+   */
+  private async createBaseSnapshot(): Promise<{ tarballPath: string; files: ManifestEntry[] } | null> {
+    try {
+      const tarball = await createTarball(this.config.repoPath);
+      return { tarballPath: tarball.path, files: await buildManifestEntries(tarball.path, this.config.repoPath) };
+    } catch (error) {
+      this.logger.warn(`Repository snapshot for warm sandboxes failed: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Delete the local repository snapshot and forget warm sandbox manifests
+   */
+  private async removeBaseSnapshot(): Promise<void> {
+    const snapshot = await this.baseSnapshot;
+    this.baseSnapshot = null;
+    this.warmManifests.clear();
+    if (snapshot) {
+      await fs.rm(path.dirname(snapshot.tarballPath), { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Wait for a task's dependencies, then run it under the concurrency limit
+   *
+   * Dependencies are awaited before taking a limiter slot, so blocked tasks
+   * never hold a slot their dependencies need.
+   *
+   * @param task - Task to run
+   * @param taskPromises - Result promises of already-scheduled tasks
+   * @param onProgress - Optional callback for progress updates
+   * @param record - Persisted state from an interrupted run, if resuming
+   * @returns Task result
+   */
+  private async scheduleTask(
+    task: ResolvedTask,
+    taskPromises: Map<string, Promise<TaskResult>>,
+    onProgress?: ParallelProgressCallback,
+    record?: ParallelBatchTask
+  ): Promise<TaskResult> {
+    const result = await this.runScheduledTask(task, taskPromises, onProgress, record);
+    this.persistTask(result.taskId, {
+      status: result.status,
+      endedAt: (result.endTime ?? new Date()).toISOString(),
+      filesChanged: result.filesChanged,
+      exitCode: result.exitCode,
+      costEstimate: result.costEstimate,
+      error: result.error
+    });
+    return result;
+  }
+
+  /**
+   * Scheduling logic behind scheduleTask()
+   */
+  private async runScheduledTask(
+    task: ResolvedTask,
+    taskPromises: Map<string, Promise<TaskResult>>,
+    onProgress?: ParallelProgressCallback,
+    record?: ParallelBatchTask
+  ): Promise<TaskResult> {
+    const taskId = task.id;
+    const taskDescription = task.prompt;
+
+    // Keep results of tasks that finished before the batch was interrupted
+    if (record && this.isFinished(record.status)) {
+      this.addSpend(record.costEstimate);
+      return this.createRecordedResult(task, record);
+    }
+
+    const upstreamResults = await Promise.all(task.dependsOn.map(dep => taskPromises.get(dep)!));
+    const blocker = upstreamResults.find(r => r.status !== 'completed');
+    if (blocker) {
+      const reason = `Skipped: dependency ${blocker.taskId} ${blocker.status}`;
+      this.logger.warn(`[${taskId}] ${reason}`);
+      this.taskStatuses.set(taskId, 'cancelled');
+      this.notifyProgress(onProgress, {
+        taskId,
+        status: 'cancelled',
+        message: reason,
+        totalTasks: this.tasks.length,
+        completedTasks: this.getCompletedCount()
+      });
+      return this.createCancelledResult(task, reason);
+    }
+
+    return this.limiter.run(async () => {
+      // Check if cancelled before starting (here or via `sandbox batch cancel`)
+      if (this.isCancelledExternally()) {
+        this.cancelled = true;
+        return this.createCancelledResult(task, 'Batch cancelled');
+      }
+      if (this.cancelled) {
+        return this.createCancelledResult(task);
+      }
+
+      // Don't start a sandbox the batch budget can't pay for; tasks already
+      // running are left to finish
+      if (this.budgetExceeded || this.wouldExceedBatchBudget()) {
+        this.taskStatuses.set(taskId, 'cancelled');
+        this.notifyProgress(onProgress, {
+          taskId,
+          status: 'cancelled',
+          message: BATCH_BUDGET_EXCEEDED,
+          totalTasks: this.tasks.length,
+          completedTasks: this.getCompletedCount()
+        });
+        return this.createCancelledResult(task, BATCH_BUDGET_EXCEEDED);
+      }
+
+      // Notify progress: starting
+      this.taskStatuses.set(taskId, 'running');
+      this.notifyProgress(onProgress, {
+        taskId,
+        status: 'running',
+        message: `Starting: ${taskDescription.substring(0, 50)}...`,
+        totalTasks: this.tasks.length,
+        completedTasks: this.getCompletedCount()
+      });
+
+      // Execute the task (or pick up the sandbox it was running in)
+      let result: TaskResult;
+      if (record?.status === 'running' && record.sandboxId) {
+        result = await this.reattachTask(task, record);
+      } else {
+        if (record?.status === 'running') {
+          await this.releaseRecordedSession(record);
+        }
+        result = await this.executeWithRetries(taskId, taskDescription, onProgress);
+      }
+
+      // A task whose sandbox was terminated by `sandbox batch cancel` fails;
+      // report it as cancelled instead
+      if (result.status === 'failed' && this.isCancelledExternally()) {
+        this.cancelled = true;
+        result = { ...result, status: 'cancelled', error: 'Batch cancelled' };
+      }
+
+      // Update status and notify
+      this.taskStatuses.set(taskId, result.status);
+      this.notifyProgress(onProgress, {
+        taskId,
+        status: result.status,
+        message: result.status === 'completed'
+          ? `Completed: ${result.filesChanged} files changed`
+          : `Failed: ${result.error || 'Unknown error'}`,
+        elapsed: result.duration,
+        totalTasks: this.tasks.length,
+        completedTasks: this.getCompletedCount()
+      });
+
+      // Check fail-fast
+      if (this.config.failFast && result.status === 'failed') {
+        this.logger.error(`Fail-fast triggered by ${taskId}`);
+        await this.cancelRemainingTasks();
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Execute a task, retrying failures of the configured kinds
+   *
+   * Each retry runs in a fresh worktree and sandbox after an exponential
+   * backoff. When a task was retried, the result carries the attempt history,
+   * its duration spans all attempts and its cost is the sum of all attempts.
+   *
+   * @param taskId - Unique task identifier
+   * @param taskDescription - Task description/prompt
+   * @param onProgress - Optional callback for progress updates
+   * @returns Result of the last attempt
+   */
+  private async executeWithRetries(
+    taskId: string,
+    taskDescription: string,
+    onProgress?: ParallelProgressCallback
+  ): Promise<TaskResult> {
+    const maxAttempts = 1 + (this.config.retries ?? 0);
+    const retryOn = this.config.retryOn ?? DEFAULT_RETRY_ON;
+    const backoffMs = this.config.retryBackoffMs ?? DEFAULT_RETRY_BACKOFF_MS;
+    const attempts: TaskAttempt[] = [];
+    const usages: Array<ClaudeUsage | undefined> = [];
+    let totalCost = 0;
+    let modelCost = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.executeTask(taskId, taskDescription);
+      totalCost += result.costEstimate ?? 0;
+      modelCost += result.modelCost ?? 0;
+      usages.push(result.usage);
+      this.addSpend(result.costEstimate);
+      attempts.push({
+        attempt,
+        sandboxId: result.sandboxId,
+        status: result.status,
+        startTime: result.startTime,
+        endTime: result.endTime,
+        failureKind: result.failureKind,
+        error: result.error
+      });
+
+      const failureKind = result.failureKind ?? 'task';
+      const retry = result.status === 'failed' &&
+        attempt < maxAttempts &&
+        retryOn.includes(failureKind) &&
+        !this.cancelled &&
+        !this.isCancelledExternally() &&
+        !this.wouldExceedBatchBudget(taskId);
+
+      if (!retry) {
+        if (attempts.length === 1) {
+          return result;
+        }
+        const endTime = result.endTime ?? new Date();
+        return {
+          ...result,
+          startTime: attempts[0].startTime,
+          duration: endTime.getTime() - attempts[0].startTime.getTime(),
+          costEstimate: totalCost,
+          modelCost,
+          usage: sumClaudeUsage(usages),
+          attempts
+        };
+      }
+
+      const delay = Math.min(backoffMs * 2 ** (attempt - 1), MAX_RETRY_BACKOFF_MS);
+      this.logger.warn(`[${taskId}] Attempt ${attempt}/${maxAttempts} failed (${failureKind}): ${result.error}; retrying in ${delay}ms`);
+      this.notifyProgress(onProgress, {
+        taskId,
+        status: 'running',
+        message: `Retrying after ${failureKind} failure (attempt ${attempt + 1}/${maxAttempts})`,
+        totalTasks: this.tasks.length,
+        completedTasks: this.getCompletedCount()
+      });
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
 
@@ -233,6 +713,8 @@ export class ParallelExecutor {
    * @returns Task result
    */
   private async executeTask(taskId: string, taskDescription: string): Promise<TaskResult> {
+    const task = this.tasks.find(t => t.id === taskId);
+    const dependsOn = task && task.dependsOn.length > 0 ? task.dependsOn : undefined;
     const startTime = new Date();
     const outputPath = path.join(this.config.outputDir, taskId);
 
@@ -252,11 +734,40 @@ export class ParallelExecutor {
       worktreePath = registerResult.worktreePath;
 
       this.logger.info(`[${taskId}] Registered session ${sessionId}, worktree: ${worktreePath}`);
+      this.persistTask(taskId, {
+        status: 'running',
+        sessionId,
+        sessionPid: pid,
+        sandboxId: undefined,
+        worktreePath,
+        startedAt: startTime.toISOString(),
+        error: undefined
+      });
+
+      // Step 2.5: Start from the changes produced by upstream tasks
+      if (dependsOn) {
+        await this.applyUpstreamChanges(taskId, worktreePath);
+      }
 
-      // Step 3: Create sandbox
-      const sandboxResult = await this.sandboxManager.createSandbox(sessionId);
+      // Step 3: Create sandbox (or take a prepared one from the warm pool)
+      let sandboxResult: Awaited<ReturnType<SandboxManager['createSandbox']>>;
+      try {
+        if (this.config.warmPool && this.config.warmPool.size > 0) {
+          sandboxResult = await this.sandboxManager.acquireSandbox(sessionId);
+          await this.sandboxManager.resizeWarmPool(Math.min(this.config.warmPool.size, this.getPendingCount()));
+        } else {
+          sandboxResult = await this.sandboxManager.createSandbox(sessionId);
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        throw new SandboxInfrastructureError(
+          `Sandbox creation failed: ${errorMsg}`,
+          isTimeoutMessage(errorMsg) ? 'timeout' : 'infra'
+        );
+      }
       sandboxId = sandboxResult.sandboxId;
       this.taskSandboxIds.set(taskId, sandboxId);
+      this.persistTask(taskId, { sandboxId });
 
       this.logger.info(`[${taskId}] Created sandbox ${sandboxId}`);
 
@@ -276,11 +787,14 @@ export class ParallelExecutor {
 
       const endTime = new Date();
       const duration = endTime.getTime() - startTime.getTime();
-      const costEstimate = this.parseCost(this.sandboxManager.getEstimatedCost(sandboxId));
+      const computeCost = this.parseCost(this.sandboxManager.getEstimatedCost(sandboxId));
+      const modelCost = getModelCost(executionResult.usage, this.config.authMethod);
+      this.recordTaskCost(taskId, sessionId, computeCost, modelCost, executionResult.usage);
 
       return {
         taskId,
         taskDescription,
+        dependsOn,
         sessionId,
         sandboxId,
         worktreePath,
@@ -292,7 +806,11 @@ export class ParallelExecutor {
         outputPath,
         exitCode: executionResult.exitCode,
         error: executionResult.error,
-        costEstimate
+        costEstimate: computeCost + modelCost,
+        modelCost,
+        usage: executionResult.usage,
+        verification: executionResult.verification,
+        failureKind: executionResult.success ? undefined : (executionResult.failureKind ?? 'task')
       };
 
     } catch (error) {
@@ -302,6 +820,7 @@ export class ParallelExecutor {
       return {
         taskId,
         taskDescription,
+        dependsOn,
         sessionId: sessionId || 'unknown',
         sandboxId: sandboxId || 'unknown',
         worktreePath: worktreePath || 'unknown',
@@ -311,7 +830,8 @@ export class ParallelExecutor {
         duration: Date.now() - startTime.getTime(),
         filesChanged: 0,
         outputPath,
-        error: errorMsg
+        error: errorMsg,
+        failureKind: classifyError(error)
       };
 
     } finally {
@@ -336,6 +856,182 @@ export class ParallelExecutor {
     }
   }
 
+  /**
+   * Copy the downloaded changes of every upstream task into a worktree
+   *
+   * Upstream tasks are applied in dependency order, so later tasks win when
+   * two of them touched the same file. Files an upstream task deleted are
+   * removed.
+   *
+   * @param taskId - Downstream task identifier
+   * @param worktreePath - Downstream task's worktree
+   */
+  private async applyUpstreamChanges(taskId: string, worktreePath: string): Promise<void> {
+    for (const upstreamId of getUpstreamTasks(taskId, this.tasks)) {
+      const upstreamOutput = path.join(this.config.outputDir, upstreamId);
+      const changesPath = path.join(upstreamOutput, 'changed-files');
+      const deletedFiles = await readTaskDeletedFiles(upstreamOutput);
+      let hasChangedFiles = true;
+      try {
+        await fs.access(changesPath);
+      } catch {
+        hasChangedFiles = false;
+      }
+      if (!hasChangedFiles && deletedFiles.length === 0) {
+        this.logger.debug(`[${taskId}] No changes from ${upstreamId} to apply`);
+        continue;
+      }
+
+      if (hasChangedFiles) {
+        await fs.cp(changesPath, worktreePath, { recursive: true, force: true });
+      }
+      await removeDeletedFiles(worktreePath, deletedFiles);
+      this.logger.info(`[${taskId}] Applied changes from ${upstreamId}`);
+    }
+  }
+
+  /**
+   * Pick up a task whose sandbox outlived an interrupted batch
+   *
+   * Waits for Claude to exit in the reconnected sandbox, then downloads the
+   * results. If the sandbox is gone or Claude never started, the task is
+   * re-run from scratch. Claude's exit code is not recoverable, so a task
+   * whose results download successfully counts as completed.
+   *
+   * @param task - Task to reattach
+   * @param record - Persisted task state (with sandboxId)
+   * @returns Task result
+   */
+  private async reattachTask(task: ResolvedTask, record: ParallelBatchTask): Promise<TaskResult> {
+    const taskId = task.id;
+    const sandboxId = record.sandboxId!;
+    const outputPath = path.join(this.config.outputDir, taskId);
+    const startTime = record.startedAt ? new Date(record.startedAt) : new Date();
+
+    const sandbox = await this.sandboxManager.getOrReconnectSandbox(sandboxId);
+    if (!sandbox) {
+      this.logger.warn(`[${taskId}] Sandbox ${sandboxId} is gone; re-running task`);
+      await this.releaseRecordedSession(record);
+      return this.executeTask(taskId, task.prompt);
+    }
+
+    this.taskSandboxIds.set(taskId, sandboxId);
+    let rerun = false;
+
+    try {
+      // The Claude runner creates its output log right before starting Claude
+      const started = await sandbox.commands.run(
+        'ls /tmp/claude-output-*.log >/dev/null 2>&1 && echo started || echo not-started',
+        { timeoutMs: 10000 }
+      );
+      if (started.stdout.trim() !== 'started') {
+        this.logger.warn(`[${taskId}] Claude never started in sandbox ${sandboxId}; re-running task`);
+        rerun = true;
+      } else {
+        this.logger.info(`[${taskId}] Reattached to sandbox ${sandboxId}, waiting for Claude to finish`);
+        const waitStart = Date.now();
+        // [c]laude keeps pgrep from matching the shell running this check
+        while ((await sandbox.commands.run(
+          "pgrep -f '[c]laude -p' >/dev/null && echo running || echo idle",
+          { timeoutMs: 10000 }
+        )).stdout.trim() === 'running') {
+          if (Date.now() - waitStart > REATTACH_TIMEOUT_MS) {
+            throw new Error(`Timed out waiting for Claude in reattached sandbox ${sandboxId}`);
+          }
+          await new Promise(resolve => setTimeout(resolve, REATTACH_POLL_INTERVAL_MS));
+        }
+
+        const downloadPath = path.join(outputPath, 'changed-files');
+        await fs.mkdir(downloadPath, { recursive: true });
+        const downloadResult = await downloadChangedFiles(sandbox, '/workspace', downloadPath);
+
+        const log = await sandbox.commands.run('cat /tmp/claude-output-*.log 2>/dev/null', { timeoutMs: 30000 });
+        const usage = parseClaudeUsage(log.stdout);
+        await fs.writeFile(path.join(outputPath, 'execution.log'), log.stdout);
+        await fs.writeFile(path.join(outputPath, 'metadata.json'), JSON.stringify({
+          taskId,
+          prompt: task.prompt,
+          reattached: true,
+          filesDownloaded: downloadResult.filesDownloaded,
+          deletedFiles: downloadResult.deletedFiles,
+          success: downloadResult.success,
+          error: downloadResult.success ? undefined : `Download failed: ${downloadResult.error}`,
+          usage
+        }, null, 2));
+
+        // Compute cost before the interruption is unknown; only the model cost is
+        const modelCost = getModelCost(usage, this.config.authMethod);
+        if (record.sessionId) {
+          this.recordTaskCost(taskId, record.sessionId, 0, modelCost, usage);
+        }
+
+        const endTime = new Date();
+        return {
+          taskId,
+          taskDescription: task.prompt,
+          dependsOn: task.dependsOn.length > 0 ? task.dependsOn : undefined,
+          sessionId: record.sessionId || 'unknown',
+          sandboxId,
+          worktreePath: record.worktreePath || 'unknown',
+          status: downloadResult.success ? 'completed' : 'failed',
+          startTime,
+          endTime,
+          duration: endTime.getTime() - startTime.getTime(),
+          filesChanged: downloadResult.filesDownloaded,
+          outputPath,
+          error: downloadResult.success ? undefined : `Download failed: ${downloadResult.error}`,
+          costEstimate: usage ? modelCost : undefined,
+          modelCost: usage ? modelCost : undefined,
+          usage
+        };
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.logger.error(`[${taskId}] Reattached task failed: ${errorMsg}`);
+
+      return {
+        taskId,
+        taskDescription: task.prompt,
+        dependsOn: task.dependsOn.length > 0 ? task.dependsOn : undefined,
+        sessionId: record.sessionId || 'unknown',
+        sandboxId,
+        worktreePath: record.worktreePath || 'unknown',
+        status: 'failed',
+        startTime,
+        endTime: new Date(),
+        duration: Date.now() - startTime.getTime(),
+        filesChanged: 0,
+        outputPath,
+        error: errorMsg
+      };
+
+    } finally {
+      try {
+        await this.sandboxManager.terminateSandbox(sandboxId);
+      } catch (error) {
+        this.logger.warn(`[${taskId}] Failed to terminate sandbox: ${error}`);
+      }
+      await this.releaseRecordedSession(record);
+    }
+
+    // Only reached when Claude never started
+    return this.executeTask(taskId, task.prompt);
+  }
+
+  /**
+   * Release the session an interrupted run registered for a task
+   *
+   * @param record - Persisted task state
+   */
+  private async releaseRecordedSession(record: ParallelBatchTask): Promise<void> {
+    if (!record.sessionPid) return;
+    try {
+      await this.coordinator.release(record.sessionPid);
+    } catch (error) {
+      this.logger.warn(`[${record.taskId}] Failed to release session: ${error}`);
+    }
+  }
+
   /**
    * Upload worktree to sandbox, execute Claude, and download results
    */
@@ -343,85 +1039,156 @@ export class ParallelExecutor {
     taskId: string,
     prompt: string,
     worktreePath: string,
-    sandbox: any, // E2B Sandbox type
+    sandbox: SandboxHandle,
     outputPath: string
-  ): Promise<{ success: boolean; exitCode: number; filesChanged: number; error?: string }> {
-    // Step 1: Create tarball
-    this.logger.info(`[${taskId}] Creating tarball from ${worktreePath}`);
-    const tarballResult = await createTarball(worktreePath);
-    this.logger.debug(`[${taskId}] Tarball: ${tarballResult.fileCount} files, ${tarballResult.sizeBytes} bytes`);
+  ): Promise<{ success: boolean; exitCode: number; filesChanged: number; error?: string; failureKind?: TaskFailureKind; usage?: ClaudeUsage; verification?: VerificationResult }> {
+    const prepared = !!this.config.warmPool && this.sandboxManager.isPrepared(sandbox.sandboxId);
 
-    try {
-      // Step 2: Upload to sandbox
-      this.logger.info(`[${taskId}] Uploading to sandbox`);
-      const uploadResult = await uploadToSandbox(tarballResult.path, sandbox);
-      if (!uploadResult.success) {
-        return {
-          success: false,
-          exitCode: -1,
-          filesChanged: 0,
-          error: `Upload failed: ${uploadResult.error}`
-        };
+    // Step 1: Upload worktree to sandbox
+    const uploadResult = await this.uploadWorktree(taskId, worktreePath, sandbox);
+    if (!uploadResult.success) {
+      return {
+        success: false,
+        exitCode: -1,
+        filesChanged: 0,
+        error: `Upload failed: ${uploadResult.error}`,
+        failureKind: isTimeoutMessage(uploadResult.error ?? '') ? 'timeout' : 'infra'
+      };
+    }
+
+    // Step 1.5: NPM authentication and template setup, unless the warm pool
+    // already did them (a full upload replaces the snapshot the template ran on)
+    if (!prepared) {
+      await this.configureNpmAuth(sandbox);
+    }
+    if (uploadResult.mode === 'full') {
+      await this.applyManagedTemplate(sandbox);
+    }
+
+    // Step 2: Execute Claude
+    this.logger.info(`[${taskId}] Executing Claude with prompt`);
+    const executionResult = await executeClaudeInSandbox(
+      sandbox,
+      this.sandboxManager,
+      prompt,
+      this.logger,
+      {
+        authMethod: this.config.authMethod,
+        oauthCredentials: this.config.oauthCredentials,
+        gitUser: this.config.gitUser,
+        gitEmail: this.config.gitEmail,
+        localRepoPath: this.config.repoPath,
+        verifyCommands: this.config.verifyCommands,
+        repairRounds: this.config.repairRounds,
+        sandboxPrepared: prepared
       }
+    );
+
+    // Step 3: Download changed files
+    this.logger.info(`[${taskId}] Downloading changed files`);
+    const downloadPath = path.join(outputPath, 'changed-files');
+    await fs.mkdir(downloadPath, { recursive: true });
+
+    const downloadResult = await downloadChangedFiles(sandbox, '/workspace', downloadPath);
+
+    // Track overall success (execution AND download must both succeed)
+    const overallSuccess = executionResult.success && downloadResult.success;
+    const overallError = downloadResult.success
+      ? executionResult.error
+      : executionResult.error
+        ? `${executionResult.error}; Download failed: ${downloadResult.error}`
+        : `Download failed: ${downloadResult.error}`;
+
+    // Step 4: Save execution log
+    const logPath = path.join(outputPath, 'execution.log');
+    const logContent = executionResult.fullOutput || executionResult.output || '';
+    await fs.writeFile(logPath, logContent);
+
+    // Step 5: Save metadata
+    const metadataPath = path.join(outputPath, 'metadata.json');
+    await fs.writeFile(metadataPath, JSON.stringify({
+      taskId,
+      prompt,
+      exitCode: executionResult.exitCode,
+      executionTime: executionResult.executionTime,
+      filesDownloaded: downloadResult.filesDownloaded,
+      deletedFiles: downloadResult.deletedFiles,
+      success: overallSuccess,
+      state: executionResult.state,
+      error: overallError,
+      downloadSuccess: downloadResult.success,
+      downloadError: downloadResult.error,
+      usage: executionResult.usage,
+      verification: executionResult.verification
+    }, null, 2));
 
-      // Step 3: Execute Claude
-      this.logger.info(`[${taskId}] Executing Claude with prompt`);
-      const executionResult = await executeClaudeInSandbox(
-        sandbox,
-        this.sandboxManager,
-        prompt,
-        this.logger,
-        {
-          authMethod: this.config.authMethod,
-          oauthCredentials: this.config.oauthCredentials,
-          gitUser: this.config.gitUser,
-          gitEmail: this.config.gitEmail,
-          localRepoPath: this.config.repoPath
-        }
-      );
+    return {
+      success: overallSuccess,
+      exitCode: executionResult.exitCode,
+      filesChanged: downloadResult.filesDownloaded,
+      error: overallError,
+      usage: executionResult.usage,
+      verification: executionResult.verification,
+      failureKind: !executionResult.success
+        ? classifyExecutionFailure(executionResult)
+        : downloadResult.success ? undefined : 'infra'
+    };
+  }
 
-      // Step 4: Download changed files
-      this.logger.info(`[${taskId}] Downloading changed files`);
-      const downloadPath = path.join(outputPath, 'changed-files');
-      await fs.mkdir(downloadPath, { recursive: true });
-
-      const downloadResult = await downloadChangedFiles(sandbox, '/workspace', downloadPath);
-
-      // Track overall success (execution AND download must both succeed)
-      const overallSuccess = executionResult.success && downloadResult.success;
-      const overallError = downloadResult.success
-        ? executionResult.error
-        : executionResult.error
-          ? `${executionResult.error}; Download failed: ${downloadResult.error}`
-          : `Download failed: ${downloadResult.error}`;
-
-      // Step 5: Save execution log
-      const logPath = path.join(outputPath, 'execution.log');
-      const logContent = executionResult.fullOutput || executionResult.output || '';
-      await fs.writeFile(logPath, logContent);
-
-      // Step 6: Save metadata
-      const metadataPath = path.join(outputPath, 'metadata.json');
-      await fs.writeFile(metadataPath, JSON.stringify({
-        taskId,
-        prompt,
-        exitCode: executionResult.exitCode,
-        executionTime: executionResult.executionTime,
-        filesDownloaded: downloadResult.filesDownloaded,
-        success: overallSuccess,
-        state: executionResult.state,
-        error: overallError,
-        downloadSuccess: downloadResult.success,
-        downloadError: downloadResult.error
-      }, null, 2));
+  /**
+   * Write ~/.npmrc for private packages when an NPM token is configured
+   *
+   * Failures are logged and the task continues, as in a single-task run.
+   */
+  private async configureNpmAuth(sandbox: SandboxHandle): Promise<void> {
+    if (!this.config.npmToken) return;
+    if (!await this.sandboxManager.configureNpmAuth(sandbox, this.config.npmToken, this.config.npmRegistry)) {
+      this.logger.warn(`NPM authentication in sandbox ${sandbox.sandboxId} failed - continuing without private package access`);
+    }
+  }
 
-      return {
-        success: overallSuccess,
-        exitCode: executionResult.exitCode,
-        filesChanged: downloadResult.filesDownloaded,
-        error: overallError
-      };
+  /**
+   * Run the setup commands of the managed template (--use-template) in the workspace
+   *
+   * Failures are logged and the task continues, as in a single-task run.
+   */
+  private async applyManagedTemplate(sandbox: SandboxHandle): Promise<void> {
+    const template = this.config.template;
+    if (!template) return;
+    const result = await this.sandboxManager.applyTemplate(sandbox, template);
+    if (!result.success) {
+      this.logger.warn(`Template "${template.name}" failed in sandbox ${sandbox.sandboxId}: ${result.error} - continuing without template setup`);
+    }
+  }
+
+  /**
+   * Upload a task's worktree: as a delta when the sandbox holds the warm-pool
+   * repository snapshot, otherwise as a full tarball
+   */
+  private async uploadWorktree(
+    taskId: string,
+    worktreePath: string,
+    sandbox: SandboxHandle
+  ): Promise<UploadResult & { mode: 'delta' | 'full' }> {
+    const baseManifest = this.warmManifests.get(sandbox.sandboxId);
+    if (baseManifest) {
+      this.warmManifests.delete(sandbox.sandboxId);
+      const result = await uploadIncremental(worktreePath, sandbox, { baseManifest, fallbackToFull: true });
+      if (result.success) {
+        this.logger.info(result.mode === 'delta'
+          ? `[${taskId}] Uploaded changes from the repository snapshot: ${result.filesUploaded} changed, ${result.filesDeleted} deleted`
+          : `[${taskId}] Uploaded full worktree (${result.mismatchReason})`);
+      }
+      return result;
+    }
 
+    this.logger.info(`[${taskId}] Creating tarball from ${worktreePath}`);
+    const tarballResult = await createTarball(worktreePath);
+    this.logger.debug(`[${taskId}] Tarball: ${tarballResult.fileCount} files, ${tarballResult.sizeBytes} bytes`);
+
+    try {
+      this.logger.info(`[${taskId}] Uploading to sandbox`);
+      return { ...await uploadToSandbox(tarballResult.path, sandbox), mode: 'full' };
     } finally {
       // Cleanup tarball
       try {
@@ -460,11 +1227,15 @@ export class ParallelExecutor {
 
   /**
    * Create a result for a cancelled task
+   *
+   * @param task - Cancelled task
+   * @param reason - Why the task was cancelled (e.g. a failed dependency)
    */
-  private createCancelledResult(taskId: string, taskDescription: string): TaskResult {
+  private createCancelledResult(task: ResolvedTask, reason?: string): TaskResult {
     return {
-      taskId,
-      taskDescription,
+      taskId: task.id,
+      taskDescription: task.prompt,
+      dependsOn: task.dependsOn.length > 0 ? task.dependsOn : undefined,
       sessionId: '',
       sandboxId: '',
       worktreePath: '',
@@ -473,10 +1244,170 @@ export class ParallelExecutor {
       endTime: new Date(),
       duration: 0,
       filesChanged: 0,
-      outputPath: path.join(this.config.outputDir, taskId)
+      outputPath: path.join(this.config.outputDir, task.id),
+      error: reason
+    };
+  }
+
+  /**
+   * Rebuild the result of a task that finished before the batch was interrupted
+   *
+   * @param task - Task definition
+   * @param record - Persisted task state
+   */
+  private createRecordedResult(task: ResolvedTask, record: ParallelBatchTask): TaskResult {
+    const startTime = record.startedAt ? new Date(record.startedAt) : new Date();
+    const endTime = record.endedAt ? new Date(record.endedAt) : undefined;
+    return {
+      taskId: task.id,
+      taskDescription: task.prompt,
+      dependsOn: task.dependsOn.length > 0 ? task.dependsOn : undefined,
+      sessionId: record.sessionId ?? '',
+      sandboxId: record.sandboxId ?? '',
+      worktreePath: record.worktreePath ?? '',
+      status: record.status,
+      startTime,
+      endTime,
+      duration: endTime && record.startedAt ? endTime.getTime() - startTime.getTime() : 0,
+      filesChanged: record.filesChanged,
+      outputPath: record.outputPath,
+      exitCode: record.exitCode,
+      error: record.error,
+      costEstimate: record.costEstimate
+    };
+  }
+
+  /**
+   * Whether a task status is final
+   */
+  private isFinished(status: ParallelTaskStatus): boolean {
+    return status === 'completed' || status === 'failed' || status === 'cancelled';
+  }
+
+  /**
+   * Write batch state to the database (no-op without one)
+   *
+   * Persistence failures are logged, never fatal - they only affect resume.
+   */
+  private persist(write: (db: SessionDB) => void): void {
+    if (!this.db) return;
+    try {
+      write(this.db);
+    } catch (error) {
+      this.logger.warn(`Failed to persist batch state: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Whether the current batch was cancelled from another process
+   */
+  private isCancelledExternally(): boolean {
+    if (!this.db) return false;
+    try {
+      return this.db.getParallelBatch(this.batchId)?.status === 'cancelled';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Add the measured cost of a finished task attempt to the batch's spend
+   */
+  private addSpend(cost: number | undefined): void {
+    if (cost === undefined) return;
+    this.spentCost += cost;
+    this.costedAttempts++;
+  }
+
+  /**
+   * Whether starting another sandbox would take the batch over its budget
+   *
+   * A new task is projected to cost the average finished attempt, or
+   * budgetPerTask before any attempt has finished. Spend is the cost of
+   * finished attempts plus the running tasks: their model cost is unknown
+   * until Claude exits, so each is counted at the larger of its sandbox cost
+   * so far and the projected task cost. Once exceeded, the batch stays over
+   * budget and the outcome is recorded on the batch.
+   *
+   * @param retryingTaskId - Task about to retry, whose finished attempt is already spent
+   */
+  private wouldExceedBatchBudget(retryingTaskId?: string): boolean {
+    const limit = this.config.batchBudget;
+    if (limit === undefined) return false;
+    if (this.budgetExceeded) return true;
+
+    const projectedCost = this.costedAttempts > 0
+      ? this.spentCost / this.costedAttempts
+      : (this.config.budgetPerTask ?? 0);
+
+    let runningCost = 0;
+    for (const [taskId, status] of this.taskStatuses) {
+      if (status !== 'running' || taskId === retryingTaskId) continue;
+      const sandboxId = this.taskSandboxIds.get(taskId);
+      const sandboxCost = sandboxId ? this.parseCost(this.sandboxManager.getEstimatedCost(sandboxId)) : 0;
+      runningCost += Math.max(sandboxCost, projectedCost);
+    }
+
+    const spent = this.spentCost + runningCost;
+    if (spent + projectedCost <= limit) {
+      return false;
+    }
+
+    this.budgetExceeded = true;
+    this.persist(db => db.markParallelBatchBudgetExceeded(this.batchId));
+    this.logger.warn(
+      `Batch budget of $${limit.toFixed(2)} would be exceeded ` +
+      `(spent and running: $${spent.toFixed(2)}, next task: ~$${projectedCost.toFixed(2)}); not starting remaining tasks`
+    );
+    return true;
+  }
+
+  /**
+   * Record the cost of a task attempt in the budget tracker (no-op without one)
+   *
+   * Recorded per attempt, so a resumed batch never counts a finished task twice.
+   * Tracking failures are logged, never fatal.
+   */
+  private recordTaskCost(
+    taskId: string,
+    sessionId: string,
+    computeCost: number,
+    modelCost: number,
+    usage?: ClaudeUsage
+  ): void {
+    if (!this.budgetTracker) return;
+    try {
+      this.budgetTracker.recordSessionCost(sessionId, computeCost, modelCost, usage, this.costAttribution);
+    } catch (error) {
+      this.logger.warn(`[${taskId}] Failed to record cost: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Resolve the template and git user that task costs are attributed to
+   *
+   * The git user is the identity tasks commit as, unless it falls back to
+   * the sandbox default.
+   */
+  private async resolveCostAttribution(): Promise<CostAttribution> {
+    const identity = await resolveGitIdentity({
+      gitUser: this.config.gitUser,
+      gitEmail: this.config.gitEmail,
+      repoPath: this.config.repoPath
+    });
+    return {
+      templateName: this.config.templateName ?? this.config.sandboxImage,
+      gitUser: identity.source !== 'default' ? identity.name : undefined
     };
   }
 
+  /**
+   * Persist the state of one task in the current batch
+   */
+  private persistTask(taskId: string, updates: ParallelBatchTaskUpdate): void {
+    this.persist(db => db.updateParallelBatchTask(this.batchId, taskId, updates));
+  }
+
   /**
    * Calculate execution summary
    */
@@ -506,6 +1437,7 @@ export class ParallelExecutor {
       cancelledCount,
       totalFilesChanged,
       totalCost,
+      budgetExceeded: this.budgetExceeded || undefined,
       batchId
     };
   }
@@ -548,6 +1480,9 @@ export class ParallelExecutor {
       `| Time Saved | ${formatDuration(summary.timeSaved)} |`,
       `| Files Changed | ${summary.totalFilesChanged} |`,
       `| Total Cost | $${summary.totalCost.toFixed(2)} |`,
+      ...(this.config.batchBudget !== undefined
+        ? [`| Batch Budget | $${this.config.batchBudget.toFixed(2)}${summary.budgetExceeded ? ' (exceeded)' : ''} |`]
+        : []),
       '',
       '## Task Results',
       '',
@@ -585,6 +1520,27 @@ export class ParallelExecutor {
       }
     }
 
+    // Add attempt history for retried tasks
+    const retriedTasks = results.filter(r => r.attempts && r.attempts.length > 1);
+    if (retriedTasks.length > 0) {
+      lines.push('', '## Retries', '');
+      for (const task of retriedTasks) {
+        const failures = task.attempts!
+          .filter(a => a.status === 'failed')
+          .map(a => `attempt ${a.attempt}: ${a.failureKind ?? 'task'} - ${a.error ?? 'Unknown error'}`);
+        lines.push(`- **${task.taskId}**: ${task.status} after ${task.attempts!.length} attempts (${failures.join('; ')})`);
+      }
+    }
+
+    // Add reasons for tasks skipped because a dependency did not complete
+    const skippedTasks = results.filter(r => r.status === 'cancelled' && r.error);
+    if (skippedTasks.length > 0) {
+      lines.push('', '## Skipped Tasks', '');
+      for (const task of skippedTasks) {
+        lines.push(`- **${task.taskId}** (depends on ${task.dependsOn?.join(', ') || '-'}): ${task.error}`);
+      }
+    }
+
     const content = lines.join('\n');
     await fs.writeFile(reportPath, content);
 
@@ -597,17 +1553,30 @@ export class ParallelExecutor {
    */
   private notifyProgress(
     callback: ParallelProgressCallback | undefined,
-    update: ParallelProgressUpdate
+    update: Omit<ParallelProgressUpdate, 'batchId'>
   ): void {
     if (callback) {
       try {
-        callback(update);
+        callback({ batchId: this.batchId, ...update });
       } catch (error) {
         this.logger.warn(`Progress callback error: ${error}`);
       }
     }
   }
 
+  /**
+   * Get count of tasks not started yet
+   */
+  private getPendingCount(): number {
+    let count = 0;
+    for (const status of this.taskStatuses.values()) {
+      if (status === 'pending') {
+        count++;
+      }
+    }
+    return count;
+  }
+
   /**
    * Get count of completed tasks
    */
@@ -630,3 +1599,116 @@ export class ParallelExecutor {
     return match ? parseFloat(match[1]) : 0;
   }
 }
+
+// ============================================================================
+// Batch Control
+// ============================================================================
+
+/**
+ * Duration of a persisted batch task in milliseconds
+ *
+ * Running tasks are measured up to now; tasks that never started have none.
+ *
+ * @param task - Persisted task state
+ * @param now - Current time
+ */
+export function getBatchTaskDuration(task: ParallelBatchTask, now: Date = new Date()): number | undefined {
+  if (!task.startedAt) return undefined;
+  const end = task.endedAt ? new Date(task.endedAt) : now;
+  return Math.max(0, end.getTime() - new Date(task.startedAt).getTime());
+}
+
+/**
+ * Files a task's sandbox deleted, as recorded in its metadata.json
+ *
+ * @param outputPath - Task output directory (`<outputDir>/<taskId>`)
+ * @returns Workspace-relative paths; empty if none were recorded
+ */
+export async function readTaskDeletedFiles(outputPath: string): Promise<string[]> {
+  try {
+    const metadata = JSON.parse(await fs.readFile(path.join(outputPath, 'metadata.json'), 'utf-8'));
+    return Array.isArray(metadata.deletedFiles) ? metadata.deletedFiles : [];
+  } catch {
+    // No metadata (task never downloaded), or written by an older version
+    return [];
+  }
+}
+
+/**
+ * Cancel a running parallel batch
+ *
+ * Marks the batch cancelled first, so a live owning executor stops scheduling
+ * new tasks, then terminates the sandboxes of running tasks and marks every
+ * unfinished task cancelled. If the owning process is gone, the sessions it
+ * registered for running tasks are released as well.
+ *
+ * @param batchId - Batch to cancel
+ * @param db - Database holding the batch
+ * @param sandboxManager - Sandbox manager for the batch's provider
+ * @param coordinator - Coordinator for releasing orphaned sessions
+ * @param logger - Logger instance
+ * @returns Cancellation result
+ */
+export async function cancelParallelBatch(
+  batchId: string,
+  db: SessionDB,
+  sandboxManager: SandboxManager,
+  coordinator: Coordinator,
+  logger: Logger
+): Promise<ParallelBatchCancelResult> {
+  const result: ParallelBatchCancelResult = {
+    success: false,
+    batchId,
+    cancelledTasks: [],
+    terminatedSandboxes: [],
+    errors: []
+  };
+
+  const batch = db.getParallelBatch(batchId);
+  if (!batch) {
+    return { ...result, error: `Batch not found: ${batchId}` };
+  }
+  if (!db.updateParallelBatchStatus(batchId, 'cancelled')) {
+    return { ...result, error: `Batch ${batchId} already finished (${batch.status})` };
+  }
+
+  const ownerAlive = batch.pid !== process.pid && isProcessAlive(batch.pid);
+  const endedAt = new Date().toISOString();
+
+  for (const task of db.getParallelBatchTasks(batchId)) {
+    if (task.status !== 'pending' && task.status !== 'running') {
+      continue;
+    }
+
+    if (task.status === 'running' && task.sandboxId) {
+      try {
+        // Sandboxes created by another process must be reconnected before
+        // they can be terminated; null means the sandbox is already gone
+        if (await sandboxManager.getOrReconnectSandbox(task.sandboxId)) {
+          const termination = await sandboxManager.terminateSandbox(task.sandboxId);
+          if (termination.success) {
+            result.terminatedSandboxes.push(task.sandboxId);
+          } else {
+            result.errors.push(`${task.taskId}: ${termination.error ?? 'Failed to terminate sandbox'}`);
+          }
+        }
+      } catch (error) {
+        result.errors.push(`${task.taskId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (task.status === 'running' && task.sessionPid && !ownerAlive) {
+      try {
+        await coordinator.release(task.sessionPid);
+      } catch (error) {
+        logger.warn(`[${task.taskId}] Failed to release session: ${error}`);
+      }
+    }
+
+    db.updateParallelBatchTask(batchId, task.taskId, { status: 'cancelled', endedAt, error: 'Batch cancelled' });
+    result.cancelledTasks.push(task.taskId);
+  }
+
+  logger.info(`Cancelled batch ${batchId}: ${result.cancelledTasks.length} tasks, ${result.terminatedSandboxes.length} sandboxes terminated`);
+  return { ...result, success: true };
+}
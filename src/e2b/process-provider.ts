@@ -0,0 +1,425 @@
+/**
+ * Process Sandbox Provider - Throwaway host directories for offline testing
+ *
+ * Runs the sandbox workflow as plain host processes inside a temporary
+ * directory, so the full pipeline (tarball, upload, Claude execution, log
+ * streaming, download, git-live) can be exercised in CI without network
+ * access or a container runtime.
+ *
+ * Features:
+ * - Sandbox filesystem rooted at a temp directory (/workspace, /root, /tmp,
+ *   /usr/local/bin are mapped below it)
+ * - Optional bubblewrap isolation (user/pid namespaces, real bind mounts)
+ * - Binary hooks: host scripts installed on the sandbox PATH (e.g. a fake
+ *   `claude` that edits files deterministically)
+ *
+ * Not a security boundary without bubblewrap - intended for tests and
+ * trusted local use only.
+ */
+
+import { spawn, spawnSync, type ChildProcess } from 'child_process';
+import * as fs from 'fs/promises';
+import { existsSync, mkdtempSync, mkdirSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  SandboxProvider,
+  SandboxHandle,
+  SandboxCreateOptions,
+  SandboxCommandOptions,
+  SandboxCommandResult
+} from './sandbox-provider.js';
+import { SandboxCommandError } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Prefix for sandbox root directories under os.tmpdir() */
+const SANDBOX_DIR_PREFIX = 'parallel-cc-proc-';
+
+/** Sandbox paths that are mapped into the sandbox root */
+const MAPPED_PATHS = ['/workspace', '/root', '/tmp', '/usr/local/bin'];
+
+/** Sandbox-side location of the binary hooks directory under bubblewrap */
+const BWRAP_BIN_DIR = '/opt/parallel-cc/bin';
+
+/** Host directories exposed read-only under bubblewrap */
+const BWRAP_RO_BINDS = ['/usr', '/bin', '/sbin', '/lib', '/lib64', '/etc', '/opt'];
+
+/**
+ * Matches a mapped absolute path inside a shell command, preceded by a
+ * token boundary and followed by a path separator or boundary
+ */
+const MAPPED_PATH_PATTERN = new RegExp(
+  `(^|[\\s'"=:;(|&<>])(${MAPPED_PATHS.map(p => p.replace(/\//g, '\\/')).join('|')})(?=$|[\\/\\s'";|&)<>*])`,
+  'g'
+);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for the process provider
+ */
+export interface ProcessProviderOptions {
+  /**
+   * Host executables to install on the sandbox PATH, keyed by command name
+   * (default: parsed from PARALLEL_CC_SANDBOX_BINARIES, "name=path,name=path")
+   */
+  binaries?: Record<string, string>;
+  /** Run commands under bubblewrap (default: PARALLEL_CC_SANDBOX_BWRAP=1) */
+  useBubblewrap?: boolean;
+  /** Parent directory for sandbox roots (default: os.tmpdir()) */
+  baseDir?: string;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parse binary hooks from "name=path,name=path" format
+ *
+ * @param spec - Hook specification (e.g. "claude=/ci/fake-claude.sh")
+ * @returns Map of command name to host path
+ * @throws Error if an entry is malformed
+ */
+export function parseBinaryHooks(spec: string | undefined): Record<string, string> {
+  const hooks: Record<string, string> = {};
+  if (!spec || !spec.trim()) {
+    return hooks;
+  }
+
+  for (const entry of spec.split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf('=');
+    const name = separator > 0 ? trimmed.substring(0, separator).trim() : '';
+    const hostPath = separator > 0 ? trimmed.substring(separator + 1).trim() : '';
+    if (!/^[a-zA-Z0-9._-]+$/.test(name) || !hostPath) {
+      throw new Error(`Invalid binary hook "${trimmed}": expected name=/path/to/executable`);
+    }
+    hooks[name] = hostPath;
+  }
+
+  return hooks;
+}
+
+/**
+ * Check whether bubblewrap is available on the host
+ */
+export function isBubblewrapAvailable(): boolean {
+  const result = spawnSync('bwrap', ['--version'], { stdio: 'ignore' });
+  return result.status === 0;
+}
+
+// ============================================================================
+// Sandbox Handle
+// ============================================================================
+
+/**
+ * Handle to a process sandbox rooted at a host directory
+ */
+export class ProcessSandbox implements SandboxHandle {
+  readonly sandboxId: string;
+  readonly rootDir: string;
+  private useBubblewrap: boolean;
+  private running: Set<ChildProcess> = new Set();
+  private killed = false;
+  private deadlineTimer: NodeJS.Timeout | null = null;
+
+  readonly commands = {
+    run: (cmd: string, opts: SandboxCommandOptions = {}): Promise<SandboxCommandResult> =>
+      this.runCommand(cmd, opts)
+  };
+
+  readonly files = {
+    write: async (filePath: string, data: string | ArrayBuffer): Promise<void> => {
+      const hostPath = this.toHostPath(filePath);
+      await fs.mkdir(path.dirname(hostPath), { recursive: true });
+      await fs.writeFile(hostPath, typeof data === 'string' ? data : new Uint8Array(data));
+    },
+    read: async (filePath: string): Promise<string> => {
+      return fs.readFile(this.toHostPath(filePath), 'utf-8');
+    }
+  };
+
+  constructor(sandboxId: string, rootDir: string, useBubblewrap: boolean) {
+    this.sandboxId = sandboxId;
+    this.rootDir = rootDir;
+    this.useBubblewrap = useBubblewrap;
+  }
+
+  /**
+   * Map a sandbox path to its location on the host
+   *
+   * @param sandboxPath - Absolute sandbox path, ~/ path, or path relative to /workspace
+   * @returns Host path inside the sandbox root
+   * @throws Error if the path escapes the sandbox root
+   */
+  toHostPath(sandboxPath: string): string {
+    let normalized: string;
+    if (sandboxPath === '~' || sandboxPath.startsWith('~/')) {
+      normalized = path.posix.join('/root', sandboxPath.substring(1));
+    } else if (path.posix.isAbsolute(sandboxPath)) {
+      normalized = path.posix.normalize(sandboxPath);
+    } else {
+      normalized = path.posix.join('/workspace', sandboxPath);
+    }
+
+    const isMapped = MAPPED_PATHS.some(p => normalized === p || normalized.startsWith(p + '/'));
+    if (!isMapped) {
+      throw new Error(`Path outside sandbox: ${sandboxPath}`);
+    }
+
+    return path.join(this.rootDir, normalized);
+  }
+
+  /**
+   * Rewrite mapped absolute paths in a shell command to host paths
+   *
+   * Only used without bubblewrap; under bubblewrap the paths are real mounts.
+   *
+   * @param cmd - Shell command using sandbox paths
+   * @returns Command with mapped paths prefixed by the sandbox root
+   */
+  rewriteCommand(cmd: string): string {
+    return cmd.replace(MAPPED_PATH_PATTERN, (_match, prefix: string, sandboxPath: string) =>
+      `${prefix}${this.rootDir}${sandboxPath}`
+    );
+  }
+
+  /**
+   * Check whether the sandbox still exists
+   */
+  async isRunning(): Promise<boolean> {
+    return !this.killed && existsSync(this.rootDir);
+  }
+
+  /**
+   * Kill running commands and delete the sandbox root
+   */
+  async kill(): Promise<void> {
+    this.killed = true;
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer);
+      this.deadlineTimer = null;
+    }
+    for (const child of this.running) {
+      this.killProcessGroup(child);
+    }
+    this.running.clear();
+    await fs.rm(this.rootDir, { recursive: true, force: true });
+  }
+
+  /**
+   * Kill the sandbox once timeoutMs elapses from now (same semantics as E2B)
+   *
+   * @param timeoutMs - Remaining lifetime in milliseconds
+   */
+  async setTimeout(timeoutMs: number): Promise<void> {
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer);
+    }
+    this.deadlineTimer = setTimeout(() => {
+      this.kill().catch(() => {});
+    }, timeoutMs);
+    // Never keep the CLI alive just for the sandbox deadline
+    this.deadlineTimer.unref();
+  }
+
+  /**
+   * Run a shell command inside the sandbox
+   */
+  private runCommand(cmd: string, opts: SandboxCommandOptions): Promise<SandboxCommandResult> {
+    if (this.killed) {
+      return Promise.reject(new Error(`Sandbox ${this.sandboxId} has been terminated`));
+    }
+
+    const sandboxCwd = opts.cwd ?? '/workspace';
+    const binDir = this.useBubblewrap ? BWRAP_BIN_DIR : this.toHostPath('/usr/local/bin');
+    const home = this.useBubblewrap ? '/root' : this.toHostPath('/root');
+    const env: Record<string, string> = {
+      PATH: `${binDir}:${process.env.PATH ?? '/usr/bin:/bin'}`,
+      HOME: home,
+      LANG: process.env.LANG ?? 'C.UTF-8',
+      TMPDIR: this.useBubblewrap ? '/tmp' : this.toHostPath('/tmp'),
+      // Keep `npm install -g` inside the sandbox
+      npm_config_prefix: this.useBubblewrap ? '/root/.npm-global' : this.toHostPath('/root/.npm-global'),
+      ...opts.envs
+    };
+
+    let child: ChildProcess;
+    if (this.useBubblewrap) {
+      child = spawn('bwrap', [...this.buildBubblewrapArgs(sandboxCwd), 'sh', '-c', cmd], {
+        env,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+    } else {
+      child = spawn('sh', ['-c', this.rewriteCommand(cmd)], {
+        cwd: this.toHostPath(sandboxCwd),
+        env,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+    }
+
+    this.running.add(child);
+
+    return new Promise((resolve, reject) => {
+      const stdoutChunks: Buffer[] = [];
+      const stderrChunks: Buffer[] = [];
+      let settled = false;
+
+      const timer = opts.timeoutMs
+        ? setTimeout(() => {
+            if (settled) return;
+            settled = true;
+            this.killProcessGroup(child);
+            this.running.delete(child);
+            reject(new Error(`Command timeout after ${opts.timeoutMs}ms`));
+          }, opts.timeoutMs)
+        : undefined;
+
+      child.stdout?.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+      child.stderr?.on('data', (chunk: Buffer) => stderrChunks.push(chunk));
+
+      child.on('error', (error) => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        this.running.delete(child);
+        reject(error);
+      });
+
+      child.on('close', (code, signal) => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        this.running.delete(child);
+        const result = {
+          exitCode: code ?? (signal ? 137 : 1),
+          stdout: Buffer.concat(stdoutChunks).toString('utf-8'),
+          stderr: Buffer.concat(stderrChunks).toString('utf-8')
+        };
+        if (result.exitCode === 0) {
+          resolve(result);
+        } else {
+          reject(new SandboxCommandError(result));
+        }
+      });
+    });
+  }
+
+  /**
+   * Build bubblewrap arguments mounting the sandbox root at the real paths
+   */
+  private buildBubblewrapArgs(cwd: string): string[] {
+    const args = ['--unshare-user', '--unshare-pid', '--die-with-parent', '--proc', '/proc', '--dev', '/dev'];
+    for (const dir of BWRAP_RO_BINDS) {
+      args.push('--ro-bind-try', dir, dir);
+    }
+    args.push(
+      '--bind', this.toHostPath('/workspace'), '/workspace',
+      '--bind', this.toHostPath('/root'), '/root',
+      '--bind', this.toHostPath('/tmp'), '/tmp',
+      '--bind', this.toHostPath('/usr/local/bin'), BWRAP_BIN_DIR,
+      '--chdir', cwd
+    );
+    return args;
+  }
+
+  /**
+   * Kill a command and everything it spawned
+   */
+  private killProcessGroup(child: ChildProcess): void {
+    if (child.pid === undefined) return;
+    try {
+      process.kill(-child.pid, 'SIGKILL');
+    } catch {
+      // Process group already gone
+    }
+  }
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+/**
+ * Process sandbox provider (temp directory on the host)
+ */
+export class ProcessSandboxProvider implements SandboxProvider {
+  readonly name = 'process' as const;
+  readonly displayName = 'Process';
+  readonly requiresApiKey = false;
+  private binaries: Record<string, string>;
+  private useBubblewrap: boolean;
+  private baseDir: string;
+
+  constructor(options: ProcessProviderOptions = {}) {
+    this.binaries = options.binaries ?? parseBinaryHooks(process.env.PARALLEL_CC_SANDBOX_BINARIES);
+    this.useBubblewrap = options.useBubblewrap ??
+      ['1', 'true'].includes(process.env.PARALLEL_CC_SANDBOX_BWRAP?.trim().toLowerCase() ?? '');
+    this.baseDir = options.baseDir ?? os.tmpdir();
+  }
+
+  /**
+   * Create a new sandbox root and install binary hooks
+   *
+   * @param options - Creation options (timeout; template is ignored)
+   * @returns Process sandbox handle
+   * @throws Error if bubblewrap is requested but unavailable, or a hook is missing
+   */
+  async create(options: SandboxCreateOptions): Promise<SandboxHandle> {
+    if (this.useBubblewrap && !isBubblewrapAvailable()) {
+      throw new Error('bubblewrap (bwrap) not found in PATH. Install it or unset PARALLEL_CC_SANDBOX_BWRAP.');
+    }
+
+    const rootDir = mkdtempSync(path.join(this.baseDir, SANDBOX_DIR_PREFIX));
+    const sandboxId = `proc-${path.basename(rootDir).substring(SANDBOX_DIR_PREFIX.length)}`;
+    for (const dir of MAPPED_PATHS) {
+      mkdirSync(path.join(rootDir, dir), { recursive: true });
+    }
+
+    const sandbox = new ProcessSandbox(sandboxId, rootDir, this.useBubblewrap);
+
+    try {
+      for (const [name, hostPath] of Object.entries(this.binaries)) {
+        const target = sandbox.toHostPath(`/usr/local/bin/${name}`);
+        await fs.copyFile(hostPath, target);
+        await fs.chmod(target, 0o755);
+      }
+    } catch (error) {
+      await sandbox.kill();
+      throw error;
+    }
+
+    await sandbox.setTimeout(options.timeoutMs);
+    return sandbox;
+  }
+
+  /**
+   * Reconnect to an existing sandbox root by ID
+   *
+   * @param sandboxId - Sandbox ID (proc-XXXXXX)
+   * @returns Process sandbox handle
+   * @throws Error if the sandbox root no longer exists
+   */
+  async connect(sandboxId: string): Promise<SandboxHandle> {
+    if (!/^proc-[a-zA-Z0-9]+$/.test(sandboxId)) {
+      throw new Error(`Invalid process sandbox ID: ${sandboxId}`);
+    }
+
+    const rootDir = path.join(this.baseDir, `${SANDBOX_DIR_PREFIX}${sandboxId.substring('proc-'.length)}`);
+    if (!existsSync(rootDir)) {
+      throw new Error(`Sandbox ${sandboxId} not found`);
+    }
+
+    return new ProcessSandbox(sandboxId, rootDir, this.useBubblewrap);
+  }
+}
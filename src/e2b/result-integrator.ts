@@ -0,0 +1,460 @@
+/**
+ * Result Integrator - Merges parallel task results into one branch
+ *
+ * Features:
+ * - One branch per task holding its downloaded changes
+ * - Sequential cherry-picks onto an integration branch (dependency order)
+ * - Pre-merge conflict analysis via ConflictDetector
+ * - Auto-resolution with AutoFixEngine suggestions above a confidence threshold
+ * - Markdown report of clean merges vs. tasks needing human attention
+ *
+ * All git work happens in a temporary worktree, so the user's checkout is
+ * never touched. Task and integration branches are kept for review.
+ */
+
+import { spawnSync } from 'child_process';
+import * as fs from 'fs/promises';
+import { existsSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Logger } from '../logger.js';
+import type { SessionDB } from '../db.js';
+import { ConflictDetector } from '../conflict-detector.js';
+import { ASTAnalyzer } from '../ast-analyzer.js';
+import { AutoFixEngine } from '../auto-fix-engine.js';
+import { ConfidenceScorer } from '../confidence-scorer.js';
+import { createDefaultStrategyChain } from '../merge-strategies.js';
+import { resolveGitIdentity } from './claude-runner.js';
+import { normalizeTasks, topologicalOrder, getUpstreamTasks, type ResolvedTask } from './task-graph.js';
+import { removeDeletedFiles } from './file-sync.js';
+import { readTaskDeletedFiles } from './parallel-executor.js';
+import type {
+  AutoFixSuggestion,
+  IntegrationConfig,
+  IntegrationResult,
+  IntegrationTaskResult,
+  ParallelExecutionResult,
+  TaskResult
+} from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.8;
+const DEFAULT_OUTPUT_DIR = './parallel-results';
+
+/** Skip reason for tasks whose results match the base (nothing to merge) */
+const NO_CHANGES_REASON = 'No changes';
+
+/** Strategies whose output explicitly asks for manual review - never auto-applied */
+const MANUAL_REVIEW_STRATEGIES = new Set(['ConcurrentEdit', 'Fallback']);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Run git with an argument list (no shell)
+ *
+ * @returns Exit status and trimmed output
+ */
+function git(args: string[], cwd: string): { status: number; stdout: string; stderr: string } {
+  const result = spawnSync('git', args, { cwd, encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 });
+  return {
+    status: result.status ?? 1,
+    stdout: (result.stdout || '').trim(),
+    stderr: (result.stderr || '').trim()
+  };
+}
+
+/**
+ * Run git and throw if it fails
+ */
+function gitOrThrow(args: string[], cwd: string): string {
+  const result = git(args, cwd);
+  if (result.status !== 0) {
+    const command = args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '-c');
+    throw new Error(`git ${command} failed: ${result.stderr || result.stdout || `exit code ${result.status}`}`);
+  }
+  return result.stdout;
+}
+
+// ============================================================================
+// ResultIntegrator Class
+// ============================================================================
+
+/**
+ * Integrates the results of a parallel batch onto a single branch
+ *
+ * @example
+ * ```typescript
+ * const integrator = new ResultIntegrator({ repoPath }, coordinator.getDB(), logger);
+ * const integration = await integrator.integrate(executionResult);
+ * ```
+ */
+export class ResultIntegrator {
+  private readonly config: IntegrationConfig;
+  private readonly db: SessionDB;
+  private readonly logger: Logger;
+  private readonly confidenceThreshold: number;
+
+  /**
+   * Create a new ResultIntegrator
+   *
+   * @param config - Integration configuration
+   * @param db - Database for recording auto-fix suggestions
+   * @param logger - Logger instance
+   * @throws Error if the confidence threshold is outside 0-1
+   */
+  constructor(config: IntegrationConfig, db: SessionDB, logger: Logger) {
+    const confidenceThreshold = config.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+    if (confidenceThreshold < 0 || confidenceThreshold > 1) {
+      throw new Error('confidenceThreshold must be between 0 and 1');
+    }
+
+    this.config = { ...config, outputDir: config.outputDir || DEFAULT_OUTPUT_DIR };
+    this.db = db;
+    this.logger = logger;
+    this.confidenceThreshold = confidenceThreshold;
+  }
+
+  /**
+   * Merge every completed task onto a new integration branch
+   *
+   * @param execution - Result of ParallelExecutor.execute()
+   * @returns Per-task outcomes and the integration branch
+   * @throws Error if the integration branch already exists or the worktree cannot be created
+   */
+  async integrate(execution: ParallelExecutionResult): Promise<IntegrationResult> {
+    const repoPath = this.config.repoPath;
+    const batchTag = execution.summary.batchId.substring(0, 8);
+    const integrationBranch = this.config.integrationBranch || `parallel-cc/integration-${batchTag}`;
+    const baseCommit = gitOrThrow(['rev-parse', '--verify', `${this.config.baseRef || 'HEAD'}^{commit}`], repoPath);
+
+    if (git(['rev-parse', '--verify', '--quiet', `refs/heads/${integrationBranch}`], repoPath).status === 0) {
+      throw new Error(`Integration branch ${integrationBranch} already exists`);
+    }
+
+    this.logger.info(`Integrating ${execution.tasks.length} tasks onto ${integrationBranch} (base ${baseCommit.substring(0, 8)})`);
+
+    const worktreeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'parallel-cc-integration-'));
+    gitOrThrow(['worktree', 'add', '-q', '-b', integrationBranch, worktreeDir, baseCommit], repoPath);
+
+    try {
+      const identity = await resolveGitIdentity({
+        gitUser: this.config.gitUser,
+        gitEmail: this.config.gitEmail,
+        repoPath
+      });
+      // Worktrees share the repository config, so pass the identity per command
+      const identityArgs = ['-c', `user.name=${identity.name}`, '-c', `user.email=${identity.email}`];
+
+      const astAnalyzer = new ASTAnalyzer();
+      const detector = new ConflictDetector(worktreeDir, astAnalyzer, this.logger);
+      const autoFixEngine = new AutoFixEngine(
+        this.db,
+        astAnalyzer,
+        new ConfidenceScorer(astAnalyzer, this.logger),
+        createDefaultStrategyChain(astAnalyzer),
+        this.logger
+      );
+
+      // Integrate in dependency order; downstream tasks already contain upstream changes
+      const graph = normalizeTasks(execution.tasks.map(t => ({
+        id: t.taskId,
+        prompt: t.taskDescription,
+        dependsOn: t.dependsOn
+      })));
+      const taskResults = new Map(execution.tasks.map(t => [t.taskId, t]));
+      const integrated = new Set<string>();
+      const outcomes: IntegrationTaskResult[] = [];
+
+      for (const taskId of topologicalOrder(graph)) {
+        const outcome = await this.integrateTask(
+          taskResults.get(taskId)!,
+          graph,
+          integrated,
+          { worktreeDir, integrationBranch, baseCommit, batchTag, identityArgs, detector, autoFixEngine }
+        );
+        // A task without changes doesn't block its dependents
+        if (outcome.outcome === 'merged' || outcome.outcome === 'auto-resolved' || outcome.reason === NO_CHANGES_REASON) {
+          integrated.add(taskId);
+        }
+        this.logger.info(`[${taskId}] Integration: ${outcome.outcome}${outcome.reason ? ` (${outcome.reason})` : ''}`);
+        outcomes.push(outcome);
+      }
+
+      const headCommit = gitOrThrow(['rev-parse', 'HEAD'], worktreeDir);
+      const result: IntegrationResult = {
+        success: outcomes.every(o => o.outcome !== 'needs-attention'),
+        integrationBranch,
+        baseCommit,
+        headCommit,
+        tasks: outcomes
+      };
+      result.reportPath = await this.generateReport(result);
+
+      return result;
+    } finally {
+      const removed = git(['worktree', 'remove', '--force', worktreeDir], repoPath);
+      if (removed.status !== 0) {
+        this.logger.warn(`Failed to remove integration worktree ${worktreeDir}: ${removed.stderr}`);
+      }
+    }
+  }
+
+  /**
+   * Build a task branch and cherry-pick its changes onto the integration branch
+   */
+  private async integrateTask(
+    task: TaskResult,
+    graph: ResolvedTask[],
+    integrated: Set<string>,
+    ctx: {
+      worktreeDir: string;
+      integrationBranch: string;
+      baseCommit: string;
+      batchTag: string;
+      identityArgs: string[];
+      detector: ConflictDetector;
+      autoFixEngine: AutoFixEngine;
+    }
+  ): Promise<IntegrationTaskResult> {
+    const result: IntegrationTaskResult = {
+      taskId: task.taskId,
+      outcome: 'skipped',
+      conflictsDetected: 0,
+      autoResolvedFiles: [],
+      unresolvedFiles: []
+    };
+
+    if (task.status !== 'completed') {
+      result.reason = `Task ${task.status}`;
+      return result;
+    }
+
+    const missingDependency = (task.dependsOn ?? []).find(dep => !integrated.has(dep));
+    if (missingDependency) {
+      result.reason = `Dependency ${missingDependency} was not integrated`;
+      return result;
+    }
+
+    // Step 1: Task branch = base -> upstream changes -> this task's changes.
+    // The tip commit holds exactly what this task's sandbox added on top of
+    // its dependencies, so it can be cherry-picked onto the integration branch.
+    const taskBranch = `parallel-cc/task-${ctx.batchTag}-${task.taskId}`;
+    const upstream = getUpstreamTasks(task.taskId, graph);
+    const subject = task.taskDescription.split('\n')[0].substring(0, 72);
+    let taskBase = ctx.baseCommit;
+
+    // -B: a batch integrated again (e.g. onto another integration branch) rebuilds its task branches
+    gitOrThrow(['checkout', '-q', '-B', taskBranch, ctx.baseCommit], ctx.worktreeDir);
+    try {
+      if (upstream.length > 0 && await this.stageChanges(upstream.map(id => this.taskOutputDir(id)), ctx.worktreeDir)) {
+        gitOrThrow([...ctx.identityArgs, 'commit', '-q', '-m', `${task.taskId}: upstream changes from ${upstream.join(', ')}`], ctx.worktreeDir);
+        taskBase = gitOrThrow(['rev-parse', 'HEAD'], ctx.worktreeDir);
+      }
+      if (!await this.stageChanges([this.taskOutputDir(task.taskId, task.outputPath)], ctx.worktreeDir)) {
+        result.reason = NO_CHANGES_REASON;
+        return result;
+      }
+      gitOrThrow([...ctx.identityArgs, 'commit', '-q', '-m', `${task.taskId}: ${subject}`], ctx.worktreeDir);
+      result.taskBranch = taskBranch;
+    } finally {
+      gitOrThrow(['checkout', '-q', '-f', ctx.integrationBranch], ctx.worktreeDir);
+      if (!result.taskBranch) {
+        git(['branch', '-D', taskBranch], ctx.worktreeDir);
+      }
+    }
+
+    // Step 2: Preview conflicts
+    try {
+      const report = await ctx.detector.detectConflicts({
+        currentBranch: ctx.integrationBranch,
+        targetBranch: taskBranch,
+        mergeBase: taskBase,
+        analyzeSemantics: true
+      });
+      result.conflictsDetected = report.conflicts.length;
+    } catch (error) {
+      this.logger.warn(`[${task.taskId}] Conflict detection failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // Step 3: Apply (diff3 markers give the merge strategies the base content)
+    const pick = git([...ctx.identityArgs, '-c', 'merge.conflictStyle=diff3', 'cherry-pick', taskBranch], ctx.worktreeDir);
+    if (pick.status === 0) {
+      result.outcome = 'merged';
+      return result;
+    }
+
+    // Step 4: Try auto-fix suggestions on each conflicted file
+    const conflictedFiles = git(['diff', '--name-only', '--diff-filter=U'], ctx.worktreeDir).stdout
+      .split('\n')
+      .filter(f => f.length > 0);
+    if (conflictedFiles.length === 0) {
+      git(['cherry-pick', '--abort'], ctx.worktreeDir);
+      result.outcome = 'needs-attention';
+      result.reason = `Cherry-pick failed: ${pick.stderr || pick.stdout}`;
+      return result;
+    }
+
+    for (const filePath of conflictedFiles) {
+      const resolved = await this.resolveFile(filePath, ctx.worktreeDir, ctx.detector, ctx.autoFixEngine);
+      if (resolved) {
+        result.autoResolvedFiles.push(filePath);
+      } else {
+        result.unresolvedFiles.push(filePath);
+      }
+    }
+
+    if (result.unresolvedFiles.length > 0) {
+      git(['cherry-pick', '--abort'], ctx.worktreeDir);
+      result.outcome = 'needs-attention';
+      result.reason = `Unresolved conflicts in ${result.unresolvedFiles.length} file(s)`;
+      return result;
+    }
+
+    // The resolution may equal the integration branch; keep the commit as a record
+    gitOrThrow([...ctx.identityArgs, 'commit', '-q', '--no-edit', '--allow-empty'], ctx.worktreeDir);
+    result.outcome = 'auto-resolved';
+    return result;
+  }
+
+  /**
+   * Copy downloaded changes into the worktree, remove deleted files and stage them
+   *
+   * @param outputPaths - Task output directories, applied in order
+   * @returns true if anything differs from HEAD
+   */
+  private async stageChanges(outputPaths: string[], worktreeDir: string): Promise<boolean> {
+    for (const outputPath of outputPaths) {
+      const changedFiles = path.join(outputPath, 'changed-files');
+      if (existsSync(changedFiles)) {
+        await fs.cp(changedFiles, worktreeDir, { recursive: true, force: true });
+      }
+      await removeDeletedFiles(worktreeDir, await readTaskDeletedFiles(outputPath));
+    }
+    gitOrThrow(['add', '-A'], worktreeDir);
+    return git(['diff', '--cached', '--quiet'], worktreeDir).status !== 0;
+  }
+
+  /**
+   * Resolve every conflict region of a file with high-confidence suggestions
+   *
+   * The file is only rewritten (and staged) if all regions can be resolved.
+   *
+   * @returns true if the file was resolved
+   */
+  private async resolveFile(
+    filePath: string,
+    worktreeDir: string,
+    detector: ConflictDetector,
+    autoFixEngine: AutoFixEngine
+  ): Promise<boolean> {
+    const absolutePath = path.join(worktreeDir, filePath);
+    let content: string;
+    try {
+      content = await fs.readFile(absolutePath, 'utf-8');
+    } catch {
+      // Deleted on one side (modify/delete conflict)
+      return false;
+    }
+
+    const conflicts = await detector.analyzeConflictedFile(filePath, content, true);
+    if (conflicts.length === 0) {
+      // Binary or delete/modify conflicts have no markers to resolve
+      return false;
+    }
+
+    const chosen: AutoFixSuggestion[] = [];
+    for (const conflict of conflicts) {
+      const suggestions = await autoFixEngine.generateSuggestions({
+        repoPath: this.config.repoPath,
+        filePath,
+        conflict,
+        maxSuggestions: 3
+      });
+      const best = suggestions.find(s =>
+        s.confidence_score >= this.confidenceThreshold && !MANUAL_REVIEW_STRATEGIES.has(s.strategy_used)
+      );
+      if (!best) {
+        return false;
+      }
+      chosen.push(best);
+    }
+
+    // Replace regions bottom-up so earlier line numbers stay valid
+    const lines = content.split('\n');
+    for (let i = conflicts.length - 1; i >= 0; i--) {
+      const marker = conflicts[i].markers[0];
+      lines.splice(marker.start, marker.end - marker.start + 1, ...chosen[i].suggested_resolution.split('\n'));
+    }
+    await fs.writeFile(absolutePath, lines.join('\n'), 'utf-8');
+    gitOrThrow(['add', '--', filePath], worktreeDir);
+
+    for (const suggestion of chosen) {
+      this.db.markSuggestionApplied(suggestion.id, true);
+    }
+    return true;
+  }
+
+  /**
+   * Output directory of a task (downloaded changes and metadata.json)
+   */
+  private taskOutputDir(taskId: string, outputPath?: string): string {
+    return outputPath || path.join(this.config.outputDir!, taskId);
+  }
+
+  /**
+   * Generate markdown integration report
+   */
+  private async generateReport(result: IntegrationResult): Promise<string> {
+    const reportPath = path.join(this.config.outputDir!, 'integration-report.md');
+
+    const count = (outcome: string) => result.tasks.filter(t => t.outcome === outcome).length;
+    const lines: string[] = [
+      '# Integration Summary',
+      '',
+      `**Integration Branch:** ${result.integrationBranch}`,
+      `**Base Commit:** ${result.baseCommit}`,
+      `**Head Commit:** ${result.headCommit}`,
+      `**Generated:** ${new Date().toISOString()}`,
+      '',
+      '| Outcome | Tasks |',
+      '|---------|-------|',
+      `| Merged cleanly | ${count('merged')} |`,
+      `| Auto-resolved | ${count('auto-resolved')} |`,
+      `| Needs attention | ${count('needs-attention')} |`,
+      `| Skipped | ${count('skipped')} |`,
+      '',
+      '## Tasks',
+      '',
+      '| Task | Outcome | Conflicts Detected | Branch | Notes |',
+      '|------|---------|--------------------|--------|-------|'
+    ];
+
+    for (const task of result.tasks) {
+      const notes = [
+        task.autoResolvedFiles.length > 0 ? `auto-resolved: ${task.autoResolvedFiles.join(', ')}` : '',
+        task.unresolvedFiles.length > 0 ? `unresolved: ${task.unresolvedFiles.join(', ')}` : '',
+        task.reason || ''
+      ].filter(n => n.length > 0).join('; ');
+      lines.push(`| ${task.taskId} | ${task.outcome} | ${task.conflictsDetected} | ${task.taskBranch || '-'} | ${notes || '-'} |`);
+    }
+
+    const attention = result.tasks.filter(t => t.outcome === 'needs-attention');
+    if (attention.length > 0) {
+      lines.push('', '## Needs Attention', '');
+      for (const task of attention) {
+        lines.push(`- **${task.taskId}**: \`git checkout ${result.integrationBranch} && git cherry-pick ${task.taskBranch}\``);
+      }
+    }
+
+    await fs.mkdir(this.config.outputDir!, { recursive: true });
+    await fs.writeFile(reportPath, lines.join('\n'));
+
+    this.logger.info(`Integration report written to ${reportPath}`);
+    return reportPath;
+  }
+}
@@ -1,14 +1,21 @@
 /**
  * E2B Sandbox Manager - Handles lifecycle management of E2B sandboxes
  *
+ * Sandboxes are created through a pluggable SandboxProvider (E2B by default,
+ * or a local Docker/Podman container).
+ *
  * Security Features:
  * - Input sanitization (prompts, file paths)
  * - Timeout enforcement (30min/50min warnings, 1-hour hard limit)
  * - Graceful error handling with E2B API failures
+ *
+ * An optional warm pool keeps prepared sandboxes ready, so tasks skip
+ * sandbox startup and Claude Code installation.
  */
 
-import { Sandbox } from 'e2b';
 import type { Logger } from '../logger.js';
+import { runSandboxCommand, type SandboxHandle, type SandboxProvider } from './sandbox-provider.js';
+import { E2BSandboxProvider } from './e2b-provider.js';
 import {
   SandboxStatus,
   BudgetExceededError,
@@ -31,6 +38,33 @@ export interface TemplateApplicationResult {
   error?: string;
 }
 
+/**
+ * Warm pool settings
+ */
+export interface WarmPoolOptions {
+  /** Idle sandboxes kept ready */
+  size: number;
+  /** Minutes an idle sandbox waits for a task before it is terminated */
+  idleTtlMinutes: number;
+  /** Prepares a new sandbox before it joins the pool (false discards it) */
+  warmup?: (sandbox: SandboxHandle) => Promise<boolean>;
+}
+
+/**
+ * Idle sandbox in the warm pool
+ */
+interface WarmSandbox {
+  sandbox: SandboxHandle;
+  sandboxId: string;
+  /** When the sandbox joined the pool (ms since epoch) */
+  readyAt: number;
+}
+
+/**
+ * How often idle warm sandboxes are checked against their TTL
+ */
+const WARM_POOL_EVICTION_INTERVAL_MS = 30 * 1000;
+
 // Extended config type with budget thresholds and pricing
 interface ExtendedE2BSessionConfig extends E2BSessionConfig {
   budgetWarningThresholds?: number[];
@@ -117,16 +151,37 @@ export function validateFilePath(path: string): boolean {
 export class SandboxManager {
   private config: Required<ExtendedE2BSessionConfig>;
   private logger: Logger;
-  private activeSandboxes: Map<string, Sandbox> = new Map();
+  private provider: SandboxProvider;
+  private activeSandboxes: Map<string, SandboxHandle> = new Map();
   private sandboxStartTimes: Map<string, Date> = new Map();
   private timeoutWarningsIssued: Map<string, Set<number>> = new Map();
+  // Warm pool
+  private warmPool: WarmSandbox[] = [];
+  private warmPoolOptions: WarmPoolOptions | null = null;
+  private warming: Set<Promise<void>> = new Set();
+  private warmingSandboxes: Set<SandboxHandle> = new Set();
+  private warmWaiters: Array<(warm: WarmSandbox | null) => void> = [];
+  private warmPoolTimer: NodeJS.Timeout | null = null;
+  private preparedSandboxes: Set<string> = new Set();
   // Budget tracking (v1.1)
   private budgetLimits: Map<string, number> = new Map();
   private budgetWarningsIssued: Map<string, Set<number>> = new Map();
 
-  constructor(logger: Logger, config: Partial<ExtendedE2BSessionConfig> = {}) {
+  constructor(
+    logger: Logger,
+    config: Partial<ExtendedE2BSessionConfig> = {},
+    provider: SandboxProvider = new E2BSandboxProvider()
+  ) {
     this.logger = logger;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.provider = provider;
+  }
+
+  /**
+   * Get the sandbox provider backing this manager
+   */
+  getProvider(): SandboxProvider {
+    return this.provider;
   }
 
   /**
@@ -154,26 +209,18 @@ export class SandboxManager {
   async createSandbox(
     sessionId: string,
     apiKey?: string
-  ): Promise<{ sandbox: Sandbox; sandboxId: string; status: SandboxStatus }> {
+  ): Promise<{ sandbox: SandboxHandle; sandboxId: string; status: SandboxStatus }> {
+    const providerName = this.provider.displayName;
     try {
-      this.logger.info(`Creating E2B sandbox for session ${sessionId}`);
+      this.logger.info(`Creating ${providerName} sandbox for session ${sessionId}`);
 
       // Validate API key (required for E2B)
-      SandboxManager.validateApiKey(apiKey);
-      const e2bApiKey = apiKey || process.env.E2B_API_KEY;
+      if (this.provider.requiresApiKey) {
+        SandboxManager.validateApiKey(apiKey);
+      }
 
-      // Create sandbox using E2B SDK
-      // E2B SDK signature: Sandbox.create(template, opts)
-      const sandbox = await Sandbox.create(this.config.sandboxImage, {
-        apiKey: e2bApiKey,
-        timeoutMs: this.config.timeoutMinutes * 60 * 1000, // Convert minutes to milliseconds
-        metadata: {
-          sessionId,
-          createdAt: new Date().toISOString(),
-          claudeVersion: this.config.claudeVersion || 'latest',
-          timeoutMinutes: String(this.config.timeoutMinutes) // Metadata values must be strings
-        }
-      });
+      // Create sandbox through the configured provider
+      const sandbox = await this.createProviderSandbox(sessionId, apiKey);
 
       const sandboxId = sandbox.sandboxId;
 
@@ -182,7 +229,7 @@ export class SandboxManager {
       this.sandboxStartTimes.set(sandboxId, new Date());
       this.timeoutWarningsIssued.set(sandboxId, new Set());
 
-      this.logger.info(`E2B sandbox created: ${sandboxId} for session ${sessionId}`);
+      this.logger.info(`${providerName} sandbox created: ${sandboxId} for session ${sessionId}`);
 
       return {
         sandbox,
@@ -191,7 +238,12 @@ export class SandboxManager {
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      this.logger.error(`Failed to create E2B sandbox for session ${sessionId}: ${errorMsg}`);
+      this.logger.error(`Failed to create ${providerName} sandbox for session ${sessionId}: ${errorMsg}`);
+
+      // Local providers have no quota/auth semantics - surface the raw error
+      if (this.provider.name !== 'e2b') {
+        throw new Error(`${providerName} sandbox creation failed: ${errorMsg}`);
+      }
 
       // Graceful degradation: provide actionable error message
       if (errorMsg.includes('API key')) {
@@ -213,6 +265,286 @@ export class SandboxManager {
     }
   }
 
+  /**
+   * Create a sandbox through the provider with this manager's image and timeout
+   */
+  private createProviderSandbox(sessionId: string, apiKey?: string): Promise<SandboxHandle> {
+    return this.provider.create({
+      template: this.config.sandboxImage,
+      apiKey,
+      timeoutMs: this.config.timeoutMinutes * 60 * 1000, // Convert minutes to milliseconds
+      metadata: {
+        sessionId,
+        createdAt: new Date().toISOString(),
+        claudeVersion: this.config.claudeVersion || 'latest',
+        timeoutMinutes: String(this.config.timeoutMinutes) // Metadata values must be strings
+      }
+    });
+  }
+
+  /**
+   * Start keeping a pool of prepared sandboxes ready for acquireSandbox()
+   *
+   * Sandboxes are created and warmed up in the background. An idle sandbox
+   * is terminated once it has waited idleTtlMinutes; the pool is topped up
+   * again on the next acquireSandbox() call.
+   *
+   * @param options - Pool size, idle TTL and warmup step
+   */
+  startWarmPool(options: WarmPoolOptions): void {
+    this.warmPoolOptions = { ...options };
+    this.logger.info(`Starting warm pool: ${options.size} sandboxes, idle TTL ${options.idleTtlMinutes} minutes`);
+
+    if (!this.warmPoolTimer) {
+      this.warmPoolTimer = setInterval(() => {
+        void this.evictIdleSandboxes();
+      }, WARM_POOL_EVICTION_INTERVAL_MS);
+      this.warmPoolTimer.unref();
+    }
+    this.refillWarmPool();
+  }
+
+  /**
+   * Change the number of idle sandboxes the warm pool keeps
+   *
+   * Surplus idle sandboxes are terminated, e.g. once fewer tasks remain
+   * than the pool holds.
+   *
+   * @param size - New pool size
+   */
+  async resizeWarmPool(size: number): Promise<void> {
+    if (!this.warmPoolOptions) {
+      return;
+    }
+    this.warmPoolOptions.size = Math.max(0, size);
+    const surplus = this.warmPool.splice(this.warmPoolOptions.size);
+    await Promise.allSettled(surplus.map(warm => this.killWarmSandbox(warm.sandbox, warm.sandboxId)));
+    this.refillWarmPool();
+  }
+
+  /**
+   * Get a sandbox for a session, from the warm pool when one is ready
+   *
+   * When the pool is empty but a sandbox is still warming up, waits for it.
+   * Falls back to createSandbox() when no warm sandbox is on its way.
+   * A pooled sandbox gets a fresh timeout, and its runtime (for timeout and
+   * cost tracking) starts when it is handed out.
+   *
+   * @param sessionId - Unique session identifier
+   * @param apiKey - E2B API key (from environment)
+   * @returns Sandbox instance and ID
+   */
+  async acquireSandbox(
+    sessionId: string,
+    apiKey?: string
+  ): Promise<{ sandbox: SandboxHandle; sandboxId: string; status: SandboxStatus }> {
+    let warm = await this.takeWarmSandbox();
+
+    while (warm) {
+      const { sandbox, sandboxId } = warm;
+      try {
+        await sandbox.setTimeout(this.config.timeoutMinutes * 60 * 1000);
+
+        this.activeSandboxes.set(sandboxId, sandbox);
+        this.sandboxStartTimes.set(sandboxId, new Date());
+        this.timeoutWarningsIssued.set(sandboxId, new Set());
+        if (this.warmPoolOptions?.warmup) {
+          this.preparedSandboxes.add(sandboxId);
+        }
+
+        this.logger.info(`Using warm ${this.provider.displayName} sandbox ${sandboxId} for session ${sessionId}`);
+        return { sandbox, sandboxId, status: SandboxStatus.INITIALIZING };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Warm sandbox ${sandboxId} is unusable (${errorMsg}), discarding it`);
+        await this.killWarmSandbox(sandbox, sandboxId);
+        warm = await this.takeWarmSandbox();
+      }
+    }
+
+    return this.createSandbox(sessionId, apiKey);
+  }
+
+  /**
+   * Take an idle warm sandbox, or wait for one that is still warming up
+   *
+   * Each waiting call claims one in-flight warmup, so concurrent callers
+   * never wait for the same sandbox.
+   *
+   * @returns Warm sandbox, or null when none is ready or on its way
+   */
+  private async takeWarmSandbox(): Promise<WarmSandbox | null> {
+    const idle = this.warmPool.shift();
+    if (idle) {
+      this.refillWarmPool();
+      return idle;
+    }
+
+    if (this.warming.size <= this.warmWaiters.length) {
+      this.refillWarmPool();
+      return null;
+    }
+
+    const pending = new Promise<WarmSandbox | null>(resolve => this.warmWaiters.push(resolve));
+    this.refillWarmPool();
+    return pending;
+  }
+
+  /**
+   * Whether a sandbox came from the warm pool already prepared by its warmup step
+   *
+   * @param sandboxId - Sandbox ID
+   */
+  isPrepared(sandboxId: string): boolean {
+    return this.preparedSandboxes.has(sandboxId);
+  }
+
+  /**
+   * Number of idle sandboxes ready in the warm pool
+   */
+  getWarmPoolSize(): number {
+    return this.warmPool.length;
+  }
+
+  /**
+   * Stop the warm pool and terminate its sandboxes
+   *
+   * Idle sandboxes and sandboxes in the middle of their warmup are terminated
+   * right away; resolves once every in-flight warmup has finished, so no
+   * sandbox outlives the pool.
+   */
+  async drainWarmPool(): Promise<void> {
+    if (this.warmPoolTimer) {
+      clearInterval(this.warmPoolTimer);
+      this.warmPoolTimer = null;
+    }
+    this.warmPoolOptions = null;
+
+    // Callers waiting for a warmup create their own sandbox instead
+    for (const resolve of this.warmWaiters.splice(0)) {
+      resolve(null);
+    }
+
+    const idle = this.warmPool.splice(0);
+    const warming = [...this.warmingSandboxes].map(sandbox => ({ sandbox, sandboxId: sandbox.sandboxId }));
+    this.warmingSandboxes.clear();
+    if (idle.length + warming.length > 0) {
+      this.logger.info(`Draining warm pool: terminating ${idle.length} idle and ${warming.length} warming sandboxes`);
+    }
+    await Promise.allSettled([...idle, ...warming].map(warm => this.killWarmSandbox(warm.sandbox, warm.sandboxId)));
+
+    // Sandboxes still being created are terminated by warmSandbox() itself
+    await Promise.allSettled([...this.warming]);
+  }
+
+  /**
+   * Start warming sandboxes until the pool (idle plus unclaimed warming) reaches its size
+   */
+  private refillWarmPool(): void {
+    if (!this.warmPoolOptions) {
+      return;
+    }
+    // Warmups already claimed by a waiting acquireSandbox() don't fill the pool
+    const unclaimed = this.warming.size - this.warmWaiters.length;
+    const missing = this.warmPoolOptions.size - this.warmPool.length - unclaimed;
+    for (let i = 0; i < missing; i++) {
+      const pending: Promise<void> = this.warmSandbox().finally(() => {
+        this.warming.delete(pending);
+      });
+      this.warming.add(pending);
+    }
+  }
+
+  /**
+   * Create and warm up one sandbox, then hand it to a waiting
+   * acquireSandbox() call or add it to the pool
+   */
+  private async warmSandbox(): Promise<void> {
+    let sandbox: SandboxHandle;
+    try {
+      sandbox = await this.createProviderSandbox('warm-pool');
+    } catch (error) {
+      this.logger.warn(`Warm pool: sandbox creation failed: ${error instanceof Error ? error.message : String(error)}`);
+      this.warmWaiters.shift()?.(null);
+      return;
+    }
+    const sandboxId = sandbox.sandboxId;
+
+    // Drained while the sandbox was being created
+    if (!this.warmPoolOptions) {
+      await this.killWarmSandbox(sandbox, sandboxId);
+      return;
+    }
+
+    let ready = true;
+    const warmup = this.warmPoolOptions.warmup;
+    if (warmup) {
+      this.warmingSandboxes.add(sandbox);
+      try {
+        ready = await warmup(sandbox);
+      } catch (error) {
+        if (this.warmingSandboxes.has(sandbox)) {
+          this.logger.warn(`Warm pool: warmup of ${sandboxId} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        ready = false;
+      }
+      // drainWarmPool() already terminated it
+      if (!this.warmingSandboxes.delete(sandbox)) {
+        return;
+      }
+    }
+
+    if (!ready) {
+      await this.killWarmSandbox(sandbox, sandboxId);
+      this.warmWaiters.shift()?.(null);
+      return;
+    }
+
+    const warm = { sandbox, sandboxId, readyAt: Date.now() };
+    const waiter = this.warmWaiters.shift();
+    if (waiter) {
+      waiter(warm);
+      return;
+    }
+
+    // The pool may have been drained or shrunk while this sandbox warmed up
+    if (!this.warmPoolOptions || this.warmPool.length >= this.warmPoolOptions.size) {
+      await this.killWarmSandbox(sandbox, sandboxId);
+      return;
+    }
+
+    this.warmPool.push(warm);
+    this.logger.info(`Warm pool: sandbox ${sandboxId} ready (${this.warmPool.length} idle)`);
+  }
+
+  /**
+   * Terminate idle warm sandboxes that waited longer than the idle TTL
+   */
+  private async evictIdleSandboxes(): Promise<void> {
+    if (!this.warmPoolOptions) {
+      return;
+    }
+    const cutoff = Date.now() - this.warmPoolOptions.idleTtlMinutes * 60 * 1000;
+    const expired = this.warmPool.filter(warm => warm.readyAt <= cutoff);
+    if (expired.length === 0) {
+      return;
+    }
+    this.warmPool = this.warmPool.filter(warm => warm.readyAt > cutoff);
+    this.logger.info(`Warm pool: terminating ${expired.length} sandboxes idle for over ${this.warmPoolOptions.idleTtlMinutes} minutes`);
+    await Promise.allSettled(expired.map(warm => this.killWarmSandbox(warm.sandbox, warm.sandboxId)));
+  }
+
+  /**
+   * Kill a sandbox that is not tracked as active (best effort)
+   */
+  private async killWarmSandbox(sandbox: SandboxHandle, sandboxId: string): Promise<void> {
+    try {
+      await sandbox.kill();
+    } catch (error) {
+      this.logger.warn(`Warm pool: failed to terminate ${sandboxId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Monitor sandbox health with heartbeat checks
    *
@@ -249,7 +581,7 @@ export class SandboxManager {
         isRunning = await Promise.race([
           sandbox.isRunning(),
           new Promise<boolean>((_, reject) =>
-            setTimeout(() => reject(new Error('Health check timeout after 30 seconds')), 30000)
+            setTimeout(() => reject(new Error('Health check timeout after 30 seconds')), 30000).unref()
           )
         ]);
       } catch (error) {
@@ -504,7 +836,7 @@ export class SandboxManager {
         await Promise.race([
           sandbox.kill(),
           new Promise<void>((_, reject) =>
-            setTimeout(() => reject(new Error('Sandbox kill timeout after 30 seconds')), 30000)
+            setTimeout(() => reject(new Error('Sandbox kill timeout after 30 seconds')), 30000).unref()
           )
         ]);
       } catch (error) {
@@ -525,6 +857,7 @@ export class SandboxManager {
       this.timeoutWarningsIssued.delete(sandboxId);
       this.budgetLimits.delete(sandboxId);
       this.budgetWarningsIssued.delete(sandboxId);
+      this.preparedSandboxes.delete(sandboxId);
 
       this.logger.info(`E2B sandbox terminated successfully: ${sandboxId}`);
 
@@ -543,6 +876,7 @@ export class SandboxManager {
       this.timeoutWarningsIssued.delete(sandboxId);
       this.budgetLimits.delete(sandboxId);
       this.budgetWarningsIssued.delete(sandboxId);
+      this.preparedSandboxes.delete(sandboxId);
 
       return {
         success: false,
@@ -559,7 +893,7 @@ export class SandboxManager {
    * @param sandboxId - Sandbox ID
    * @returns Sandbox instance or null if not found
    */
-  getSandbox(sandboxId: string): Sandbox | null {
+  getSandbox(sandboxId: string): SandboxHandle | null {
     return this.activeSandboxes.get(sandboxId) || null;
   }
 
@@ -567,15 +901,15 @@ export class SandboxManager {
    * Get or reconnect to an existing sandbox
    *
    * This method first checks if the sandbox is already in the active sandboxes map.
-   * If not found, it attempts to reconnect to the sandbox using the E2B SDK's
-   * Sandbox.connect() method. This is essential for CLI commands that need to
+   * If not found, it attempts to reconnect to the sandbox through the provider
+   * (Sandbox.connect() for E2B). This is essential for CLI commands that need to
    * access sandboxes created in separate process invocations.
    *
    * @param sandboxId - Sandbox ID to connect to
    * @param apiKey - Optional E2B API key (defaults to E2B_API_KEY env var)
    * @returns Sandbox instance or null if connection fails
    */
-  async getOrReconnectSandbox(sandboxId: string, apiKey?: string): Promise<Sandbox | null> {
+  async getOrReconnectSandbox(sandboxId: string, apiKey?: string): Promise<SandboxHandle | null> {
     try {
       // Check if sandbox is already in active sandboxes
       const existingSandbox = this.activeSandboxes.get(sandboxId);
@@ -586,15 +920,15 @@ export class SandboxManager {
 
       // Validate API key
       const e2bApiKey = apiKey || process.env.E2B_API_KEY;
-      if (!e2bApiKey) {
+      if (this.provider.requiresApiKey && !e2bApiKey) {
         this.logger.error('E2B API key not found. Set E2B_API_KEY environment variable.');
         return null;
       }
 
       this.logger.info(`Reconnecting to sandbox: ${sandboxId}`);
 
-      // Reconnect to existing sandbox using E2B SDK
-      const sandbox = await Sandbox.connect(sandboxId, {
+      // Reconnect to existing sandbox through the provider
+      const sandbox = await this.provider.connect(sandboxId, {
         apiKey: e2bApiKey
       });
 
@@ -688,7 +1022,7 @@ export class SandboxManager {
       await Promise.race([
         sandbox.setTimeout(Math.min(timeoutMs, maxTimeoutMs)),
         new Promise<void>((_, reject) =>
-          setTimeout(() => reject(new Error('setTimeout call timeout after 10 seconds')), 10000)
+          setTimeout(() => reject(new Error('setTimeout call timeout after 10 seconds')), 10000).unref()
         )
       ]);
       this.logger.info(`Extended timeout for sandbox ${sandboxId} by ${additionalMinutes} minutes`);
@@ -712,13 +1046,13 @@ export class SandboxManager {
    * - Token is sanitized (newlines removed)
    * - Registry URL is validated
    *
-   * @param sandbox - E2B Sandbox instance
+   * @param sandbox - Sandbox instance
    * @param npmToken - NPM authentication token
    * @param npmRegistry - NPM registry URL (default: https://registry.npmjs.org)
    * @returns boolean indicating success
    */
   async configureNpmAuth(
-    sandbox: Sandbox,
+    sandbox: SandboxHandle,
     npmToken: string,
     npmRegistry: string = 'https://registry.npmjs.org'
   ): Promise<boolean> {
@@ -812,6 +1146,7 @@ export class SandboxManager {
    * Cleanup all active sandboxes (for shutdown)
    */
   async cleanupAll(): Promise<void> {
+    await this.drainWarmPool();
     this.logger.info(`Cleaning up ${this.activeSandboxes.size} active sandboxes`);
 
     const cleanupPromises = Array.from(this.activeSandboxes.keys()).map(sandboxId =>
@@ -832,16 +1167,18 @@ export class SandboxManager {
    * This method executes the template's setup commands and sets environment
    * variables in the sandbox. It should be called after sandbox creation.
    *
-   * @param sandboxId - Sandbox ID to apply template to
+   * @param sandboxOrId - Sandbox, or ID of an active sandbox, to apply the template to
+   *   (pass the sandbox itself while a warm pool sandbox is being prepared)
    * @param template - Template definition with setup commands and environment
    * @returns Result of template application
    */
   async applyTemplate(
-    sandboxId: string,
+    sandboxOrId: SandboxHandle | string,
     template: SandboxTemplate
   ): Promise<TemplateApplicationResult> {
     try {
-      const sandbox = this.activeSandboxes.get(sandboxId);
+      const sandboxId = typeof sandboxOrId === 'string' ? sandboxOrId : sandboxOrId.sandboxId;
+      const sandbox = typeof sandboxOrId === 'string' ? this.activeSandboxes.get(sandboxOrId) : sandboxOrId;
       if (!sandbox) {
         return {
           success: false,
@@ -869,7 +1206,7 @@ export class SandboxManager {
           this.logger.info(`Executing setup command: ${command}`);
 
           try {
-            const result = await sandbox.commands.run(command, {
+            const result = await runSandboxCommand(sandbox, command, {
               timeoutMs: 300000, // 5 minute timeout per command
               envs // Pass env vars to each command
             });
@@ -0,0 +1,193 @@
+/**
+ * Sandbox Provider Abstraction - Pluggable backends for sandbox execution
+ *
+ * Defines the minimal surface the sandbox pipeline (claude-runner, file-sync,
+ * output-monitor, git-live) needs from an isolated execution environment:
+ * - Create and reconnect sandboxes
+ * - Execute shell commands
+ * - Read and write files
+ * - Kill sandboxes and adjust their lifetime
+ *
+ * Implementations:
+ * - e2b: E2B cloud sandboxes (default)
+ * - docker / podman: Local containers (source never leaves the machine)
+ * - process: Temp directory on the host (offline testing, optional bubblewrap)
+ */
+
+import { E2BSandboxProvider } from './e2b-provider.js';
+import { ContainerSandboxProvider } from './container-provider.js';
+import { ProcessSandboxProvider } from './process-provider.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Supported sandbox provider names
+ */
+export type SandboxProviderName = 'e2b' | 'docker' | 'podman' | 'process';
+
+/**
+ * All supported provider names (for validation and help text)
+ */
+export const SANDBOX_PROVIDER_NAMES: readonly SandboxProviderName[] = ['e2b', 'docker', 'podman', 'process'];
+
+/**
+ * Options for running a command inside a sandbox
+ */
+export interface SandboxCommandOptions {
+  cwd?: string;
+  timeoutMs?: number;
+  envs?: Record<string, string>;
+}
+
+/**
+ * Result of a command executed inside a sandbox
+ */
+export interface SandboxCommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  error?: string;
+}
+
+/**
+ * Handle to a running sandbox
+ *
+ * Shaped after the E2B SDK's Sandbox so the E2B instance can be used directly;
+ * other providers implement the same surface.
+ */
+export interface SandboxHandle {
+  readonly sandboxId: string;
+  commands: {
+    /**
+     * Run a shell command
+     *
+     * Rejects when the command exits with a non-zero code, like the E2B SDK:
+     * E2B throws its CommandExitError, local providers a SandboxCommandError
+     * (types.ts).
+     * Both carry exitCode, stdout and stderr. Use runSandboxCommand() where a
+     * non-zero exit code is an expected outcome.
+     */
+    run(cmd: string, opts?: SandboxCommandOptions): Promise<SandboxCommandResult>;
+  };
+  files: {
+    write(path: string, data: string | ArrayBuffer): Promise<unknown>;
+    read(path: string): Promise<string>;
+  };
+  isRunning(): Promise<boolean>;
+  kill(): Promise<void>;
+  setTimeout(timeoutMs: number): Promise<void>;
+}
+
+/**
+ * Options for creating a sandbox
+ */
+export interface SandboxCreateOptions {
+  /** Provider-specific image or template name */
+  template: string;
+  timeoutMs: number;
+  metadata: Record<string, string>;
+  apiKey?: string;
+}
+
+/**
+ * Options for reconnecting to an existing sandbox
+ */
+export interface SandboxConnectOptions {
+  apiKey?: string;
+}
+
+/**
+ * Sandbox provider - creates and reconnects sandbox handles
+ */
+export interface SandboxProvider {
+  readonly name: SandboxProviderName;
+  /** Human-readable name used in log and error messages */
+  readonly displayName: string;
+  /** Whether create/connect require an API key (E2B_API_KEY) */
+  readonly requiresApiKey: boolean;
+  create(options: SandboxCreateOptions): Promise<SandboxHandle>;
+  connect(sandboxId: string, options?: SandboxConnectOptions): Promise<SandboxHandle>;
+}
+
+/**
+ * Options for constructing a provider via createSandboxProvider()
+ */
+export interface SandboxProviderOptions {
+  /** Container image for local providers (overrides the E2B template name) */
+  image?: string;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Run a sandbox command and return its result whatever its exit code
+ *
+ * @param sandbox - Sandbox to run the command in
+ * @param cmd - Shell command
+ * @param opts - Command options
+ * @returns Exit code and output, also for non-zero exit codes
+ * @throws Error if the command could not run to completion (timeout, terminated sandbox)
+ */
+export async function runSandboxCommand(
+  sandbox: SandboxHandle,
+  cmd: string,
+  opts?: SandboxCommandOptions
+): Promise<SandboxCommandResult> {
+  try {
+    return await sandbox.commands.run(cmd, opts);
+  } catch (error) {
+    // E2B's CommandExitError and SandboxCommandError carry the command's result
+    const failed = error as { exitCode?: unknown; stdout?: string; stderr?: string };
+    if (typeof failed.exitCode !== 'number') {
+      throw error;
+    }
+    return { exitCode: failed.exitCode, stdout: failed.stdout ?? '', stderr: failed.stderr ?? '' };
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Check whether a string is a supported provider name
+ *
+ * @param name - Provider name to check
+ * @returns true if the name is supported
+ */
+export function isSandboxProviderName(name: string): name is SandboxProviderName {
+  return (SANDBOX_PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Create a sandbox provider by name
+ *
+ * @param name - Provider name (default: e2b)
+ * @param options - Provider options
+ * @returns Sandbox provider instance
+ * @throws Error if the provider name is not supported
+ */
+export function createSandboxProvider(
+  name: string = 'e2b',
+  options: SandboxProviderOptions = {}
+): SandboxProvider {
+  if (!isSandboxProviderName(name)) {
+    throw new Error(
+      `Unknown sandbox provider "${name}". Supported providers: ${SANDBOX_PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  switch (name) {
+    case 'e2b':
+      return new E2BSandboxProvider();
+    case 'docker':
+    case 'podman':
+      return new ContainerSandboxProvider(name, { image: options.image });
+    case 'process':
+      return new ProcessSandboxProvider();
+  }
+}
@@ -21,7 +21,7 @@ import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
-import type { Sandbox } from 'e2b';
+import type { SandboxHandle } from './sandbox-provider.js';
 import type { Logger } from '../logger.js';
 
 // ============================================================================
@@ -340,13 +340,13 @@ Proceed only if you understand and accept these security implications.
  * Creates ~/.ssh directory with proper permissions, writes the key,
  * configures known_hosts for common git providers, and creates SSH config.
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param keyPath - Path to local SSH private key
  * @param logger - Logger instance
  * @returns Injection result with fingerprint
  */
 export async function injectSSHKey(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   keyPath: string,
   logger: Logger
 ): Promise<SSHInjectionResult> {
@@ -472,12 +472,12 @@ export async function injectSSHKey(
  * - known_hosts
  * - SSH config
  *
- * @param sandbox - E2B Sandbox instance
+ * @param sandbox - Sandbox instance
  * @param logger - Logger instance
  * @param keyFilename - Optional filename of the injected key (for precise cleanup)
  */
 export async function cleanupSSHKey(
-  sandbox: Sandbox,
+  sandbox: SandboxHandle,
   logger: Logger,
   keyFilename?: string
 ): Promise<void> {
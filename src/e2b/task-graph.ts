@@ -0,0 +1,226 @@
+/**
+ * Task Graph - Dependency ordering for parallel sandbox batches
+ *
+ * Features:
+ * - Normalizes plain prompts and task definitions into one shape
+ * - Validates task IDs and dependsOn references
+ * - Detects dependency cycles and computes a topological order
+ * - Parses task files (one task per line, JSON, or YAML)
+ */
+
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ParallelTaskDefinition } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Task IDs double as directory names under the output directory */
+const TASK_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/** File extensions parsed as structured task files */
+const STRUCTURED_TASK_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Task definition with its ID and dependency list resolved
+ */
+export type ResolvedTask = Required<ParallelTaskDefinition>;
+
+// ============================================================================
+// Graph Functions
+// ============================================================================
+
+/**
+ * Normalize tasks into definitions with IDs and validate the dependency graph
+ *
+ * Tasks without an explicit ID (including plain strings) get positional IDs
+ * (task-1, task-2, ...).
+ *
+ * @param tasks - Task prompts and/or task definitions
+ * @returns Resolved tasks in input order
+ * @throws Error if IDs are invalid or duplicated, a dependency is unknown, or the graph has a cycle
+ */
+export function normalizeTasks(tasks: Array<string | ParallelTaskDefinition>): ResolvedTask[] {
+  const normalized = tasks.map((task, index): ResolvedTask => {
+    if (typeof task === 'string') {
+      return { id: `task-${index + 1}`, prompt: task, dependsOn: [] };
+    }
+    return { id: task.id ?? `task-${index + 1}`, prompt: task.prompt, dependsOn: [...(task.dependsOn ?? [])] };
+  });
+
+  const ids = new Set<string>();
+  for (const task of normalized) {
+    if (!TASK_ID_PATTERN.test(task.id)) {
+      throw new Error(`Invalid task ID "${task.id}": use letters, numbers, ".", "_" and "-"`);
+    }
+    if (ids.has(task.id)) {
+      throw new Error(`Duplicate task ID "${task.id}"`);
+    }
+    if (!task.prompt || !task.prompt.trim()) {
+      throw new Error(`Task "${task.id}" has an empty prompt`);
+    }
+    ids.add(task.id);
+  }
+
+  for (const task of normalized) {
+    for (const dep of task.dependsOn) {
+      if (dep === task.id) {
+        throw new Error(`Task "${task.id}" cannot depend on itself`);
+      }
+      if (!ids.has(dep)) {
+        throw new Error(`Task "${task.id}" depends on unknown task "${dep}"`);
+      }
+    }
+  }
+
+  // Throws on cycles
+  topologicalOrder(normalized);
+
+  return normalized;
+}
+
+/**
+ * Order tasks so every task comes after its dependencies
+ *
+ * Ties keep input order, so a batch without dependencies runs in file order.
+ *
+ * @param tasks - Normalized task definitions
+ * @returns Task IDs in dependency order
+ * @throws Error if the graph contains a cycle
+ */
+export function topologicalOrder(tasks: ResolvedTask[]): string[] {
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const byId = new Map(tasks.map(task => [task.id, task]));
+
+  const visit = (id: string, trail: string[]): void => {
+    const current = state.get(id);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      const cycle = [...trail.slice(trail.indexOf(id)), id];
+      throw new Error(`Task dependency cycle detected: ${cycle.join(' -> ')}`);
+    }
+
+    state.set(id, 'visiting');
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      visit(dep, [...trail, id]);
+    }
+    state.set(id, 'done');
+    order.push(id);
+  };
+
+  for (const task of tasks) {
+    visit(task.id, []);
+  }
+
+  return order;
+}
+
+/**
+ * Get all transitive dependencies of a task, in dependency order
+ *
+ * @param taskId - Task to resolve
+ * @param tasks - Normalized task definitions
+ * @returns IDs of every upstream task (nearest dependencies last)
+ */
+export function getUpstreamTasks(taskId: string, tasks: ResolvedTask[]): string[] {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const upstream = new Set<string>();
+  const pending = [...(byId.get(taskId)?.dependsOn ?? [])];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (upstream.has(id)) continue;
+    upstream.add(id);
+    pending.push(...(byId.get(id)?.dependsOn ?? []));
+  }
+
+  return topologicalOrder(tasks).filter(id => upstream.has(id));
+}
+
+// ============================================================================
+// Task File Parsing
+// ============================================================================
+
+/**
+ * Parse a task file
+ *
+ * .json, .yaml and .yml files hold a list of tasks (or an object with a
+ * "tasks" list). Each entry is a prompt string or an object with "prompt",
+ * optional "id" and optional "dependsOn" (string or list). Any other file is
+ * read as one task per line, skipping blank lines and # comments.
+ *
+ * @param content - File content
+ * @param filePath - File path (extension selects the format)
+ * @returns Tasks as plain prompts or task definitions
+ * @throws Error if a structured file is malformed
+ */
+export function parseTaskFile(content: string, filePath: string): Array<string | ParallelTaskDefinition> {
+  const extension = path.extname(filePath).toLowerCase();
+  if (!STRUCTURED_TASK_FILE_EXTENSIONS.includes(extension)) {
+    return content
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'));
+  }
+
+  let data: unknown;
+  try {
+    data = extension === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Failed to parse task file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const entries = Array.isArray(data)
+    ? data
+    : (data && typeof data === 'object' && Array.isArray((data as { tasks?: unknown }).tasks))
+      ? (data as { tasks: unknown[] }).tasks
+      : null;
+  if (!entries) {
+    throw new Error(`Task file ${filePath} must contain a list of tasks or an object with a "tasks" list`);
+  }
+
+  return entries.map((entry, index) => parseTaskEntry(entry, index, filePath));
+}
+
+/**
+ * Parse a single structured task file entry
+ */
+function parseTaskEntry(entry: unknown, index: number, filePath: string): string | ParallelTaskDefinition {
+  const position = `${filePath} task #${index + 1}`;
+
+  if (typeof entry === 'string') {
+    return entry.trim();
+  }
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    throw new Error(`${position}: expected a prompt string or an object with "prompt"`);
+  }
+
+  const { id, prompt, dependsOn } = entry as Record<string, unknown>;
+  if (typeof prompt !== 'string') {
+    throw new Error(`${position}: "prompt" must be a string`);
+  }
+  if (id !== undefined && typeof id !== 'string') {
+    throw new Error(`${position}: "id" must be a string`);
+  }
+
+  let deps: string[] = [];
+  if (typeof dependsOn === 'string') {
+    deps = [dependsOn];
+  } else if (Array.isArray(dependsOn) && dependsOn.every(dep => typeof dep === 'string')) {
+    deps = dependsOn as string[];
+  } else if (dependsOn !== undefined) {
+    throw new Error(`${position}: "dependsOn" must be a task ID or a list of task IDs`);
+  }
+
+  return {
+    ...(id !== undefined ? { id } : {}),
+    prompt: prompt.trim(),
+    dependsOn: deps
+  };
+}
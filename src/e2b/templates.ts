@@ -13,6 +13,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import { fileURLToPath } from 'url';
+import { MAX_REPAIR_ROUNDS } from './verification.js';
 import type {
   SandboxTemplate,
   TemplateListEntry,
@@ -122,6 +123,30 @@ export function validateTemplate(template: Partial<SandboxTemplate>): TemplateVa
     }
   }
 
+  if (template.verify !== undefined) {
+    const verify = template.verify;
+    if (typeof verify !== 'object' || verify === null || Array.isArray(verify)) {
+      errors.push('verify must be an object');
+    } else {
+      if (!Array.isArray(verify.commands)) {
+        errors.push('verify.commands must be an array');
+      } else {
+        for (let i = 0; i < verify.commands.length; i++) {
+          const cmd = verify.commands[i];
+          if (typeof cmd !== 'string' || cmd.trim() === '') {
+            errors.push(`verify.commands[${i}] must be a non-empty string`);
+          } else if (cmd.length > MAX_COMMAND_LENGTH) {
+            errors.push(`verify.commands[${i}] exceeds maximum length of ${MAX_COMMAND_LENGTH} characters`);
+          }
+        }
+      }
+      if (verify.repairRounds !== undefined &&
+          (!Number.isInteger(verify.repairRounds) || verify.repairRounds < 0 || verify.repairRounds > MAX_REPAIR_ROUNDS)) {
+        errors.push(`verify.repairRounds must be an integer between 0 and ${MAX_REPAIR_ROUNDS}`);
+      }
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -0,0 +1,140 @@
+/**
+ * Verification - Check a sandbox run with the project's own commands
+ *
+ * Features:
+ * - Runs verify commands (tests, lint, ...) in the sandbox after Claude finishes
+ * - Records each command's exit code and the tail of its output
+ * - Builds the repair prompt that feeds failures back to Claude
+ */
+
+import { runSandboxCommand, type SandboxHandle } from './sandbox-provider.js';
+import type { Logger } from '../logger.js';
+import type { VerifyCommandResult } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Timeout for a single verify command (10 minutes)
+ */
+const VERIFY_COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Max lines kept from a verify command's output
+ */
+const OUTPUT_TAIL_LINES = 50;
+
+/**
+ * Max characters kept from a verify command's output
+ */
+const OUTPUT_TAIL_CHARS = 4000;
+
+/**
+ * Upper bound on repair rounds
+ */
+export const MAX_REPAIR_ROUNDS = 10;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Keep the last lines of a command's output
+ *
+ * @param output - Combined stdout/stderr
+ * @returns At most OUTPUT_TAIL_LINES lines and OUTPUT_TAIL_CHARS characters
+ */
+export function tailOutput(output: string): string {
+  const lines = output.trimEnd().split('\n');
+  const tail = lines.slice(-OUTPUT_TAIL_LINES).join('\n');
+  return tail.length > OUTPUT_TAIL_CHARS ? tail.slice(-OUTPUT_TAIL_CHARS) : tail;
+}
+
+/**
+ * Combine stdout and stderr of a finished command
+ */
+function combineOutput(stdout: string | undefined, stderr: string | undefined): string {
+  return [stdout, stderr].filter(part => part && part.trim() !== '').join('\n');
+}
+
+/**
+ * Run verify commands in the sandbox
+ *
+ * Every command runs, even after an earlier one fails, so Claude sees all
+ * failures in a single repair round.
+ *
+ * @param sandbox - Sandbox instance
+ * @param commands - Shell commands to run, in order
+ * @param logger - Logger instance
+ * @param workingDir - Directory the commands run in
+ * @returns One result per command
+ */
+export async function runVerifyCommands(
+  sandbox: SandboxHandle,
+  commands: string[],
+  logger: Logger,
+  workingDir: string
+): Promise<VerifyCommandResult[]> {
+  const results: VerifyCommandResult[] = [];
+
+  for (const command of commands) {
+    const startTime = Date.now();
+    logger.info(`Verifying: ${command}`);
+
+    let exitCode: number;
+    let output: string;
+    try {
+      const result = await runSandboxCommand(sandbox, `cd ${workingDir} && ${command}`, {
+        timeoutMs: VERIFY_COMMAND_TIMEOUT_MS
+      });
+      exitCode = result.exitCode;
+      output = combineOutput(result.stdout, result.stderr);
+    } catch (error) {
+      exitCode = -1;
+      output = error instanceof Error ? error.message : String(error);
+    }
+
+    const durationMs = Date.now() - startTime;
+    if (exitCode === 0) {
+      logger.info(`Verify command passed: ${command} (${durationMs}ms)`);
+    } else {
+      logger.warn(`Verify command failed: ${command} (exit ${exitCode}, ${durationMs}ms)`);
+    }
+
+    results.push({ command, exitCode, outputTail: tailOutput(output), durationMs });
+  }
+
+  return results;
+}
+
+/**
+ * Build the prompt asking Claude to fix failed verify commands
+ *
+ * @param results - Results of the last verification round
+ * @returns Prompt listing each failed command with its output tail
+ */
+export function buildRepairPrompt(results: VerifyCommandResult[]): string {
+  const failures = results
+    .filter(result => result.exitCode !== 0)
+    .map(result => `Command: ${result.command}\nExit code: ${result.exitCode}\nOutput (last lines):\n${result.outputTail}`);
+
+  return [
+    'The following verification commands failed after your changes:',
+    ...failures,
+    'Fix the causes of these failures. Do not disable, skip or delete the checks themselves.'
+  ].join('\n\n');
+}
+
+/**
+ * Describe the failed commands of a verification round
+ *
+ * @param results - Results of the last verification round
+ * @returns e.g. `npm test (exit 1), npm run lint (exit 2)`
+ */
+export function describeVerifyFailures(results: VerifyCommandResult[]): string {
+  return results
+    .filter(result => result.exitCode !== 0)
+    .map(result => `${result.command} (exit ${result.exitCode})`)
+    .join(', ');
+}
@@ -3,12 +3,26 @@
  *
  * Manages file access claims across parallel sessions to prevent concurrent editing conflicts.
  * Implements three claim modes: EXCLUSIVE (blocks all), SHARED (allows read), INTENT (non-blocking).
+ * Claims can cover a single file, a directory (`src/auth/`) or a glob pattern (`src/auth/**`).
+ * Conflicting requests can wait in a FIFO queue instead of failing, with deadlock detection
+ * across sessions waiting on each other. Files about to be committed can be verified against
+ * EXCLUSIVE claims of other sessions (git pre-commit hook), and files Claude is about to
+ * edit are claimed automatically (PreToolUse hook).
  */
 
+import { statSync } from 'fs';
+import { isAbsolute, join, relative } from 'path';
 import { SessionDB } from './db.js';
 import { Logger, logger as defaultLogger } from './logger.js';
 import { validateFilePath } from './db-validators.js';
-import type { FileClaim, ClaimMode } from './types.js';
+import { claimPathsOverlap, isClaimPattern, normalizeClaimPath } from './claim-patterns.js';
+import { DEFAULT_CONFIG } from './types.js';
+import type { FileClaim, ClaimMode, ClaimRequest } from './types.js';
+
+/**
+ * Default interval between queue checks while waiting for a claim
+ */
+const DEFAULT_WAIT_POLL_INTERVAL_MS = 1000;
 
 /**
  * Parameters for acquiring a file claim
@@ -16,10 +30,16 @@ import type { FileClaim, ClaimMode } from './types.js';
 export interface AcquireClaimParams {
   sessionId: string;
   repoPath: string;
+  /** File path, directory or glob pattern relative to the repo */
   filePath: string;
   mode: ClaimMode;
   reason?: string;
   ttlHours?: number;
+  /**
+   * Wait up to this long for conflicting claims to be released instead of
+   * failing immediately (the request is queued meanwhile)
+   */
+  waitTimeoutMs?: number;
 }
 
 /**
@@ -28,6 +48,7 @@ export interface AcquireClaimParams {
 export interface ClaimFilters {
   repoPath?: string;
   sessionId?: string;
+  /** Paths or patterns; matches claims that overlap any of them */
   filePaths?: string[];
   includeExpired?: boolean;
 }
@@ -54,6 +75,66 @@ export interface CheckClaimsResult {
   }>;
 }
 
+/**
+ * Parameters for verifying changed files against claims of other sessions
+ */
+export interface VerifyFilesParams {
+  /** Paths the claims may be recorded under (main repo and its worktrees) */
+  repoPaths: string[];
+  /** Changed files relative to the repo */
+  filePaths: string[];
+  /** Sessions making the change; their own claims are ignored */
+  sessionIds: string[];
+}
+
+/**
+ * A changed file covered by an EXCLUSIVE claim of another live session
+ */
+export interface ClaimViolation {
+  filePath: string;
+  claim: FileClaim;
+}
+
+/**
+ * Parameters for claiming a file automatically before an edit
+ */
+export interface AutoClaimParams {
+  sessionId: string;
+  /** File about to be edited; absolute or relative to the session's worktree */
+  filePath: string;
+  mode: Extract<ClaimMode, 'INTENT' | 'SHARED'>;
+}
+
+/**
+ * Result of claiming a file automatically before an edit
+ */
+export type AutoClaimResult =
+  | { status: 'claimed' | 'held'; claim: FileClaim }
+  | { status: 'blocked'; filePath: string; violations: ClaimViolation[] }
+  | { status: 'skipped'; reason: string };
+
+/**
+ * Result of requesting a claim that may have to wait
+ */
+export type ClaimRequestResult =
+  | { status: 'granted'; claim: FileClaim }
+  | {
+      status: 'waiting';
+      request: ClaimRequest;
+      /** 1-based position among requests waiting in the repo */
+      position: number;
+      /** Claims currently blocking the request */
+      conflicts: CheckClaimsResult['conflicts'];
+    };
+
+/**
+ * Options for waiting on a queued claim request
+ */
+export interface WaitForClaimOptions {
+  timeoutMs: number;
+  pollIntervalMs?: number;
+}
+
 /**
  * Error thrown when a claim conflicts with an existing claim
  */
@@ -67,6 +148,20 @@ export class ConflictError extends Error {
   }
 }
 
+/**
+ * Error thrown when waiting for a claim would deadlock
+ */
+export class ClaimDeadlockError extends Error {
+  constructor(
+    message: string,
+    /** Sessions in the wait cycle, starting and ending with the requester */
+    public cycle: string[]
+  ) {
+    super(message);
+    this.name = 'ClaimDeadlockError';
+  }
+}
+
 /**
  * Manages file access claims for parallel sessions
  */
@@ -82,11 +177,12 @@ export class FileClaimsManager {
   /**
    * Acquire a claim on a file
    * @throws ConflictError if incompatible EXCLUSIVE claim exists
-   * @throws Error if session not found or file path invalid
+   * @throws Error if an earlier queued request conflicts, session not found or file path invalid
    */
   async acquireClaim(params: AcquireClaimParams): Promise<FileClaim> {
     // 1. Validate file path (security)
     validateFilePath(params.repoPath, params.filePath);
+    const filePath = this.resolveClaimPath(params.repoPath, params.filePath);
 
     // 2. Validate session exists
     const session = this.db.getSessionById(params.sessionId);
@@ -94,32 +190,44 @@ export class FileClaimsManager {
       throw new Error(`Session not found: ${params.sessionId}`);
     }
 
-    // 3. Check for existing incompatible claims
+    // 3. Grant queued requests whose blockers are gone, so they keep their place
+    await this.processClaimQueue(params.repoPath);
+
+    // 4. Check for existing incompatible claims and earlier queued requests
     const conflicts = await this.checkClaims({
       repoPath: params.repoPath,
-      filePaths: [params.filePath],
+      filePaths: [filePath],
       requestedMode: params.mode,
       excludeSessionId: params.sessionId
     });
+    const queuedAhead = this.findQueuedAhead(params.repoPath, params.sessionId, params.mode, filePath);
 
-    if (!conflicts.available) {
-      throw new ConflictError(
-        `Cannot acquire ${params.mode} claim: ${conflicts.conflicts[0].reason}`,
-        conflicts.conflicts[0].existingClaim
+    if (!conflicts.available || queuedAhead.length > 0) {
+      if (params.waitTimeoutMs !== undefined) {
+        return this.acquireAfterWaiting(params, params.waitTimeoutMs);
+      }
+      if (!conflicts.available) {
+        throw new ConflictError(
+          `Cannot acquire ${params.mode} claim: ${conflicts.conflicts[0].reason}`,
+          conflicts.conflicts[0].existingClaim
+        );
+      }
+      throw new Error(
+        `Cannot acquire ${params.mode} claim: queued behind ${queuedAhead.length} earlier request(s) for ${filePath}`
       );
     }
 
-    // 4. Acquire claim via database (transaction-safe)
+    // 5. Acquire claim via database (transaction-safe)
     const claim = this.db.acquireClaim({
       session_id: params.sessionId,
       repo_path: params.repoPath,
-      file_path: params.filePath,
+      file_path: filePath,
       claim_mode: params.mode,
       ttl_hours: params.ttlHours,
       metadata: params.reason ? { reason: params.reason } : undefined
     });
 
-    this.logger.info(`Acquired ${params.mode} claim on ${params.filePath} for session ${params.sessionId}`);
+    this.logger.info(`Acquired ${params.mode} claim on ${filePath} for session ${params.sessionId}`);
     return claim;
   }
 
@@ -146,39 +254,235 @@ export class FileClaimsManager {
 
     if (released) {
       this.logger.info(`Released claim ${claimId}`);
+      await this.processClaimQueue();
     }
 
     return released;
   }
 
+  /**
+   * Request a claim, queueing it if conflicting claims are held
+   *
+   * Queued requests are granted in FIFO order as the conflicting claims are
+   * released (see processClaimQueue), so a request also waits behind earlier
+   * queued requests it conflicts with.
+   *
+   * @returns The claim, or the queued request and what blocks it
+   * @throws ClaimDeadlockError if the blocking sessions are (indirectly) waiting on the requester
+   * @throws Error if session not found or file path invalid
+   */
+  async requestClaim(params: AcquireClaimParams): Promise<ClaimRequestResult> {
+    validateFilePath(params.repoPath, params.filePath);
+    const filePath = this.resolveClaimPath(params.repoPath, params.filePath);
+
+    const session = this.db.getSessionById(params.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${params.sessionId}`);
+    }
+
+    const conflicts = await this.checkClaims({
+      repoPath: params.repoPath,
+      filePaths: [filePath],
+      requestedMode: params.mode,
+      excludeSessionId: params.sessionId
+    });
+    const queuedAhead = this.findQueuedAhead(params.repoPath, params.sessionId, params.mode, filePath);
+
+    if (conflicts.available && queuedAhead.length === 0) {
+      const claim = await this.acquireClaim({ ...params, filePath, waitTimeoutMs: undefined });
+      return { status: 'granted', claim };
+    }
+
+    // Refuse to wait if the sessions we would wait on are waiting on us
+    const blockers = new Set([
+      ...conflicts.conflicts.map(c => c.existingClaim.session_id),
+      ...queuedAhead.map(r => r.session_id)
+    ]);
+    const cycle = this.findWaitCycle(params.sessionId, blockers);
+    if (cycle) {
+      throw new ClaimDeadlockError(
+        `Cannot wait for ${params.mode} claim on ${filePath}: deadlock between sessions ${cycle.join(' → ')}`,
+        cycle
+      );
+    }
+
+    const request = this.db.createClaimRequest({
+      session_id: params.sessionId,
+      repo_path: params.repoPath,
+      file_path: filePath,
+      claim_mode: params.mode,
+      ttl_hours: params.ttlHours,
+      reason: params.reason
+    });
+
+    return {
+      status: 'waiting',
+      request,
+      position: this.getQueuePosition(request.id),
+      conflicts: conflicts.conflicts
+    };
+  }
+
+  /**
+   * Position of a waiting request among the requests waiting in its repo
+   *
+   * @returns 1-based position, or 0 if the request is not waiting
+   */
+  getQueuePosition(requestId: string): number {
+    const request = this.db.getClaimRequest(requestId);
+    if (!request || request.status !== 'waiting') {
+      return 0;
+    }
+    const waiting = this.db.listClaimRequests({ repo_path: request.repo_path, status: 'waiting' });
+    return waiting.findIndex(r => r.id === requestId) + 1;
+  }
+
+  /**
+   * Wait until a queued claim request is granted or cancelled
+   *
+   * Processes the queue while waiting, so claims of sessions that went
+   * stale are released and the request is granted as soon as it is first
+   * in line.
+   *
+   * @returns The request; still 'waiting' if the timeout passed
+   * @throws Error if the request does not exist
+   */
+  async waitForClaim(requestId: string, options: WaitForClaimOptions): Promise<ClaimRequest> {
+    const deadline = Date.now() + options.timeoutMs;
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_WAIT_POLL_INTERVAL_MS;
+
+    for (;;) {
+      const request = this.db.getClaimRequest(requestId);
+      if (!request) {
+        throw new Error(`Claim request not found: ${requestId}`);
+      }
+      if (request.status !== 'waiting') {
+        return request;
+      }
+
+      await this.processClaimQueue(request.repo_path);
+      const current = this.db.getClaimRequest(requestId) ?? request;
+      const remaining = deadline - Date.now();
+      if (current.status !== 'waiting' || remaining <= 0) {
+        return current;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, Math.min(pollIntervalMs, remaining)));
+    }
+  }
+
+  /**
+   * Cancel a waiting claim request
+   *
+   * @param requestId - Request ID
+   * @param sessionId - Session that queued the request
+   * @returns true if cancelled, false if not waiting or not owned by the session
+   */
+  async cancelClaimRequest(requestId: string, sessionId: string): Promise<boolean> {
+    const request = this.db.getClaimRequest(requestId);
+    if (!request || request.session_id !== sessionId) {
+      this.logger.warn(`Cannot cancel claim request ${requestId}: not owned by session ${sessionId}`);
+      return false;
+    }
+
+    const cancelled = this.db.cancelClaimRequests({ id: requestId }, 'Cancelled by session') > 0;
+    if (cancelled) {
+      this.logger.info(`Cancelled claim request ${requestId}`);
+      // Requests queued behind this one may now be grantable
+      await this.processClaimQueue(request.repo_path);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Grant waiting claim requests whose conflicting claims are gone
+   *
+   * Requests are considered oldest first; a request is only granted when no
+   * other session holds a conflicting claim and no earlier waiting request
+   * conflicts with it. Claims of stale sessions are released first and
+   * requests of sessions that ended are cancelled.
+   *
+   * @param repoPath - Repository to process (default: every repo with waiting requests)
+   * @returns Requests granted by this call
+   */
+  async processClaimQueue(repoPath?: string): Promise<ClaimRequest[]> {
+    const waiting = this.db.listClaimRequests({ repo_path: repoPath, status: 'waiting' });
+    const repoPaths = [...new Set(waiting.map(request => request.repo_path))];
+    const granted: ClaimRequest[] = [];
+
+    for (const repo of repoPaths) {
+      this.db.releaseStaleSessionClaims(repo, DEFAULT_CONFIG.staleThresholdMinutes);
+      const stillWaiting: ClaimRequest[] = [];
+
+      for (const request of waiting.filter(r => r.repo_path === repo)) {
+        if (!this.db.getSessionById(request.session_id)) {
+          this.db.cancelClaimRequests({ id: request.id }, 'Session ended');
+          continue;
+        }
+
+        if (this.getBlockingSessions(request, stillWaiting).size === 0) {
+          try {
+            const claimId = this.db.transaction(() => {
+              const claim = this.db.acquireClaim({
+                session_id: request.session_id,
+                repo_path: request.repo_path,
+                file_path: request.file_path,
+                claim_mode: request.claim_mode,
+                ttl_hours: request.ttl_hours,
+                metadata: request.reason ? { reason: request.reason } : undefined
+              });
+              if (!this.db.grantClaimRequest(request.id, claim.id)) {
+                throw new Error('Request is no longer waiting');
+              }
+              return claim.id;
+            })();
+            this.logger.info(`Granted queued ${request.claim_mode} claim on ${request.file_path} to session ${request.session_id}`);
+            granted.push({ ...request, status: 'granted', claim_id: claimId });
+            continue;
+          } catch (error) {
+            // Granted elsewhere or claimed by a session outside the queue; keep waiting
+            this.logger.debug(`Queued claim request ${request.id} not granted: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+
+        stillWaiting.push(request);
+      }
+    }
+
+    return granted;
+  }
+
   /**
    * Check if files can be claimed (pre-flight check)
+   *
+   * Requested paths may be files, directories or patterns; each is checked
+   * against every existing claim that overlaps it.
    * @returns conflicts if any
    */
   async checkClaims(params: CheckClaimsParams): Promise<CheckClaimsResult> {
     const conflicts: CheckClaimsResult['conflicts'] = [];
 
-    for (const filePath of params.filePaths) {
-      // Get active claims for this file
-      const existingClaims = this.db.listClaims({
-        repo_path: params.repoPath,
-        file_path: filePath,
-        is_active: true,
-        include_stale: false
-      });
+    // Get active claims for this repo
+    const existingClaims = this.db.listClaims({
+      repo_path: params.repoPath,
+      is_active: true,
+      include_stale: false
+    });
 
-      // Filter out own session if requested
-      const otherClaims = params.excludeSessionId
-        ? existingClaims.filter(c => c.session_id !== params.excludeSessionId)
-        : existingClaims;
+    // Filter out own session if requested
+    const otherClaims = params.excludeSessionId
+      ? existingClaims.filter(c => c.session_id !== params.excludeSessionId)
+      : existingClaims;
 
-      // Check compatibility
-      for (const existing of otherClaims) {
+    for (const filePath of params.filePaths) {
+      // Check compatibility with claims on this path or an overlapping pattern
+      for (const existing of otherClaims.filter(c => claimPathsOverlap(c.file_path, filePath))) {
         if (!this.isCompatible(params.requestedMode, existing.claim_mode)) {
+          const via = existing.file_path !== normalizeClaimPath(filePath) ? ` on ${existing.file_path}` : '';
           conflicts.push({
             filePath,
             existingClaim: existing,
-            reason: `Incompatible ${existing.claim_mode} claim held by session ${existing.session_id}`
+            reason: `Incompatible ${existing.claim_mode} claim${via} held by session ${existing.session_id}`
           });
         }
       }
@@ -204,14 +508,102 @@ export class FileClaimsManager {
     // Get all claims first
     let claims = this.db.listClaims(dbFilters);
 
-    // Filter by file paths if specified
+    // Filter by file paths if specified (claims on overlapping patterns included)
     if (filters?.filePaths && filters.filePaths.length > 0) {
-      claims = claims.filter(c => filters.filePaths?.includes(c.file_path));
+      claims = claims.filter(c => filters.filePaths?.some(filePath => claimPathsOverlap(c.file_path, filePath)));
     }
 
     return claims;
   }
 
+  /**
+   * Find changed files covered by EXCLUSIVE claims of other live sessions
+   *
+   * A session counts as live while it is registered and its heartbeat is
+   * within the stale threshold.
+   * @returns one violation per file and blocking claim
+   */
+  verifyFiles(params: VerifyFilesParams): ClaimViolation[] {
+    // No claims can exist before the v0.5 schema
+    if (!this.db.hasFileClaimsTable()) {
+      return [];
+    }
+
+    const ownSessions = new Set(params.sessionIds);
+    const staleSessions = new Set(
+      this.db.getStaleSessions(DEFAULT_CONFIG.staleThresholdMinutes).map(s => s.id)
+    );
+
+    const claims = [...new Set(params.repoPaths)]
+      .flatMap(repoPath => this.db.listClaims({
+        repo_path: repoPath,
+        claim_mode: 'EXCLUSIVE',
+        is_active: true,
+        include_stale: false
+      }))
+      .filter(c =>
+        !ownSessions.has(c.session_id) &&
+        !staleSessions.has(c.session_id) &&
+        this.db.getSessionById(c.session_id) !== null
+      );
+
+    return params.filePaths.flatMap(filePath =>
+      claims
+        .filter(c => claimPathsOverlap(c.file_path, filePath))
+        .map(claim => ({ filePath, claim }))
+    );
+  }
+
+  /**
+   * Claim a file a session is about to edit
+   *
+   * Claims are recorded under the session's main repo so that sessions in
+   * different worktrees see each other. An EXCLUSIVE claim of another live
+   * session blocks the edit; an existing claim of the session itself is reused.
+   */
+  async autoClaim(params: AutoClaimParams): Promise<AutoClaimResult> {
+    const session = this.db.getSessionById(params.sessionId);
+    if (!session) {
+      return { status: 'skipped', reason: `Session not found: ${params.sessionId}` };
+    }
+
+    const absolutePath = isAbsolute(params.filePath)
+      ? params.filePath
+      : join(session.worktree_path, params.filePath);
+    const filePath = normalizeClaimPath(relative(session.worktree_path, absolutePath));
+    if (filePath.startsWith('../') || isAbsolute(filePath)) {
+      return { status: 'skipped', reason: `${params.filePath} is outside the session worktree` };
+    }
+
+    const held = this.listClaims({ sessionId: session.id, filePaths: [filePath] });
+    if (held.length > 0) {
+      return { status: 'held', claim: held[0] };
+    }
+
+    // Claims may be recorded under the main repo or a session's worktree
+    const repoPaths = [
+      session.repo_path,
+      ...this.db.getSessionsByRepo(session.repo_path).map(s => s.worktree_path)
+    ];
+    const violations = this.verifyFiles({ repoPaths, filePaths: [filePath], sessionIds: [session.id] });
+    if (violations.length > 0) {
+      return { status: 'blocked', filePath, violations };
+    }
+
+    try {
+      const claim = await this.acquireClaim({
+        sessionId: session.id,
+        repoPath: session.repo_path,
+        filePath,
+        mode: params.mode,
+        reason: 'Auto-claimed before edit'
+      });
+      return { status: 'claimed', claim };
+    } catch (error) {
+      return { status: 'skipped', reason: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
   /**
    * Escalate claim from INTENT → SHARED → EXCLUSIVE
    * @throws ConflictError if escalation blocked
@@ -273,12 +665,136 @@ export class FileClaimsManager {
    */
   async releaseAllForSession(sessionId: string): Promise<number> {
     const released = this.db.releaseAllForSession(sessionId);
+    const cancelled = this.db.cancelClaimRequests({ session_id: sessionId }, 'Session released');
     if (released > 0) {
       this.logger.info(`Released ${released} claims for session ${sessionId}`);
     }
+    if (released > 0 || cancelled > 0) {
+      await this.processClaimQueue();
+    }
     return released;
   }
 
+  /**
+   * Claim a file after waiting in the queue
+   * @throws ConflictError if the claim was not granted in time (the request is cancelled)
+   */
+  private async acquireAfterWaiting(params: AcquireClaimParams, timeoutMs: number): Promise<FileClaim> {
+    const result = await this.requestClaim(params);
+    if (result.status === 'granted') {
+      return result.claim;
+    }
+
+    const request = await this.waitForClaim(result.request.id, { timeoutMs });
+    const claim = request.claim_id
+      ? this.db.listClaims({ session_id: params.sessionId, is_active: true }).find(c => c.id === request.claim_id)
+      : undefined;
+    if (claim) {
+      return claim;
+    }
+
+    this.db.cancelClaimRequests({ id: request.id }, 'Timed out');
+    const conflicts = await this.checkClaims({
+      repoPath: params.repoPath,
+      filePaths: [request.file_path],
+      requestedMode: params.mode,
+      excludeSessionId: params.sessionId
+    });
+    if (conflicts.available) {
+      throw new Error(`Cannot acquire ${params.mode} claim: still queued behind earlier requests after waiting ${timeoutMs}ms`);
+    }
+    throw new ConflictError(
+      `Cannot acquire ${params.mode} claim: still blocked after waiting ${timeoutMs}ms (${conflicts.conflicts[0].reason})`,
+      conflicts.conflicts[0].existingClaim
+    );
+  }
+
+  /**
+   * Waiting requests of other sessions that a new claim would jump ahead of
+   */
+  private findQueuedAhead(repoPath: string, sessionId: string, mode: ClaimMode, filePath: string): ClaimRequest[] {
+    return this.db.listClaimRequests({ repo_path: repoPath, status: 'waiting' }).filter(request =>
+      request.session_id !== sessionId &&
+      !this.isCompatible(mode, request.claim_mode) &&
+      claimPathsOverlap(request.file_path, filePath)
+    );
+  }
+
+  /**
+   * Sessions a queued request waits on: holders of conflicting claims and
+   * earlier waiting requests that conflict with it
+   */
+  private getBlockingSessions(request: ClaimRequest, waitingAhead: ClaimRequest[]): Set<string> {
+    const blockers = new Set<string>();
+    const conflicting = (mode: ClaimMode, filePath: string) =>
+      !this.isCompatible(request.claim_mode, mode) && claimPathsOverlap(filePath, request.file_path);
+
+    for (const claim of this.db.listClaims({ repo_path: request.repo_path, is_active: true })) {
+      if (claim.session_id !== request.session_id && conflicting(claim.claim_mode, claim.file_path)) {
+        blockers.add(claim.session_id);
+      }
+    }
+    for (const ahead of waitingAhead) {
+      if (ahead.session_id !== request.session_id && conflicting(ahead.claim_mode, ahead.file_path)) {
+        blockers.add(ahead.session_id);
+      }
+    }
+    return blockers;
+  }
+
+  /**
+   * Find a cycle in the wait-for graph that waiting on blockers would close
+   *
+   * @returns Session IDs from the requester back to itself, or null
+   */
+  private findWaitCycle(sessionId: string, blockers: Set<string>): string[] | null {
+    // Build the wait-for graph from the requests already waiting
+    const waitsFor = new Map<string, Set<string>>();
+    const waiting = this.db.listClaimRequests({ status: 'waiting' });
+    waiting.forEach((request, index) => {
+      const ahead = waiting.slice(0, index).filter(r => r.repo_path === request.repo_path);
+      const edges = waitsFor.get(request.session_id) ?? new Set<string>();
+      this.getBlockingSessions(request, ahead).forEach(blocker => edges.add(blocker));
+      waitsFor.set(request.session_id, edges);
+    });
+
+    // Depth-first search from each blocker back to the requester
+    const visited = new Set<string>();
+    const search = (current: string, path: string[]): string[] | null => {
+      if (current === sessionId) return path;
+      if (visited.has(current)) return null;
+      visited.add(current);
+      for (const next of waitsFor.get(current) ?? []) {
+        const cycle = search(next, [...path, next]);
+        if (cycle) return cycle;
+      }
+      return null;
+    };
+
+    for (const blocker of blockers) {
+      const cycle = search(blocker, [sessionId, blocker]);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  /**
+   * Normalize a claim path, marking existing directories with a trailing slash
+   * so the claim covers everything inside them
+   */
+  private resolveClaimPath(repoPath: string, filePath: string): string {
+    const claimPath = normalizeClaimPath(filePath);
+    if (isClaimPattern(claimPath)) {
+      return claimPath;
+    }
+    try {
+      return statSync(join(repoPath, claimPath)).isDirectory() ? `${claimPath}/` : claimPath;
+    } catch {
+      // Not on disk (yet): claim it as a file
+      return claimPath;
+    }
+  }
+
   /**
    * Check if two claim modes are compatible
    * EXCLUSIVE blocks all, SHARED allows SHARED+INTENT, INTENT allows all
@@ -2,10 +2,17 @@
  * Wrapper for gtr (git-worktree-runner) CLI commands
  */
 
-import { execSync, exec } from 'child_process';
+import { execSync, execFileSync, exec } from 'child_process';
 import { logger } from './logger.js';
 import type { GtrResult, GtrListEntry } from './types.js';
 
+/**
+ * Placeholders supported in branch name templates
+ */
+export const BRANCH_TEMPLATE_PLACEHOLDERS = ['user', 'date', 'label', 'id'] as const;
+
+export type BranchTemplateValues = Record<typeof BRANCH_TEMPLATE_PLACEHOLDERS[number], string>;
+
 export class GtrWrapper {
   private repoPath: string;
   private static gtrCommand: string | null = null;
@@ -200,6 +207,75 @@ export class GtrWrapper {
     }
   }
 
+  /**
+   * Whether a local branch exists
+   */
+  branchExists(name: string): boolean {
+    try {
+      execFileSync('git', ['show-ref', '--verify', '--quiet', `refs/heads/${name}`], {
+        cwd: this.repoPath,
+        stdio: 'pipe'
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve the ref a new worktree should start from
+   *
+   * A remote-tracking ref (e.g. origin/main) is fetched first so the worktree
+   * doesn't start from a stale copy; if the fetch fails the last fetched state
+   * is used. A ref that doesn't exist falls back to HEAD.
+   *
+   * @param ref - Configured base ref
+   * @returns Ref to create the worktree from, with a warning if it fell back
+   */
+  resolveBaseRef(ref: string): { ref: string; warning?: string } {
+    if (ref === 'HEAD') {
+      return { ref };
+    }
+
+    let warning: string | undefined;
+    const remote = this.listRemotes().find(name => ref.startsWith(`${name}/`));
+    if (remote) {
+      try {
+        execFileSync('git', ['fetch', '--quiet', remote, ref.substring(remote.length + 1)], {
+          cwd: this.repoPath,
+          stdio: 'pipe',
+          timeout: 30000,
+          env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+        });
+      } catch (err: any) {
+        warning = `Could not fetch ${ref}, using last fetched state: ${err.stderr?.toString().trim() || err.message}`;
+      }
+    }
+
+    try {
+      execFileSync('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], {
+        cwd: this.repoPath,
+        stdio: 'pipe'
+      });
+      return { ref, warning };
+    } catch {
+      return { ref: 'HEAD', warning: `Base ref ${ref} not found, using HEAD` };
+    }
+  }
+
+  /**
+   * List the names of the repository's remotes
+   */
+  private listRemotes(): string[] {
+    try {
+      return execFileSync('git', ['remote'], { cwd: this.repoPath, encoding: 'utf-8', stdio: 'pipe' })
+        .split('\n')
+        .filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Get the main repo path
    */
@@ -211,10 +287,53 @@ export class GtrWrapper {
 
   /**
    * Generate a unique worktree name
+   *
+   * With a label (session name) the name is the slugified label plus a short
+   * random suffix, e.g. `parallel-auth-refactor-k3x9`.
    */
-  static generateWorktreeName(prefix: string = 'parallel-'): string {
-    const timestamp = Date.now().toString(36);
+  static generateWorktreeName(prefix: string = 'parallel-', label?: string): string {
     const random = Math.random().toString(36).substring(2, 6);
+    const slug = label ? GtrWrapper.slugify(label) : '';
+    if (slug) {
+      return `${prefix}${slug}-${random}`;
+    }
+    const timestamp = Date.now().toString(36);
     return `${prefix}${timestamp}-${random}`;
   }
+
+  /**
+   * Build a branch name from a template such as `{user}/{date}-{label}`
+   *
+   * Placeholder values are slugified; the template's own separators are kept.
+   *
+   * @throws Error if the template uses an unknown placeholder or yields an empty name
+   */
+  static formatBranchName(template: string, values: BranchTemplateValues): string {
+    const name = template.replace(/\{([^}]*)\}/g, (_match, key: string) => {
+      if (!(BRANCH_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(key)) {
+        throw new Error(`Unknown placeholder {${key}} in branch template (use ${BRANCH_TEMPLATE_PLACEHOLDERS.map(p => `{${p}}`).join(', ')})`);
+      }
+      return GtrWrapper.slugify(values[key as keyof BranchTemplateValues]);
+    })
+      // Characters git does not allow in branch names
+      .replace(/[\s~^:?*[\\]+|\.\.|@\{/g, '-')
+      .replace(/\/{2,}/g, '/')
+      .replace(/^[-/.]+|[-/.]+$/g, '');
+
+    if (!name) {
+      throw new Error(`Branch template "${template}" produced an empty branch name`);
+    }
+    return name;
+  }
+
+  /**
+   * Turn free text into a branch-safe slug (lowercase, dash-separated, max 40 chars)
+   */
+  static slugify(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .substring(0, 40)
+      .replace(/^-+|-+$/g, '');
+  }
 }
@@ -2,10 +2,14 @@
  * Hook configuration installer for parallel-cc
  *
  * Manages installation of PostToolUse heartbeat hooks in Claude Code settings.
+ * Also manages the optional PreToolUse hook that claims files before Claude edits them.
  * Supports both global (~/.claude/settings.json) and local (.claude/settings.json) installation.
+ * Also installs the git pre-commit hook that enforces file claims, and the git hooks that
+ * trigger merge detection as soon as branch refs change.
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync, appendFileSync, copyFileSync, chmodSync } from 'fs';
+import { execSync } from 'child_process';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, appendFileSync, copyFileSync, chmodSync, unlinkSync } from 'fs';
 import { homedir } from 'os';
 import { dirname, join, resolve } from 'path';
 import { fileURLToPath } from 'url';
@@ -46,10 +50,21 @@ export interface InstallHooksOptions {
   heartbeatPath?: string;
   /** Add .claude/ to .gitignore for local installation */
   addToGitignore?: boolean;
+  /** Also install the PreToolUse hook that claims files before edits */
+  autoClaim?: boolean;
+  /** Options for the auto-claim hook */
+  autoClaimOptions?: AutoClaimHookOptions;
   /** Dry run - don't write files, just return what would be done */
   dryRun?: boolean;
 }
 
+export interface AutoClaimHookOptions {
+  /** Claim mode acquired before an edit (defaults to INTENT) */
+  mode?: 'INTENT' | 'SHARED';
+  /** Warn about EXCLUSIVE claims of other sessions instead of blocking the edit */
+  warnOnly?: boolean;
+}
+
 export interface InstallHooksResult {
   success: boolean;
   settingsPath: string;
@@ -62,6 +77,13 @@ export interface InstallHooksResult {
 
 const DEFAULT_HEARTBEAT_PATH = '~/.local/bin/parallel-cc-heartbeat.sh';
 
+/**
+ * Claude Code tools that modify files
+ */
+const AUTO_CLAIM_TOOLS = 'Edit|MultiEdit|Write|NotebookEdit';
+
+const AUTO_CLAIM_COMMAND = 'parallel-cc claims auto';
+
 /**
  * Get the path to the global Claude settings file
  */
@@ -99,6 +121,22 @@ export function createHeartbeatHook(heartbeatPath: string = DEFAULT_HEARTBEAT_PA
   };
 }
 
+/**
+ * Create the PreToolUse hook that claims files before Claude edits them
+ */
+export function createAutoClaimHook(options: AutoClaimHookOptions = {}): HookMatcher {
+  const { mode = 'INTENT', warnOnly = false } = options;
+  return {
+    matcher: AUTO_CLAIM_TOOLS,
+    hooks: [
+      {
+        type: 'command',
+        command: `${AUTO_CLAIM_COMMAND} --mode ${mode}${warnOnly ? ' --warn' : ''}`
+      }
+    ]
+  };
+}
+
 /**
  * Read and parse Claude settings from a path
  */
@@ -142,6 +180,38 @@ export function isHookInstalled(settings: ClaudeSettings | null, heartbeatPath:
   );
 }
 
+/**
+ * Check if the auto-claim hook is installed in settings
+ *
+ * @param hook - When given, the installed hook must match it exactly
+ */
+export function isAutoClaimHookInstalled(settings: ClaudeSettings | null, hook?: HookMatcher): boolean {
+  const matchers = settings?.hooks?.PreToolUse ?? [];
+  return matchers.some(matcher =>
+    hook
+      ? JSON.stringify(matcher) === JSON.stringify(hook)
+      : matcher.hooks?.some(h => h.type === 'command' && h.command.startsWith(AUTO_CLAIM_COMMAND))
+  );
+}
+
+/**
+ * Merge the auto-claim hook into existing settings, replacing an older version of it
+ */
+export function mergeAutoClaimHookIntoSettings(
+  existingSettings: ClaudeSettings | null,
+  hook: HookMatcher = createAutoClaimHook()
+): ClaudeSettings {
+  const settings: ClaudeSettings = existingSettings ? { ...existingSettings } : {};
+  settings.hooks = { ...settings.hooks };
+
+  const preToolUse = (settings.hooks.PreToolUse ?? []).filter(matcher =>
+    !matcher.hooks?.some(h => h.type === 'command' && h.command.startsWith(AUTO_CLAIM_COMMAND))
+  );
+  settings.hooks.PreToolUse = [...preToolUse, hook];
+
+  return settings;
+}
+
 /**
  * Merge the heartbeat hook into existing settings, preserving other configuration
  */
@@ -247,9 +317,13 @@ export function installHooks(options: InstallHooksOptions = {}): InstallHooksRes
     repoPath = process.cwd(),
     heartbeatPath = DEFAULT_HEARTBEAT_PATH,
     addToGitignore: shouldAddToGitignore = false,
+    autoClaim = false,
+    autoClaimOptions,
     dryRun = false
   } = options;
 
+  const autoClaimHook = autoClaim ? createAutoClaimHook(autoClaimOptions) : null;
+
   // Determine which settings file to use
   let settingsPath: string;
   if (installGlobal) {
@@ -275,7 +349,10 @@ export function installHooks(options: InstallHooksOptions = {}): InstallHooksRes
     const existingSettings = readSettings(settingsPath);
 
     // Check if already installed
-    if (isHookInstalled(existingSettings, heartbeatPath)) {
+    if (
+      isHookInstalled(existingSettings, heartbeatPath) &&
+      (!autoClaimHook || isAutoClaimHookInstalled(existingSettings, autoClaimHook))
+    ) {
       result.success = true;
       result.alreadyInstalled = true;
       return result;
@@ -285,8 +362,11 @@ export function installHooks(options: InstallHooksOptions = {}): InstallHooksRes
     result.created = existingSettings === null;
     result.merged = !result.created;
 
-    // Merge hook into settings
-    const newSettings = mergeHookIntoSettings(existingSettings, heartbeatPath);
+    // Merge hooks into settings
+    let newSettings = mergeHookIntoSettings(existingSettings, heartbeatPath);
+    if (autoClaimHook) {
+      newSettings = mergeAutoClaimHookIntoSettings(newSettings, autoClaimHook);
+    }
 
     // Write settings (unless dry run)
     if (!dryRun) {
@@ -344,7 +424,7 @@ export function uninstallHooks(options: { global?: boolean; local?: boolean; rep
   try {
     const existingSettings = readSettings(settingsPath);
 
-    if (!existingSettings || !isHookInstalled(existingSettings)) {
+    if (!existingSettings || (!isHookInstalled(existingSettings) && !isAutoClaimHookInstalled(existingSettings))) {
       // Nothing to uninstall
       result.success = true;
       return result;
@@ -362,11 +442,25 @@ export function uninstallHooks(options: { global?: boolean; local?: boolean; rep
       if (existingSettings.hooks.PostToolUse.length === 0) {
         delete existingSettings.hooks.PostToolUse;
       }
-      if (Object.keys(existingSettings.hooks).length === 0) {
-        delete existingSettings.hooks;
+    }
+
+    // Remove the auto-claim hook from PreToolUse
+    if (existingSettings.hooks?.PreToolUse) {
+      existingSettings.hooks.PreToolUse = existingSettings.hooks.PreToolUse.filter(
+        matcher => !matcher.hooks?.some(hook =>
+          hook.type === 'command' && hook.command.startsWith(AUTO_CLAIM_COMMAND)
+        )
+      );
+
+      if (existingSettings.hooks.PreToolUse.length === 0) {
+        delete existingSettings.hooks.PreToolUse;
       }
     }
 
+    if (existingSettings.hooks && Object.keys(existingSettings.hooks).length === 0) {
+      delete existingSettings.hooks;
+    }
+
     writeSettings(settingsPath, existingSettings);
     result.success = true;
     return result;
@@ -383,6 +477,8 @@ export function uninstallHooks(options: { global?: boolean; local?: boolean; rep
 export function checkHooksStatus(options: { global?: boolean; local?: boolean; repoPath?: string } = {}): {
   globalInstalled: boolean;
   localInstalled: boolean;
+  globalAutoClaim: boolean;
+  localAutoClaim: boolean;
   globalPath: string;
   localPath: string;
 } {
@@ -396,6 +492,8 @@ export function checkHooksStatus(options: { global?: boolean; local?: boolean; r
   return {
     globalInstalled: isHookInstalled(globalSettings),
     localInstalled: isHookInstalled(localSettings),
+    globalAutoClaim: isAutoClaimHookInstalled(globalSettings),
+    localAutoClaim: isAutoClaimHookInstalled(localSettings),
     globalPath,
     localPath
   };
@@ -733,11 +831,15 @@ export function checkAllStatus(repoPath?: string): {
   hooks: ReturnType<typeof checkHooksStatus>;
   alias: ReturnType<typeof checkAliasStatus>;
   mcp?: ReturnType<typeof checkMcpStatus>;
+  gitHooks?: ReturnType<typeof checkGitHooksStatus>;
+  mergeHooks?: ReturnType<typeof checkMergeHooksStatus>;
 } {
   return {
     hooks: checkHooksStatus({ repoPath }),
     alias: checkAliasStatus(),
-    mcp: checkMcpStatus()
+    mcp: checkMcpStatus(),
+    gitHooks: checkGitHooksStatus(repoPath ?? process.cwd()),
+    mergeHooks: checkMergeHooksStatus(repoPath ?? process.cwd())
   };
 }
 
@@ -978,3 +1080,335 @@ export function installWrapperScript(options: { dryRun?: boolean } = {}): Instal
     return result;
   }
 }
+
+// ============================================================================
+// Git Hook Installation (claim enforcement)
+// ============================================================================
+
+export interface InstallGitHooksOptions {
+  /** Repository or worktree path (defaults to cwd) */
+  repoPath?: string;
+  /** Warn about claimed files instead of rejecting the commit */
+  warnOnly?: boolean;
+  /** Dry run - don't write files */
+  dryRun?: boolean;
+}
+
+export interface InstallGitHooksResult {
+  success: boolean;
+  hookPath: string;
+  alreadyInstalled: boolean;
+  error?: string;
+}
+
+const GIT_HOOK_MARKER = '# parallel-cc: file claim enforcement';
+
+/**
+ * Get the hooks directory of a repository
+ *
+ * Hooks live in the common git directory, so one hook covers the main repo
+ * and all of its worktrees. Honors core.hooksPath.
+ */
+export function getGitHooksDir(repoPath: string): string {
+  const hooksPath = execSync('git rev-parse --git-path hooks', {
+    cwd: repoPath,
+    encoding: 'utf-8',
+    stdio: 'pipe'
+  }).trim();
+  return resolve(repoPath, hooksPath);
+}
+
+/**
+ * Generate the pre-commit hook script
+ */
+export function generatePreCommitHook(warnOnly: boolean = false): string {
+  return [
+    '#!/bin/sh',
+    GIT_HOOK_MARKER,
+    '# Installed by `parallel-cc install --git-hooks`; remove with `parallel-cc install --git-hooks --uninstall`.',
+    '# Bypass once with PARALLEL_CC_SKIP_CLAIMS=1 git commit ... (or git commit --no-verify).',
+    'if ! command -v parallel-cc >/dev/null 2>&1; then',
+    '  echo "parallel-cc not found in PATH; skipping file claim check" >&2',
+    '  exit 0',
+    'fi',
+    `exec parallel-cc claims verify --staged${warnOnly ? ' --warn' : ''}`,
+    ''
+  ].join('\n');
+}
+
+/**
+ * Check if a hook script was installed by parallel-cc
+ */
+export function isGitHookInstalled(hookPath: string, marker: string = GIT_HOOK_MARKER): boolean {
+  if (!existsSync(hookPath)) {
+    return false;
+  }
+
+  try {
+    return readFileSync(hookPath, 'utf-8').includes(marker);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Install the pre-commit hook that verifies staged files against file claims
+ *
+ * An existing pre-commit hook that parallel-cc did not install is left alone.
+ */
+export function installGitHooks(options: InstallGitHooksOptions = {}): InstallGitHooksResult {
+  const { repoPath = process.cwd(), warnOnly = false, dryRun = false } = options;
+
+  const result: InstallGitHooksResult = {
+    success: false,
+    hookPath: '',
+    alreadyInstalled: false
+  };
+
+  try {
+    const hooksDir = getGitHooksDir(repoPath);
+    const hookPath = join(hooksDir, 'pre-commit');
+    result.hookPath = hookPath;
+
+    const script = generatePreCommitHook(warnOnly);
+
+    if (existsSync(hookPath)) {
+      if (!isGitHookInstalled(hookPath)) {
+        result.error = `A pre-commit hook already exists at ${hookPath}. Add "parallel-cc claims verify --staged" to it manually.`;
+        return result;
+      }
+      if (readFileSync(hookPath, 'utf-8') === script) {
+        result.success = true;
+        result.alreadyInstalled = true;
+        return result;
+      }
+    }
+
+    if (!dryRun) {
+      mkdirSync(hooksDir, { recursive: true });
+      writeFileSync(hookPath, script, 'utf-8');
+      chmodSync(hookPath, 0o755); // rwxr-xr-x
+    }
+
+    result.success = true;
+    return result;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+    return result;
+  }
+}
+
+/**
+ * Remove the parallel-cc pre-commit hook
+ */
+export function uninstallGitHooks(options: { repoPath?: string } = {}): InstallGitHooksResult {
+  const { repoPath = process.cwd() } = options;
+
+  const result: InstallGitHooksResult = {
+    success: false,
+    hookPath: '',
+    alreadyInstalled: false
+  };
+
+  try {
+    const hookPath = join(getGitHooksDir(repoPath), 'pre-commit');
+    result.hookPath = hookPath;
+
+    // Only remove the hook if parallel-cc installed it
+    if (isGitHookInstalled(hookPath)) {
+      unlinkSync(hookPath);
+    }
+
+    result.success = true;
+    return result;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+    return result;
+  }
+}
+
+/**
+ * Check git hook installation status
+ */
+export function checkGitHooksStatus(repoPath: string): {
+  installed: boolean;
+  hookPath: string | null;
+  warnOnly: boolean;
+} {
+  try {
+    const hookPath = join(getGitHooksDir(repoPath), 'pre-commit');
+    const installed = isGitHookInstalled(hookPath);
+    return {
+      installed,
+      hookPath,
+      warnOnly: installed && readFileSync(hookPath, 'utf-8').includes('--warn')
+    };
+  } catch {
+    // Not a git repository
+    return { installed: false, hookPath: null, warnOnly: false };
+  }
+}
+
+// ============================================================================
+// Git Hook Installation (merge detection)
+// ============================================================================
+
+export interface InstallMergeHooksOptions {
+  /** Repository or worktree path (defaults to cwd) */
+  repoPath?: string;
+  /** Dry run - don't write files */
+  dryRun?: boolean;
+}
+
+export interface InstallMergeHooksResult {
+  success: boolean;
+  hookPaths: string[];
+  alreadyInstalled: boolean;
+  error?: string;
+}
+
+const MERGE_HOOK_MARKER = '# parallel-cc: merge detection';
+
+/**
+ * Git hooks that report ref changes to merge detection
+ *
+ * reference-transaction (git 2.28+) sees every branch update, including
+ * fetches and fast-forwards; post-merge covers older git versions.
+ */
+export const MERGE_HOOK_NAMES = ['reference-transaction', 'post-merge'] as const;
+
+export type MergeHookName = typeof MERGE_HOOK_NAMES[number];
+
+/**
+ * Generate a merge detection hook script
+ *
+ * The check runs in the background so git is never slowed down or blocked.
+ */
+export function generateMergeHook(hookName: MergeHookName): string {
+  const header = [
+    '#!/bin/sh',
+    MERGE_HOOK_MARKER,
+    '# Installed by `parallel-cc install --merge-hooks`; remove with `parallel-cc install --merge-hooks --uninstall`.',
+    'command -v parallel-cc >/dev/null 2>&1 || exit 0'
+  ];
+
+  const body = hookName === 'reference-transaction'
+    ? [
+        '# Check merge subscriptions for the branch refs this transaction updated',
+        '[ "$1" = "committed" ] || exit 0',
+        'refs=$(awk \'$3 ~ /^refs\\/(heads|remotes)\\// { print $3 }\')',
+        '[ -n "$refs" ] || exit 0'
+      ]
+    : [
+        '# Check merge subscriptions for the branch that was merged into',
+        'refs=$(git symbolic-ref -q HEAD) || exit 0'
+      ];
+
+  return [
+    ...header,
+    ...body,
+    '(parallel-cc merge check --repo "$PWD" $refs </dev/null >/dev/null 2>&1 &)',
+    'exit 0',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Install the git hooks that trigger merge detection when branch refs change
+ *
+ * Nothing is written if any of the hooks already exists without parallel-cc
+ * having installed it.
+ */
+export function installMergeHooks(options: InstallMergeHooksOptions = {}): InstallMergeHooksResult {
+  const { repoPath = process.cwd(), dryRun = false } = options;
+
+  const result: InstallMergeHooksResult = {
+    success: false,
+    hookPaths: [],
+    alreadyInstalled: false
+  };
+
+  try {
+    const hooksDir = getGitHooksDir(repoPath);
+    const hooks = MERGE_HOOK_NAMES.map(name => ({
+      hookPath: join(hooksDir, name),
+      script: generateMergeHook(name)
+    }));
+    result.hookPaths = hooks.map(hook => hook.hookPath);
+
+    const foreign = hooks.find(hook => existsSync(hook.hookPath) && !isGitHookInstalled(hook.hookPath, MERGE_HOOK_MARKER));
+    if (foreign) {
+      result.error = `A git hook already exists at ${foreign.hookPath}. Add "parallel-cc merge check --repo \"$PWD\"" to it manually.`;
+      return result;
+    }
+
+    const outdated = hooks.filter(hook => !existsSync(hook.hookPath) || readFileSync(hook.hookPath, 'utf-8') !== hook.script);
+    if (outdated.length === 0) {
+      result.success = true;
+      result.alreadyInstalled = true;
+      return result;
+    }
+
+    if (!dryRun) {
+      mkdirSync(hooksDir, { recursive: true });
+      for (const hook of outdated) {
+        writeFileSync(hook.hookPath, hook.script, 'utf-8');
+        chmodSync(hook.hookPath, 0o755); // rwxr-xr-x
+      }
+    }
+
+    result.success = true;
+    return result;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+    return result;
+  }
+}
+
+/**
+ * Remove the parallel-cc merge detection hooks
+ */
+export function uninstallMergeHooks(options: { repoPath?: string } = {}): InstallMergeHooksResult {
+  const { repoPath = process.cwd() } = options;
+
+  const result: InstallMergeHooksResult = {
+    success: false,
+    hookPaths: [],
+    alreadyInstalled: false
+  };
+
+  try {
+    const hooksDir = getGitHooksDir(repoPath);
+    for (const name of MERGE_HOOK_NAMES) {
+      const hookPath = join(hooksDir, name);
+      // Only remove hooks parallel-cc installed
+      if (isGitHookInstalled(hookPath, MERGE_HOOK_MARKER)) {
+        unlinkSync(hookPath);
+        result.hookPaths.push(hookPath);
+      }
+    }
+
+    result.success = true;
+    return result;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+    return result;
+  }
+}
+
+/**
+ * Check merge detection hook installation status
+ */
+export function checkMergeHooksStatus(repoPath: string): {
+  installed: boolean;
+  hooks: MergeHookName[];
+} {
+  try {
+    const hooksDir = getGitHooksDir(repoPath);
+    const hooks = MERGE_HOOK_NAMES.filter(name => isGitHookInstalled(join(hooksDir, name), MERGE_HOOK_MARKER));
+    return { installed: hooks.length > 0, hooks };
+  } catch {
+    // Not a git repository
+    return { installed: false, hooks: [] };
+  }
+}
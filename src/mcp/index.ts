@@ -24,6 +24,8 @@ import {
   GetMergeEventsOutputSchema,
   ClaimFileInputSchema,
   ClaimFileOutputSchema,
+  WaitForClaimInputSchema,
+  WaitForClaimOutputSchema,
   ReleaseFileInputSchema,
   ReleaseFileOutputSchema,
   ListFileClaimsInputSchema,
@@ -35,7 +37,13 @@ import {
   ApplyAutoFixInputSchema,
   ApplyAutoFixOutputSchema,
   ConflictHistoryInputSchema,
-  ConflictHistoryOutputSchema
+  ConflictHistoryOutputSchema,
+  ListParallelBatchesInputSchema,
+  ListParallelBatchesOutputSchema,
+  GetParallelBatchInputSchema,
+  GetParallelBatchOutputSchema,
+  CancelParallelBatchInputSchema,
+  CancelParallelBatchOutputSchema
 } from './schemas.js';
 import {
   getParallelStatus,
@@ -46,12 +54,16 @@ import {
   rebaseAssist,
   getMergeEvents,
   claimFile,
+  waitForClaim,
   releaseFile,
   listFileClaims,
   detectAdvancedConflicts,
   getAutoFixSuggestions,
   applyAutoFix,
-  conflictHistory
+  conflictHistory,
+  listParallelBatches,
+  getParallelBatch,
+  cancelParallelBatch
 } from './tools.js';
 
 /**
@@ -68,7 +80,7 @@ export function createMcpServer(): McpServer {
     'get_parallel_status',
     {
       title: 'Get Parallel Status',
-      description: 'Get status of all parallel Claude Code sessions in this repository. Returns information about active sessions including their PIDs, worktree paths, and whether processes are still alive.',
+      description: 'Get status of all parallel Claude Code sessions in this repository. Returns information about active sessions including their names, PIDs, worktree paths, whether processes are still alive, and files being modified in more than one worktree (overlaps) before they turn into merge conflicts.',
       inputSchema: GetParallelStatusInputSchema,
       outputSchema: GetParallelStatusOutputSchema
     },
@@ -104,7 +116,7 @@ export function createMcpServer(): McpServer {
     'notify_when_merged',
     {
       title: 'Watch Branch for Merge',
-      description: 'Subscribe to be notified when a branch is merged to main. Creates a subscription that the merge detection daemon will check. Requires running in a parallel-cc managed session.',
+      description: 'Subscribe to be notified when a branch is merged to main. Creates a subscription that the merge detection daemon will check; with autoRebase, the session worktree is rebased onto the target after the merge. Requires running in a parallel-cc managed session.',
       inputSchema: NotifyWhenMergedInputSchema,
       outputSchema: NotifyWhenMergedOutputSchema
     },
@@ -194,7 +206,7 @@ export function createMcpServer(): McpServer {
     'claim_file',
     {
       title: 'Claim File',
-      description: 'Acquire a claim on a file to prevent concurrent edits. Supports EXCLUSIVE (blocks all), SHARED (allows read), and INTENT (non-blocking) modes. Requires running in a parallel-cc managed session.',
+      description: 'Acquire a claim on a file, directory (src/auth/) or glob pattern (src/auth/**) to prevent concurrent edits. Supports EXCLUSIVE (blocks all), SHARED (allows read), and INTENT (non-blocking) modes. With wait: true a conflicting claim is queued and granted in FIFO order when released (requests that would deadlock are refused). Requires running in a parallel-cc managed session.',
       inputSchema: ClaimFileInputSchema,
       outputSchema: ClaimFileOutputSchema
     },
@@ -207,6 +219,24 @@ export function createMcpServer(): McpServer {
     }
   );
 
+  // Register wait_for_claim tool
+  server.registerTool(
+    'wait_for_claim',
+    {
+      title: 'Wait For Claim',
+      description: 'Keep waiting for a claim request queued by claim_file with wait: true. Returns the claim ID once the conflicting claim is released or its session goes stale, or the request status on timeout.',
+      inputSchema: WaitForClaimInputSchema,
+      outputSchema: WaitForClaimOutputSchema
+    },
+    async (input) => {
+      const output = await waitForClaim(input);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output
+      };
+    }
+  );
+
   // Register release_file tool (v0.5)
   server.registerTool(
     'release_file',
@@ -230,7 +260,7 @@ export function createMcpServer(): McpServer {
     'list_file_claims',
     {
       title: 'List File Claims',
-      description: 'List all active file claims with optional filters (file paths, session ID, include expired). Shows who has claimed which files and when claims expire.',
+      description: 'List all active file claims with optional filters (file paths or patterns, session ID or name, include expired). A file path filter also returns directory and pattern claims covering it. Shows who has claimed which files and when claims expire.',
       inputSchema: ListFileClaimsInputSchema,
       outputSchema: ListFileClaimsOutputSchema
     },
@@ -315,6 +345,60 @@ export function createMcpServer(): McpServer {
     }
   );
 
+  // Register list_parallel_batches tool (v2.1)
+  server.registerTool(
+    'list_parallel_batches',
+    {
+      title: 'List Parallel Batches',
+      description: 'List parallel sandbox batches (sandbox run --multi), newest first, with their status and how many tasks have finished or failed.',
+      inputSchema: ListParallelBatchesInputSchema,
+      outputSchema: ListParallelBatchesOutputSchema
+    },
+    async (input) => {
+      const output = await listParallelBatches(input);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output
+      };
+    }
+  );
+
+  // Register get_parallel_batch tool (v2.1)
+  server.registerTool(
+    'get_parallel_batch',
+    {
+      title: 'Get Parallel Batch',
+      description: 'Get per-task status of a parallel sandbox batch: status, duration, cost estimate, files changed and error of each sub-task. Use this to watch sub-tasks you launched.',
+      inputSchema: GetParallelBatchInputSchema,
+      outputSchema: GetParallelBatchOutputSchema
+    },
+    async (input) => {
+      const output = await getParallelBatch(input);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output
+      };
+    }
+  );
+
+  // Register cancel_parallel_batch tool (v2.1)
+  server.registerTool(
+    'cancel_parallel_batch',
+    {
+      title: 'Cancel Parallel Batch',
+      description: 'Cancel a running parallel sandbox batch. Terminates the sandboxes of running tasks and marks unfinished tasks cancelled.',
+      inputSchema: CancelParallelBatchInputSchema,
+      outputSchema: CancelParallelBatchOutputSchema
+    },
+    async (input) => {
+      const output = await cancelParallelBatch(input);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        structuredContent: output
+      };
+    }
+  );
+
   return server;
 }
 
@@ -338,10 +422,14 @@ export {
   rebaseAssist,
   getMergeEvents,
   claimFile,
+  waitForClaim,
   releaseFile,
   listFileClaims,
   detectAdvancedConflicts,
   getAutoFixSuggestions,
   applyAutoFix,
-  conflictHistory
+  conflictHistory,
+  listParallelBatches,
+  getParallelBatch,
+  cancelParallelBatch
 };
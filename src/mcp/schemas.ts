@@ -13,6 +13,7 @@ export const GetParallelStatusInputSchema = {
 };
 
 export const SessionInfoSchema = z.object({
+  name: z.string().nullable().optional().describe('Session name given at registration (register --name)'),
   pid: z.number(),
   worktreePath: z.string(),
   worktreeName: z.string().nullable(),
@@ -21,9 +22,20 @@ export const SessionInfoSchema = z.object({
   isAlive: z.boolean()
 });
 
+export const WorktreeOverlapSchema = z.object({
+  filePath: z.string(),
+  sessions: z.array(z.object({
+    pid: z.number(),
+    worktreePath: z.string(),
+    worktreeName: z.string().nullable()
+  }))
+});
+
 export const GetParallelStatusOutputSchema = {
   sessions: z.array(SessionInfoSchema),
-  totalSessions: z.number()
+  totalSessions: z.number(),
+  overlaps: z.array(WorktreeOverlapSchema).optional()
+    .describe('Files modified (committed or not) in more than one active worktree')
 };
 
 export type GetParallelStatusInput = {
@@ -32,6 +44,7 @@ export type GetParallelStatusInput = {
 
 export type GetParallelStatusOutput = {
   sessions: Array<{
+    name: string | null;
     pid: number;
     worktreePath: string;
     worktreeName: string | null;
@@ -40,6 +53,14 @@ export type GetParallelStatusOutput = {
     isAlive: boolean;
   }>;
   totalSessions: number;
+  overlaps?: Array<{
+    filePath: string;
+    sessions: Array<{
+      pid: number;
+      worktreePath: string;
+      worktreeName: string | null;
+    }>;
+  }>;
 };
 
 // ============================================================================
@@ -52,6 +73,7 @@ export const GetMySessionInputSchema = {
 
 export const GetMySessionOutputSchema = {
   sessionId: z.string().nullable(),
+  sessionName: z.string().nullable().optional(),
   worktreePath: z.string().nullable(),
   worktreeName: z.string().nullable(),
   isMainRepo: z.boolean().nullable(),
@@ -62,6 +84,7 @@ export const GetMySessionOutputSchema = {
 
 export type GetMySessionOutput = {
   sessionId: string | null;
+  sessionName: string | null;
   worktreePath: string | null;
   worktreeName: string | null;
   isMainRepo: boolean | null;
@@ -76,7 +99,8 @@ export type GetMySessionOutput = {
 
 export const NotifyWhenMergedInputSchema = {
   branch: z.string().describe('Branch name to watch for merge'),
-  targetBranch: z.string().optional().default('main').describe('Target branch (default: main)')
+  targetBranch: z.string().optional().default('main').describe('Target branch (default: main)'),
+  autoRebase: z.boolean().optional().default(false).describe('Once merged, rebase this session\'s worktree onto the target if it is clean and would not conflict')
 };
 
 export const NotifyWhenMergedOutputSchema = {
@@ -87,6 +111,7 @@ export const NotifyWhenMergedOutputSchema = {
 export type NotifyWhenMergedInput = {
   branch: string;
   targetBranch?: string;
+  autoRebase?: boolean;
 };
 
 export type NotifyWhenMergedOutput = {
@@ -104,7 +129,8 @@ export const MergeEventInfoSchema = z.object({
   sourceCommit: z.string(),
   targetCommit: z.string(),
   mergedAt: z.string(),
-  detectedAt: z.string()
+  detectedAt: z.string(),
+  mergeStyle: z.enum(['merge', 'squash', 'rebase']).nullable().describe('How the branch was merged (null if recorded before merge styles were tracked)')
 });
 
 export const CheckMergeStatusInputSchema = {
@@ -124,6 +150,7 @@ export type MergeEventInfo = {
   targetCommit: string;
   mergedAt: string;
   detectedAt: string;
+  mergeStyle: 'merge' | 'squash' | 'rebase' | null;
 };
 
 export type CheckMergeStatusInput = {
@@ -225,15 +252,18 @@ export type GetMergeEventsOutput = {
 // ============================================================================
 
 export const ClaimFileInputSchema = {
-  filePath: z.string().describe('Relative path from repository root'),
+  filePath: z.string().describe('Relative path from repository root: a file, a directory (trailing slash) or a glob pattern such as src/auth/**'),
   mode: z.enum(['EXCLUSIVE', 'SHARED', 'INTENT']).default('EXCLUSIVE').describe('Claim mode: EXCLUSIVE blocks all, SHARED allows read, INTENT is non-blocking'),
-  reason: z.string().optional().describe('Why claiming this file'),
-  ttlHours: z.number().min(1).max(72).default(24).describe('Time-to-live in hours (default: 24)')
+  reason: z.string().optional().describe('Why claiming this file or pattern'),
+  ttlHours: z.number().min(1).max(72).default(24).describe('Time-to-live in hours (default: 24)'),
+  wait: z.boolean().default(false).describe('Queue the request instead of failing if the file is claimed; granted in FIFO order when released'),
+  waitTimeoutSeconds: z.number().min(0).max(300).default(30).describe('How long to wait before returning the queued request ID (default: 30)')
 };
 
 export const ConflictingClaimSchema = z.object({
   claimId: z.string(),
   sessionId: z.string(),
+  sessionName: z.string().nullable().optional(),
   mode: z.string(),
   claimedAt: z.string(),
   expiresAt: z.string()
@@ -244,7 +274,10 @@ export const ClaimFileOutputSchema = {
   claimId: z.string().nullable(),
   message: z.string(),
   conflictingClaims: z.array(ConflictingClaimSchema).optional(),
-  escalationAvailable: z.boolean().optional()
+  escalationAvailable: z.boolean().optional(),
+  requestId: z.string().optional(),
+  queuePosition: z.number().optional(),
+  deadlockSessions: z.array(z.string()).optional()
 };
 
 export type ClaimFileInput = {
@@ -252,6 +285,8 @@ export type ClaimFileInput = {
   mode?: 'EXCLUSIVE' | 'SHARED' | 'INTENT';
   reason?: string;
   ttlHours?: number;
+  wait?: boolean;
+  waitTimeoutSeconds?: number;
 };
 
 export type ClaimFileOutput = {
@@ -261,11 +296,47 @@ export type ClaimFileOutput = {
   conflictingClaims?: Array<{
     claimId: string;
     sessionId: string;
+    sessionName?: string | null;
     mode: string;
     claimedAt: string;
     expiresAt: string;
   }>;
   escalationAvailable?: boolean;
+  /** Queued request still waiting (pass to wait_for_claim) */
+  requestId?: string;
+  queuePosition?: number;
+  /** Sessions that would wait on each other if the request were queued */
+  deadlockSessions?: string[];
+};
+
+// ============================================================================
+// wait_for_claim schemas
+// ============================================================================
+
+export const WaitForClaimInputSchema = {
+  requestId: z.string().uuid().describe('Queued request ID from claim_file'),
+  timeoutSeconds: z.number().min(0).max(300).default(30).describe('How long to wait (default: 30)'),
+  cancelOnTimeout: z.boolean().default(false).describe('Give up the queued request if it is not granted in time')
+};
+
+export const WaitForClaimOutputSchema = {
+  success: z.boolean(),
+  status: z.enum(['waiting', 'granted', 'cancelled']).nullable(),
+  claimId: z.string().nullable(),
+  message: z.string()
+};
+
+export type WaitForClaimInput = {
+  requestId: string;
+  timeoutSeconds?: number;
+  cancelOnTimeout?: boolean;
+};
+
+export type WaitForClaimOutput = {
+  success: boolean;
+  status: 'waiting' | 'granted' | 'cancelled' | null;
+  claimId: string | null;
+  message: string;
 };
 
 // ============================================================================
@@ -299,8 +370,8 @@ export type ReleaseFileOutput = {
 // ============================================================================
 
 export const ListFileClaimsInputSchema = {
-  filePaths: z.array(z.string()).optional().describe('Filter by specific file paths'),
-  sessionId: z.string().optional().describe('Filter by session ID'),
+  filePaths: z.array(z.string()).optional().describe('Filter by file paths or patterns (matches overlapping claims)'),
+  sessionId: z.string().optional().describe('Filter by session ID or name'),
   includeExpired: z.boolean().default(false).describe('Include expired claims')
 };
 
@@ -309,6 +380,7 @@ export const FileClaimInfoSchema = z.object({
   filePath: z.string(),
   claimMode: z.enum(['EXCLUSIVE', 'SHARED', 'INTENT']),
   sessionId: z.string(),
+  sessionName: z.string().nullable().optional(),
   sessionPid: z.number(),
   worktreeName: z.string().nullable(),
   claimedAt: z.string(),
@@ -334,6 +406,7 @@ export type ListFileClaimsOutput = {
     filePath: string;
     claimMode: 'EXCLUSIVE' | 'SHARED' | 'INTENT';
     sessionId: string;
+    sessionName: string | null;
     sessionPid: number;
     worktreeName: string | null;
     claimedAt: string;
@@ -569,6 +642,7 @@ export const ConflictResolutionHistorySchema = z.object({
   filePath: z.string(),
   conflictType: z.string(),
   resolutionStrategy: z.string(),
+  action: z.string().optional().describe('AUTO_REBASE for outcomes logged by auto-rebase'),
   confidence: z.number().optional(),
   detectedAt: z.string(),
   resolvedAt: z.string().optional(),
@@ -611,6 +685,7 @@ export type ConflictHistoryOutput = {
     filePath: string;
     conflictType: string;
     resolutionStrategy: string;
+    action?: string;
     confidence?: number;
     detectedAt: string;
     resolvedAt?: string;
@@ -631,3 +706,126 @@ export type ConflictHistoryOutput = {
     total: number;
   };
 };
+
+// ============================================================================
+// Parallel batch schemas (v2.1)
+// ============================================================================
+
+const ParallelBatchStatusSchema = z.enum(['running', 'completed', 'failed', 'cancelled']);
+const ParallelTaskStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']);
+
+export const ListParallelBatchesInputSchema = {
+  repoPath: z.string().optional().describe('Filter by repository path'),
+  status: ParallelBatchStatusSchema.optional().describe('Filter by batch status'),
+  limit: z.number().min(1).max(100).default(20).describe('Maximum batches to return')
+};
+
+export const ParallelBatchInfoSchema = z.object({
+  batchId: z.string(),
+  repoPath: z.string(),
+  status: ParallelBatchStatusSchema,
+  totalTasks: z.number(),
+  finishedTasks: z.number(),
+  failedTasks: z.number(),
+  createdAt: z.string(),
+  completedAt: z.string().optional()
+});
+
+export const ListParallelBatchesOutputSchema = {
+  batches: z.array(ParallelBatchInfoSchema),
+  total: z.number()
+};
+
+export type ListParallelBatchesInput = {
+  repoPath?: string;
+  status?: 'running' | 'completed' | 'failed' | 'cancelled';
+  limit?: number;
+};
+
+export type ParallelBatchInfo = {
+  batchId: string;
+  repoPath: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  totalTasks: number;
+  finishedTasks: number;
+  failedTasks: number;
+  createdAt: string;
+  completedAt?: string;
+};
+
+export type ListParallelBatchesOutput = {
+  batches: ParallelBatchInfo[];
+  total: number;
+};
+
+export const GetParallelBatchInputSchema = {
+  batchId: z.string().describe('Batch ID (printed when the batch starts)')
+};
+
+export const ParallelBatchTaskInfoSchema = z.object({
+  taskId: z.string(),
+  prompt: z.string(),
+  dependsOn: z.array(z.string()),
+  status: ParallelTaskStatusSchema,
+  sandboxId: z.string().optional(),
+  durationMs: z.number().optional(),
+  filesChanged: z.number(),
+  costEstimate: z.number().optional(),
+  outputPath: z.string(),
+  error: z.string().optional()
+});
+
+export const GetParallelBatchOutputSchema = {
+  found: z.boolean(),
+  batch: ParallelBatchInfoSchema.optional(),
+  tasks: z.array(ParallelBatchTaskInfoSchema),
+  totalCost: z.number()
+};
+
+export type GetParallelBatchInput = {
+  batchId: string;
+};
+
+export type GetParallelBatchOutput = {
+  found: boolean;
+  batch?: ParallelBatchInfo;
+  tasks: Array<{
+    taskId: string;
+    prompt: string;
+    dependsOn: string[];
+    status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+    sandboxId?: string;
+    durationMs?: number;
+    filesChanged: number;
+    costEstimate?: number;
+    outputPath: string;
+    error?: string;
+  }>;
+  totalCost: number;
+};
+
+export const CancelParallelBatchInputSchema = {
+  batchId: z.string().describe('Batch ID to cancel')
+};
+
+export const CancelParallelBatchOutputSchema = {
+  success: z.boolean(),
+  batchId: z.string(),
+  cancelledTasks: z.array(z.string()),
+  terminatedSandboxes: z.array(z.string()),
+  errors: z.array(z.string()),
+  error: z.string().optional()
+};
+
+export type CancelParallelBatchInput = {
+  batchId: string;
+};
+
+export type CancelParallelBatchOutput = {
+  success: boolean;
+  batchId: string;
+  cancelledTasks: string[];
+  terminatedSandboxes: string[];
+  errors: string[];
+  error?: string;
+};
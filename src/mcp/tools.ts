@@ -4,12 +4,16 @@
 
 import { Coordinator } from '../coordinator.js';
 import { SessionDB } from '../db.js';
-import { FileClaimsManager, ConflictError } from '../file-claims.js';
+import { FileClaimsManager, ConflictError, ClaimDeadlockError } from '../file-claims.js';
 import { ConflictDetector } from '../conflict-detector.js';
+import { OverlapWatcher } from '../overlap-watcher.js';
 import { ASTAnalyzer } from '../ast-analyzer.js';
 import { AutoFixEngine } from '../auto-fix-engine.js';
 import { ConfidenceScorer } from '../confidence-scorer.js';
 import { createDefaultStrategyChain } from '../merge-strategies.js';
+import { SandboxManager } from '../e2b/sandbox-manager.js';
+import { createSandboxProvider } from '../e2b/sandbox-provider.js';
+import { cancelParallelBatch as cancelBatch, getBatchTaskDuration } from '../e2b/parallel-executor.js';
 import { logger as defaultLogger } from '../logger.js';
 import { execSync } from 'child_process';
 import { promises as fs } from 'fs';
@@ -43,6 +47,8 @@ import type {
   RebaseAssistOutput,
   ClaimFileInput,
   ClaimFileOutput,
+  WaitForClaimInput,
+  WaitForClaimOutput,
   ReleaseFileInput,
   ReleaseFileOutput,
   ListFileClaimsInput,
@@ -54,8 +60,16 @@ import type {
   ApplyAutoFixInput,
   ApplyAutoFixOutput,
   ConflictHistoryInput,
-  ConflictHistoryOutput
+  ConflictHistoryOutput,
+  ListParallelBatchesInput,
+  ListParallelBatchesOutput,
+  ParallelBatchInfo,
+  GetParallelBatchInput,
+  GetParallelBatchOutput,
+  CancelParallelBatchInput,
+  CancelParallelBatchOutput
 } from './schemas.js';
+import type { ParallelBatch } from '../types.js';
 
 /**
  * Get status of all parallel sessions in a repository
@@ -68,8 +82,26 @@ export async function getParallelStatus(
     const repoPath = input.repo_path || process.cwd();
     const result = coordinator.status(repoPath);
 
+    // Files being modified in more than one worktree
+    let overlaps: GetParallelStatusOutput['overlaps'] = [];
+    if (result.totalSessions > 1) {
+      try {
+        overlaps = new OverlapWatcher(coordinator.getDB()).detectOverlaps(result.repoPath).map(o => ({
+          filePath: o.filePath,
+          sessions: o.sessions.map(s => ({
+            pid: s.pid,
+            worktreePath: s.worktreePath,
+            worktreeName: s.worktreeName
+          }))
+        }));
+      } catch (error) {
+        defaultLogger.debug(`Overlap detection failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
     return {
       sessions: result.sessions.map(s => ({
+        name: s.name,
         pid: s.pid,
         worktreePath: s.worktreePath,
         worktreeName: s.worktreeName,
@@ -77,7 +109,8 @@ export async function getParallelStatus(
         durationMinutes: s.durationMinutes,
         isAlive: s.isAlive
       })),
-      totalSessions: result.totalSessions
+      totalSessions: result.totalSessions,
+      overlaps
     };
   } finally {
     coordinator.close();
@@ -94,6 +127,7 @@ export async function getMySession(): Promise<GetMySessionOutput> {
   if (!sessionId) {
     return {
       sessionId: null,
+      sessionName: null,
       worktreePath: null,
       worktreeName: null,
       isMainRepo: null,
@@ -112,6 +146,7 @@ export async function getMySession(): Promise<GetMySessionOutput> {
     if (!mySession) {
       return {
         sessionId,
+        sessionName: null,
         worktreePath: null,
         worktreeName: null,
         isMainRepo: null,
@@ -128,6 +163,7 @@ export async function getMySession(): Promise<GetMySessionOutput> {
 
     return {
       sessionId: mySession.sessionId,
+      sessionName: mySession.name,
       worktreePath: mySession.worktreePath,
       worktreeName: mySession.worktreeName,
       isMainRepo: mySession.isMainRepo,
@@ -171,7 +207,7 @@ export async function notifyWhenMerged(
     const targetBranch = input.targetBranch || 'main';
 
     // Create subscription in database
-    const result = coordinator.subscribeToMerge(sessionId, input.branch, targetBranch);
+    const result = coordinator.subscribeToMerge(sessionId, input.branch, targetBranch, input.autoRebase ?? false);
 
     if (!result.success) {
       return {
@@ -183,7 +219,8 @@ export async function notifyWhenMerged(
     return {
       subscribed: true,
       message: `Subscribed to merge notifications for branch '${input.branch}' -> '${targetBranch}'. ` +
-        `You will be notified when this branch is merged via the PostToolUse hook.`
+        `You will be notified when this branch is merged via the PostToolUse hook.` +
+        (input.autoRebase ? ` Your worktree will then be rebased onto '${targetBranch}' if it is clean and would not conflict.` : '')
     };
   } finally {
     coordinator.close();
@@ -212,9 +249,10 @@ export async function checkMergeStatus(
           sourceCommit: event.source_commit,
           targetCommit: event.target_commit,
           mergedAt: event.merged_at,
-          detectedAt: event.detected_at
+          detectedAt: event.detected_at,
+          mergeStyle: event.merge_style
         },
-        message: `Branch '${input.branch}' was merged to '${event.target_branch}' at ${event.merged_at}`
+        message: `Branch '${input.branch}' was ${event.merge_style ? `${event.merge_style} ` : ''}merged to '${event.target_branch}' at ${event.merged_at}`
       };
     }
 
@@ -250,7 +288,8 @@ export async function getMergeEvents(
         sourceCommit: e.source_commit,
         targetCommit: e.target_commit,
         mergedAt: e.merged_at,
-        detectedAt: e.detected_at
+        detectedAt: e.detected_at,
+        mergeStyle: e.merge_style
       })),
       total: allEvents.length
     };
@@ -511,21 +550,67 @@ export async function claimFile(
     const fileClaimsManager = new FileClaimsManager(coordinator.getDB(), defaultLogger);
 
     try {
-      const claim = await fileClaimsManager.acquireClaim({
+      const params = {
         sessionId,
         repoPath,
         filePath: input.filePath,
         mode: input.mode || 'EXCLUSIVE',
         reason: input.reason,
         ttlHours: input.ttlHours
-      });
+      } as const;
+
+      if (input.wait) {
+        // Queue behind conflicting claims and wait for the grant
+        const result = await fileClaimsManager.requestClaim(params);
+        const request = result.status === 'waiting'
+          ? await fileClaimsManager.waitForClaim(result.request.id, {
+              timeoutMs: (input.waitTimeoutSeconds ?? 30) * 1000
+            })
+          : null;
+        const claimId = result.status === 'granted' ? result.claim.id : request?.claim_id;
+
+        if (claimId) {
+          return {
+            success: true,
+            claimId,
+            message: `Successfully acquired ${params.mode} claim on ${input.filePath}${request ? ' after waiting' : ''}`
+          };
+        }
+
+        if (result.status === 'waiting' && request?.status === 'waiting') {
+          const position = fileClaimsManager.getQueuePosition(request.id);
+          return {
+            success: false,
+            claimId: null,
+            message: `Claim on ${input.filePath} is queued (position ${position}); call wait_for_claim with the request ID to keep waiting`,
+            requestId: request.id,
+            queuePosition: position
+          };
+        }
+
+        return {
+          success: false,
+          claimId: null,
+          message: `Claim request was cancelled: ${request?.cancel_reason ?? 'unknown reason'}`
+        };
+      }
+
+      const claim = await fileClaimsManager.acquireClaim(params);
 
       return {
         success: true,
         claimId: claim.id,
-        message: `Successfully acquired ${claim.claim_mode} claim on ${input.filePath} (expires at ${claim.expires_at})`
+        message: `Successfully acquired ${claim.claim_mode} claim on ${claim.file_path} (expires at ${claim.expires_at})`
       };
     } catch (error) {
+      if (error instanceof ClaimDeadlockError) {
+        return {
+          success: false,
+          claimId: null,
+          message: error.message,
+          deadlockSessions: error.cycle
+        };
+      }
       if (error instanceof ConflictError) {
         // Return conflicting claim details
         const conflictingClaim = error.conflictingClaim;
@@ -538,6 +623,7 @@ export async function claimFile(
           conflictingClaims: [{
             claimId: conflictingClaim.id,
             sessionId: conflictingClaim.session_id,
+            sessionName: session?.name ?? null,
             mode: conflictingClaim.claim_mode,
             claimedAt: conflictingClaim.claimed_at,
             expiresAt: conflictingClaim.expires_at
@@ -559,6 +645,89 @@ export async function claimFile(
   }
 }
 
+/**
+ * Wait for a queued claim request
+ *
+ * Continues waiting on a request that claim_file queued with wait: true.
+ */
+export async function waitForClaim(
+  input: WaitForClaimInput
+): Promise<WaitForClaimOutput> {
+  const sessionId = process.env.PARALLEL_CC_SESSION_ID;
+
+  if (!sessionId) {
+    return {
+      success: false,
+      status: null,
+      claimId: null,
+      message: 'Not running in a parallel-cc managed session (PARALLEL_CC_SESSION_ID not set)'
+    };
+  }
+
+  const coordinator = new Coordinator();
+  try {
+    const fileClaimsManager = new FileClaimsManager(coordinator.getDB(), defaultLogger);
+    const queued = coordinator.getDB().getClaimRequest(input.requestId);
+    if (!queued || queued.session_id !== sessionId) {
+      return {
+        success: false,
+        status: null,
+        claimId: null,
+        message: `Claim request ${input.requestId} not found or not owned by current session`
+      };
+    }
+
+    const request = await fileClaimsManager.waitForClaim(input.requestId, {
+      timeoutMs: (input.timeoutSeconds ?? 30) * 1000
+    });
+
+    if (request.status === 'granted') {
+      return {
+        success: true,
+        status: 'granted',
+        claimId: request.claim_id ?? null,
+        message: `Acquired ${request.claim_mode} claim on ${request.file_path}`
+      };
+    }
+
+    if (request.status === 'cancelled') {
+      return {
+        success: false,
+        status: 'cancelled',
+        claimId: null,
+        message: `Claim request was cancelled: ${request.cancel_reason ?? 'unknown reason'}`
+      };
+    }
+
+    if (input.cancelOnTimeout) {
+      await fileClaimsManager.cancelClaimRequest(request.id, sessionId);
+      return {
+        success: false,
+        status: 'cancelled',
+        claimId: null,
+        message: `Gave up waiting for ${request.claim_mode} claim on ${request.file_path}`
+      };
+    }
+
+    return {
+      success: false,
+      status: 'waiting',
+      claimId: null,
+      message: `Still waiting for ${request.claim_mode} claim on ${request.file_path} (position ${fileClaimsManager.getQueuePosition(request.id)})`
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      status: null,
+      claimId: null,
+      message: `Failed to wait for claim: ${errorMessage}`
+    };
+  } finally {
+    coordinator.close();
+  }
+}
+
 /**
  * Release a file claim
  * v0.5: Release a previously acquired claim
@@ -622,7 +791,9 @@ export async function listFileClaims(
 
     const claims = fileClaimsManager.listClaims({
       repoPath,
-      sessionId: input.sessionId,
+      sessionId: input.sessionId
+        ? coordinator.getDB().resolveSession(input.sessionId)?.id ?? input.sessionId
+        : undefined,
       filePaths: input.filePaths,
       includeExpired: input.includeExpired
     });
@@ -639,6 +810,7 @@ export async function listFileClaims(
         filePath: claim.file_path,
         claimMode: claim.claim_mode,
         sessionId: claim.session_id,
+        sessionName: session?.name ?? null,
         sessionPid: session?.pid || 0,
         worktreeName: session?.worktree_name || null,
         claimedAt: claim.claimed_at,
@@ -940,18 +1112,19 @@ export async function conflictHistory(
         filePath: r.file_path,
         conflictType: r.conflict_type,
         resolutionStrategy: r.resolution_strategy,
+        action: r.action,
         confidence: r.confidence_score,
         detectedAt: r.detected_at,
         resolvedAt: r.resolved_at,
         autoFixStrategy,
-        wasAutoApplied: r.resolution_strategy === 'AUTO_FIX',
+        wasAutoApplied: r.resolution_strategy === 'AUTO_FIX' && !r.action,
         explanation
       };
     });
 
-    // Calculate statistics
+    // Calculate statistics (auto-rebase outcomes are counted under their action, not as auto-fixes)
     const totalResolutions = allResolutions.length;
-    const autoFixCount = allResolutions.filter(r => r.resolution_strategy === 'AUTO_FIX').length;
+    const autoFixCount = allResolutions.filter(r => r.resolution_strategy === 'AUTO_FIX' && !r.action).length;
     const autoFixRate = totalResolutions > 0 ? autoFixCount / totalResolutions : 0;
 
     const confidenceScores = allResolutions
@@ -966,7 +1139,8 @@ export async function conflictHistory(
 
     allResolutions.forEach(r => {
       byType[r.conflict_type] = (byType[r.conflict_type] || 0) + 1;
-      byStrategy[r.resolution_strategy] = (byStrategy[r.resolution_strategy] || 0) + 1;
+      const strategy = r.action ?? r.resolution_strategy;
+      byStrategy[strategy] = (byStrategy[strategy] || 0) + 1;
     });
 
     return {
@@ -988,3 +1162,122 @@ export async function conflictHistory(
     coordinator.close();
   }
 }
+
+/**
+ * Summarize a parallel batch and its task counts
+ */
+function toParallelBatchInfo(db: SessionDB, batch: ParallelBatch): ParallelBatchInfo {
+  const tasks = db.getParallelBatchTasks(batch.id);
+  return {
+    batchId: batch.id,
+    repoPath: batch.repoPath,
+    status: batch.status,
+    totalTasks: tasks.length,
+    finishedTasks: tasks.filter(t => t.status !== 'pending' && t.status !== 'running').length,
+    failedTasks: tasks.filter(t => t.status === 'failed').length,
+    createdAt: batch.createdAt,
+    completedAt: batch.completedAt
+  };
+}
+
+/**
+ * List parallel sandbox batches
+ * v2.1: Lets a supervising session find the batches it launched
+ */
+export async function listParallelBatches(
+  input: ListParallelBatchesInput
+): Promise<ListParallelBatchesOutput> {
+  const coordinator = new Coordinator();
+  try {
+    const db = coordinator.getDB();
+    const batches = db.listParallelBatches({
+      repoPath: input.repoPath,
+      status: input.status,
+      limit: input.limit ?? 20
+    }).map(batch => toParallelBatchInfo(db, batch));
+
+    return { batches, total: batches.length };
+  } finally {
+    coordinator.close();
+  }
+}
+
+/**
+ * Get per-task status of a parallel batch
+ * v2.1: Status, duration, cost, files changed and errors of each sub-task
+ */
+export async function getParallelBatch(
+  input: GetParallelBatchInput
+): Promise<GetParallelBatchOutput> {
+  const coordinator = new Coordinator();
+  try {
+    const db = coordinator.getDB();
+    const batch = db.getParallelBatch(input.batchId);
+    if (!batch) {
+      return { found: false, tasks: [], totalCost: 0 };
+    }
+
+    const now = new Date();
+    const tasks = db.getParallelBatchTasks(batch.id).map(task => ({
+      taskId: task.taskId,
+      prompt: task.prompt,
+      dependsOn: task.dependsOn,
+      status: task.status,
+      sandboxId: task.sandboxId,
+      durationMs: getBatchTaskDuration(task, now),
+      filesChanged: task.filesChanged,
+      costEstimate: task.costEstimate,
+      outputPath: task.outputPath,
+      error: task.error
+    }));
+
+    return {
+      found: true,
+      batch: toParallelBatchInfo(db, batch),
+      tasks,
+      totalCost: tasks.reduce((sum, t) => sum + (t.costEstimate ?? 0), 0)
+    };
+  } finally {
+    coordinator.close();
+  }
+}
+
+/**
+ * Cancel a running parallel batch
+ * v2.1: Terminates the sandboxes of running tasks and stops the rest
+ */
+export async function cancelParallelBatch(
+  input: CancelParallelBatchInput
+): Promise<CancelParallelBatchOutput> {
+  const coordinator = new Coordinator();
+  try {
+    const db = coordinator.getDB();
+    const batch = db.getParallelBatch(input.batchId);
+    if (!batch) {
+      return {
+        success: false,
+        batchId: input.batchId,
+        cancelledTasks: [],
+        terminatedSandboxes: [],
+        errors: [],
+        error: `Batch not found: ${input.batchId}`
+      };
+    }
+
+    const provider = createSandboxProvider(batch.config.provider || 'e2b', { image: batch.config.sandboxImage });
+    const sandboxManager = new SandboxManager(defaultLogger, {}, provider);
+    return await cancelBatch(input.batchId, db, sandboxManager, coordinator, defaultLogger);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      batchId: input.batchId,
+      cancelledTasks: [],
+      terminatedSandboxes: [],
+      errors: [],
+      error: `Failed to cancel batch: ${errorMessage}`
+    };
+  } finally {
+    coordinator.close();
+  }
+}
@@ -2,19 +2,35 @@
  * Merge detection polling logic for parallel-cc v0.4
  *
  * Polls git repositories to detect when subscribed branches are merged
- * to target branches (main/master).
+ * to target branches (main/master). Ref changes (seen by a filesystem watch
+ * on refs/ and packed-refs, or reported by the merge git hooks) trigger an
+ * immediate check of only the affected branches; polling remains the fallback.
+ *
+ * Target branches are fetched from their remote, so branches merged through a
+ * pull request are detected without a local pull, including squash and
+ * rebase merges (recognized by patch-id and tree comparison).
+ *
+ * After a merge, worktrees that opted in (per subscription, or for the whole
+ * repo via `parallel-cc merge auto-rebase on`) are rebased onto the updated
+ * target when they are clean and would not conflict.
  */
 
-import { execSync } from 'child_process';
+import { execSync, type ExecSyncOptionsWithStringEncoding } from 'child_process';
 import { randomUUID } from 'crypto';
-import { existsSync } from 'fs';
+import { existsSync, watch, type FSWatcher } from 'fs';
+import { resolve } from 'path';
 import { logger } from './logger.js';
 import type { SessionDB } from './db.js';
 import type {
   MergeEvent,
   MergeDetectionResult,
   BranchStatus,
-  Subscription
+  MergeStyle,
+  Session,
+  Subscription,
+  AutoRebaseOutcome,
+  ConflictType,
+  ResolutionStrategy
 } from './types.js';
 import { ConflictDetector } from './conflict-detector.js';
 import { ASTAnalyzer } from './ast-analyzer.js';
@@ -25,19 +41,104 @@ import { createDefaultStrategyChain } from './merge-strategies.js';
 export interface MergeDetectorConfig {
   pollIntervalSeconds?: number;
   maxParallelChecks?: number;
+  /** Watch refs/ and packed-refs of subscribed repos while polling */
+  watchRefs?: boolean;
+  /** Delay before checking after a ref change, to batch ref updates */
+  refDebounceMs?: number;
+  /** Fetch target branches from their remote before checking (network access, off by default) */
+  fetchRemote?: boolean;
+  /** Minimum time between fetches of the same target branch */
+  fetchIntervalSeconds?: number;
+}
+
+/**
+ * Where and how a branch was merged
+ */
+export interface MergeMatch {
+  /** Ref the branch was found in (`main` or `origin/main`) */
+  targetRef: string;
+  style: MergeStyle;
 }
 
 const DEFAULT_CONFIG: Required<MergeDetectorConfig> = {
   pollIntervalSeconds: 60, // Poll every 60 seconds
-  maxParallelChecks: 10 // Limit concurrent git operations
+  maxParallelChecks: 10, // Limit concurrent git operations
+  watchRefs: false,
+  refDebounceMs: 500,
+  fetchRemote: false,
+  fetchIntervalSeconds: 60
 };
 
+/**
+ * Options for git commands run by the detector
+ */
+const GIT_OPTIONS: ExecSyncOptionsWithStringEncoding = { encoding: 'utf-8', stdio: 'pipe', maxBuffer: 64 * 1024 * 1024 };
+
+/**
+ * Filesystem watches on one git directory (shared by a repo's worktrees)
+ */
+interface RefWatch {
+  repoPath: string;
+  watchers: FSWatcher[];
+  /** Changed refs awaiting a check; null means check every subscription */
+  pendingRefs: Set<string> | null;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * git config key that enables auto-rebase for every session of a repository
+ */
+const AUTO_REBASE_CONFIG_KEY = 'parallel-cc.autoRebase';
+
+/**
+ * Whether auto-rebase after merges is enabled for a whole repository
+ *
+ * Stored in the repository's git config, so it applies to all worktrees.
+ */
+export function isAutoRebaseEnabled(repoPath: string): boolean {
+  try {
+    return execSync(`git config --bool --get ${AUTO_REBASE_CONFIG_KEY}`, { cwd: repoPath, ...GIT_OPTIONS }).trim() === 'true';
+  } catch {
+    // Not set, or not a git repository
+    return false;
+  }
+}
+
+/**
+ * Enable or disable auto-rebase after merges for a whole repository
+ */
+export function setAutoRebaseEnabled(repoPath: string, enabled: boolean): void {
+  execSync(`git config --bool ${AUTO_REBASE_CONFIG_KEY} ${enabled}`, { cwd: repoPath, ...GIT_OPTIONS });
+}
+
+/**
+ * Branch names a changed ref can be subscribed under
+ *
+ * `refs/heads/feature` -> `feature`, `refs/remotes/origin/main` -> `origin/main`.
+ * Plain branch names are kept; other refs (tags, HEAD, stash) are dropped.
+ */
+export function refToBranchName(ref: string): string | null {
+  if (ref.startsWith('refs/heads/')) {
+    return ref.substring('refs/heads/'.length);
+  }
+  if (ref.startsWith('refs/remotes/')) {
+    return ref.substring('refs/remotes/'.length);
+  }
+  if (ref.startsWith('refs/') || ref === 'HEAD' || ref.endsWith('_HEAD') || ref === '') {
+    return null;
+  }
+  return ref;
+}
+
 export class MergeDetector {
   private db: SessionDB;
   private config: Required<MergeDetectorConfig>;
   private pollInterval: NodeJS.Timeout | null = null;
   private isPolling = false;
   private autoFixEngine?: AutoFixEngine;
+  private refWatches = new Map<string, RefWatch>();
+  private gitDirCache = new Map<string, string | null>();
+  private lastFetch = new Map<string, number>();
 
   constructor(db: SessionDB, config?: MergeDetectorConfig) {
     this.db = db;
@@ -75,11 +176,14 @@ export class MergeDetector {
     logger.info(`Starting merge detection polling (interval: ${this.config.pollIntervalSeconds}s)`);
 
     // Run immediately, then on interval
+    this.syncRefWatches();
     this.pollForMerges().catch(err => {
       logger.error('Initial poll failed', err);
     });
 
     this.pollInterval = setInterval(() => {
+      // Pick up repos of new subscriptions, drop repos without any
+      this.syncRefWatches();
       if (!this.isPolling) {
         this.pollForMerges().catch(err => {
           logger.error('Poll iteration failed', err);
@@ -97,6 +201,16 @@ export class MergeDetector {
       this.pollInterval = null;
       logger.info('Stopped merge detection polling');
     }
+    for (const gitDir of [...this.refWatches.keys()]) {
+      this.unwatchRefs(gitDir);
+    }
+  }
+
+  /**
+   * Git directories currently watched for ref changes
+   */
+  getWatchedGitDirs(): string[] {
+    return [...this.refWatches.keys()];
   }
 
   /**
@@ -132,74 +246,89 @@ export class MergeDetector {
       }
 
       logger.debug(`Checking ${subscriptions.length} subscription(s) for merged branches`);
+      await this.checkSubscriptions(subscriptions, result);
 
-      // Group subscriptions by repo/branch/target for efficient checking
-      const grouped = this.groupSubscriptions(subscriptions);
-
-      for (const [key, subs] of grouped.entries()) {
-        const [repoPath, branchName, targetBranch] = key.split('::');
-
-        try {
-          // Check if already detected
-          const existingEvent = this.db.getMergeEvent(repoPath, branchName, targetBranch);
-          if (existingEvent) {
-            logger.debug(`Merge already detected: ${branchName} -> ${targetBranch} in ${repoPath}`);
-            continue;
-          }
-
-          // Check if branch is merged
-          const isMerged = this.checkIfBranchMerged(repoPath, branchName, targetBranch);
-
-          if (isMerged) {
-            logger.info(`Detected merge: ${branchName} -> ${targetBranch} in ${repoPath}`);
-
-            // Get commit information
-            const branchStatus = this.getBranchStatus(repoPath, branchName);
-            const targetCommit = this.getCurrentCommit(repoPath, targetBranch);
-
-            if (!branchStatus || !targetCommit) {
-              result.errors.push(`Failed to get commit info for ${branchName} in ${repoPath}`);
-              continue;
-            }
+      if (result.newMerges.length > 0) {
+        logger.info(`Poll completed: ${result.newMerges.length} new merge(s), ${result.notificationsSent} notification(s)`);
+      } else {
+        logger.debug(`Poll completed: no new merges detected`);
+      }
 
-            // Create merge event
-            const mergeEvent: Omit<MergeEvent, 'merged_at' | 'detected_at'> = {
-              id: randomUUID(),
-              repo_path: repoPath,
-              branch_name: branchName,
-              source_commit: branchStatus.commit,
-              target_branch: targetBranch,
-              target_commit: targetCommit,
-              notification_sent: false
-            };
+    } catch (error) {
+      const errMsg = `Poll iteration failed: ${error}`;
+      logger.error(errMsg, error);
+      result.errors.push(errMsg);
+    } finally {
+      this.isPolling = false;
+    }
 
-            const createdEvent = this.db.createMergeEvent(mergeEvent);
-            result.newMerges.push(createdEvent);
+    return result;
+  }
 
-            // Mark subscriptions as notified
-            const notified = this.db.markSubscriptionsNotified(repoPath, branchName, targetBranch);
-            result.notificationsSent += notified;
+  /**
+   * Check only the subscriptions affected by changed refs of one repository
+   *
+   * Called when refs change (ref watch or merge git hooks) instead of waiting
+   * for the next poll. A subscription is affected when its branch or target
+   * branch was updated; with no refs every subscription of the repository is
+   * checked (e.g. packed-refs was rewritten). Subscriptions are matched by git
+   * directory, so any worktree of the repository can report the change.
+   *
+   * @param repoPath - Repository or worktree path where refs changed
+   * @param refs - Changed refs (`refs/heads/main`) or branch names
+   */
+  async checkChangedRefs(repoPath: string, refs: string[] = []): Promise<MergeDetectionResult> {
+    const result: MergeDetectionResult = {
+      newMerges: [],
+      notificationsSent: 0,
+      subscriptionsChecked: 0,
+      errors: []
+    };
 
-            logger.info(`Created merge event ${createdEvent.id}, notified ${notified} subscription(s)`);
+    const gitDir = this.getGitCommonDir(repoPath);
+    if (!gitDir) {
+      result.errors.push(`Not a git repository: ${repoPath}`);
+      return result;
+    }
 
-            // NEW (v0.5): Check for conflicts in active sessions after merge
-            await this.detectConflictsInActiveSessions(repoPath, branchName, targetBranch);
-          }
-        } catch (error) {
-          const errMsg = `Failed to check ${branchName} -> ${targetBranch} in ${repoPath}: ${error}`;
-          logger.error(errMsg, error);
-          result.errors.push(errMsg);
+    const branches = new Set<string>();
+    for (const ref of refs) {
+      const name = refToBranchName(ref);
+      if (name) {
+        branches.add(name);
+        // A fetched remote branch (origin/main) can complete a merge into main
+        if (ref.startsWith('refs/remotes/')) {
+          branches.add(name.substring(name.indexOf('/') + 1));
         }
       }
+    }
+    if (refs.length > 0 && branches.size === 0) {
+      logger.debug(`No branch refs among changed refs in ${repoPath}`);
+      return result;
+    }
 
-      if (result.newMerges.length > 0) {
-        logger.info(`Poll completed: ${result.newMerges.length} new merge(s), ${result.notificationsSent} notification(s)`);
-      } else {
-        logger.debug(`Poll completed: no new merges detected`);
+    if (this.isPolling) {
+      logger.debug('Poll in progress, skipping ref change check');
+      return result;
+    }
+
+    this.isPolling = true;
+    try {
+      const subscriptions = this.db.getActiveSubscriptions().filter(sub =>
+        this.getGitCommonDir(sub.repo_path) === gitDir &&
+        (branches.size === 0 || branches.has(sub.branch_name) || branches.has(sub.target_branch))
+      );
+      result.subscriptionsChecked = subscriptions.length;
+
+      if (subscriptions.length === 0) {
+        logger.debug(`No subscriptions affected by ref changes in ${repoPath}`);
+        return result;
       }
 
+      logger.debug(`Checking ${subscriptions.length} subscription(s) after ref changes in ${repoPath}`);
+      await this.checkSubscriptions(subscriptions, result);
     } catch (error) {
-      const errMsg = `Poll iteration failed: ${error}`;
+      const errMsg = `Ref change check failed for ${repoPath}: ${error}`;
       logger.error(errMsg, error);
       result.errors.push(errMsg);
     } finally {
@@ -209,51 +338,253 @@ export class MergeDetector {
     return result;
   }
 
+  /**
+   * Check subscriptions for merged branches, recording merge events
+   */
+  private async checkSubscriptions(subscriptions: Subscription[], result: MergeDetectionResult): Promise<void> {
+    // Group subscriptions by repo/branch/target for efficient checking
+    const grouped = this.groupSubscriptions(subscriptions);
+
+    for (const [key, subs] of grouped.entries()) {
+      const [repoPath, branchName, targetBranch] = key.split('::');
+
+      try {
+        // Check if already detected
+        const existingEvent = this.db.getMergeEvent(repoPath, branchName, targetBranch);
+        if (existingEvent) {
+          logger.debug(`Merge already detected: ${branchName} -> ${targetBranch} in ${repoPath}`);
+          continue;
+        }
+
+        // Check if branch is merged
+        const match = this.detectMerge(repoPath, branchName, targetBranch);
+
+        if (match) {
+          logger.info(`Detected ${match.style} merge: ${branchName} -> ${match.targetRef} in ${repoPath}`);
+
+          // Get commit information
+          const branchStatus = this.getBranchStatus(repoPath, branchName);
+          const targetCommit = this.getCurrentCommit(repoPath, match.targetRef);
+
+          if (!branchStatus || !targetCommit) {
+            result.errors.push(`Failed to get commit info for ${branchName} in ${repoPath}`);
+            continue;
+          }
+
+          // Create merge event
+          const mergeEvent: Omit<MergeEvent, 'merged_at' | 'detected_at'> = {
+            id: randomUUID(),
+            repo_path: repoPath,
+            branch_name: branchName,
+            source_commit: branchStatus.commit,
+            target_branch: targetBranch,
+            target_commit: targetCommit,
+            notification_sent: false,
+            merge_style: match.style
+          };
+
+          const createdEvent = this.db.createMergeEvent(mergeEvent);
+          result.newMerges.push(createdEvent);
+
+          // Mark subscriptions as notified
+          const notified = this.db.markSubscriptionsNotified(repoPath, branchName, targetBranch);
+          result.notificationsSent += notified;
+
+          logger.info(`Created merge event ${createdEvent.id}, notified ${notified} subscription(s)`);
+
+          // Opt-in: move clean worktrees onto the updated target
+          const autoRebases = await this.autoRebaseSessions(repoPath, branchName, targetBranch, match.targetRef, subs);
+          if (autoRebases.length > 0) {
+            result.autoRebases = [...(result.autoRebases ?? []), ...autoRebases];
+          }
+
+          // NEW (v0.5): Check for conflicts in active sessions after merge
+          await this.detectConflictsInActiveSessions(repoPath, branchName, targetBranch);
+        }
+      } catch (error) {
+        const errMsg = `Failed to check ${branchName} -> ${targetBranch} in ${repoPath}: ${error}`;
+        logger.error(errMsg, error);
+        result.errors.push(errMsg);
+      }
+    }
+  }
+
   /**
    * Check if a branch has been merged into target branch
-   * Returns true if the branch is fully merged
+   * Returns true if the branch is fully merged, squash merged or rebase merged
    */
   checkIfBranchMerged(repoPath: string, branchName: string, targetBranch = 'main'): boolean {
+    return this.detectMerge(repoPath, branchName, targetBranch) !== null;
+  }
+
+  /**
+   * Find out whether and how a branch was merged into the target branch
+   *
+   * Checks the local target branch and, after fetching it, the remote one, so
+   * a pull request merged on the remote is found without a local pull.
+   *
+   * @returns The target ref containing the branch and the merge style, or null
+   */
+  detectMerge(repoPath: string, branchName: string, targetBranch = 'main'): MergeMatch | null {
     try {
       if (!existsSync(repoPath)) {
         logger.warn(`Repository path does not exist: ${repoPath}`);
-        return false;
+        return null;
       }
 
-      // Use git merge-base and git rev-parse to check if branch is merged
-      // A branch is merged if: merge-base(branch, target) == rev-parse(branch)
-      const mergeBase = execSync(
-        `git merge-base "${targetBranch}" "${branchName}"`,
-        { cwd: repoPath, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] }
-      ).trim();
+      const branchCommit = execSync(`git rev-parse --verify "${branchName}^{commit}"`, { cwd: repoPath, ...GIT_OPTIONS }).trim();
 
-      const branchCommit = execSync(
-        `git rev-parse "${branchName}"`,
-        { cwd: repoPath, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] }
-      ).trim();
+      for (const targetRef of this.getTargetRefs(repoPath, targetBranch)) {
+        const style = this.getMergeStyle(repoPath, branchCommit, targetRef);
+        if (style) {
+          return { targetRef, style };
+        }
+      }
+
+      return null;
+    } catch (error) {
+      // If git commands fail (e.g., branch doesn't exist, not a git repo), treat as not merged
+      logger.debug(`Failed to check merge status for ${branchName} in ${repoPath}: ${error}`);
+      return null;
+    }
+  }
 
-      // Branch is fully merged if merge-base equals branch commit
-      const isMerged = mergeBase === branchCommit;
+  /**
+   * Determine how a commit reached a target ref, or null if it did not
+   *
+   * - merge: the commit is an ancestor of the target
+   * - rebase: every branch commit has a patch-equivalent commit on the target
+   *   (a squash merge of a single commit looks the same and is reported as rebase)
+   * - squash: the branch's combined diff matches one target commit by patch-id,
+   *   or merging the branch into the target would not change the target's tree
+   */
+  private getMergeStyle(repoPath: string, branchCommit: string, targetRef: string): MergeStyle | null {
+    const git = (command: string) => execSync(command, { cwd: repoPath, ...GIT_OPTIONS }).trim();
 
-      // Additional check: ensure merge-base is in target branch history
-      if (isMerged) {
-        try {
-          execSync(
-            `git merge-base --is-ancestor "${branchCommit}" "${targetBranch}"`,
-            { cwd: repoPath, stdio: ['pipe', 'pipe', 'pipe'] }
-          );
-          return true;
-        } catch {
-          // If ancestor check fails, branch is not fully merged
-          return false;
+    try {
+      git(`git merge-base --is-ancestor "${branchCommit}" "${targetRef}"`);
+      return 'merge';
+    } catch {
+      // Not an ancestor; look for rewritten commits below
+    }
+
+    let mergeBase: string;
+    try {
+      mergeBase = git(`git merge-base "${targetRef}" "${branchCommit}"`);
+    } catch {
+      // Unrelated histories
+      return null;
+    }
+
+    try {
+      // "-" marks branch commits with an equivalent patch in the target
+      const cherry = git(`git cherry "${targetRef}" "${branchCommit}" "${mergeBase}"`).split('\n').filter(Boolean);
+      if (cherry.length > 0 && cherry.every(line => line.startsWith('-'))) {
+        return 'rebase';
+      }
+
+      const branchPatchId = git(`git diff "${mergeBase}" "${branchCommit}" | git patch-id --stable`).split(' ')[0];
+      if (branchPatchId) {
+        const targetPatchIds = git(`git log -p --no-merges "${mergeBase}..${targetRef}" | git patch-id --stable`)
+          .split('\n')
+          .map(line => line.split(' ')[0]);
+        if (targetPatchIds.includes(branchPatchId)) {
+          return 'squash';
         }
       }
+    } catch (error) {
+      logger.debug(`Patch-id comparison failed for ${branchCommit} in ${repoPath}: ${error}`);
+    }
+
+    try {
+      // Squash merges that were edited or conflict-resolved: the target already has the branch's changes
+      const mergedTree = git(`git merge-tree --write-tree "${targetRef}" "${branchCommit}"`).split('\n')[0];
+      if (mergedTree === git(`git rev-parse "${targetRef}^{tree}"`)) {
+        return 'squash';
+      }
+    } catch {
+      // Conflicts, or git older than 2.38 without merge-tree --write-tree
+    }
+
+    return null;
+  }
+
+  /**
+   * Refs to look for merged branches: the local target branch and its remote counterpart
+   */
+  private getTargetRefs(repoPath: string, targetBranch: string): string[] {
+    const refs: string[] = [];
+    const exists = (ref: string) => {
+      try {
+        execSync(`git rev-parse --verify --quiet "${ref}^{commit}"`, { cwd: repoPath, ...GIT_OPTIONS });
+        return true;
+      } catch {
+        return false;
+      }
+    };
+
+    if (exists(targetBranch)) {
+      refs.push(targetBranch);
+    }
+
+    const remote = this.getTargetRemote(repoPath, targetBranch);
+    if (remote && !targetBranch.startsWith(`${remote}/`)) {
+      if (this.config.fetchRemote) {
+        this.fetchTargetBranch(repoPath, remote, targetBranch);
+      }
+      if (exists(`refs/remotes/${remote}/${targetBranch}`)) {
+        refs.push(`${remote}/${targetBranch}`);
+      }
+    }
+
+    return refs;
+  }
+
+  /**
+   * Remote of the target branch: its configured upstream remote, else origin
+   */
+  private getTargetRemote(repoPath: string, targetBranch: string): string | null {
+    try {
+      return execSync(`git config --get "branch.${targetBranch}.remote"`, { cwd: repoPath, ...GIT_OPTIONS }).trim() || null;
+    } catch {
+      // No upstream configured
+    }
 
-      return false;
+    try {
+      const remotes = execSync('git remote', { cwd: repoPath, ...GIT_OPTIONS }).split('\n');
+      return remotes.includes('origin') ? 'origin' : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the target branch from its remote, at most once per fetch interval
+   *
+   * Failures (offline, no access) are logged and leave the last fetched ref in place.
+   */
+  private fetchTargetBranch(repoPath: string, remote: string, targetBranch: string): void {
+    const key = `${this.getGitCommonDir(repoPath) ?? repoPath}::${remote}::${targetBranch}`;
+    const lastFetch = this.lastFetch.get(key);
+    if (lastFetch !== undefined && Date.now() - lastFetch < this.config.fetchIntervalSeconds * 1000) {
+      return;
+    }
+    this.lastFetch.set(key, Date.now());
+
+    try {
+      execSync(
+        // Forced refspec, so a force-pushed target branch is updated too
+        `git fetch --quiet --no-tags "${remote}" "+refs/heads/${targetBranch}:refs/remotes/${remote}/${targetBranch}"`,
+        {
+          cwd: repoPath,
+          ...GIT_OPTIONS,
+          timeout: 30000,
+          // Never block on credential prompts
+          env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+        }
+      );
     } catch (error) {
-      // If git commands fail (e.g., branch doesn't exist, not a git repo), return false
-      logger.debug(`Failed to check merge status for ${branchName} in ${repoPath}: ${error}`);
-      return false;
+      logger.debug(`Failed to fetch ${targetBranch} from ${remote} in ${repoPath}: ${error}`);
     }
   }
 
@@ -381,6 +712,158 @@ export class MergeDetector {
     }
   }
 
+  /**
+   * Get the common git directory of a repository or worktree (cached)
+   */
+  private getGitCommonDir(repoPath: string): string | null {
+    const cached = this.gitDirCache.get(repoPath);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let gitDir: string | null = null;
+    try {
+      if (existsSync(repoPath)) {
+        const output = execSync('git rev-parse --git-common-dir', {
+          cwd: repoPath,
+          encoding: 'utf-8',
+          stdio: ['pipe', 'pipe', 'pipe']
+        }).trim();
+        gitDir = resolve(repoPath, output);
+      }
+    } catch {
+      // Not a git repository
+    }
+
+    this.gitDirCache.set(repoPath, gitDir);
+    return gitDir;
+  }
+
+  /**
+   * Watch the refs of every repository with active subscriptions
+   */
+  private syncRefWatches(): void {
+    if (!this.config.watchRefs) {
+      return;
+    }
+
+    const wanted = new Map<string, string>();
+    for (const sub of this.db.getActiveSubscriptions()) {
+      const gitDir = this.getGitCommonDir(sub.repo_path);
+      if (gitDir && !wanted.has(gitDir)) {
+        wanted.set(gitDir, sub.repo_path);
+      }
+    }
+
+    for (const gitDir of [...this.refWatches.keys()]) {
+      if (!wanted.has(gitDir)) {
+        this.unwatchRefs(gitDir);
+      }
+    }
+    for (const [gitDir, repoPath] of wanted) {
+      if (!this.refWatches.has(gitDir)) {
+        this.watchRefs(gitDir, repoPath);
+      }
+    }
+  }
+
+  /**
+   * Start watching refs/ (loose refs) and the git directory (packed-refs)
+   *
+   * Failures (e.g. recursive watch unsupported) are logged and leave the
+   * repository to polling.
+   */
+  private watchRefs(gitDir: string, repoPath: string): void {
+    const refWatch: RefWatch = { repoPath, watchers: [], pendingRefs: new Set(), timer: null };
+
+    try {
+      refWatch.watchers.push(watch(resolve(gitDir, 'refs'), { recursive: true, persistent: false }, (_event, filename) => {
+        const refPath = filename?.toString().replace(/\\/g, '/');
+        if (refPath && !refPath.endsWith('.lock')) {
+          this.scheduleRefCheck(gitDir, `refs/${refPath}`);
+        }
+      }));
+      refWatch.watchers.push(watch(gitDir, { persistent: false }, (_event, filename) => {
+        if (filename?.toString() === 'packed-refs') {
+          this.scheduleRefCheck(gitDir, null);
+        }
+      }));
+    } catch (error) {
+      for (const watcher of refWatch.watchers) {
+        watcher.close();
+      }
+      logger.debug(`Failed to watch refs in ${gitDir}, relying on polling: ${error}`);
+      return;
+    }
+
+    for (const watcher of refWatch.watchers) {
+      watcher.on('error', err => {
+        logger.debug(`Ref watch error in ${gitDir}: ${err}`);
+        this.unwatchRefs(gitDir);
+      });
+    }
+
+    this.refWatches.set(gitDir, refWatch);
+    logger.debug(`Watching refs in ${gitDir}`);
+  }
+
+  /**
+   * Stop watching the refs of a git directory
+   */
+  private unwatchRefs(gitDir: string): void {
+    const refWatch = this.refWatches.get(gitDir);
+    if (!refWatch) {
+      return;
+    }
+
+    if (refWatch.timer) {
+      clearTimeout(refWatch.timer);
+    }
+    for (const watcher of refWatch.watchers) {
+      watcher.close();
+    }
+    this.refWatches.delete(gitDir);
+  }
+
+  /**
+   * Queue a changed ref (null: all refs) and check after the debounce delay
+   */
+  private scheduleRefCheck(gitDir: string, ref: string | null): void {
+    const refWatch = this.refWatches.get(gitDir);
+    if (!refWatch) {
+      return;
+    }
+
+    if (ref === null) {
+      refWatch.pendingRefs = null;
+    } else {
+      refWatch.pendingRefs?.add(ref);
+    }
+
+    if (refWatch.timer) {
+      clearTimeout(refWatch.timer);
+    }
+    refWatch.timer = setTimeout(() => {
+      refWatch.timer = null;
+
+      // Let a running poll finish; it may already cover these refs
+      if (this.isPolling) {
+        this.scheduleRefCheck(gitDir, null);
+        return;
+      }
+
+      const refs = refWatch.pendingRefs ? [...refWatch.pendingRefs] : [];
+      refWatch.pendingRefs = new Set();
+      this.checkChangedRefs(refWatch.repoPath, refs).then(result => {
+        if (result.newMerges.length > 0) {
+          logger.info(`Ref change check: ${result.newMerges.length} new merge(s), ${result.notificationsSent} notification(s)`);
+        }
+      }).catch(err => {
+        logger.error('Ref change check failed', err);
+      });
+    }, this.config.refDebounceMs);
+  }
+
   /**
    * Group subscriptions by repo/branch/target for efficient checking
    * Key format: "repoPath::branchName::targetBranch"
@@ -412,6 +895,178 @@ export class MergeDetector {
     return this.pollInterval !== null;
   }
 
+  /**
+   * Rebase the worktrees that opted in onto the target branch after a merge
+   *
+   * Sessions opt in through an auto-rebase subscription to the merged branch,
+   * or all sessions of the repository when auto-rebase is enabled for it.
+   */
+  private async autoRebaseSessions(
+    repoPath: string,
+    mergedBranch: string,
+    targetBranch: string,
+    targetRef: string,
+    subscriptions: Subscription[]
+  ): Promise<AutoRebaseOutcome[]> {
+    const repoWide = isAutoRebaseEnabled(repoPath);
+    const subscribers = new Set(subscriptions.filter(sub => sub.auto_rebase).map(sub => sub.session_id));
+    if (!repoWide && subscribers.size === 0) {
+      return [];
+    }
+
+    const outcomes: AutoRebaseOutcome[] = [];
+    const seenWorktrees = new Set<string>();
+
+    for (const session of this.db.getSessionsByRepo(repoPath)) {
+      if (!repoWide && !subscribers.has(session.id)) {
+        continue;
+      }
+      // Several sessions can share the main repo checkout; rebase it once
+      if (seenWorktrees.has(session.worktree_path) || !existsSync(session.worktree_path)) {
+        continue;
+      }
+      seenWorktrees.add(session.worktree_path);
+
+      const outcome = await this.rebaseSession(session, mergedBranch, targetBranch, targetRef);
+      if (outcome) {
+        logger.info(`Auto-rebase of session ${session.id} (${outcome.branch}) onto ${targetRef}: ${outcome.status}`);
+        outcomes.push(outcome);
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Rebase one session's branch onto the target ref if it is clean and would not conflict
+   *
+   * @returns The outcome, or null when the session is not on a branch that should move
+   */
+  private async rebaseSession(
+    session: Session,
+    mergedBranch: string,
+    targetBranch: string,
+    targetRef: string
+  ): Promise<AutoRebaseOutcome | null> {
+    const worktreePath = session.worktree_path;
+    const git = (command: string) => execSync(command, { cwd: worktreePath, ...GIT_OPTIONS }).trim();
+
+    let branch: string;
+    try {
+      branch = git('git symbolic-ref --quiet --short HEAD');
+    } catch {
+      // Detached HEAD
+      return null;
+    }
+    if (branch === mergedBranch || branch === targetBranch || branch === targetRef) {
+      return null;
+    }
+
+    const outcome: AutoRebaseOutcome = { sessionId: session.id, worktreePath, branch, status: 'up_to_date' };
+
+    try {
+      const commits = {
+        base_commit: git(`git merge-base HEAD "${targetRef}"`),
+        source_commit: git('git rev-parse HEAD'),
+        target_commit: git(`git rev-parse "${targetRef}"`)
+      };
+      const metadata = { mergedBranch, branch, targetRef };
+
+      if (git('git status --porcelain --untracked-files=no') !== '') {
+        outcome.status = 'skipped_dirty';
+        this.recordRebaseOutcome(session, '.', 'UNKNOWN', 'ABANDONED', commits, '',
+          { ...metadata, outcome: outcome.status });
+        return outcome;
+      }
+
+      try {
+        git(`git merge-base --is-ancestor "${targetRef}" HEAD`);
+        return outcome;
+      } catch {
+        // Target has moved on; rebase below
+      }
+
+      const detector = new ConflictDetector(worktreePath, this.autoFixEngine?.astAnalyzer);
+      const report = await detector.detectConflicts({ currentBranch: branch, targetBranch: targetRef });
+
+      if (report.hasConflicts) {
+        outcome.status = 'skipped_conflicts';
+        outcome.conflictingFiles = report.conflicts.map(conflict => conflict.filePath);
+        for (const conflict of report.conflicts) {
+          this.recordRebaseOutcome(session, conflict.filePath, conflict.conflictType, 'MANUAL', commits,
+            JSON.stringify(conflict.markers), { ...metadata, outcome: outcome.status });
+        }
+        return outcome;
+      }
+
+      try {
+        git(`git rebase --quiet "${targetRef}"`);
+      } catch (error) {
+        try {
+          git('git rebase --abort');
+        } catch {
+          // Rebase did not start
+        }
+        outcome.status = 'failed';
+        outcome.error = error instanceof Error ? error.message : String(error);
+        this.recordRebaseOutcome(session, '.', 'UNKNOWN', 'ABANDONED', commits, '',
+          { ...metadata, outcome: outcome.status, error: outcome.error });
+        return outcome;
+      }
+
+      outcome.status = 'rebased';
+      this.recordRebaseOutcome(session, '.', 'TRIVIAL', 'AUTO_FIX', commits, '',
+        { ...metadata, outcome: outcome.status, newHead: git('git rev-parse HEAD') }, true);
+      return outcome;
+    } catch (error) {
+      outcome.status = 'failed';
+      outcome.error = error instanceof Error ? error.message : String(error);
+      return outcome;
+    }
+  }
+
+  /**
+   * Log an auto-rebase outcome to conflict_resolutions
+   *
+   * Rows are marked with the AUTO_REBASE action so they are not mistaken for
+   * resolved merge conflicts. filePath is the conflicting file, or `.` for
+   * the worktree as a whole.
+   */
+  private recordRebaseOutcome(
+    session: Session,
+    filePath: string,
+    conflictType: ConflictType,
+    strategy: ResolutionStrategy,
+    commits: { base_commit: string; source_commit: string; target_commit: string },
+    conflictMarkers: string,
+    metadata: Record<string, unknown>,
+    resolved = false
+  ): void {
+    if (!this.db.hasConflictResolutionsTable()) {
+      logger.debug('conflict_resolutions table missing, not logging auto-rebase outcome');
+      return;
+    }
+
+    try {
+      const resolution = this.db.createConflictResolution({
+        session_id: session.id,
+        repo_path: session.worktree_path,
+        file_path: filePath,
+        conflict_type: conflictType,
+        ...commits,
+        resolution_strategy: strategy,
+        action: 'AUTO_REBASE',
+        conflict_markers: conflictMarkers,
+        metadata
+      });
+      if (resolved) {
+        this.db.updateConflictResolution(resolution.id, { resolved_at: new Date().toISOString() });
+      }
+    } catch (error) {
+      logger.warn(`Failed to log auto-rebase outcome for session ${session.id}: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }
+
   /**
    * Detect conflicts in active sessions after a merge (v0.5)
    * Generates auto-fix suggestions for each detected conflict
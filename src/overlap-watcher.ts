@@ -0,0 +1,254 @@
+/**
+ * Live overlap detection between active worktrees
+ *
+ * Periodically diffs every active session's worktree - committed and
+ * uncommitted changes, plus untracked files - against the other sessions in
+ * the same repository, and reports files modified in more than one worktree
+ * before the conflict is baked into a merge.
+ */
+
+import { execSync, spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { logger } from './logger.js';
+import type { SessionDB } from './db.js';
+import type { Session, WorktreeOverlap, OverlapDetectionResult } from './types.js';
+
+export interface OverlapWatcherConfig {
+  pollIntervalSeconds?: number;
+  /** Called for each overlap that was not present in the previous poll */
+  onNewOverlap?: (overlap: WorktreeOverlap) => void;
+}
+
+const DEFAULT_CONFIG: Required<Omit<OverlapWatcherConfig, 'onNewOverlap'>> = {
+  pollIntervalSeconds: 30
+};
+
+/**
+ * Send a desktop notification (best effort, macOS and Linux)
+ */
+export function sendDesktopNotification(title: string, message: string): boolean {
+  const command = process.platform === 'darwin'
+    ? { file: 'osascript', args: ['-e', `display notification ${JSON.stringify(message)} with title ${JSON.stringify(title)}`] }
+    : process.platform === 'linux'
+    ? { file: 'notify-send', args: [title, message] }
+    : null;
+
+  if (!command) {
+    return false;
+  }
+
+  try {
+    const child = spawn(command.file, command.args, { stdio: 'ignore', detached: true });
+    child.on('error', error => logger.debug(`Desktop notification failed: ${error.message}`));
+    child.unref();
+    return true;
+  } catch (error) {
+    logger.debug(`Desktop notification failed: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+export class OverlapWatcher {
+  private db: SessionDB;
+  private config: OverlapWatcherConfig & typeof DEFAULT_CONFIG;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private knownOverlaps = new Set<string>();
+
+  constructor(db: SessionDB, config?: OverlapWatcherConfig) {
+    this.db = db;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start polling for overlapping changes
+   */
+  startPolling(): void {
+    if (this.pollInterval) {
+      logger.warn('Overlap polling is already running');
+      return;
+    }
+
+    logger.info(`Starting overlap detection polling (interval: ${this.config.pollIntervalSeconds}s)`);
+
+    // Run immediately, then on interval
+    this.pollForOverlaps().catch(err => {
+      logger.error('Initial overlap poll failed', err);
+    });
+
+    this.pollInterval = setInterval(() => {
+      if (!this.isPolling) {
+        this.pollForOverlaps().catch(err => {
+          logger.error('Overlap poll iteration failed', err);
+        });
+      }
+    }, this.config.pollIntervalSeconds * 1000);
+  }
+
+  /**
+   * Stop polling
+   */
+  stopPolling(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+      logger.info('Stopped overlap detection polling');
+    }
+  }
+
+  /**
+   * Check if watcher is currently polling
+   */
+  isActivelyPolling(): boolean {
+    return this.pollInterval !== null;
+  }
+
+  /**
+   * Perform a single poll iteration over all repositories with parallel sessions
+   *
+   * @param repoPath - Only check this repository
+   */
+  async pollForOverlaps(repoPath?: string): Promise<OverlapDetectionResult> {
+    const result: OverlapDetectionResult = {
+      overlaps: [],
+      newOverlaps: [],
+      reposChecked: 0,
+      errors: []
+    };
+
+    if (this.isPolling) {
+      logger.warn('Overlap poll already in progress, skipping');
+      return result;
+    }
+
+    this.isPolling = true;
+    try {
+      const repoPaths = repoPath
+        ? [repoPath]
+        : [...new Set(this.db.getAllSessions().map(s => s.repo_path))];
+
+      for (const repo of repoPaths) {
+        try {
+          result.overlaps.push(...this.detectOverlaps(repo));
+          result.reposChecked++;
+        } catch (error) {
+          const errMsg = `Failed to check overlaps in ${repo}: ${error instanceof Error ? error.message : String(error)}`;
+          logger.error(errMsg, error);
+          result.errors.push(errMsg);
+        }
+      }
+
+      // Report overlaps that appeared since the last poll
+      const keys = new Set<string>();
+      for (const overlap of result.overlaps) {
+        const key = this.overlapKey(overlap);
+        keys.add(key);
+        if (!this.knownOverlaps.has(key)) {
+          result.newOverlaps.push(overlap);
+          this.config.onNewOverlap?.(overlap);
+        }
+      }
+      this.knownOverlaps = repoPath
+        ? new Set([...this.knownOverlaps].filter(key => !key.startsWith(`${repoPath}::`)).concat([...keys]))
+        : keys;
+
+      if (result.newOverlaps.length > 0) {
+        logger.info(`Overlap poll completed: ${result.newOverlaps.length} new overlapping file(s)`);
+      } else {
+        logger.debug('Overlap poll completed: no new overlaps');
+      }
+    } finally {
+      this.isPolling = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Find files modified in more than one active worktree of a repository
+   *
+   * Each pair of worktrees is compared from their merge base, so a file counts
+   * as modified when either side changed it in a commit, in the index, in the
+   * working tree or as a new untracked file.
+   */
+  detectOverlaps(repoPath: string): WorktreeOverlap[] {
+    // Sessions sharing a worktree (e.g. the main repo) edit the same files
+    const sessions = this.db.getSessionsByRepo(repoPath)
+      .filter(s => existsSync(s.worktree_path))
+      .filter((s, index, all) => all.findIndex(o => o.worktree_path === s.worktree_path) === index);
+
+    if (sessions.length < 2) {
+      return [];
+    }
+
+    const heads = new Map<string, string>();
+    for (const session of sessions) {
+      heads.set(session.id, this.git(session.worktree_path, 'git rev-parse HEAD').trim());
+    }
+
+    const changedCache = new Map<string, Set<string>>();
+    const changedSince = (session: Session, base: string): Set<string> => {
+      const key = `${session.worktree_path}::${base}`;
+      let files = changedCache.get(key);
+      if (!files) {
+        files = new Set([
+          ...this.listFiles(this.git(session.worktree_path, `git diff --name-only --no-renames -z ${base}`)),
+          ...this.listFiles(this.git(session.worktree_path, 'git ls-files --others --exclude-standard -z'))
+        ]);
+        changedCache.set(key, files);
+      }
+      return files;
+    };
+
+    const byFile = new Map<string, Map<string, Session>>();
+    for (let i = 0; i < sessions.length; i++) {
+      for (let j = i + 1; j < sessions.length; j++) {
+        const [a, b] = [sessions[i], sessions[j]];
+        const base = this.git(a.worktree_path, `git merge-base ${heads.get(a.id)} ${heads.get(b.id)}`).trim();
+        const changedInB = changedSince(b, base);
+
+        for (const file of changedSince(a, base)) {
+          if (changedInB.has(file)) {
+            const holders = byFile.get(file) ?? new Map<string, Session>();
+            holders.set(a.id, a);
+            holders.set(b.id, b);
+            byFile.set(file, holders);
+          }
+        }
+      }
+    }
+
+    return [...byFile.entries()]
+      .sort(([fileA], [fileB]) => fileA.localeCompare(fileB))
+      .map(([filePath, holders]) => ({
+        repoPath,
+        filePath,
+        sessions: [...holders.values()].map(s => ({
+          sessionId: s.id,
+          pid: s.pid,
+          worktreePath: s.worktree_path,
+          worktreeName: s.worktree_name
+        }))
+      }));
+  }
+
+  /**
+   * Get watcher configuration
+   */
+  getConfig(): OverlapWatcherConfig & typeof DEFAULT_CONFIG {
+    return { ...this.config };
+  }
+
+  private git(cwd: string, command: string): string {
+    return execSync(command, { cwd, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] });
+  }
+
+  private listFiles(output: string): string[] {
+    return output.split('\0').filter(Boolean);
+  }
+
+  private overlapKey(overlap: WorktreeOverlap): string {
+    const sessionIds = overlap.sessions.map(s => s.sessionId).sort().join(',');
+    return `${overlap.repoPath}::${overlap.filePath}::${sessionIds}`;
+  }
+}
@@ -51,6 +51,11 @@ export interface Session {
   actual_cost?: number | null;
   // v1.1: Template tracking
   template_name?: string | null;
+  // Human-readable label (register --name)
+  name?: string | null;
+  // Sandbox provider and image the sandbox session was started with
+  sandbox_provider?: string | null;
+  sandbox_image?: string | null;
 }
 
 export interface SessionRow {
@@ -78,10 +83,14 @@ export interface SessionRow {
   actual_cost?: number | null;
   // v1.1: Template tracking
   template_name?: string | null;
+  name?: string | null;
+  sandbox_provider?: string | null;
+  sandbox_image?: string | null;
 }
 
 export interface RegisterResult {
   sessionId: string;
+  name: string | null;
   worktreePath: string;
   worktreeName: string | null;
   isNew: boolean;
@@ -97,6 +106,7 @@ export interface StatusResult {
 
 export interface SessionInfo {
   sessionId: string;
+  name: string | null;
   pid: number;
   worktreePath: string;
   worktreeName: string | null;
@@ -131,6 +141,10 @@ export interface Config {
   staleThresholdMinutes: number;
   autoCleanupWorktrees: boolean;
   worktreePrefix: string;
+  /** Ref new worktrees start from (default: HEAD of the main repo) */
+  worktreeBaseRef?: string;
+  /** Branch name template for new worktrees, e.g. "{user}/{date}-{label}" */
+  branchTemplate?: string;
 }
 
 export const DEFAULT_CONFIG: Config = {
@@ -157,8 +171,17 @@ export interface MergeEventRow {
   merged_at: string;
   detected_at: string;
   notification_sent: number; // SQLite boolean (0/1)
+  merge_style: string | null;
 }
 
+/**
+ * How a branch reached its target branch
+ * - merge: branch commits are in the target history (merge commit or fast-forward)
+ * - squash: the branch's combined changes landed as a single commit
+ * - rebase: each branch commit was replayed onto the target
+ */
+export type MergeStyle = 'merge' | 'squash' | 'rebase';
+
 /**
  * Merge event model (TypeScript booleans)
  */
@@ -172,6 +195,7 @@ export interface MergeEvent {
   merged_at: string;
   detected_at: string;
   notification_sent: boolean;
+  merge_style: MergeStyle | null; // null for events recorded before merge styles were tracked
 }
 
 /**
@@ -186,6 +210,7 @@ export interface SubscriptionRow {
   created_at: string;
   notified_at: string | null;
   is_active: number; // SQLite boolean (0/1)
+  auto_rebase: number; // SQLite boolean (0/1)
 }
 
 /**
@@ -200,6 +225,7 @@ export interface Subscription {
   created_at: string;
   notified_at: string | null;
   is_active: boolean;
+  auto_rebase: boolean; // Rebase the subscriber's worktree onto the target once merged
 }
 
 /**
@@ -210,6 +236,52 @@ export interface MergeDetectionResult {
   notificationsSent: number;
   subscriptionsChecked: number;
   errors: string[];
+  autoRebases?: AutoRebaseOutcome[];
+}
+
+/**
+ * Outcome of automatically rebasing a session's worktree after a merge
+ * - rebased: the worktree branch now sits on top of the updated target
+ * - up_to_date: the branch already contained the target
+ * - skipped_dirty: the worktree had uncommitted changes
+ * - skipped_conflicts: ConflictDetector predicted conflicts, so no rebase was attempted
+ * - failed: git rebase failed and was aborted
+ */
+export type AutoRebaseStatus = 'rebased' | 'up_to_date' | 'skipped_dirty' | 'skipped_conflicts' | 'failed';
+
+export interface AutoRebaseOutcome {
+  sessionId: string;
+  worktreePath: string;
+  branch: string | null;
+  status: AutoRebaseStatus;
+  conflictingFiles?: string[];
+  error?: string;
+}
+
+/**
+ * A file modified in more than one active worktree of a repository
+ */
+export interface WorktreeOverlap {
+  repoPath: string;
+  /** File path relative to the repository root */
+  filePath: string;
+  sessions: Array<{
+    sessionId: string;
+    pid: number;
+    worktreePath: string;
+    worktreeName: string | null;
+  }>;
+}
+
+/**
+ * Result of an overlap detection poll
+ */
+export interface OverlapDetectionResult {
+  overlaps: WorktreeOverlap[];
+  /** Overlaps not seen in the previous poll */
+  newOverlaps: WorktreeOverlap[];
+  reposChecked: number;
+  errors: string[];
 }
 
 /**
@@ -262,6 +334,12 @@ export type ConflictType = 'STRUCTURAL' | 'SEMANTIC' | 'CONCURRENT_EDIT' | 'TRIV
  */
 export type ResolutionStrategy = 'AUTO_FIX' | 'MANUAL' | 'HYBRID' | 'ABANDONED';
 
+/**
+ * What logged a conflict resolution other than resolving a merge conflict
+ * - AUTO_REBASE: auto-rebase of a subscriber's worktree after a merge
+ */
+export type ConflictResolutionAction = 'AUTO_REBASE';
+
 /**
  * Database row for file_claims table
  */
@@ -315,6 +393,7 @@ export interface ConflictResolutionRow {
   source_commit: string;
   target_commit: string;
   resolution_strategy: ResolutionStrategy;
+  action: ConflictResolutionAction | null;
   confidence_score: number | null;
   conflict_markers: string;
   resolved_content: string | null;
@@ -339,6 +418,7 @@ export interface ConflictResolution {
   source_commit: string;
   target_commit: string;
   resolution_strategy: ResolutionStrategy;
+  action?: ConflictResolutionAction;
   confidence_score?: number;
   conflict_markers: string;
   resolved_content?: string;
@@ -423,6 +503,73 @@ export interface ClaimFilters {
   include_stale?: boolean;
 }
 
+/**
+ * Status of a queued claim request
+ */
+export type ClaimRequestStatus = 'waiting' | 'granted' | 'cancelled';
+
+/**
+ * Database row for claim_requests table
+ */
+export interface ClaimRequestRow {
+  seq: number;
+  id: string;
+  session_id: string;
+  repo_path: string;
+  file_path: string;
+  claim_mode: ClaimMode;
+  ttl_hours: number | null;
+  reason: string | null;
+  status: ClaimRequestStatus;
+  claim_id: string | null;
+  cancel_reason: string | null;
+  requested_at: string;
+  resolved_at: string | null;
+}
+
+/**
+ * Claim request waiting for a conflicting claim to be released
+ *
+ * Requests are granted in FIFO order (by seq).
+ */
+export interface ClaimRequest {
+  seq: number;
+  id: string;
+  session_id: string;
+  repo_path: string;
+  file_path: string;
+  claim_mode: ClaimMode;
+  ttl_hours?: number;
+  reason?: string;
+  status: ClaimRequestStatus;
+  /** Claim acquired for the request once granted */
+  claim_id?: string;
+  cancel_reason?: string;
+  requested_at: string;
+  resolved_at?: string;
+}
+
+/**
+ * Parameters for queueing a claim request
+ */
+export interface CreateClaimRequestParams {
+  session_id: string;
+  repo_path: string;
+  file_path: string;
+  claim_mode: ClaimMode;
+  ttl_hours?: number;
+  reason?: string;
+}
+
+/**
+ * Filters for querying claim requests
+ */
+export interface ClaimRequestFilters {
+  session_id?: string;
+  repo_path?: string;
+  status?: ClaimRequestStatus;
+}
+
 /**
  * Parameters for creating a conflict resolution
  */
@@ -435,6 +582,7 @@ export interface CreateConflictResolutionParams {
   source_commit: string;
   target_commit: string;
   resolution_strategy: ResolutionStrategy;
+  action?: ConflictResolutionAction;
   confidence_score?: number;
   conflict_markers: string;
   resolved_content?: string;
@@ -509,6 +657,9 @@ export interface E2BSession extends Session {
   prompt: string;
   status: SandboxStatus;
   output_log?: string;
+  /** Provider to reconnect through (e2b for sessions recorded before providers) */
+  sandbox_provider: string;
+  sandbox_image?: string;
 }
 
 /**
@@ -626,6 +777,141 @@ export interface BudgetConfig {
   e2bHourlyRate?: number;
 }
 
+/**
+ * Worktree creation settings for user settings (worktree.* config keys)
+ */
+export interface WorktreeConfig {
+  /** Ref new worktrees start from, e.g. "origin/main" (fetched first) or "HEAD" */
+  baseRef?: string;
+  /** Branch name template with {user}, {date}, {label} and {id} placeholders */
+  branchTemplate?: string;
+}
+
+/**
+ * Warm sandbox pool for parallel runs (pool.* config keys)
+ */
+export interface WarmPoolConfig {
+  /** Prepared sandboxes kept ready for tasks (0 disables the pool) */
+  size?: number;
+  /** Minutes an idle pooled sandbox is kept before it is terminated */
+  idleTtlMinutes?: number;
+}
+
+/**
+ * Token usage and model cost of a Claude run, parsed from its stream-json output
+ */
+export interface ClaudeUsage {
+  /** Model turns (assistant messages) */
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  /** Model cost in USD reported by Claude (absent if the run ended before reporting it) */
+  costUsd?: number;
+}
+
+/**
+ * Outcome of one verification command run in the sandbox after Claude finishes
+ */
+export interface VerifyCommandResult {
+  command: string;
+  /** Exit code (-1 if the command could not be run) */
+  exitCode: number;
+  /** Last lines of combined stdout/stderr */
+  outputTail: string;
+  durationMs: number;
+}
+
+/**
+ * Verification of a sandbox run (`--verify` commands or a template's `verify` section)
+ */
+export interface VerificationResult {
+  /** Whether every command exited 0 in the final round */
+  passed: boolean;
+  /** Repair rounds Claude was given (0 if the first check passed) */
+  repairRounds: number;
+  /** Command results from the final round */
+  commands: VerifyCommandResult[];
+}
+
+/**
+ * Database row for session_costs table
+ */
+export interface SessionCostsRow {
+  session_id: string;
+  compute_cost: number;
+  model_cost: number;
+  turns: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_creation_input_tokens: number | null;
+  cache_read_input_tokens: number | null;
+  repo_path: string | null;
+  template_name: string | null;
+  git_user: string | null;
+  recorded_at: string;
+}
+
+/**
+ * Compute (sandbox) and model (Anthropic API) cost recorded for a session
+ */
+export interface SessionCosts {
+  sessionId: string;
+  /** Sandbox cost in USD (elapsed time x hourly rate) */
+  computeCost: number;
+  /** Anthropic API cost in USD (0 with a Claude subscription) */
+  modelCost: number;
+  /** Token usage, if Claude reported it */
+  usage?: ClaudeUsage;
+  recordedAt: string;
+}
+
+/**
+ * Who and what a session's cost is attributed to
+ */
+export interface CostAttribution {
+  /** Template the sandbox was created from (managed template or sandbox image) */
+  templateName?: string;
+  /** Git user the session committed as */
+  gitUser?: string;
+}
+
+/**
+ * Dimension a budget report groups spend by
+ */
+export type BudgetReportGroupBy = 'repo' | 'template' | 'git_user' | 'day';
+
+/**
+ * Spend of one group in a budget report
+ */
+export interface BudgetReportGroup {
+  /** Repo path, template name, git user or day (YYYY-MM-DD); null if not recorded */
+  key: string | null;
+  sessions: number;
+  computeCost: number;
+  modelCost: number;
+  totalCost: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Budget report for CLI command (spend per group over one period)
+ */
+export interface BudgetReport {
+  period: BudgetPeriod;
+  /** First day of the period (inclusive, YYYY-MM-DD) */
+  start: string;
+  /** First day after the period (exclusive, YYYY-MM-DD) */
+  end: string;
+  groupBy: BudgetReportGroupBy;
+  /** Groups ordered by total cost (by day for day grouping) */
+  groups: BudgetReportGroup[];
+  totalSessions: number;
+  totalCost: number;
+}
+
 /**
  * Budget status report for CLI command
  */
@@ -635,6 +921,10 @@ export interface BudgetStatus {
     start: string;
     limit?: number;
     spent: number;
+    /** Part of spent that was sandbox compute */
+    computeSpent: number;
+    /** Part of spent that was Anthropic API usage */
+    modelSpent: number;
     remaining?: number;
   };
   sessions: Array<{
@@ -642,6 +932,10 @@ export interface BudgetStatus {
     sandboxId?: string;
     budgetLimit?: number;
     costEstimate?: number;
+    computeCost?: number;
+    modelCost?: number;
+    inputTokens?: number;
+    outputTokens?: number;
     status?: string;
     createdAt: string;
   }>;
@@ -678,6 +972,41 @@ export class BudgetExceededError extends Error {
   }
 }
 
+/**
+ * Error thrown when a sandbox operation fails for reasons unrelated to the
+ * task itself (creation, upload, health check, download)
+ */
+export class SandboxInfrastructureError extends Error {
+  public readonly kind: 'timeout' | 'infra';
+
+  constructor(message: string, kind: 'timeout' | 'infra' = 'infra') {
+    super(message);
+    this.name = 'SandboxInfrastructureError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Error thrown by local sandbox providers when a command exits with a
+ * non-zero code
+ *
+ * Mirrors the E2B SDK's CommandExitError: the command's exit code and output
+ * are available on the error.
+ */
+export class SandboxCommandError extends Error {
+  public readonly exitCode: number;
+  public readonly stdout: string;
+  public readonly stderr: string;
+
+  constructor(result: { exitCode: number; stdout: string; stderr: string }) {
+    super(`Command exited with code ${result.exitCode}${result.stderr.trim() ? `: ${result.stderr.trim()}` : ''}`);
+    this.name = 'SandboxCommandError';
+    this.exitCode = result.exitCode;
+    this.stdout = result.stdout;
+    this.stderr = result.stderr;
+  }
+}
+
 // ============================================================================
 // Sandbox Template Types (v1.1)
 // ============================================================================
@@ -707,9 +1036,20 @@ export interface SandboxTemplate {
   e2bTemplate: string;
   setupCommands?: string[];
   environment?: Record<string, string>;
+  /** Commands run in the sandbox after Claude finishes; failures fail the run */
+  verify?: TemplateVerifyConfig;
   metadata?: TemplateMetadata;
 }
 
+/**
+ * Verification section of a sandbox template
+ */
+export interface TemplateVerifyConfig {
+  commands: string[];
+  /** Times Claude is asked to fix failures before giving up (default: 0) */
+  repairRounds?: number;
+}
+
 /**
  * Template with type information for listing
  */
@@ -757,12 +1097,24 @@ export interface ProjectTypeDetection {
  */
 export type ParallelTaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
 
+/**
+ * A task in a parallel batch with an explicit ID and dependencies
+ */
+export interface ParallelTaskDefinition {
+  /** Unique task identifier, also the output subdirectory name (default: task-N by position) */
+  id?: string;
+  /** Task description/prompt */
+  prompt: string;
+  /** IDs of tasks that must complete successfully before this one starts */
+  dependsOn?: string[];
+}
+
 /**
  * Configuration for parallel sandbox execution
  */
 export interface ParallelExecutionConfig {
-  /** Array of task descriptions (prompts) */
-  tasks: string[];
+  /** Task descriptions (prompts), or task definitions with IDs and dependencies */
+  tasks: Array<string | ParallelTaskDefinition>;
   /** Maximum concurrent sandboxes (default: 3) */
   maxConcurrent: number;
   /** Stop all tasks on first failure (default: false) */
@@ -777,6 +1129,8 @@ export interface ParallelExecutionConfig {
   sandboxImage?: string;
   /** Managed template name */
   templateName?: string;
+  /** Managed template whose setup commands run in each task's workspace */
+  template?: SandboxTemplate;
   /** Branch strategy per task */
   branch?: string;
   /** Whether to use git-live mode */
@@ -791,12 +1145,54 @@ export interface ParallelExecutionConfig {
   oauthCredentials?: string;
   /** Budget limit per task in USD */
   budgetPerTask?: number;
+  /** Budget limit for the whole batch in USD; tasks that would exceed it are not started */
+  batchBudget?: number;
   /** NPM token for private packages */
   npmToken?: string;
   /** Custom NPM registry URL */
   npmRegistry?: string;
   /** SSH key path for private repos */
   sshKeyPath?: string;
+  /** Sandbox provider name (recorded so a batch resumes on the same provider) */
+  provider?: string;
+  /** Extra attempts for a failed task (default: 0) */
+  retries?: number;
+  /** Failure kinds that are retried (default: timeout, infra) */
+  retryOn?: TaskFailureKind[];
+  /** Delay before the first retry in ms, doubled for each further retry (default: 5000) */
+  retryBackoffMs?: number;
+  /** Commands run in each sandbox after Claude finishes; a failing command fails the task */
+  verifyCommands?: string[];
+  /** Times Claude is asked to fix verification failures before giving up (default: 0) */
+  repairRounds?: number;
+  /** Keep prepared sandboxes ready and hand them to tasks (disabled when absent) */
+  warmPool?: Required<WarmPoolConfig>;
+}
+
+/**
+ * Why a parallel task attempt failed
+ * - timeout: Claude or a sandbox operation timed out
+ * - infra: the sandbox failed (creation, upload, health check/reconnect, download)
+ * - task: Claude ran and failed, or the task was stopped (budget, cancellation)
+ */
+export type TaskFailureKind = 'timeout' | 'infra' | 'task';
+
+/**
+ * One attempt at running a parallel task
+ */
+export interface TaskAttempt {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Sandbox used by this attempt */
+  sandboxId: string;
+  /** Outcome of the attempt */
+  status: ParallelTaskStatus;
+  startTime: Date;
+  endTime?: Date;
+  /** Failure classification (if failed) */
+  failureKind?: TaskFailureKind;
+  /** Error message (if failed) */
+  error?: string;
 }
 
 /**
@@ -807,6 +1203,8 @@ export interface TaskResult {
   taskId: string;
   /** Original task description/prompt */
   taskDescription: string;
+  /** IDs of tasks this task depended on */
+  dependsOn?: string[];
   /** Session UUID */
   sessionId: string;
   /** E2B sandbox ID */
@@ -829,8 +1227,18 @@ export interface TaskResult {
   error?: string;
   /** Exit code from Claude execution */
   exitCode?: number;
-  /** Estimated cost in USD */
+  /** Estimated cost in USD (sandbox compute plus model cost) */
   costEstimate?: number;
+  /** Part of costEstimate spent on the Anthropic API */
+  modelCost?: number;
+  /** Claude token usage, if reported */
+  usage?: ClaudeUsage;
+  /** Failure classification (if failed) */
+  failureKind?: TaskFailureKind;
+  /** Attempt history, oldest first (only when the task was retried) */
+  attempts?: TaskAttempt[];
+  /** Verification command results (only when verify commands were configured) */
+  verification?: VerificationResult;
 }
 
 /**
@@ -847,12 +1255,14 @@ export interface ParallelExecutionSummary {
   successCount: number;
   /** Number of failed tasks */
   failureCount: number;
-  /** Number of cancelled tasks (due to fail-fast) */
+  /** Number of cancelled tasks (due to fail-fast, a failed dependency or the batch budget) */
   cancelledCount: number;
   /** Total files changed across all tasks */
   totalFilesChanged: number;
   /** Total estimated cost in USD */
   totalCost: number;
+  /** Whether tasks were left unstarted because of the batch budget */
+  budgetExceeded?: boolean;
   /** Batch ID for database tracking */
   batchId: string;
 }
@@ -875,6 +1285,8 @@ export interface ParallelExecutionResult {
  * Progress update for parallel execution
  */
 export interface ParallelProgressUpdate {
+  /** Batch the task belongs to (resumable with `sandbox batch resume`) */
+  batchId: string;
   /** Task ID being updated */
   taskId: string;
   /** New status */
@@ -893,3 +1305,190 @@ export interface ParallelProgressUpdate {
  * Callback for parallel execution progress
  */
 export type ParallelProgressCallback = (update: ParallelProgressUpdate) => void;
+
+/**
+ * Status of a persisted parallel batch
+ * - running: owned by a live CLI process, or interrupted if that process is gone
+ * - completed: every task completed
+ * - failed: finished with failed or cancelled tasks
+ * - cancelled: stopped with `sandbox batch cancel`
+ */
+export type ParallelBatchStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Batch configuration as stored in the database (secrets are never persisted)
+ */
+export type PersistedBatchConfig = Omit<ParallelExecutionConfig, 'oauthCredentials' | 'npmToken'>;
+
+/**
+ * Database row for parallel_batches table
+ */
+export interface ParallelBatchRow {
+  id: string;
+  repo_path: string;
+  output_dir: string;
+  config: string; // JSON PersistedBatchConfig
+  status: ParallelBatchStatus;
+  pid: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  budget_exceeded: number; // SQLite boolean (0/1)
+}
+
+/**
+ * Parallel batch model
+ */
+export interface ParallelBatch {
+  id: string;
+  repoPath: string;
+  outputDir: string;
+  config: PersistedBatchConfig;
+  status: ParallelBatchStatus;
+  /** PID of the CLI process running the batch */
+  pid: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  /** Whether tasks were left unstarted because of the batch budget */
+  budgetExceeded: boolean;
+}
+
+/**
+ * Database row for parallel_batch_tasks table
+ */
+export interface ParallelBatchTaskRow {
+  batch_id: string;
+  task_id: string;
+  position: number;
+  prompt: string;
+  depends_on: string; // JSON string[]
+  status: ParallelTaskStatus;
+  session_id: string | null;
+  session_pid: number | null;
+  sandbox_id: string | null;
+  worktree_path: string | null;
+  output_path: string;
+  started_at: string | null;
+  ended_at: string | null;
+  files_changed: number;
+  exit_code: number | null;
+  cost_estimate: number | null;
+  error: string | null;
+}
+
+/**
+ * Persisted state of one task in a parallel batch
+ */
+export interface ParallelBatchTask {
+  batchId: string;
+  taskId: string;
+  /** Position in the original task list */
+  position: number;
+  prompt: string;
+  dependsOn: string[];
+  status: ParallelTaskStatus;
+  sessionId?: string;
+  /** PID the task's session was registered under */
+  sessionPid?: number;
+  sandboxId?: string;
+  worktreePath?: string;
+  outputPath: string;
+  startedAt?: string;
+  endedAt?: string;
+  filesChanged: number;
+  exitCode?: number;
+  costEstimate?: number;
+  error?: string;
+}
+
+/**
+ * Fields of a persisted batch task that change while the batch runs
+ */
+export type ParallelBatchTaskUpdate = Partial<Omit<ParallelBatchTask, 'batchId' | 'taskId' | 'position' | 'prompt' | 'dependsOn'>>;
+
+/**
+ * Result of cancelling a parallel batch
+ */
+export interface ParallelBatchCancelResult {
+  success: boolean;
+  batchId: string;
+  /** Tasks that were pending or running when the batch was cancelled */
+  cancelledTasks: string[];
+  /** Sandboxes terminated for running tasks */
+  terminatedSandboxes: string[];
+  /** Per-sandbox termination failures (the batch is cancelled regardless) */
+  errors: string[];
+  error?: string;
+}
+
+// ============================================================================
+// Result Integration Types
+// ============================================================================
+
+/**
+ * Outcome of integrating one task onto the integration branch
+ * - merged: applied without conflicts
+ * - auto-resolved: conflicts resolved by auto-fix suggestions
+ * - needs-attention: conflicts left for a human (cherry-pick aborted)
+ * - skipped: not attempted (task did not complete, no changes, or a dependency was not integrated)
+ */
+export type IntegrationOutcome = 'merged' | 'auto-resolved' | 'needs-attention' | 'skipped';
+
+/**
+ * Configuration for integrating parallel task results
+ */
+export interface IntegrationConfig {
+  /** Repository path */
+  repoPath: string;
+  /** Directory for the integration report (default: ./parallel-results) */
+  outputDir?: string;
+  /** Integration branch name (default: parallel-cc/integration-<batch>) */
+  integrationBranch?: string;
+  /** Commit the tasks were started from (default: HEAD of repoPath) */
+  baseRef?: string;
+  /** Minimum confidence to auto-apply a suggestion (default: 0.8) */
+  confidenceThreshold?: number;
+  /** Git user name for integration commits */
+  gitUser?: string;
+  /** Git user email for integration commits */
+  gitEmail?: string;
+}
+
+/**
+ * Integration result for a single task
+ */
+export interface IntegrationTaskResult {
+  /** Task identifier */
+  taskId: string;
+  /** Integration outcome */
+  outcome: IntegrationOutcome;
+  /** Branch holding the task's changes (if created) */
+  taskBranch?: string;
+  /** Conflicts reported by ConflictDetector before merging */
+  conflictsDetected: number;
+  /** Files resolved with auto-fix suggestions */
+  autoResolvedFiles: string[];
+  /** Files that still need manual resolution */
+  unresolvedFiles: string[];
+  /** Why the task was skipped or failed to merge */
+  reason?: string;
+}
+
+/**
+ * Combined result of integrating a parallel batch
+ */
+export interface IntegrationResult {
+  /** Whether every completed task was merged (cleanly or auto-resolved) */
+  success: boolean;
+  /** Integration branch name */
+  integrationBranch: string;
+  /** Commit the integration branch started from */
+  baseCommit: string;
+  /** Final commit of the integration branch */
+  headCommit: string;
+  /** Per-task outcomes, in integration order */
+  tasks: IntegrationTaskResult[];
+  /** Path to integration report file */
+  reportPath?: string;
+}
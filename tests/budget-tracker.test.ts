@@ -202,6 +202,96 @@ describe('BudgetTracker', () => {
       const monthlyRecord = tracker.getOrCreatePeriodRecord('monthly');
       expect(monthlyRecord.spent).toBe(1.25);
     });
+
+    it('should split compute and model cost and keep token usage', async () => {
+      const session = db.createE2BSession({
+        id: 'test-session-3',
+        pid: 12347,
+        repo_path: '/test/repo',
+        worktree_path: '/test/worktree',
+        worktree_name: 'test-branch',
+        sandbox_id: 'sandbox-789',
+        prompt: 'Test prompt'
+      });
+      const usage = {
+        turns: 3,
+        inputTokens: 1200,
+        outputTokens: 300,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 800,
+        costUsd: 0.5
+      };
+
+      tracker.recordSessionCost(session.id, 0.25, 0.5, usage);
+
+      const updated = db.getSessionById(session.id);
+      expect(updated?.cost_estimate).toBe(0.25);
+      expect(updated?.actual_cost).toBe(0.75);
+      expect(db.getSessionCosts(session.id)).toMatchObject({
+        computeCost: 0.25,
+        modelCost: 0.5,
+        usage: { turns: 3, inputTokens: 1200, outputTokens: 300, cacheReadInputTokens: 800 }
+      });
+      expect(tracker.getCurrentSpending('monthly')).toBe(0.75);
+    });
+
+    it('should add follow-up run costs to the session', () => {
+      const usage = {
+        turns: 2,
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0
+      };
+      tracker.recordSessionCost('continued-session', 0.25, 0.5, usage);
+
+      tracker.addSessionCost('continued-session', 0.1, 0.2, usage);
+
+      expect(db.getSessionCosts('continued-session')).toMatchObject({
+        computeCost: 0.35,
+        modelCost: 0.7,
+        usage: { turns: 4, inputTokens: 200, outputTokens: 100 }
+      });
+      expect(tracker.getCurrentSpending('monthly')).toBeCloseTo(1.05);
+    });
+
+    it('should keep the date of the first run when adding follow-up costs', () => {
+      tracker.recordSessionCost('continued-session', 0.25, 0.5);
+      db['db'].prepare(`UPDATE session_costs SET recorded_at = '2026-01-10 12:00:00' WHERE session_id = ?`)
+        .run('continued-session');
+
+      tracker.addSessionCost('continued-session', 0.1, 0.2);
+
+      expect(db.getSessionCosts('continued-session')?.recordedAt).toBe('2026-01-10 12:00:00');
+      expect(db.getCostReport('2026-01-01', '2026-02-01', 'day')).toEqual([
+        expect.objectContaining({ key: '2026-01-10', computeCost: 0.35 })
+      ]);
+    });
+
+    it('should record costs of sessions that no longer exist', () => {
+      tracker.recordSessionCost('released-session', 0.1, 0.2);
+
+      expect(db.getSessionCosts('released-session')).toMatchObject({ computeCost: 0.1, modelCost: 0.2 });
+      expect(tracker.getCurrentSpending('monthly')).toBeCloseTo(0.3);
+    });
+
+    it('should attribute the session to its template and git user', () => {
+      const session = db.createE2BSession({
+        id: 'test-session-4',
+        pid: 12348,
+        repo_path: '/test/repo',
+        worktree_path: '/test/worktree',
+        worktree_name: 'test-branch',
+        sandbox_id: 'sandbox-attr',
+        prompt: 'Test prompt'
+      });
+
+      tracker.recordSessionCost(session.id, 0.1, 0, undefined, { templateName: 'node-20', gitUser: 'Alice' });
+
+      const updated = db.getSessionById(session.id);
+      expect(updated?.template_name).toBe('node-20');
+      expect(updated?.git_user).toBe('Alice');
+    });
   });
 
   // ==========================================================================
@@ -338,6 +428,115 @@ describe('BudgetTracker', () => {
       const sessionInfo = status.sessions.find(s => s.sessionId === session.id);
       expect(sessionInfo?.costEstimate).toBe(0.75);
     });
+
+    it('should split spending into compute and model cost', async () => {
+      const session = db.createE2BSession({
+        id: 'session-split',
+        pid: 12348,
+        repo_path: '/test/repo',
+        worktree_path: '/test/worktree',
+        worktree_name: null,
+        sandbox_id: 'sandbox-split',
+        prompt: 'Split test'
+      });
+
+      tracker.recordSessionCost(session.id, 0.2, 1.3, {
+        turns: 5,
+        inputTokens: 5000,
+        outputTokens: 900,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+        costUsd: 1.3
+      });
+      tracker.recordSessionCost('parallel-task-session', 0.1, 0.4);
+
+      const status = tracker.generateBudgetStatus('monthly');
+
+      expect(status.currentPeriod.spent).toBeCloseTo(2.0);
+      expect(status.currentPeriod.computeSpent).toBeCloseTo(0.3);
+      expect(status.currentPeriod.modelSpent).toBeCloseTo(1.7);
+      const sessionInfo = status.sessions.find(s => s.sessionId === session.id);
+      expect(sessionInfo).toMatchObject({ computeCost: 0.2, modelCost: 1.3, inputTokens: 5000, outputTokens: 900 });
+    });
+  });
+
+  // ==========================================================================
+  // generateBudgetReport Tests
+  // ==========================================================================
+
+  describe('getPeriodEnd', () => {
+    it('should return the first day after each period', () => {
+      const date = new Date('2025-01-31T14:30:00Z'); // Friday
+
+      expect(tracker.getPeriodEnd('daily', date)).toBe('2025-02-01');
+      expect(tracker.getPeriodEnd('weekly', date)).toBe('2025-02-03');
+      expect(tracker.getPeriodEnd('monthly', date)).toBe('2025-02-01');
+      expect(tracker.getPeriodEnd('monthly', new Date('2025-12-10T00:00:00Z'))).toBe('2026-01-01');
+    });
+  });
+
+  describe('generateBudgetReport', () => {
+    const createSession = (id: string, repoPath: string) => db.createE2BSession({
+      id,
+      pid: Math.floor(Math.random() * 100000),
+      repo_path: repoPath,
+      worktree_path: `${repoPath}/worktree`,
+      worktree_name: null,
+      sandbox_id: `sandbox-${id}`,
+      prompt: 'Report test'
+    });
+
+    beforeEach(() => {
+      createSession('report-1', '/repos/api');
+      createSession('report-2', '/repos/api');
+      createSession('report-3', '/repos/web');
+      tracker.recordSessionCost('report-1', 0.5, 1.0, undefined, { templateName: 'node-20', gitUser: 'Alice' });
+      tracker.recordSessionCost('report-2', 0.25, 0, undefined, { templateName: 'python-3', gitUser: 'Bob' });
+      tracker.recordSessionCost('report-3', 0.25, 0.5, undefined, { templateName: 'node-20', gitUser: 'Alice' });
+      tracker.recordSessionCost('unattributed', 0.1, 0);
+    });
+
+    it('should sum spend per repository, highest first', () => {
+      const report = tracker.generateBudgetReport('monthly', 'repo');
+
+      expect(report.groupBy).toBe('repo');
+      expect(report.start).toBe(tracker.getPeriodStart('monthly'));
+      expect(report.groups.map(g => g.key)).toEqual(['/repos/api', '/repos/web', null]);
+      expect(report.groups[0]).toMatchObject({ sessions: 2, computeCost: 0.75, modelCost: 1.0, totalCost: 1.75 });
+      expect(report.totalSessions).toBe(4);
+      expect(report.totalCost).toBeCloseTo(2.6);
+    });
+
+    it('should group by template, git user and day', () => {
+      const byTemplate = tracker.generateBudgetReport('monthly', 'template');
+      expect(byTemplate.groups.find(g => g.key === 'node-20')).toMatchObject({ sessions: 2, totalCost: 2.25 });
+
+      const byUser = tracker.generateBudgetReport('monthly', 'git_user');
+      expect(byUser.groups.map(g => g.key)).toEqual(['Alice', 'Bob', null]);
+
+      const byDay = tracker.generateBudgetReport('monthly', 'day');
+      expect(byDay.groups).toHaveLength(1);
+      expect(byDay.groups[0].key).toBe(new Date().toISOString().substring(0, 10));
+      expect(byDay.groups[0].sessions).toBe(4);
+    });
+
+    it('should keep attribution after the session is released', () => {
+      db.deleteSession('report-3');
+
+      const report = tracker.generateBudgetReport('monthly', 'repo');
+
+      expect(report.groups.find(g => g.key === '/repos/web')).toMatchObject({ sessions: 1, totalCost: 0.75 });
+    });
+
+    it('should only include costs recorded in the period', () => {
+      const lastYear = new Date();
+      lastYear.setUTCFullYear(lastYear.getUTCFullYear() - 1);
+
+      const report = tracker.generateBudgetReport('monthly', 'repo', lastYear);
+
+      expect(report.groups).toEqual([]);
+      expect(report.totalCost).toBe(0);
+    });
   });
 
   // ==========================================================================
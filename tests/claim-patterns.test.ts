@@ -0,0 +1,62 @@
+/**
+ * Tests for claim path patterns (directory and glob file claims)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { claimPathsOverlap, isClaimPattern, normalizeClaimPath } from '../src/claim-patterns.js';
+
+describe('isClaimPattern', () => {
+  it('should detect directories and globs', () => {
+    expect(isClaimPattern('src/auth/')).toBe(true);
+    expect(isClaimPattern('src/auth/**')).toBe(true);
+    expect(isClaimPattern('src/*.ts')).toBe(true);
+    expect(isClaimPattern('src/file?.ts')).toBe(true);
+    expect(isClaimPattern('src/*.{ts,tsx}')).toBe(true);
+    expect(isClaimPattern('src/app.ts')).toBe(false);
+  });
+});
+
+describe('normalizeClaimPath', () => {
+  it('should use forward slashes and drop ./ segments', () => {
+    expect(normalizeClaimPath('./src/./app.ts')).toBe('src/app.ts');
+    expect(normalizeClaimPath('src\\auth\\')).toBe('src/auth/');
+    expect(normalizeClaimPath('src//auth/**')).toBe('src/auth/**');
+  });
+});
+
+describe('claimPathsOverlap', () => {
+  it('should compare plain file paths exactly', () => {
+    expect(claimPathsOverlap('src/app.ts', 'src/app.ts')).toBe(true);
+    expect(claimPathsOverlap('src/app.ts', './src/app.ts')).toBe(true);
+    expect(claimPathsOverlap('src/app.ts', 'src/app.tsx')).toBe(false);
+  });
+
+  it('should match files inside a directory claim', () => {
+    expect(claimPathsOverlap('src/auth/', 'src/auth/login.ts')).toBe(true);
+    expect(claimPathsOverlap('src/auth/', 'src/auth/providers/oauth.ts')).toBe(true);
+    expect(claimPathsOverlap('src/auth/', 'src/authz/policy.ts')).toBe(false);
+    expect(claimPathsOverlap('src/auth/', 'src/app.ts')).toBe(false);
+  });
+
+  it('should match files against glob claims', () => {
+    expect(claimPathsOverlap('src/auth/**', 'src/auth/providers/oauth.ts')).toBe(true);
+    expect(claimPathsOverlap('src/*.ts', 'src/app.ts')).toBe(true);
+    expect(claimPathsOverlap('src/*.ts', 'src/auth/login.ts')).toBe(false);
+    expect(claimPathsOverlap('src/**/*.test.ts', 'src/auth/login.test.ts')).toBe(true);
+    expect(claimPathsOverlap('src/**/*.test.ts', 'src/auth/login.ts')).toBe(false);
+    expect(claimPathsOverlap('src/file?.ts', 'src/file1.ts')).toBe(true);
+    expect(claimPathsOverlap('src/[ab].ts', 'src/c.ts')).toBe(false);
+    expect(claimPathsOverlap('src/[!ab].ts', 'src/c.ts')).toBe(true);
+    expect(claimPathsOverlap('src/*.{ts,tsx}', 'src/view.tsx')).toBe(true);
+    expect(claimPathsOverlap('src/*.{ts,tsx}', 'src/view.css')).toBe(false);
+  });
+
+  it('should detect overlapping patterns', () => {
+    expect(claimPathsOverlap('src/auth/**', 'src/**/*.ts')).toBe(true);
+    expect(claimPathsOverlap('src/auth/', 'src/auth/providers/')).toBe(true);
+    expect(claimPathsOverlap('src/**', 'src/auth/*.ts')).toBe(true);
+    expect(claimPathsOverlap('src/auth/**', 'src/billing/**')).toBe(false);
+    expect(claimPathsOverlap('src/*.ts', 'src/*.css')).toBe(false);
+    expect(claimPathsOverlap('src/*.ts', 'src/auth/*.ts')).toBe(false);
+  });
+});
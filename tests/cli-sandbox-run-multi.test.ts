@@ -95,6 +95,26 @@ describe('sandbox run --multi CLI', () => {
       expect(result.stdout).toContain('Results directory');
     });
 
+    it('should show --integrate options in help', () => {
+      const result = runCli(['sandbox', 'run', '--help']);
+
+      expect(result.stdout).toContain('--integrate [branch]');
+      expect(result.stdout).toContain('--integrate-threshold');
+    });
+
+    it('should show retry options in help', () => {
+      const result = runCli(['sandbox', 'run', '--help']);
+
+      expect(result.stdout).toContain('--retries <n>');
+      expect(result.stdout).toContain('--retry-on <kinds>');
+    });
+
+    it('should show batch budget option in help', () => {
+      const result = runCli(['sandbox', 'run', '--help']);
+
+      expect(result.stdout).toContain('--batch-budget <amount>');
+    });
+
     it('should show parallel execution examples', () => {
       const result = runCli(['sandbox', 'run', '--help']);
 
@@ -144,6 +164,94 @@ describe('sandbox run --multi CLI', () => {
       expect(output.error).toContain('Task file not found');
     });
 
+    it('should reject an out-of-range --integrate-threshold (JSON mode)', () => {
+      const result = runCli([
+        'sandbox', 'run',
+        '--multi',
+        '--repo', tempDir,
+        '--task', 'Test task',
+        '--integrate',
+        '--integrate-threshold', '1.5',
+        '--json'
+      ], {
+        env: { E2B_API_KEY: 'test-key', ANTHROPIC_API_KEY: 'test-key' }
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.success).toBe(false);
+      expect(output.error).toContain('Invalid integrate threshold');
+    });
+
+    it('should reject invalid retry options (JSON mode)', () => {
+      const run = (...args: string[]) => runCli([
+        'sandbox', 'run',
+        '--multi',
+        '--repo', tempDir,
+        '--task', 'Test task',
+        ...args,
+        '--json'
+      ], {
+        env: { E2B_API_KEY: 'test-key', ANTHROPIC_API_KEY: 'test-key' }
+      });
+
+      const negative = run('--retries', '-1');
+      expect(negative.exitCode).not.toBe(0);
+      expect(JSON.parse(negative.stdout).error).toContain('Invalid retries value');
+
+      const unknownKind = run('--retries', '2', '--retry-on', 'timeout,network');
+      expect(unknownKind.exitCode).not.toBe(0);
+      expect(JSON.parse(unknownKind.stdout).error).toContain('Invalid --retry-on value');
+    });
+
+    it('should reject an invalid batch budget (JSON mode)', () => {
+      const result = runCli([
+        'sandbox', 'run',
+        '--multi',
+        '--repo', tempDir,
+        '--task', 'Test task',
+        '--batch-budget', '0',
+        '--json'
+      ], {
+        env: { E2B_API_KEY: 'test-key', ANTHROPIC_API_KEY: 'test-key' }
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(JSON.parse(result.stdout).error).toContain('Invalid batch budget');
+    });
+
+    it('should reject an unknown managed template (JSON mode)', () => {
+      const result = runCli([
+        'sandbox', 'run',
+        '--multi',
+        '--repo', tempDir,
+        '--task', 'Test task',
+        '--use-template', 'no-such-template',
+        '--json'
+      ], {
+        env: { E2B_API_KEY: 'test-key', ANTHROPIC_API_KEY: 'test-key' }
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(JSON.parse(result.stdout).error).toContain('Template "no-such-template" not found');
+    });
+
+    it('should require --budget with --batch-budget (JSON mode)', () => {
+      const result = runCli([
+        'sandbox', 'run',
+        '--multi',
+        '--repo', tempDir,
+        '--task', 'Test task',
+        '--batch-budget', '5',
+        '--json'
+      ], {
+        env: { E2B_API_KEY: 'test-key', ANTHROPIC_API_KEY: 'test-key' }
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(JSON.parse(result.stdout).error).toContain('--batch-budget requires --budget');
+    });
+
     it('should fail when ANTHROPIC_API_KEY is not set (JSON mode)', () => {
       const result = runCli([
         'sandbox', 'run',
@@ -237,6 +345,30 @@ describe('sandbox run --multi CLI', () => {
       expect(tasks).toEqual(['Task 1', 'Task 2']);
     });
 
+    it('should reject a task graph with a dependency cycle (JSON mode)', async () => {
+      const taskFile = path.join(tempDir, 'tasks.json');
+      await fs.writeFile(taskFile, JSON.stringify([
+        { id: 'a', prompt: 'Task A', dependsOn: ['b'] },
+        { id: 'b', prompt: 'Task B', dependsOn: ['a'] }
+      ]));
+
+      const result = runCli([
+        'sandbox', 'run',
+        '--multi',
+        '--repo', tempDir,
+        '--task-file', taskFile,
+        '--json'
+      ], {
+        env: { E2B_API_KEY: 'test-key', ANTHROPIC_API_KEY: 'test-key' }
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.success).toBe(false);
+      expect(output.error).toContain('Invalid task graph');
+      expect(output.error).toContain('cycle');
+    });
+
     it('should combine --task flags and --task-file', async () => {
       const taskFile = path.join(tempDir, 'tasks.txt');
       await fs.writeFile(taskFile, 'Task from file');
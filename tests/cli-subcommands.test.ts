@@ -16,6 +16,11 @@ import { execSync, spawnSync } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
+import { SessionDB } from '../src/db.js';
+import { SandboxManager } from '../src/e2b/sandbox-manager.js';
+import { ProcessSandboxProvider } from '../src/e2b/process-provider.js';
+import { createTarball, uploadToSandbox, downloadChangedFiles, recordUploadManifest } from '../src/e2b/file-sync.js';
+import { executeClaudeInSandbox } from '../src/e2b/claude-runner.js';
 
 // Path to built CLI
 const CLI_PATH = path.join(__dirname, '..', 'dist', 'cli.js');
@@ -109,6 +114,8 @@ describe('CLI Subcommand Structure', () => {
       const result = spawnSync('node', [CLI_PATH, 'sandbox', 'download', '--help'], { encoding: 'utf-8' });
       expect(result.status).toBe(0);
       expect(result.stdout).toContain('Download');
+      expect(result.stdout).toContain('--mode');
+      expect(result.stdout).toContain('--branch');
     });
 
     it('should accept "sandbox kill" as a valid command', () => {
@@ -128,6 +135,211 @@ describe('CLI Subcommand Structure', () => {
       expect(result.status).toBe(0);
       expect(result.stdout).toContain('status');
     });
+
+    it('should accept "sandbox batch resume" as a valid command', () => {
+      const result = spawnSync('node', [CLI_PATH, 'sandbox', 'batch', 'resume', '--help'], { encoding: 'utf-8' });
+      expect(result.status).toBe(0);
+      expect(result.stdout).toContain('Resume a parallel batch');
+    });
+
+    it('should accept "sandbox batch list/show/cancel" as valid commands', () => {
+      for (const subcommand of ['list', 'show', 'cancel']) {
+        const result = spawnSync('node', [CLI_PATH, 'sandbox', 'batch', subcommand, '--help'], { encoding: 'utf-8' });
+        expect(result.status).toBe(0);
+        expect(result.stdout).toContain('parallel batch');
+      }
+    });
+
+    it('should fail to show or cancel an unknown batch (JSON mode)', () => {
+      const show = spawnSync('node', [CLI_PATH, 'sandbox', 'batch', 'show', 'no-such-batch', '--json'], { encoding: 'utf-8' });
+      expect(show.status).toBe(1);
+      expect(JSON.parse(show.stdout)).toEqual({ success: false, error: 'Batch not found: no-such-batch' });
+
+      const cancel = spawnSync('node', [CLI_PATH, 'sandbox', 'batch', 'cancel', 'no-such-batch', '--json'], { encoding: 'utf-8' });
+      expect(cancel.status).toBe(1);
+      expect(JSON.parse(cancel.stdout)).toEqual({ success: false, error: 'Batch not found: no-such-batch' });
+    });
+
+    it('should accept "sandbox continue" as a valid command', () => {
+      const result = spawnSync('node', [CLI_PATH, 'sandbox', 'continue', '--help'], { encoding: 'utf-8' });
+      expect(result.status).toBe(0);
+      expect(result.stdout).toContain('follow-up prompt');
+      expect(result.stdout).toContain('--keep-alive');
+    });
+
+    it('should fail to continue an unknown session (JSON mode)', () => {
+      const home = fs.mkdtempSync(path.join(os.tmpdir(), 'pcc-continue-home-'));
+      try {
+        const env = { ...process.env, HOME: home };
+        spawnSync('node', [CLI_PATH, 'migrate'], { encoding: 'utf-8', env });
+
+        const result = spawnSync('node', [CLI_PATH, 'sandbox', 'continue', 'no-such-session', '--prompt', 'Fix it', '--json'], { encoding: 'utf-8', env });
+        expect(result.status).toBe(1);
+        expect(JSON.parse(result.stdout)).toMatchObject({ success: false, error: 'Session not found: no-such-session' });
+      } finally {
+        fs.rmSync(home, { recursive: true, force: true });
+      }
+    });
+
+    it('should accept a session name in place of the session ID', () => {
+      const home = fs.mkdtempSync(path.join(os.tmpdir(), 'pcc-continue-home-'));
+      try {
+        const env = { ...process.env, HOME: home };
+        spawnSync('node', [CLI_PATH, 'migrate'], { encoding: 'utf-8', env });
+        const db = new SessionDB(path.join(home, '.parallel-cc', 'coordinator.db'));
+        const worktreePath = path.join(home, 'removed-worktree');
+        db.createE2BSession({
+          id: 'sandbox-session-1',
+          pid: 999999,
+          repo_path: home,
+          worktree_path: worktreePath,
+          worktree_name: null,
+          sandbox_id: 'sandbox-1',
+          prompt: 'Add CSV export'
+        });
+        db.updateSessionName('sandbox-session-1', 'csv export');
+        db.close();
+
+        const result = spawnSync('node', [CLI_PATH, 'sandbox', 'continue', 'csv export', '--prompt', 'Fix it', '--json'], { encoding: 'utf-8', env });
+        expect(result.status).toBe(1);
+        expect(JSON.parse(result.stdout)).toMatchObject({ success: false, error: `Output directory not found: ${worktreePath}` });
+      } finally {
+        fs.rmSync(home, { recursive: true, force: true });
+      }
+    });
+
+    it('should upload local edits to the kept-alive sandbox before continuing', async () => {
+      const home = fs.mkdtempSync(path.join(os.tmpdir(), 'pcc-continue-home-'));
+      const worktreePath = path.join(home, 'worktree');
+      const hooks = { claude: path.join(home, 'fake-claude'), npm: path.join(home, 'fake-npm') };
+      // The follow-up copies the README, so the download shows what the sandbox saw
+      fs.writeFileSync(hooks.claude, [
+        '#!/bin/sh',
+        'case "$1" in --version) echo "1.0.0 (Claude Code)"; exit 0 ;; update) exit 0 ;; esac',
+        'cat > /dev/null',
+        'case "$*" in *--continue*) cp README.md seen.txt ;; esac'
+      ].join('\n') + '\n');
+      fs.writeFileSync(hooks.npm, '#!/bin/sh\nexit 0\n');
+      fs.mkdirSync(worktreePath);
+      fs.writeFileSync(path.join(worktreePath, 'README.md'), '# original\n');
+
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+      const manager = new SandboxManager(logger, {}, new ProcessSandboxProvider({ useBubblewrap: false, binaries: hooks }));
+      try {
+        // First run with --keep-alive: upload, run Claude, download, record the manifest
+        const env = { ...process.env, HOME: home, ANTHROPIC_API_KEY: 'test-key' };
+        spawnSync('node', [CLI_PATH, 'migrate'], { encoding: 'utf-8', env });
+        const { sandbox, sandboxId } = await manager.createSandbox('sandbox-session-1');
+        const tarball = await createTarball(worktreePath);
+        expect((await uploadToSandbox(tarball.path, sandbox)).success).toBe(true);
+        fs.rmSync(path.dirname(tarball.path), { recursive: true, force: true });
+        const claudeOptions = { streamOutput: false, captureFullLog: false, gitUser: 'Test', gitEmail: 'test@example.com' };
+        expect((await executeClaudeInSandbox(sandbox, manager, 'Start', logger, claudeOptions)).success).toBe(true);
+        expect((await downloadChangedFiles(sandbox, '/workspace', worktreePath)).success).toBe(true);
+        expect(await recordUploadManifest(worktreePath, sandbox, {
+          manifestDir: path.join(home, '.parallel-cc', 'upload-manifests')
+        })).toBe(true);
+
+        const db = new SessionDB(path.join(home, '.parallel-cc', 'coordinator.db'));
+        db.createE2BSession({
+          id: 'sandbox-session-1',
+          pid: 999999,
+          repo_path: home,
+          worktree_path: worktreePath,
+          worktree_name: null,
+          sandbox_id: sandboxId,
+          prompt: 'Start',
+          sandbox_provider: 'process'
+        });
+        db.close();
+
+        fs.writeFileSync(path.join(worktreePath, 'README.md'), '# edited locally\n');
+
+        // A sandbox that changed since the download is not overwritten
+        await sandbox.files.write('/workspace/extra.txt', 'added in the sandbox\n');
+        const mismatch = spawnSync('node', [
+          CLI_PATH, 'sandbox', 'continue', 'sandbox-session-1', '--prompt', 'Check the readme', '--json'
+        ], { encoding: 'utf-8', env });
+        expect(mismatch.status).toBe(1);
+        expect(JSON.parse(mismatch.stdout)).toMatchObject({
+          success: false,
+          error: expect.stringMatching(/^Local changes not uploaded: Workspace has/),
+          hint: 'Pass --no-upload to continue without uploading local edits'
+        });
+        await sandbox.commands.run('rm -f /workspace/extra.txt');
+
+        const result = spawnSync('node', [
+          CLI_PATH, 'sandbox', 'continue', 'sandbox-session-1', '--prompt', 'Check the readme', '--json'
+        ], { encoding: 'utf-8', env });
+
+        expect(result.status).toBe(0);
+        expect(JSON.parse(result.stdout)).toMatchObject({ success: true, filesUploaded: 1 });
+        expect(fs.readFileSync(path.join(worktreePath, 'seen.txt'), 'utf-8')).toBe('# edited locally\n');
+      } finally {
+        await manager.cleanupAll();
+        fs.rmSync(home, { recursive: true, force: true });
+      }
+    }, 60000);
+
+    it('should download from and kill a session through the provider it was started on', async () => {
+      const home = fs.mkdtempSync(path.join(os.tmpdir(), 'pcc-session-provider-home-'));
+      const worktreePath = path.join(home, 'worktree');
+      const outputPath = path.join(home, 'output');
+      fs.mkdirSync(worktreePath);
+      fs.writeFileSync(path.join(worktreePath, 'README.md'), '# project\n');
+
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+      const manager = new SandboxManager(logger, {}, new ProcessSandboxProvider({ useBubblewrap: false }));
+      try {
+        const env = { ...process.env, HOME: home };
+        spawnSync('node', [CLI_PATH, 'migrate'], { encoding: 'utf-8', env });
+        const { sandbox, sandboxId } = await manager.createSandbox('sandbox-session-1');
+        const tarball = await createTarball(worktreePath);
+        expect((await uploadToSandbox(tarball.path, sandbox)).success).toBe(true);
+        fs.rmSync(path.dirname(tarball.path), { recursive: true, force: true });
+        await sandbox.commands.run(
+          'git init -q && git add -A && git -c user.name=Test -c user.email=test@example.com commit -qm init && echo done > result.txt',
+          { cwd: '/workspace' }
+        );
+
+        const db = new SessionDB(path.join(home, '.parallel-cc', 'coordinator.db'));
+        db.createE2BSession({
+          id: 'sandbox-session-1',
+          pid: 999999,
+          repo_path: home,
+          worktree_path: worktreePath,
+          worktree_name: null,
+          sandbox_id: sandboxId,
+          prompt: 'Start',
+          sandbox_provider: 'process'
+        });
+        db.close();
+
+        // No E2B_API_KEY needed: the session is reconnected through the process provider
+        const download = spawnSync('node', [
+          CLI_PATH, 'sandbox', 'download', '--session-id', 'sandbox-session-1', '--output', outputPath, '--json'
+        ], { encoding: 'utf-8', env: { ...env, E2B_API_KEY: '' } });
+        expect(download.status).toBe(0);
+        expect(JSON.parse(download.stdout)).toMatchObject({ success: true, sandboxId, filesDownloaded: 1 });
+        expect(fs.readFileSync(path.join(outputPath, 'result.txt'), 'utf-8')).toBe('done\n');
+
+        const kill = spawnSync('node', [
+          CLI_PATH, 'sandbox', 'kill', '--session-id', 'sandbox-session-1', '--json'
+        ], { encoding: 'utf-8', env: { ...env, E2B_API_KEY: '' } });
+        expect(kill.status).toBe(0);
+        expect(JSON.parse(kill.stdout)).toMatchObject({ success: true, sandboxId, terminated: true });
+        expect(await sandbox.isRunning()).toBe(false);
+      } finally {
+        await manager.cleanupAll();
+        fs.rmSync(home, { recursive: true, force: true });
+      }
+    }, 60000);
+
+    it('should fail to resume an unknown batch (JSON mode)', () => {
+      const result = spawnSync('node', [CLI_PATH, 'sandbox', 'batch', 'resume', 'no-such-batch', '--json'], { encoding: 'utf-8' });
+      expect(result.status).toBe(1);
+      expect(JSON.parse(result.stdout)).toEqual({ success: false, error: 'Batch not found: no-such-batch' });
+    });
   });
 
   describe('Backward Compatibility (Deprecated Commands)', () => {
@@ -259,6 +471,55 @@ describe('CLI Subcommand Structure', () => {
       expect(helpText).toContain('--json');
     });
   });
+
+  describe('Budget Report', () => {
+    it('budget report should offer grouping and output formats', () => {
+      const result = spawnSync('node', [CLI_PATH, 'budget', 'report', '--help'], { encoding: 'utf-8' });
+      const helpText = result.stdout;
+
+      expect(result.status).toBe(0);
+      expect(helpText).toContain('--period');
+      expect(helpText).toContain('--group-by');
+      expect(helpText).toContain('--date');
+      expect(helpText).toContain('--json');
+      expect(helpText).toContain('--csv');
+    });
+
+    it('budget report should reject an unknown grouping (JSON mode)', () => {
+      const result = spawnSync('node', [CLI_PATH, 'budget', 'report', '--group-by', 'team', '--json'], { encoding: 'utf-8' });
+
+      expect(result.status).toBe(1);
+      expect(JSON.parse(result.stdout).error).toContain('Invalid group: team');
+    });
+  });
+
+  describe('Claim Enforcement', () => {
+    it('install should offer the git pre-commit hook', () => {
+      const result = spawnSync('node', [CLI_PATH, 'install', '--help'], { encoding: 'utf-8' });
+
+      expect(result.stdout).toContain('--git-hooks');
+      expect(result.stdout).toContain('--warn-only');
+    });
+
+    it('claims verify should offer staged and warn modes', () => {
+      const result = spawnSync('node', [CLI_PATH, 'claims', 'verify', '--help'], { encoding: 'utf-8' });
+
+      expect(result.status).toBe(0);
+      expect(result.stdout).toContain('--staged');
+      expect(result.stdout).toContain('--warn');
+    });
+
+    it('claims verify should be skipped with PARALLEL_CC_SKIP_CLAIMS=1', () => {
+      const result = spawnSync('node', [CLI_PATH, 'claims', 'verify', '--staged'], {
+        encoding: 'utf-8',
+        cwd: os.tmpdir(),
+        env: { ...process.env, PARALLEL_CC_SKIP_CLAIMS: '1' }
+      });
+
+      expect(result.status).toBe(0);
+      expect(result.stderr).toContain('skipping file claim check');
+    });
+  });
 });
 
 describe('Version Update', () => {
@@ -9,7 +9,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { ConfigManager, DEFAULT_BUDGET_CONFIG } from '../src/config.js';
+import { ConfigManager, DEFAULT_BUDGET_CONFIG, DEFAULT_WARM_POOL_CONFIG } from '../src/config.js';
 import type { BudgetConfig } from '../src/types.js';
 
 // Test fixtures directory - unique per process to avoid conflicts
@@ -294,6 +294,67 @@ describe('ConfigManager', () => {
     });
   });
 
+  // ==========================================================================
+  // Worktree Config Tests
+  // ==========================================================================
+
+  describe('worktree config', () => {
+    beforeEach(() => {
+      configManager = new ConfigManager(TEST_CONFIG_PATH);
+    });
+
+    it('should be empty by default', () => {
+      expect(configManager.getWorktreeConfig()).toEqual({});
+    });
+
+    it('should update worktree config partially', () => {
+      configManager.setWorktreeConfig({ baseRef: 'origin/main' });
+      configManager.setWorktreeConfig({ branchTemplate: '{user}/{date}-{label}' });
+
+      expect(configManager.getWorktreeConfig()).toEqual({
+        baseRef: 'origin/main',
+        branchTemplate: '{user}/{date}-{label}'
+      });
+      expect(configManager.get('worktree.baseRef')).toBe('origin/main');
+    });
+
+    it('should reject invalid base refs and unknown template placeholders', () => {
+      expect(() => configManager.setWorktreeConfig({ baseRef: 'origin main' })).toThrow('Base ref must be a git ref name');
+      expect(() => configManager.setWorktreeConfig({ branchTemplate: '{user}/{ticket}' })).toThrow('Unknown placeholder {ticket}');
+      expect(configManager.getWorktreeConfig()).toEqual({});
+    });
+  });
+
+  // ==========================================================================
+  // Warm Pool Config Tests
+  // ==========================================================================
+
+  describe('warm pool config', () => {
+    beforeEach(() => {
+      configManager = new ConfigManager(TEST_CONFIG_PATH);
+    });
+
+    it('should be disabled by default', () => {
+      expect(configManager.getWarmPoolConfig()).toEqual(DEFAULT_WARM_POOL_CONFIG);
+      expect(configManager.getWarmPoolConfig().size).toBe(0);
+    });
+
+    it('should update warm pool config partially', () => {
+      configManager.setWarmPoolConfig({ size: 3 });
+      configManager.setWarmPoolConfig({ idleTtlMinutes: 5 });
+
+      expect(configManager.getWarmPoolConfig()).toEqual({ size: 3, idleTtlMinutes: 5 });
+      expect(configManager.get('pool.size')).toBe(3);
+    });
+
+    it('should reject invalid pool sizes and TTLs', () => {
+      expect(() => configManager.setWarmPoolConfig({ size: -1 })).toThrow('Pool size must be an integer');
+      expect(() => configManager.setWarmPoolConfig({ size: 1.5 })).toThrow('Pool size must be an integer');
+      expect(() => configManager.setWarmPoolConfig({ idleTtlMinutes: 0 })).toThrow('Pool idle TTL must be a positive number');
+      expect(configManager.getWarmPoolConfig()).toEqual(DEFAULT_WARM_POOL_CONFIG);
+    });
+  });
+
   // ==========================================================================
   // delete() Tests
   // ==========================================================================
@@ -195,4 +195,61 @@ function foo() { return 'theirs'; }
       expect(escaped).toContain("'\\''");
     });
   });
+
+  describe('parseConflictsFromMergeTree', () => {
+    it('should read conflicts from three-argument merge-tree diff output', async () => {
+      const detector = new ConflictDetector('/tmp/test');
+
+      const output = [
+        'changed in both',
+        '  base   100644 1111111111111111111111111111111111111111 src/config.ts',
+        '  our    100644 2222222222222222222222222222222222222222 src/config.ts',
+        '  their  100644 3333333333333333333333333333333333333333 src/config.ts',
+        '@@ -1,3 +1,7 @@',
+        ' export const a = 1;',
+        '+<<<<<<< .our',
+        ' export const b = 2;',
+        '+=======',
+        '+export const b = 3;',
+        '+>>>>>>> .their',
+        '-export const c = 0;'
+      ].join('\n');
+
+      const conflicts = await (detector as any).parseConflictsFromMergeTree(output, false);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].filePath).toBe('src/config.ts');
+      expect(conflicts[0].markers[0]).toMatchObject({
+        oursContent: 'export const b = 2;',
+        theirsContent: 'export const b = 3;'
+      });
+    });
+  });
+
+  describe('analyzeConflictedFile', () => {
+    it('should return one conflict per marked region', async () => {
+      const detector = new ConflictDetector('/tmp/test');
+
+      const content = [
+        '<<<<<<< HEAD',
+        'const x = 1;',
+        '=======',
+        'const  x = 1;',
+        '>>>>>>> feature',
+        'middle',
+        '<<<<<<< HEAD',
+        'ours',
+        '=======',
+        'theirs',
+        '>>>>>>> feature'
+      ].join('\n');
+
+      const conflicts = await detector.analyzeConflictedFile('a.ts', content);
+
+      expect(conflicts).toHaveLength(2);
+      expect(conflicts[0].conflictType).toBe('TRIVIAL');
+      expect(conflicts[1].conflictType).toBe('CONCURRENT_EDIT');
+      expect(conflicts[1].markers[0].start).toBe(6);
+    });
+  });
 });
@@ -171,6 +171,89 @@ describe('Coordinator', () => {
       expect(second.worktreePath).toBe(first.worktreePath);
     });
 
+    it('should store the session name and use it for the worktree name', async () => {
+      await coordinator.register(TEST_REPO_PATH, 12345);
+      const named = await coordinator.register(TEST_REPO_PATH, 12346, { name: '  auth refactor ' });
+
+      expect(named.name).toBe('auth refactor');
+      expect(GtrWrapper.generateWorktreeName).toHaveBeenCalledWith('parallel-', 'auth refactor');
+
+      const status = coordinator.status(TEST_REPO_PATH);
+      expect(status.sessions.find(s => s.sessionId === named.sessionId)?.name).toBe('auth refactor');
+      expect(status.sessions.find(s => s.sessionId !== named.sessionId)?.name).toBeNull();
+    });
+
+    it('should refuse a name held by a live session', async () => {
+      await coordinator.register(TEST_REPO_PATH, 12345, { name: 'auth refactor' });
+
+      await expect(coordinator.register(TEST_REPO_PATH, 12346, { name: 'Auth Refactor' }))
+        .rejects.toThrow('Session name "Auth Refactor" is already in use');
+    });
+
+    it('should take over the name of a dead session', async () => {
+      const dead = await coordinator.register(TEST_REPO_PATH, 99999, { name: 'auth refactor' });
+      processKillSpy.mockImplementation((pid: number) => {
+        if (pid === 99999) {
+          throw new Error('No such process');
+        }
+        return true;
+      });
+
+      const result = await coordinator.register(TEST_REPO_PATH, 12345, { name: 'auth refactor' });
+
+      expect(result.name).toBe('auth refactor');
+      expect(coordinator.getDB().getSessionById(dead.sessionId)?.name ?? null).toBeNull();
+    });
+
+    it('should apply a name given when re-registering', async () => {
+      const first = await coordinator.register(TEST_REPO_PATH, 12345);
+
+      const again = await coordinator.register(TEST_REPO_PATH, 12345, { name: 'auth refactor' });
+
+      expect(again).toMatchObject({ sessionId: first.sessionId, name: 'auth refactor', isNew: false });
+      expect(coordinator.getDB().getSessionById(first.sessionId)?.name).toBe('auth refactor');
+    });
+
+    it('should refuse a re-registration name held by another live session', async () => {
+      await coordinator.register(TEST_REPO_PATH, 12345, { name: 'auth refactor' });
+      const other = await coordinator.register(TEST_REPO_PATH, 12346, { name: 'billing' });
+
+      await expect(coordinator.register(TEST_REPO_PATH, 12346, { name: 'auth refactor' }))
+        .rejects.toThrow('Session name "auth refactor" is already in use');
+      expect(coordinator.getDB().getSessionById(other.sessionId)?.name).toBe('billing');
+    });
+
+    it('should create worktrees from the configured base ref and branch template', async () => {
+      coordinator.close();
+      coordinator = new Coordinator({
+        dbPath: TEST_DB_PATH,
+        worktreeBaseRef: 'origin/main',
+        branchTemplate: '{user}/{label}'
+      });
+      vi.stubEnv('USER', 'jane');
+      const MockedGtrWrapper = vi.mocked(GtrWrapper);
+      MockedGtrWrapper.formatBranchName = vi.fn((template: string, values: { user: string; label: string }) =>
+        template.replace('{user}', values.user).replace('{label}', values.label.replace(' ', '-'))
+      );
+      MockedGtrWrapper.prototype.branchExists = vi.fn((name: string) => name === 'jane/auth-refactor');
+      MockedGtrWrapper.prototype.resolveBaseRef = vi.fn((ref: string) => ({ ref }));
+
+      await coordinator.register(TEST_REPO_PATH, 12345);
+      const first = await coordinator.register(TEST_REPO_PATH, 12346, { name: 'billing' });
+      const second = await coordinator.register(TEST_REPO_PATH, 12347, { name: 'auth refactor' });
+
+      expect(first.worktreeName).toBe('jane/billing');
+      expect(second.worktreeName).toMatch(/^jane\/auth-refactor-[a-z0-9]{4}$/);
+      expect(GtrWrapper.prototype.resolveBaseRef).toHaveBeenCalledWith('origin/main');
+      expect(GtrWrapper.prototype.createWorktree).toHaveBeenCalledWith('jane/billing', 'origin/main');
+      vi.unstubAllEnvs();
+    });
+
+    it('should throw on an empty session name', async () => {
+      await expect(coordinator.register(TEST_REPO_PATH, 12345, { name: '   ' }))
+        .rejects.toThrow('Invalid session name');
+    });
+
     it('should throw on invalid repo path', async () => {
       await expect(coordinator.register('', 12345)).rejects.toThrow('Invalid repository path');
       await expect(coordinator.register(null as any, 12345)).rejects.toThrow('Invalid repository path');
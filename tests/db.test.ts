@@ -289,6 +289,49 @@ describe('SessionDB', () => {
     });
   });
 
+  // ==========================================================================
+  // Session name Tests
+  // ==========================================================================
+
+  describe('session names', () => {
+    it('should store the name and default to null', () => {
+      db.createSession(createTestSession({ id: 'named', pid: 1001, name: 'auth refactor' }));
+      db.createSession(createTestSession({ id: 'unnamed', pid: 1002 }));
+
+      expect(db.getSessionById('named')?.name).toBe('auth refactor');
+      expect(db.getSessionById('unnamed')?.name).toBeNull();
+    });
+
+    it('should find sessions by name case-insensitively', () => {
+      db.createSession(createTestSession({ id: 'named', pid: 1001, name: 'Auth Refactor' }));
+
+      expect(db.getSessionByName('auth refactor')?.id).toBe('named');
+      expect(db.getSessionByName('billing')).toBeNull();
+    });
+
+    it('should resolve a session by ID or name', () => {
+      db.createSession(createTestSession({ id: 'named', pid: 1001, name: 'auth refactor' }));
+
+      expect(db.resolveSession('named')?.id).toBe('named');
+      expect(db.resolveSession('auth refactor')?.id).toBe('named');
+      expect(db.resolveSession('unknown')).toBeNull();
+    });
+
+    it('should reject a name already used by another session', () => {
+      db.createSession(createTestSession({ id: 'first', pid: 1001, name: 'auth refactor' }));
+
+      expect(() => db.createSession(createTestSession({ id: 'second', pid: 1002, name: 'AUTH REFACTOR' })))
+        .toThrow();
+    });
+
+    it('should free a name when it is cleared', () => {
+      db.createSession(createTestSession({ id: 'first', pid: 1001, name: 'auth refactor' }));
+
+      expect(db.updateSessionName('first', null)).toBe(true);
+      expect(db.getSessionByName('auth refactor')).toBeNull();
+    });
+  });
+
   // ==========================================================================
   // getAllSessions Tests
   // ==========================================================================
@@ -705,6 +748,103 @@ describe('SessionDB', () => {
     });
   });
 
+  // ==========================================================================
+  // Parallel Batch Tests
+  // ==========================================================================
+
+  describe('parallel batches', () => {
+    const createBatch = () => db.createParallelBatch({
+      id: 'batch-1',
+      pid: 4242,
+      config: {
+        tasks: [],
+        repoPath: '/test/repo',
+        outputDir: '/test/results',
+        authMethod: 'api-key',
+        maxConcurrent: 2,
+        failFast: false
+      },
+      tasks: [
+        { id: 'schema', prompt: 'Add schema', dependsOn: [], outputPath: '/test/results/schema' },
+        { id: 'api', prompt: 'Add API', dependsOn: ['schema'], outputPath: '/test/results/api' }
+      ]
+    });
+
+    it('should create a running batch with pending tasks in order', () => {
+      const batch = createBatch();
+
+      expect(batch.status).toBe('running');
+      expect(batch.pid).toBe(4242);
+      expect(batch.config.maxConcurrent).toBe(2);
+
+      const tasks = db.getParallelBatchTasks('batch-1');
+      expect(tasks.map(t => t.taskId)).toEqual(['schema', 'api']);
+      expect(tasks[1].dependsOn).toEqual(['schema']);
+      expect(tasks.every(t => t.status === 'pending')).toBe(true);
+    });
+
+    it('should update only the given task fields', () => {
+      createBatch();
+
+      db.updateParallelBatchTask('batch-1', 'schema', { status: 'running', sandboxId: 'sbx-1', sessionPid: 99 });
+      db.updateParallelBatchTask('batch-1', 'schema', { status: 'completed', filesChanged: 3, costEstimate: 0.25 });
+
+      const [schema, api] = db.getParallelBatchTasks('batch-1');
+      expect(schema).toMatchObject({ status: 'completed', sandboxId: 'sbx-1', sessionPid: 99, filesChanged: 3, costEstimate: 0.25 });
+      expect(api.status).toBe('pending');
+
+      db.updateParallelBatchTask('batch-1', 'schema', { sandboxId: undefined });
+      expect(db.getParallelBatchTasks('batch-1')[0].sandboxId).toBeUndefined();
+    });
+
+    it('should record completion when the batch finishes', () => {
+      createBatch();
+
+      db.updateParallelBatchStatus('batch-1', 'completed');
+
+      const batch = db.getParallelBatch('batch-1');
+      expect(batch?.status).toBe('completed');
+      expect(batch?.completedAt).toBeDefined();
+    });
+
+    it('should record that the batch budget was exceeded', () => {
+      expect(createBatch().budgetExceeded).toBe(false);
+
+      expect(db.markParallelBatchBudgetExceeded('batch-1')).toBe(true);
+
+      expect(db.getParallelBatch('batch-1')?.budgetExceeded).toBe(true);
+      expect(db.markParallelBatchBudgetExceeded('missing')).toBe(false);
+    });
+
+    it('should keep finished batches final', () => {
+      createBatch();
+
+      expect(db.updateParallelBatchStatus('batch-1', 'cancelled')).toBe(true);
+      expect(db.updateParallelBatchStatus('batch-1', 'failed')).toBe(false);
+      expect(db.getParallelBatch('batch-1')?.status).toBe('cancelled');
+    });
+
+    it('should list batches with filters', () => {
+      createBatch();
+      db.createParallelBatch({
+        id: 'batch-2',
+        pid: 4242,
+        config: { tasks: [], repoPath: '/other/repo', outputDir: '/other/results', authMethod: 'api-key' },
+        tasks: []
+      });
+      db.updateParallelBatchStatus('batch-2', 'failed');
+
+      expect(db.listParallelBatches().map(b => b.id)).toEqual(['batch-2', 'batch-1']);
+      expect(db.listParallelBatches({ repoPath: '/test/repo' }).map(b => b.id)).toEqual(['batch-1']);
+      expect(db.listParallelBatches({ status: 'failed' }).map(b => b.id)).toEqual(['batch-2']);
+      expect(db.listParallelBatches({ limit: 1 })).toHaveLength(1);
+    });
+
+    it('should return null for unknown batches', () => {
+      expect(db.getParallelBatch('missing')).toBeNull();
+    });
+  });
+
   // ==========================================================================
   // close Tests
   // ==========================================================================
@@ -112,6 +112,32 @@ describe('E2B Database Operations', () => {
 
       expect(session.is_main_repo).toBe(false);
     });
+
+    it('should record the sandbox provider and image (default: e2b)', () => {
+      db.createE2BSession({
+        id: randomUUID(),
+        pid: 12345,
+        repo_path: '/path/to/repo',
+        worktree_path: '/path/to/worktree',
+        worktree_name: null,
+        sandbox_id: 'sb_default',
+        prompt: 'Test prompt'
+      });
+      db.createE2BSession({
+        id: randomUUID(),
+        pid: 12346,
+        repo_path: '/path/to/repo',
+        worktree_path: '/path/to/worktree-2',
+        worktree_name: null,
+        sandbox_id: 'pcc-docker-1',
+        prompt: 'Test prompt',
+        sandbox_provider: 'docker',
+        sandbox_image: 'node:22'
+      });
+
+      expect(db.getE2BSessionBySandboxId('sb_default')).toMatchObject({ sandbox_provider: 'e2b', sandbox_image: undefined });
+      expect(db.getE2BSessionBySandboxId('pcc-docker-1')).toMatchObject({ sandbox_provider: 'docker', sandbox_image: 'node:22' });
+    });
   });
 
   describe('updateE2BSessionStatus', () => {
@@ -7,12 +7,13 @@
  * - "Already up-to-date" scenarios (non-zero exit code but success)
  * - Version parsing from output
  * - Error handling
+ * - Stream-json output: rendered text and parsed token usage
  *
  * All sandbox calls are mocked - no real E2B operations occur.
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { runClaudeUpdate } from '../../src/e2b/claude-runner.js';
+import { runClaudeUpdate, runClaudeWithPrompt } from '../../src/e2b/claude-runner.js';
 import type { Logger } from '../../src/logger.js';
 import type { Sandbox } from 'e2b';
 
@@ -363,3 +364,48 @@ describe('runClaudeUpdate', () => {
     });
   });
 });
+
+describe('runClaudeWithPrompt', () => {
+  const options = {
+    workingDir: '/workspace',
+    timeout: 60,
+    streamOutput: false,
+    captureFullLog: true,
+    localLogPath: '',
+    onProgress: () => {},
+    authMethod: 'oauth' as const,
+    oauthCredentials: '',
+    gitUser: '',
+    gitEmail: '',
+    localRepoPath: ''
+  };
+
+  it('should run Claude with stream-json output and parse usage', async () => {
+    const streamOutput = [
+      JSON.stringify({ type: 'assistant', message: { id: 'msg_1', content: [{ type: 'text', text: 'Done' }], usage: { input_tokens: 10, output_tokens: 5 } } }),
+      JSON.stringify({ type: 'result', subtype: 'success', is_error: false, num_turns: 1, total_cost_usd: 0.01, usage: { input_tokens: 10, output_tokens: 5 } })
+    ].join('\n');
+    const runResults = new Map<string, any>();
+    runResults.set('touch', { exitCode: 0, stdout: '', stderr: '' });
+    runResults.set('claude -p', { exitCode: 0, stdout: '', stderr: '' });
+    runResults.set('cat ', { exitCode: 0, stdout: streamOutput, stderr: '' });
+    const mockSandbox = createMockSandbox(runResults);
+
+    const result = await runClaudeWithPrompt(mockSandbox, 'Fix bug', createMockLogger(), options);
+
+    const runCalls = (mockSandbox.commands.run as any).mock.calls;
+    const claudeCall = runCalls.find((call: any) => call[0].includes('claude -p'));
+    expect(claudeCall[0]).toContain('--output-format stream-json --verbose');
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('Done\n');
+    expect(result.fullOutput).toBe(streamOutput);
+    expect(result.usage).toEqual({
+      turns: 1,
+      inputTokens: 10,
+      outputTokens: 5,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUsd: 0.01
+    });
+  });
+});
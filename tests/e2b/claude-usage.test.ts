@@ -0,0 +1,116 @@
+/**
+ * Tests for Claude usage accounting from stream-json output
+ *
+ * Tests:
+ * - Token and cost totals from the result event
+ * - Per-turn usage when the run ended before its result event
+ * - Summing usage across attempts and billed model cost by auth method
+ * - Rendering stream-json output (whole and chunked) as readable text
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseClaudeUsage,
+  sumClaudeUsage,
+  getModelCost,
+  renderStreamJson,
+  createStreamJsonRenderer
+} from '../../src/e2b/claude-usage.js';
+
+const event = (value: unknown): string => JSON.stringify(value);
+
+const assistant = (id: string, content: unknown[], usage = { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 50 }) =>
+  event({ type: 'assistant', message: { id, content, usage } });
+
+const STREAM = [
+  event({ type: 'system', subtype: 'init', model: 'claude-test' }),
+  assistant('msg_1', [{ type: 'text', text: 'Looking at the code' }]),
+  assistant('msg_1', [{ type: 'tool_use', name: 'Bash', input: { command: 'npm test' } }]),
+  event({ type: 'user', message: { content: [{ type: 'tool_result', content: 'ok' }] } }),
+  assistant('msg_2', [{ type: 'text', text: 'All tests pass' }], { input_tokens: 300, output_tokens: 40, cache_read_input_tokens: 0 }),
+  event({
+    type: 'result',
+    subtype: 'success',
+    is_error: false,
+    num_turns: 2,
+    total_cost_usd: 0.0421,
+    usage: { input_tokens: 400, output_tokens: 60, cache_creation_input_tokens: 10, cache_read_input_tokens: 50 }
+  })
+].join('\n');
+
+describe('parseClaudeUsage', () => {
+  it('should take totals and cost from the result event', () => {
+    expect(parseClaudeUsage(STREAM)).toEqual({
+      turns: 2,
+      inputTokens: 400,
+      outputTokens: 60,
+      cacheCreationInputTokens: 10,
+      cacheReadInputTokens: 50,
+      costUsd: 0.0421
+    });
+  });
+
+  it('should sum per-turn usage, counting each message once, without a result event', () => {
+    const interrupted = STREAM.split('\n').slice(0, -1).join('\n');
+
+    expect(parseClaudeUsage(interrupted)).toEqual({
+      turns: 2,
+      inputTokens: 400,
+      outputTokens: 60,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 50,
+      costUsd: undefined
+    });
+  });
+
+  it('should ignore non-JSON lines and return undefined without usage', () => {
+    expect(parseClaudeUsage('bash: claude: command not found\n{not json')).toBeUndefined();
+    expect(parseClaudeUsage(`npm WARN something\n${STREAM}`)?.costUsd).toBe(0.0421);
+  });
+});
+
+describe('sumClaudeUsage', () => {
+  it('should add up attempts and skip attempts without usage', () => {
+    const usage = parseClaudeUsage(STREAM)!;
+
+    expect(sumClaudeUsage([usage, undefined, { ...usage, costUsd: undefined }])).toMatchObject({
+      turns: 4,
+      inputTokens: 800,
+      outputTokens: 120,
+      costUsd: 0.0421
+    });
+    expect(sumClaudeUsage([undefined])).toBeUndefined();
+  });
+});
+
+describe('getModelCost', () => {
+  it('should bill reported cost only for API key authentication', () => {
+    const usage = parseClaudeUsage(STREAM);
+
+    expect(getModelCost(usage, 'api-key')).toBe(0.0421);
+    expect(getModelCost(usage, 'oauth')).toBe(0);
+    expect(getModelCost(undefined, 'api-key')).toBe(0);
+  });
+});
+
+describe('renderStreamJson', () => {
+  it('should show assistant text and tool calls and drop other events', () => {
+    expect(renderStreamJson(STREAM)).toBe('Looking at the code\n→ Bash npm test\nAll tests pass\n');
+  });
+
+  it('should pass through lines that are not events', () => {
+    expect(renderStreamJson('bash: claude: command not found\n')).toBe('bash: claude: command not found\n');
+  });
+
+  it('should render chunks that split lines once the line is complete', () => {
+    const rendered: string[] = [];
+    const onChunk = createStreamJsonRenderer(text => rendered.push(text));
+    const line = assistant('msg_1', [{ type: 'text', text: 'Hello' }]) + '\n';
+
+    onChunk(line.substring(0, 20));
+    expect(rendered).toEqual([]);
+
+    onChunk(line.substring(20));
+    expect(rendered).toEqual(['Hello\n']);
+  });
+});
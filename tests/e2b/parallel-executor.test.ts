@@ -8,12 +8,36 @@
  * - Progress monitoring and callbacks
  * - Error handling and cleanup
  * - Cancellation of remaining tasks
+ * - Task dependencies (dependsOn ordering and skipping)
+ * - Batch persistence and resume after an interrupted run
+ * - Cancelling a batch from another process
+ * - Retries with backoff, by failure kind
+ * - Batch budget (tasks not started once spend would exceed it)
+ * - Compute and model cost recorded per attempt
+ * - Warm pool: prepared sandboxes taken from SandboxManager's pool
+ * - NPM authentication and managed template setup, in warmup or per task
  *
  * All E2B SDK and file system operations are mocked.
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { ParallelExecutor } from '../../src/e2b/parallel-executor.js';
+import * as fsSync from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ParallelExecutor, cancelParallelBatch } from '../../src/e2b/parallel-executor.js';
+import { SessionDB } from '../../src/db.js';
+import {
+  downloadChangedFiles,
+  removeDeletedFiles,
+  createTarball,
+  buildManifestEntries,
+  uploadBaseSnapshot,
+  uploadIncremental,
+  uploadToSandbox,
+  type UploadManifest
+} from '../../src/e2b/file-sync.js';
+import { resolveGitIdentity, prepareSandboxForClaude, executeClaudeInSandbox } from '../../src/e2b/claude-runner.js';
+import type { SandboxHandle } from '../../src/e2b/sandbox-provider.js';
 import type {
   ParallelExecutionConfig,
   TaskResult,
@@ -23,6 +47,7 @@ import type {
 import type { Logger } from '../../src/logger.js';
 import type { Coordinator } from '../../src/coordinator.js';
 import type { SandboxManager } from '../../src/e2b/sandbox-manager.js';
+import type { BudgetTracker } from '../../src/budget-tracker.js';
 
 // Mock dependencies
 vi.mock('../../src/coordinator.js');
@@ -789,6 +814,714 @@ describe('ParallelExecutor', () => {
     });
   });
 
+  describe('task dependencies', () => {
+    const dagConfig = (): ParallelExecutionConfig => ({
+      ...defaultConfig,
+      maxConcurrent: 3,
+      tasks: [
+        { id: 'api', prompt: 'Add API' },
+        { id: 'api-tests', prompt: 'Add API tests', dependsOn: ['api'] },
+        { id: 'docs', prompt: 'Update docs' }
+      ]
+    });
+
+    const makeResult = (taskId: string, status: ParallelTaskStatus): TaskResult => ({
+      taskId,
+      taskDescription: taskId,
+      sessionId: `session-${taskId}`,
+      sandboxId: `sandbox-${taskId}`,
+      worktreePath: `/tmp/worktree-${taskId}`,
+      status,
+      startTime: new Date(),
+      endTime: new Date(),
+      duration: 100,
+      filesChanged: 1,
+      outputPath: `/tmp/parallel-results/${taskId}`,
+      error: status === 'failed' ? 'Claude failed' : undefined
+    });
+
+    it('should reject unknown dependencies and cycles', () => {
+      const build = (tasks: ParallelExecutionConfig['tasks']) => new ParallelExecutor(
+        { ...defaultConfig, tasks },
+        mockCoordinator as unknown as Coordinator,
+        mockSandboxManager as unknown as SandboxManager,
+        mockLogger
+      );
+
+      expect(() => build([{ id: 'a', prompt: 'A', dependsOn: ['missing'] }])).toThrow(/unknown task "missing"/);
+      expect(() => build([
+        { id: 'a', prompt: 'A', dependsOn: ['b'] },
+        { id: 'b', prompt: 'B', dependsOn: ['a'] }
+      ])).toThrow(/cycle/);
+    });
+
+    it('should start downstream tasks only after their dependencies complete', async () => {
+      const dagExecutor = new ParallelExecutor(
+        dagConfig(),
+        mockCoordinator as unknown as Coordinator,
+        mockSandboxManager as unknown as SandboxManager,
+        mockLogger
+      );
+
+      const events: string[] = [];
+      vi.spyOn(dagExecutor as any, 'executeTask').mockImplementation(async (taskId: string) => {
+        events.push(`start:${taskId}`);
+        await new Promise(resolve => setTimeout(resolve, taskId === 'api' ? 20 : 1));
+        events.push(`end:${taskId}`);
+        return makeResult(taskId, 'completed');
+      });
+
+      const result = await dagExecutor.execute();
+
+      expect(result.success).toBe(true);
+      expect(events.indexOf('start:api-tests')).toBeGreaterThan(events.indexOf('end:api'));
+      // Independent tasks are not held back by the dependency chain
+      expect(events.indexOf('start:docs')).toBeLessThan(events.indexOf('end:api'));
+      expect(result.tasks.map(t => t.taskId)).toEqual(['api', 'api-tests', 'docs']);
+    });
+
+    it('should cancel downstream tasks when a dependency fails', async () => {
+      const dagExecutor = new ParallelExecutor(
+        dagConfig(),
+        mockCoordinator as unknown as Coordinator,
+        mockSandboxManager as unknown as SandboxManager,
+        mockLogger
+      );
+
+      const mockExecuteTask = vi.spyOn(dagExecutor as any, 'executeTask').mockImplementation(
+        async (taskId: string) => makeResult(taskId, taskId === 'api' ? 'failed' : 'completed')
+      );
+      const progressUpdates: ParallelProgressUpdate[] = [];
+
+      const result = await dagExecutor.execute(update => progressUpdates.push(update));
+
+      const downstream = result.tasks.find(t => t.taskId === 'api-tests')!;
+      expect(downstream.status).toBe('cancelled');
+      expect(downstream.error).toBe('Skipped: dependency api failed');
+      expect(downstream.dependsOn).toEqual(['api']);
+      expect(mockExecuteTask).not.toHaveBeenCalledWith('api-tests', expect.anything());
+      expect(result.tasks.find(t => t.taskId === 'docs')!.status).toBe('completed');
+      expect(result.summary.cancelledCount).toBe(1);
+      expect(progressUpdates).toContainEqual(expect.objectContaining({ taskId: 'api-tests', status: 'cancelled' }));
+    });
+
+    it('should copy upstream changes into the downstream worktree', async () => {
+      const { access, cp } = await import('fs/promises');
+      vi.mocked(access).mockResolvedValue(undefined);
+      vi.mocked(cp).mockResolvedValue(undefined);
+
+      const dagExecutor = new ParallelExecutor(
+        {
+          ...dagConfig(),
+          tasks: [
+            { id: 'a', prompt: 'A' },
+            { id: 'b', prompt: 'B', dependsOn: ['a'] },
+            { id: 'c', prompt: 'C', dependsOn: ['b'] }
+          ]
+        },
+        mockCoordinator as unknown as Coordinator,
+        mockSandboxManager as unknown as SandboxManager,
+        mockLogger
+      );
+      vi.spyOn(dagExecutor as any, 'uploadAndExecute').mockResolvedValue({
+        success: true,
+        exitCode: 0,
+        filesChanged: 1
+      });
+
+      const result = await (dagExecutor as any).executeTask('c', 'C');
+
+      expect(result.dependsOn).toEqual(['b']);
+      expect(vi.mocked(cp).mock.calls.map(call => call[0])).toEqual([
+        '/tmp/parallel-results/a/changed-files',
+        '/tmp/parallel-results/b/changed-files'
+      ]);
+      expect(cp).toHaveBeenCalledWith(expect.any(String), '/tmp/worktree-1', { recursive: true, force: true });
+    });
+
+    it('should remove files deleted by upstream tasks from the downstream worktree', async () => {
+      const { access, cp, readFile } = await import('fs/promises');
+      // Task a only deleted a file; task b changed one
+      vi.mocked(access).mockImplementation(async (p: any) => {
+        if (String(p).startsWith('/tmp/parallel-results/a/')) {
+          throw new Error('ENOENT');
+        }
+      });
+      vi.mocked(cp).mockResolvedValue(undefined);
+      vi.mocked(readFile).mockImplementation(async (p: any) => {
+        if (p === '/tmp/parallel-results/a/metadata.json') {
+          return JSON.stringify({ taskId: 'a', deletedFiles: ['src/old.ts'] });
+        }
+        throw new Error('ENOENT');
+      });
+
+      const dagExecutor = new ParallelExecutor(
+        {
+          ...dagConfig(),
+          tasks: [
+            { id: 'a', prompt: 'A' },
+            { id: 'b', prompt: 'B', dependsOn: ['a'] },
+            { id: 'c', prompt: 'C', dependsOn: ['b'] }
+          ]
+        },
+        mockCoordinator as unknown as Coordinator,
+        mockSandboxManager as unknown as SandboxManager,
+        mockLogger
+      );
+      vi.spyOn(dagExecutor as any, 'uploadAndExecute').mockResolvedValue({
+        success: true,
+        exitCode: 0,
+        filesChanged: 1
+      });
+
+      await (dagExecutor as any).executeTask('c', 'C');
+
+      expect(removeDeletedFiles).toHaveBeenCalledWith('/tmp/worktree-1', ['src/old.ts']);
+      expect(vi.mocked(cp).mock.calls.map(call => call[0])).toEqual(['/tmp/parallel-results/b/changed-files']);
+    });
+  });
+
+  describe('batch persistence and resume', () => {
+    const DEAD_PID = 2 ** 22 + 1;
+    let dbDir: string;
+    let db: SessionDB;
+
+    const createExecutor = () => new ParallelExecutor(
+      defaultConfig,
+      mockCoordinator as unknown as Coordinator,
+      mockSandboxManager as unknown as SandboxManager,
+      mockLogger,
+      db
+    );
+
+    const completedResult = (taskId: string): TaskResult => ({
+      taskId,
+      taskDescription: taskId,
+      sessionId: `session-${taskId}`,
+      sandboxId: `sandbox-${taskId}`,
+      worktreePath: `/tmp/worktree-${taskId}`,
+      status: 'completed',
+      startTime: new Date(),
+      endTime: new Date(),
+      duration: 100,
+      filesChanged: 1,
+      outputPath: `/tmp/parallel-results/${taskId}`,
+      exitCode: 0
+    });
+
+    /** Seed an interrupted batch: task-1 finished, task-2 running, task-3 never started */
+    const seedInterruptedBatch = (pid = DEAD_PID) => {
+      db.createParallelBatch({
+        id: 'batch-1',
+        pid,
+        config: { ...defaultConfig, tasks: [] },
+        tasks: ['task-1', 'task-2', 'task-3'].map(id => ({
+          id,
+          prompt: id,
+          dependsOn: [],
+          outputPath: `/tmp/parallel-results/${id}`
+        }))
+      });
+      db.updateParallelBatchTask('batch-1', 'task-1', {
+        status: 'completed', sandboxId: 'sbx-1', filesChanged: 4, exitCode: 0,
+        startedAt: '2026-01-01T00:00:00.000Z', endedAt: '2026-01-01T00:01:00.000Z'
+      });
+      db.updateParallelBatchTask('batch-1', 'task-2', {
+        status: 'running', sandboxId: 'sbx-2', sessionId: 'session-2', sessionPid: 777,
+        worktreePath: '/tmp/worktree-2', startedAt: '2026-01-01T00:00:00.000Z'
+      });
+    };
+
+    beforeEach(() => {
+      dbDir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'parallel-executor-db-'));
+      db = new SessionDB(path.join(dbDir, 'test.db'));
+    });
+
+    afterEach(() => {
+      db.close();
+      fsSync.rmSync(dbDir, { recursive: true, force: true });
+    });
+
+    it('should persist batch and task state during execution', async () => {
+      const exec = createExecutor();
+      vi.spyOn(exec as any, 'executeTask').mockImplementation(async (taskId: string) => completedResult(taskId));
+
+      const result = await exec.execute();
+
+      const batch = db.getParallelBatch(result.summary.batchId);
+      expect(batch?.status).toBe('completed');
+      expect(batch?.config.oauthCredentials).toBeUndefined();
+      expect(db.getParallelBatchTasks(result.summary.batchId).map(t => [t.taskId, t.status, t.filesChanged])).toEqual([
+        ['task-1', 'completed', 1],
+        ['task-2', 'completed', 1],
+        ['task-3', 'completed', 1]
+      ]);
+    });
+
+    it('should keep finished tasks, reattach running sandboxes and re-run the rest', async () => {
+      seedInterruptedBatch();
+      const run = vi.fn().mockImplementation(async (command: string) => ({
+        exitCode: 0,
+        stdout: command.startsWith('ls') ? 'started\n' : command.startsWith('pgrep') ? 'idle\n' : 'claude output',
+        stderr: ''
+      }));
+      (mockSandboxManager as any).getOrReconnectSandbox = vi.fn().mockResolvedValue({ sandboxId: 'sbx-2', commands: { run } });
+      vi.mocked(downloadChangedFiles).mockResolvedValue({ success: true, filesDownloaded: 2 } as any);
+
+      const exec = createExecutor();
+      const mockExecuteTask = vi.spyOn(exec as any, 'executeTask').mockImplementation(
+        async (taskId: string) => completedResult(taskId)
+      );
+      const progressUpdates: ParallelProgressUpdate[] = [];
+
+      const result = await exec.resume('batch-1', update => progressUpdates.push(update));
+
+      expect(result.success).toBe(true);
+      expect(mockExecuteTask).toHaveBeenCalledTimes(1);
+      expect(mockExecuteTask).toHaveBeenCalledWith('task-3', 'Task 3: Add tests');
+
+      const [task1, task2] = result.tasks;
+      expect(task1).toMatchObject({ status: 'completed', filesChanged: 4, duration: 60000 });
+      expect(task2).toMatchObject({ status: 'completed', sandboxId: 'sbx-2', filesChanged: 2 });
+      expect(mockSandboxManager.terminateSandbox).toHaveBeenCalledWith('sbx-2');
+      expect(mockCoordinator.release).toHaveBeenCalledWith(777);
+
+      expect(progressUpdates.every(u => u.batchId === 'batch-1')).toBe(true);
+      expect(db.getParallelBatch('batch-1')?.status).toBe('completed');
+      expect(db.getParallelBatchTasks('batch-1').every(t => t.status === 'completed')).toBe(true);
+    });
+
+    it('should re-run a running task whose sandbox is gone', async () => {
+      seedInterruptedBatch();
+      (mockSandboxManager as any).getOrReconnectSandbox = vi.fn().mockResolvedValue(null);
+
+      const exec = createExecutor();
+      const mockExecuteTask = vi.spyOn(exec as any, 'executeTask').mockImplementation(
+        async (taskId: string) => completedResult(taskId)
+      );
+
+      await exec.resume('batch-1');
+
+      expect(mockExecuteTask.mock.calls.map(call => call[0]).sort()).toEqual(['task-2', 'task-3']);
+      expect(mockCoordinator.release).toHaveBeenCalledWith(777);
+    });
+
+    it('should refuse batches that finished or are still owned by a live process', async () => {
+      seedInterruptedBatch(process.ppid);
+      await expect(createExecutor().resume('batch-1')).rejects.toThrow(/still running in process/);
+
+      db.updateParallelBatchStatus('batch-1', 'failed');
+      await expect(createExecutor().resume('batch-1')).rejects.toThrow(/already finished/);
+
+      await expect(createExecutor().resume('missing')).rejects.toThrow(/Batch not found/);
+    });
+
+    it('should refuse to resume without a database', async () => {
+      await expect(executor.resume('batch-1')).rejects.toThrow(/requires a database/);
+    });
+
+    it('should cancel a batch, terminating running sandboxes and orphaned sessions', async () => {
+      seedInterruptedBatch();
+      (mockSandboxManager as any).getOrReconnectSandbox = vi.fn().mockResolvedValue({ sandboxId: 'sbx-2' });
+
+      const result = await cancelParallelBatch(
+        'batch-1',
+        db,
+        mockSandboxManager as unknown as SandboxManager,
+        mockCoordinator as unknown as Coordinator,
+        mockLogger
+      );
+
+      expect(result).toMatchObject({
+        success: true,
+        cancelledTasks: ['task-2', 'task-3'],
+        terminatedSandboxes: ['sbx-2'],
+        errors: []
+      });
+      expect(mockCoordinator.release).toHaveBeenCalledWith(777);
+      expect(db.getParallelBatch('batch-1')?.status).toBe('cancelled');
+      expect(db.getParallelBatchTasks('batch-1').map(t => t.status)).toEqual(['completed', 'cancelled', 'cancelled']);
+
+      const again = await cancelParallelBatch(
+        'batch-1',
+        db,
+        mockSandboxManager as unknown as SandboxManager,
+        mockCoordinator as unknown as Coordinator,
+        mockLogger
+      );
+      expect(again.success).toBe(false);
+      expect(again.error).toMatch(/already finished \(cancelled\)/);
+    });
+
+    it('should stop scheduling tasks once the batch is cancelled elsewhere', async () => {
+      const exec = new ParallelExecutor(
+        { ...defaultConfig, maxConcurrent: 1 },
+        mockCoordinator as unknown as Coordinator,
+        mockSandboxManager as unknown as SandboxManager,
+        mockLogger,
+        db
+      );
+      const mockExecuteTask = vi.spyOn(exec as any, 'executeTask').mockImplementation(async (taskId: string) => {
+        // Simulate `sandbox batch cancel` killing this task's sandbox
+        db.updateParallelBatchStatus((exec as any).batchId, 'cancelled');
+        return { ...completedResult(taskId), status: 'failed', error: 'Sandbox terminated' };
+      });
+
+      const result = await exec.execute();
+
+      expect(mockExecuteTask).toHaveBeenCalledTimes(1);
+      expect(result.tasks.map(t => t.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+      expect(result.tasks[0].error).toBe('Batch cancelled');
+      expect(db.getParallelBatch(result.summary.batchId)?.status).toBe('cancelled');
+    });
+  });
+
+  describe('retries', () => {
+    const createRetryingExecutor = (overrides: Partial<ParallelExecutionConfig> = {}) => new ParallelExecutor(
+      { ...defaultConfig, tasks: ['Only task'], retries: 2, retryBackoffMs: 10, ...overrides },
+      mockCoordinator as unknown as Coordinator,
+      mockSandboxManager as unknown as SandboxManager,
+      mockLogger
+    );
+
+    const attemptResult = (status: ParallelTaskStatus, failureKind?: TaskResult['failureKind']): TaskResult => ({
+      taskId: 'task-1',
+      taskDescription: 'Only task',
+      sessionId: 'session-1',
+      sandboxId: `sandbox-${Math.random()}`,
+      worktreePath: '/tmp/worktree-1',
+      status,
+      startTime: new Date(),
+      endTime: new Date(),
+      duration: 100,
+      filesChanged: status === 'completed' ? 1 : 0,
+      outputPath: '/tmp/parallel-results/task-1',
+      costEstimate: 0.1,
+      failureKind,
+      error: status === 'failed' ? `${failureKind} failure` : undefined
+    });
+
+    it('should retry infrastructure failures with exponential backoff', async () => {
+      const exec = createRetryingExecutor();
+      const mockExecuteTask = vi.spyOn(exec as any, 'executeTask')
+        .mockResolvedValueOnce(attemptResult('failed', 'infra'))
+        .mockResolvedValueOnce(attemptResult('failed', 'timeout'))
+        .mockResolvedValueOnce(attemptResult('completed'));
+
+      const result = await exec.execute();
+
+      expect(mockExecuteTask).toHaveBeenCalledTimes(3);
+      const task = result.tasks[0];
+      expect(task.status).toBe('completed');
+      expect(task.attempts?.map(a => [a.attempt, a.status, a.failureKind])).toEqual([
+        [1, 'failed', 'infra'],
+        [2, 'failed', 'timeout'],
+        [3, 'completed', undefined]
+      ]);
+      expect(task.costEstimate).toBeCloseTo(0.3);
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('retrying in 10ms'));
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('retrying in 20ms'));
+    });
+
+    it('should not retry task failures unless asked to', async () => {
+      const exec = createRetryingExecutor();
+      const mockExecuteTask = vi.spyOn(exec as any, 'executeTask').mockResolvedValue(attemptResult('failed', 'task'));
+
+      const result = await exec.execute();
+
+      expect(mockExecuteTask).toHaveBeenCalledTimes(1);
+      expect(result.tasks[0].attempts).toBeUndefined();
+
+      const retryTasks = createRetryingExecutor({ retryOn: ['task'] });
+      const mockRetryTask = vi.spyOn(retryTasks as any, 'executeTask').mockResolvedValue(attemptResult('failed', 'task'));
+
+      const retried = await retryTasks.execute();
+
+      expect(mockRetryTask).toHaveBeenCalledTimes(3);
+      expect(retried.tasks[0].status).toBe('failed');
+      expect(retried.tasks[0].attempts).toHaveLength(3);
+    });
+
+    it('should classify sandbox creation failures', async () => {
+      const exec = createRetryingExecutor();
+      const executeTask = (exec as any).executeTask.bind(exec);
+
+      mockSandboxManager.createSandbox.mockRejectedValueOnce(new Error('E2B quota exceeded'));
+      expect(await executeTask('task-1', 'Only task')).toMatchObject({ failureKind: 'infra' });
+
+      mockSandboxManager.createSandbox.mockRejectedValueOnce(new Error('Request timed out'));
+      expect(await executeTask('task-1', 'Only task')).toMatchObject({ failureKind: 'timeout' });
+    });
+
+    it('should classify Claude failures from the execution result', async () => {
+      const exec = createRetryingExecutor();
+      const executeTask = (exec as any).executeTask.bind(exec);
+      const uploadAndExecute = vi.spyOn(exec as any, 'uploadAndExecute');
+
+      uploadAndExecute.mockResolvedValueOnce({ success: false, exitCode: 1, filesChanged: 0, error: 'Claude failed' });
+      expect(await executeTask('task-1', 'Only task')).toMatchObject({ status: 'failed', failureKind: 'task' });
+
+      uploadAndExecute.mockResolvedValueOnce({ success: true, exitCode: 0, filesChanged: 1 });
+      expect((await executeTask('task-1', 'Only task')).failureKind).toBeUndefined();
+    });
+
+    it('should reject invalid retry counts', () => {
+      expect(() => createRetryingExecutor({ retries: -1 })).toThrow(/retries must be a non-negative integer/);
+    });
+  });
+
+  describe('batch budget', () => {
+    let mockBudgetTracker: { recordSessionCost: ReturnType<typeof vi.fn> };
+    let dbDir: string | undefined;
+    let db: SessionDB | undefined;
+
+    beforeEach(() => {
+      mockBudgetTracker = { recordSessionCost: vi.fn() };
+      vi.mocked(resolveGitIdentity).mockResolvedValue({ name: 'Alice', email: 'alice@example.com', source: 'auto' });
+    });
+
+    afterEach(() => {
+      db?.close();
+      db = undefined;
+      if (dbDir) fsSync.rmSync(dbDir, { recursive: true, force: true });
+      dbDir = undefined;
+    });
+
+    const createBudgetedExecutor = (overrides: Partial<ParallelExecutionConfig> = {}) => new ParallelExecutor(
+      { ...defaultConfig, tasks: ['Task 1', 'Task 2', 'Task 3'], maxConcurrent: 1, batchBudget: 1, budgetPerTask: 0.5, ...overrides },
+      mockCoordinator as unknown as Coordinator,
+      mockSandboxManager as unknown as SandboxManager,
+      mockLogger,
+      db,
+      mockBudgetTracker as unknown as BudgetTracker
+    );
+
+    const costedResult = (taskId: string, costEstimate: number): TaskResult => ({
+      taskId,
+      taskDescription: taskId,
+      sessionId: `session-${taskId}`,
+      sandboxId: `sandbox-${taskId}`,
+      worktreePath: `/tmp/worktree-${taskId}`,
+      status: 'completed',
+      startTime: new Date(),
+      endTime: new Date(),
+      duration: 100,
+      filesChanged: 1,
+      outputPath: `/tmp/parallel-results/${taskId}`,
+      costEstimate
+    });
+
+    it('should not start tasks once spend plus projected cost would exceed the budget', async () => {
+      const exec = createBudgetedExecutor();
+      const mockExecuteTask = vi.spyOn(exec as any, 'executeTask')
+        .mockImplementation(async (taskId: any) => costedResult(taskId, 0.4));
+      const updates: ParallelProgressUpdate[] = [];
+
+      const result = await exec.execute(update => updates.push(update));
+
+      expect(mockExecuteTask).toHaveBeenCalledTimes(2);
+      expect(result.tasks.map(t => t.status)).toEqual(['completed', 'completed', 'cancelled']);
+      expect(result.tasks[2].error).toBe('Batch budget exceeded');
+      expect(result.summary.budgetExceeded).toBe(true);
+      expect(result.summary.cancelledCount).toBe(1);
+      expect(updates).toContainEqual(expect.objectContaining({ taskId: 'task-3', status: 'cancelled', message: 'Batch budget exceeded' }));
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('Batch budget of $1.00 would be exceeded'));
+    });
+
+    it('should record compute and model cost of each attempt in the budget tracker', async () => {
+      const exec = createBudgetedExecutor({ tasks: ['Only task'] });
+      const usage = {
+        turns: 4,
+        inputTokens: 2000,
+        outputTokens: 500,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 1000,
+        costUsd: 0.35
+      };
+      vi.spyOn(exec as any, 'uploadAndExecute').mockResolvedValue({ success: true, exitCode: 0, filesChanged: 1, usage });
+
+      const result = await exec.execute();
+
+      expect(mockBudgetTracker.recordSessionCost).toHaveBeenCalledWith('session-123', 0.1, 0.35, usage, {
+        templateName: undefined,
+        gitUser: 'Alice'
+      });
+      expect(result.tasks[0]).toMatchObject({ modelCost: 0.35, usage });
+      expect(result.tasks[0].costEstimate).toBeCloseTo(0.45);
+    });
+
+    it('should not bill model cost with a Claude subscription', async () => {
+      const exec = createBudgetedExecutor({ tasks: ['Only task'], authMethod: 'oauth' });
+      const usage = { turns: 1, inputTokens: 10, outputTokens: 5, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUsd: 0.02 };
+      vi.spyOn(exec as any, 'uploadAndExecute').mockResolvedValue({ success: true, exitCode: 0, filesChanged: 1, usage });
+
+      const result = await exec.execute();
+
+      expect(mockBudgetTracker.recordSessionCost).toHaveBeenCalledWith('session-123', 0.1, 0, usage, expect.anything());
+      expect(result.tasks[0].costEstimate).toBeCloseTo(0.1);
+    });
+
+    it('should attribute costs to the template, but not to the default sandbox git user', async () => {
+      vi.mocked(resolveGitIdentity).mockResolvedValue({ name: 'E2B Sandbox', email: 'sandbox@e2b.dev', source: 'default' });
+      const exec = createBudgetedExecutor({ tasks: ['Only task'], templateName: 'node-20' });
+      vi.spyOn(exec as any, 'uploadAndExecute').mockResolvedValue({ success: true, exitCode: 0, filesChanged: 1 });
+
+      await exec.execute();
+
+      expect(mockBudgetTracker.recordSessionCost).toHaveBeenCalledWith('session-123', 0.1, 0, undefined, {
+        templateName: 'node-20',
+        gitUser: undefined
+      });
+    });
+
+    it('should project budgetPerTask before any task has finished', async () => {
+      const exec = createBudgetedExecutor({ batchBudget: 0.5, budgetPerTask: 1 });
+      const mockExecuteTask = vi.spyOn(exec as any, 'executeTask');
+
+      const result = await exec.execute();
+
+      expect(mockExecuteTask).not.toHaveBeenCalled();
+      expect(result.tasks.every(t => t.status === 'cancelled')).toBe(true);
+      expect(mockBudgetTracker.recordSessionCost).not.toHaveBeenCalled();
+    });
+
+    it('should count running tasks at the projected cost and record the outcome on the batch', async () => {
+      dbDir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'parallel-executor-db-'));
+      db = new SessionDB(path.join(dbDir, 'test.db'));
+      const exec = createBudgetedExecutor({ maxConcurrent: 3, budgetPerTask: 0.4 });
+      const mockExecuteTask = vi.spyOn(exec as any, 'executeTask')
+        .mockImplementation(async (taskId: any) => costedResult(taskId, 0.1));
+
+      const result = await exec.execute();
+
+      expect(mockExecuteTask).toHaveBeenCalledTimes(2);
+      expect(result.tasks[2].error).toBe('Batch budget exceeded');
+      expect(db.getParallelBatch(result.summary.batchId)?.budgetExceeded).toBe(true);
+    });
+
+    it('should require budgetPerTask with a batch budget', () => {
+      expect(() => createBudgetedExecutor({ budgetPerTask: undefined }))
+        .toThrow(/batchBudget requires budgetPerTask/);
+    });
+
+    it('should leave batches without a budget unlimited', async () => {
+      const exec = createBudgetedExecutor({ batchBudget: undefined });
+      const mockExecuteTask = vi.spyOn(exec as any, 'executeTask')
+        .mockImplementation(async (taskId: any) => costedResult(taskId, 5));
+
+      const result = await exec.execute();
+
+      expect(mockExecuteTask).toHaveBeenCalledTimes(3);
+      expect(result.summary.budgetExceeded).toBeUndefined();
+      expect(result.summary.totalCost).toBe(15);
+    });
+
+    it('should reject a non-positive batch budget', () => {
+      expect(() => createBudgetedExecutor({ batchBudget: 0 })).toThrow(/batchBudget must be a positive number/);
+    });
+  });
+
+  describe('warm pool', () => {
+    it('should take sandboxes from the warm pool and drain it afterwards', async () => {
+      const poolManager = {
+        ...mockSandboxManager,
+        startWarmPool: vi.fn(),
+        acquireSandbox: mockSandboxManager.createSandbox,
+        resizeWarmPool: vi.fn().mockResolvedValue(undefined),
+        drainWarmPool: vi.fn().mockResolvedValue(undefined),
+        createSandbox: vi.fn()
+      };
+      const poolExecutor = new ParallelExecutor(
+        { ...defaultConfig, warmPool: { size: 5, idleTtlMinutes: 10 } },
+        mockCoordinator as unknown as Coordinator,
+        poolManager as unknown as SandboxManager,
+        mockLogger
+      );
+      vi.spyOn(poolExecutor as any, 'uploadAndExecute').mockResolvedValue({
+        success: true,
+        exitCode: 0,
+        filesChanged: 1
+      });
+
+      const result = await poolExecutor.execute();
+
+      expect(result.success).toBe(true);
+      // Never more warm sandboxes than tasks
+      expect(poolManager.startWarmPool).toHaveBeenCalledWith(expect.objectContaining({ size: 3, idleTtlMinutes: 10 }));
+      expect(poolManager.acquireSandbox).toHaveBeenCalledTimes(3);
+      expect(poolManager.createSandbox).not.toHaveBeenCalled();
+      expect(poolManager.resizeWarmPool).toHaveBeenLastCalledWith(0);
+      expect(poolManager.drainWarmPool).toHaveBeenCalled();
+    });
+
+    it('should upload the repository snapshot during warmup and only its differences for the task', async () => {
+      const sandbox = { sandboxId: 'warm-1' } as unknown as SandboxHandle;
+      const manifest = { sandboxId: 'warm-1', files: [] } as unknown as UploadManifest;
+      vi.mocked(prepareSandboxForClaude).mockResolvedValue(true);
+      vi.mocked(createTarball).mockResolvedValue({ path: '/tmp/snapshot/worktree.tar.gz', fileCount: 1, sizeBytes: 10 } as any);
+      vi.mocked(buildManifestEntries).mockResolvedValue([]);
+      vi.mocked(uploadBaseSnapshot).mockResolvedValue(manifest);
+      vi.mocked(uploadIncremental).mockResolvedValue({ success: true, mode: 'delta', filesUploaded: 1, filesDeleted: 0 } as any);
+      vi.mocked(uploadToSandbox).mockResolvedValue({ success: true } as any);
+
+      expect(await (executor as any).warmUpSandbox(sandbox)).toBe(true);
+      expect(createTarball).toHaveBeenCalledWith('/home/user/project');
+      expect(uploadBaseSnapshot).toHaveBeenCalledWith('/tmp/snapshot/worktree.tar.gz', [], sandbox, '/workspace', expect.any(Function));
+
+      await (executor as any).uploadWorktree('task-1', '/tmp/worktree-1', sandbox);
+      expect(uploadIncremental).toHaveBeenCalledWith('/tmp/worktree-1', sandbox, { baseManifest: manifest, fallbackToFull: true });
+
+      // The snapshot describes the sandbox only until its first task
+      await (executor as any).uploadWorktree('task-2', '/tmp/worktree-2', sandbox);
+      expect(uploadIncremental).toHaveBeenCalledTimes(1);
+      expect(createTarball).toHaveBeenLastCalledWith('/tmp/worktree-2');
+      expect(uploadToSandbox).toHaveBeenCalledWith('/tmp/snapshot/worktree.tar.gz', sandbox);
+    });
+
+    it('should set up NPM auth and the template during warmup, and per task only where warmup did not', async () => {
+      const template = { name: 'node-20', e2bTemplate: 'anthropic-claude-code', setupCommands: ['npm ci'] } as any;
+      const manifest = { sandboxId: 'warm-1', files: [] } as unknown as UploadManifest;
+      const setupManager = {
+        ...mockSandboxManager,
+        configureNpmAuth: vi.fn().mockResolvedValue(true),
+        applyTemplate: vi.fn().mockResolvedValue({ success: true }),
+        isPrepared: vi.fn((sandboxId: string) => sandboxId === 'warm-1')
+      };
+      const setupExecutor = new ParallelExecutor(
+        { ...defaultConfig, npmToken: 'npm-token', template, warmPool: { size: 1, idleTtlMinutes: 10 } },
+        mockCoordinator as unknown as Coordinator,
+        setupManager as unknown as SandboxManager,
+        mockLogger
+      );
+      const warm = { sandboxId: 'warm-1' } as unknown as SandboxHandle;
+      const cold = { sandboxId: 'cold-1' } as unknown as SandboxHandle;
+      vi.mocked(prepareSandboxForClaude).mockResolvedValue(true);
+      vi.mocked(createTarball).mockResolvedValue({ path: '/tmp/snapshot/worktree.tar.gz', fileCount: 1, sizeBytes: 10 } as any);
+      vi.mocked(buildManifestEntries).mockResolvedValue([]);
+      vi.mocked(uploadBaseSnapshot).mockImplementation(async (_tarball, _files, _sandbox, _remotePath, setup) => {
+        await setup?.();
+        return manifest;
+      });
+      vi.mocked(uploadIncremental).mockResolvedValue({ success: true, mode: 'delta', filesUploaded: 1, filesDeleted: 0 } as any);
+      vi.mocked(uploadToSandbox).mockResolvedValue({ success: true } as any);
+      vi.mocked(executeClaudeInSandbox).mockResolvedValue({ success: true, exitCode: 0, output: '' } as any);
+      vi.mocked(downloadChangedFiles).mockResolvedValue({ success: true, filesDownloaded: 0 } as any);
+
+      await (setupExecutor as any).warmUpSandbox(warm);
+      expect(setupManager.configureNpmAuth).toHaveBeenCalledWith(warm, 'npm-token', undefined);
+      expect(setupManager.applyTemplate).toHaveBeenCalledWith(warm, template);
+
+      // The delta upload keeps what warmup set up
+      await (setupExecutor as any).uploadAndExecute('task-1', 'Task 1', '/tmp/worktree-1', warm, '/tmp/out/task-1');
+      expect(setupManager.configureNpmAuth).toHaveBeenCalledTimes(1);
+      expect(setupManager.applyTemplate).toHaveBeenCalledTimes(1);
+
+      await (setupExecutor as any).uploadAndExecute('task-2', 'Task 2', '/tmp/worktree-2', cold, '/tmp/out/task-2');
+      expect(setupManager.configureNpmAuth).toHaveBeenLastCalledWith(cold, 'npm-token', undefined);
+      expect(setupManager.applyTemplate).toHaveBeenLastCalledWith(cold, template);
+    });
+  });
+
   describe('batch tracking', () => {
     it('should generate unique batch ID for each execution', async () => {
       const mockExecuteTask = vi.spyOn(executor as any, 'executeTask');
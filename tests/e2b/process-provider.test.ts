@@ -0,0 +1,545 @@
+/**
+ * Tests for the process sandbox provider
+ *
+ * Covers:
+ * - Binary hook parsing
+ * - Sandbox path mapping and command rewriting
+ * - Command execution, file I/O, timeouts and cleanup
+ * - Full offline pipeline: upload -> fake Claude -> download
+ * - Incremental upload to a reused sandbox against the worktree's manifest
+ * - Commit history download as patches or a bundle
+ *
+ * Runs real host processes in temp directories - no network, containers or E2B.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import {
+  ProcessSandboxProvider,
+  ProcessSandbox,
+  parseBinaryHooks
+} from '../../src/e2b/process-provider.js';
+import { createSandboxProvider, runSandboxCommand } from '../../src/e2b/sandbox-provider.js';
+import { SandboxCommandError } from '../../src/types.js';
+import { SandboxManager } from '../../src/e2b/sandbox-manager.js';
+import {
+  createTarball,
+  uploadToSandbox,
+  uploadIncremental,
+  uploadBaseSnapshot,
+  buildManifestEntries,
+  recordUploadManifest,
+  downloadChangedFiles,
+  downloadCommitHistory,
+  type UploadManifest
+} from '../../src/e2b/file-sync.js';
+import { executeClaudeInSandbox } from '../../src/e2b/claude-runner.js';
+import type { Logger } from '../../src/logger.js';
+
+const createMockLogger = (): Logger => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn()
+});
+
+const CREATE_OPTIONS = { template: 'ignored', timeoutMs: 60000, metadata: {} };
+
+const FAKE_CLAUDE = `#!/bin/sh
+case "$1" in
+  --version) echo "1.0.0 (Claude Code)"; exit 0 ;;
+  update) echo "Claude Code is up to date"; exit 0 ;;
+esac
+prompt=$(cat)
+echo "fake claude: $prompt"
+echo "generated by fake claude" > generated.txt
+`;
+
+const FAKE_NPM = `#!/bin/sh
+exit 0
+`;
+
+describe('parseBinaryHooks', () => {
+  it('should return no hooks for empty input', () => {
+    expect(parseBinaryHooks(undefined)).toEqual({});
+    expect(parseBinaryHooks('  ')).toEqual({});
+  });
+
+  it('should parse comma-separated name=path entries', () => {
+    expect(parseBinaryHooks('claude=/ci/fake-claude.sh, gh=/ci/fake-gh.sh')).toEqual({
+      claude: '/ci/fake-claude.sh',
+      gh: '/ci/fake-gh.sh'
+    });
+  });
+
+  it('should reject malformed entries', () => {
+    expect(() => parseBinaryHooks('claude')).toThrow('Invalid binary hook');
+    expect(() => parseBinaryHooks('=/path')).toThrow('Invalid binary hook');
+    expect(() => parseBinaryHooks('bad name=/path')).toThrow('Invalid binary hook');
+  });
+});
+
+describe('ProcessSandboxProvider', () => {
+  let baseDir: string;
+  let hookDir: string;
+  let provider: ProcessSandboxProvider;
+  let sandbox: ProcessSandbox;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'process-provider-test-'));
+    hookDir = await fs.mkdtemp(path.join(os.tmpdir(), 'process-provider-hooks-'));
+    await fs.writeFile(path.join(hookDir, 'claude'), FAKE_CLAUDE);
+    await fs.writeFile(path.join(hookDir, 'npm'), FAKE_NPM);
+
+    provider = new ProcessSandboxProvider({
+      baseDir,
+      useBubblewrap: false,
+      binaries: {
+        claude: path.join(hookDir, 'claude'),
+        npm: path.join(hookDir, 'npm')
+      }
+    });
+    sandbox = await provider.create(CREATE_OPTIONS) as ProcessSandbox;
+  });
+
+  afterEach(async () => {
+    await sandbox.kill();
+    await fs.rm(baseDir, { recursive: true, force: true });
+    await fs.rm(hookDir, { recursive: true, force: true });
+  });
+
+  it('should be selectable through the provider factory', () => {
+    const fromFactory = createSandboxProvider('process');
+    expect(fromFactory).toBeInstanceOf(ProcessSandboxProvider);
+    expect(fromFactory.requiresApiKey).toBe(false);
+    expect(fromFactory.displayName).toBe('Process');
+  });
+
+  it('should create a sandbox root with the mapped directories', () => {
+    expect(sandbox.sandboxId).toMatch(/^proc-/);
+    for (const dir of ['workspace', 'root', 'tmp', 'usr/local/bin']) {
+      expect(fsSync.existsSync(path.join(sandbox.rootDir, dir))).toBe(true);
+    }
+  });
+
+  it('should map sandbox paths into the sandbox root', () => {
+    expect(sandbox.toHostPath('/workspace/src/a.ts')).toBe(path.join(sandbox.rootDir, 'workspace/src/a.ts'));
+    expect(sandbox.toHostPath('~/.claude/settings.json')).toBe(path.join(sandbox.rootDir, 'root/.claude/settings.json'));
+    expect(sandbox.toHostPath('notes.md')).toBe(path.join(sandbox.rootDir, 'workspace/notes.md'));
+  });
+
+  it('should reject paths outside the sandbox', () => {
+    expect(() => sandbox.toHostPath('/etc/passwd')).toThrow('Path outside sandbox');
+    expect(() => sandbox.toHostPath('/workspace/../etc/passwd')).toThrow('Path outside sandbox');
+    expect(() => sandbox.toHostPath('/workspacefoo')).toThrow('Path outside sandbox');
+  });
+
+  it('should rewrite mapped paths in commands only at path boundaries', () => {
+    const root = sandbox.rootDir;
+    expect(sandbox.rewriteCommand('cd /workspace && tar -czf /tmp/out.tar.gz .'))
+      .toBe(`cd ${root}/workspace && tar -czf ${root}/tmp/out.tar.gz .`);
+    expect(sandbox.rewriteCommand('cat "/tmp/log"')).toBe(`cat "${root}/tmp/log"`);
+    expect(sandbox.rewriteCommand('ls /var/tmp /workspacefoo')).toBe('ls /var/tmp /workspacefoo');
+  });
+
+  it('should run commands in /workspace by default', async () => {
+    const pwd = await sandbox.commands.run('pwd');
+    expect(pwd.exitCode).toBe(0);
+    expect(pwd.stdout.trim()).toBe(path.join(sandbox.rootDir, 'workspace'));
+  });
+
+  it('should reject non-zero exits with the exit code and output, like E2B', async () => {
+    const failed = sandbox.commands.run('echo partial; echo oops >&2; exit 3');
+    await expect(failed).rejects.toBeInstanceOf(SandboxCommandError);
+    await expect(failed).rejects.toMatchObject({
+      exitCode: 3,
+      stdout: 'partial\n',
+      stderr: 'oops\n',
+      message: 'Command exited with code 3: oops'
+    });
+
+    const result = await runSandboxCommand(sandbox, 'echo oops >&2; exit 3');
+    expect(result.exitCode).toBe(3);
+    expect(result.stderr.trim()).toBe('oops');
+  });
+
+  it('should report a failed tarball extraction as an upload failure', async () => {
+    const tarPath = path.join(baseDir, 'corrupt.tar.gz');
+    await fs.writeFile(tarPath, 'not a tarball');
+    const result = await uploadToSandbox(tarPath, sandbox, '/workspace');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('exited with code');
+  });
+
+  it('should pass environment variables and keep HOME inside the sandbox', async () => {
+    const result = await sandbox.commands.run('echo "$FOO:$HOME"', { envs: { FOO: 'bar' } });
+    expect(result.stdout.trim()).toBe(`bar:${path.join(sandbox.rootDir, 'root')}`);
+  });
+
+  it('should install binary hooks on the sandbox PATH', async () => {
+    const result = await sandbox.commands.run('which claude && claude --version');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain(path.join(sandbox.rootDir, 'usr/local/bin/claude'));
+    expect(result.stdout).toContain('1.0.0 (Claude Code)');
+  });
+
+  it('should write and read text and binary files', async () => {
+    await sandbox.files.write('/workspace/dir/a.txt', 'hello');
+    expect(await sandbox.files.read('/workspace/dir/a.txt')).toBe('hello');
+
+    const bytes = new Uint8Array([0x1f, 0x8b, 0x00, 0xff]);
+    await sandbox.files.write('/tmp/bin.dat', bytes.buffer);
+    const onDisk = await fs.readFile(path.join(sandbox.rootDir, 'tmp/bin.dat'));
+    expect([...onDisk]).toEqual([0x1f, 0x8b, 0x00, 0xff]);
+  });
+
+  it('should reject when a command exceeds its timeout', async () => {
+    await expect(sandbox.commands.run('sleep 5', { timeoutMs: 200 })).rejects.toThrow('Command timeout after 200ms');
+  });
+
+  it('should reconnect to an existing sandbox by ID', async () => {
+    const reconnected = await provider.connect(sandbox.sandboxId);
+    expect(await reconnected.isRunning()).toBe(true);
+    await expect(provider.connect('proc-missing')).rejects.toThrow('not found');
+    await expect(provider.connect('../etc')).rejects.toThrow('Invalid process sandbox ID');
+  });
+
+  it('should delete the sandbox root on kill', async () => {
+    await sandbox.kill();
+    expect(await sandbox.isRunning()).toBe(false);
+    expect(fsSync.existsSync(sandbox.rootDir)).toBe(false);
+    await expect(sandbox.commands.run('true')).rejects.toThrow('has been terminated');
+  });
+
+  it('should fail creation when a binary hook is missing', async () => {
+    const broken = new ProcessSandboxProvider({
+      baseDir,
+      useBubblewrap: false,
+      binaries: { claude: path.join(hookDir, 'does-not-exist') }
+    });
+    await expect(broken.create(CREATE_OPTIONS)).rejects.toThrow();
+    expect(await fs.readdir(baseDir)).toHaveLength(1); // only the beforeEach sandbox
+  });
+});
+
+describe('Process provider offline pipeline', () => {
+  let baseDir: string;
+  let hookDir: string;
+  let repoDir: string;
+  let manager: SandboxManager;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'process-pipeline-test-'));
+    hookDir = await fs.mkdtemp(path.join(os.tmpdir(), 'process-pipeline-hooks-'));
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'process-pipeline-repo-'));
+    await fs.writeFile(path.join(hookDir, 'claude'), FAKE_CLAUDE);
+    await fs.writeFile(path.join(hookDir, 'npm'), FAKE_NPM);
+
+    await fs.writeFile(path.join(repoDir, 'README.md'), '# test repo\n');
+    execSync(
+      'git init -q && git config user.email test@example.com && git config user.name Test && git add . && git commit -q -m init',
+      { cwd: repoDir }
+    );
+
+    const provider = new ProcessSandboxProvider({
+      baseDir,
+      useBubblewrap: false,
+      binaries: {
+        claude: path.join(hookDir, 'claude'),
+        npm: path.join(hookDir, 'npm')
+      }
+    });
+    manager = new SandboxManager(createMockLogger(), {}, provider);
+  });
+
+  afterEach(async () => {
+    await manager.cleanupAll();
+    await fs.rm(baseDir, { recursive: true, force: true });
+    await fs.rm(hookDir, { recursive: true, force: true });
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('should upload, run the fake claude and download its changes', async () => {
+    const { sandbox } = await manager.createSandbox('pipeline-session');
+
+    const tarball = await createTarball(repoDir);
+    try {
+      const upload = await uploadToSandbox(tarball.path, sandbox);
+      expect(upload.success).toBe(true);
+    } finally {
+      await fs.rm(tarball.path, { force: true });
+    }
+
+    const result = await executeClaudeInSandbox(sandbox, manager, 'Add a generated file', createMockLogger(), {
+      streamOutput: false,
+      captureFullLog: false,
+      gitUser: 'Test',
+      gitEmail: 'test@example.com'
+    });
+    expect(result.success).toBe(true);
+    expect(result.state).toBe('completed');
+    expect(result.output).toContain('fake claude: Add a generated file');
+
+    const download = await downloadChangedFiles(sandbox, '/workspace', repoDir);
+    expect(download.success).toBe(true);
+    expect(await fs.readFile(path.join(repoDir, 'generated.txt'), 'utf-8')).toBe('generated by fake claude\n');
+  }, 60000);
+
+  it('should remove files the sandbox deleted when downloading changes', async () => {
+    await fs.writeFile(path.join(hookDir, 'claude'), FAKE_CLAUDE.replace(
+      'echo "generated by fake claude" > generated.txt',
+      'rm README.md\necho "generated by fake claude" > generated.txt'
+    ));
+    const { sandbox } = await manager.createSandbox('deletion-session');
+    const tarball = await createTarball(repoDir);
+    try {
+      expect((await uploadToSandbox(tarball.path, sandbox)).success).toBe(true);
+    } finally {
+      await fs.rm(tarball.path, { force: true });
+    }
+    const options = { streamOutput: false, captureFullLog: false, gitUser: 'Test', gitEmail: 'test@example.com' };
+    expect((await executeClaudeInSandbox(sandbox, manager, 'Drop the readme', createMockLogger(), options)).success).toBe(true);
+
+    const download = await downloadChangedFiles(sandbox, '/workspace', repoDir);
+
+    expect(download).toMatchObject({ success: true, filesDownloaded: 1, deletedFiles: ['README.md'] });
+    expect(fsSync.existsSync(path.join(repoDir, 'README.md'))).toBe(false);
+    expect(await fs.readFile(path.join(repoDir, 'generated.txt'), 'utf-8')).toBe('generated by fake claude\n');
+  }, 60000);
+
+  it('should continue the conversation in the same sandbox without setting it up again', async () => {
+    await fs.writeFile(path.join(hookDir, 'claude'), FAKE_CLAUDE.replace(
+      'prompt=$(cat)',
+      'prompt=$(cat)\necho "$*" >> "$HOME/claude-args.log"'
+    ));
+    const { sandbox } = await manager.createSandbox('continue-session');
+    const tarball = await createTarball(repoDir);
+    try {
+      expect((await uploadToSandbox(tarball.path, sandbox)).success).toBe(true);
+    } finally {
+      await fs.rm(tarball.path, { force: true });
+    }
+    const options = { streamOutput: false, captureFullLog: false, gitUser: 'Test', gitEmail: 'test@example.com' };
+    expect((await executeClaudeInSandbox(sandbox, manager, 'Add a file', createMockLogger(), options)).success).toBe(true);
+    await sandbox.commands.run('git -C /workspace rev-list --count HEAD > /tmp/commits-before');
+
+    const result = await executeClaudeInSandbox(sandbox, manager, 'Now rename it', createMockLogger(), {
+      ...options,
+      continueConversation: true
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toContain('fake claude: Now rename it');
+    const args = (await sandbox.files.read('/root/claude-args.log')).trim().split('\n');
+    expect(args.filter(line => line.startsWith('-p'))).toHaveLength(2);
+    expect(args[args.length - 1]).toContain('--continue');
+    // The first run's git baseline is kept, so a download still includes its changes
+    const commits = await sandbox.commands.run('git -C /workspace rev-list --count HEAD');
+    expect(commits.stdout.trim()).toBe((await sandbox.files.read('/tmp/commits-before')).trim());
+  }, 60000);
+
+  it('should fail the run when a verify command fails and let Claude repair it', async () => {
+    // The fake claude only writes fixed.txt when continuing its conversation
+    await fs.writeFile(path.join(hookDir, 'claude'), FAKE_CLAUDE.replace(
+      'prompt=$(cat)',
+      'prompt=$(cat)\ncase "$*" in *--continue*) echo fixed > fixed.txt ;; esac'
+    ));
+    const { sandbox } = await manager.createSandbox('verify-session');
+    const tarball = await createTarball(repoDir);
+    try {
+      expect((await uploadToSandbox(tarball.path, sandbox)).success).toBe(true);
+    } finally {
+      await fs.rm(tarball.path, { force: true });
+    }
+    const options = {
+      streamOutput: false,
+      captureFullLog: false,
+      gitUser: 'Test',
+      gitEmail: 'test@example.com',
+      verifyCommands: ['test -f generated.txt', 'test -f fixed.txt']
+    };
+
+    const failed = await executeClaudeInSandbox(sandbox, manager, 'Add a file', createMockLogger(), options);
+    expect(failed.success).toBe(false);
+    expect(failed.exitCode).toBe(0);
+    expect(failed.error).toBe('Verification failed: test -f fixed.txt (exit 1)');
+    expect(failed.verification?.commands.map(c => c.exitCode)).toEqual([0, 1]);
+
+    const repaired = await executeClaudeInSandbox(sandbox, manager, 'Add a file', createMockLogger(), {
+      ...options,
+      repairRounds: 2
+    });
+    expect(repaired.success).toBe(true);
+    expect(repaired.verification).toMatchObject({ passed: true, repairRounds: 1 });
+    expect(repaired.output).toContain('The following verification commands failed');
+  }, 60000);
+
+  it('should upload only local edits to a reused sandbox that matches its manifest', async () => {
+    const manifestDir = path.join(hookDir, 'manifests');
+    await fs.writeFile(path.join(repoDir, 'old.txt'), 'to be deleted\n');
+    await fs.symlink('README.md', path.join(repoDir, 'link.md'));
+    const { sandbox } = await manager.createSandbox('incremental-session');
+    const tarball = await createTarball(repoDir);
+    try {
+      expect((await uploadToSandbox(tarball.path, sandbox)).success).toBe(true);
+    } finally {
+      await fs.rm(tarball.path, { force: true });
+    }
+    const options = { streamOutput: false, captureFullLog: false, gitUser: 'Test', gitEmail: 'test@example.com' };
+    expect((await executeClaudeInSandbox(sandbox, manager, 'Add a file', createMockLogger(), options)).success).toBe(true);
+    expect((await downloadChangedFiles(sandbox, '/workspace', repoDir)).success).toBe(true);
+    expect(await recordUploadManifest(repoDir, sandbox, { manifestDir })).toBe(true);
+
+    // Edits made locally before the follow-up
+    await fs.writeFile(path.join(repoDir, 'README.md'), '# changed\n');
+    await fs.writeFile(path.join(repoDir, 'new.txt'), 'new file\n');
+    await fs.rm(path.join(repoDir, 'old.txt'));
+    const result = await uploadIncremental(repoDir, sandbox, { manifestDir });
+
+    expect(result).toMatchObject({ success: true, mode: 'delta', filesUploaded: 2, filesDeleted: 1 });
+    expect(await sandbox.files.read('/workspace/README.md')).toBe('# changed\n');
+    expect(await sandbox.files.read('/workspace/new.txt')).toBe('new file\n');
+    expect(await sandbox.files.read('/workspace/generated.txt')).toBe('generated by fake claude\n');
+    expect(fsSync.existsSync(path.join(sandbox.rootDir, 'workspace/old.txt'))).toBe(false);
+
+    // The manifest now describes the uploaded state, so nothing is sent twice
+    expect(await uploadIncremental(repoDir, sandbox, { manifestDir })).toMatchObject({ mode: 'delta', filesUploaded: 0, filesDeleted: 0 });
+  }, 60000);
+
+  it('should fail the upload to a sandbox that does not match the manifest', async () => {
+    const manifestDir = path.join(hookDir, 'manifests');
+    const { sandbox } = await manager.createSandbox('incremental-session');
+    const tarball = await createTarball(repoDir);
+    try {
+      expect((await uploadToSandbox(tarball.path, sandbox)).success).toBe(true);
+    } finally {
+      await fs.rm(tarball.path, { force: true });
+    }
+    await sandbox.commands.run('rm -f /workspace/worktree.tar.gz');
+
+    expect(await uploadIncremental(repoDir, sandbox, { manifestDir })).toMatchObject({
+      success: false, filesUploaded: 0, mismatchReason: 'No upload manifest for this worktree'
+    });
+
+    expect(await recordUploadManifest(repoDir, sandbox, { manifestDir })).toBe(true);
+    await fs.writeFile(path.join(repoDir, 'README.md'), '# changed locally\n');
+
+    const { sandbox: other } = await manager.createSandbox('incremental-other');
+    expect(await uploadIncremental(repoDir, other, { manifestDir })).toMatchObject({
+      success: false, mismatchReason: `Manifest is for sandbox ${sandbox.sandboxId}`
+    });
+
+    // Files added or changed in the sandbox are never overwritten
+    await sandbox.files.write('/workspace/extra.txt', 'added in the sandbox\n');
+    const added = await uploadIncremental(repoDir, sandbox, { manifestDir });
+    expect(added).toMatchObject({ success: false, filesUploaded: 0 });
+    expect(added.mismatchReason).toMatch(/^Workspace has 2 files .*, manifest expects 1 /);
+
+    await sandbox.commands.run('rm -f /workspace/extra.txt');
+    await sandbox.files.write('/workspace/README.md', '# changed in sandbox\n');
+    expect(await uploadIncremental(repoDir, sandbox, { manifestDir })).toMatchObject({
+      success: false, filesUploaded: 0, mismatchReason: '1 files in the sandbox differ from the manifest'
+    });
+    expect(await sandbox.files.read('/workspace/README.md')).toBe('# changed in sandbox\n');
+  }, 60000);
+
+  it('should upload a worktree as a delta from a warm sandbox base snapshot', async () => {
+    await fs.writeFile(path.join(repoDir, 'old.txt'), 'to be deleted\n');
+    const { sandbox } = await manager.createSandbox('warm-session');
+    const snapshot = await createTarball(repoDir);
+    let manifest: UploadManifest;
+    try {
+      manifest = await uploadBaseSnapshot(snapshot.path, await buildManifestEntries(snapshot.path, repoDir), sandbox);
+    } finally {
+      await fs.rm(path.dirname(snapshot.path), { recursive: true, force: true });
+    }
+
+    // The task worktree differs from the snapshot
+    await fs.writeFile(path.join(repoDir, 'task.txt'), 'task input\n');
+    await fs.rm(path.join(repoDir, 'old.txt'));
+    expect(await uploadIncremental(repoDir, sandbox, { baseManifest: manifest, fallbackToFull: true })).toMatchObject({
+      success: true, mode: 'delta', filesUploaded: 1, filesDeleted: 1
+    });
+    expect(await sandbox.files.read('/workspace/task.txt')).toBe('task input\n');
+    expect(fsSync.existsSync(path.join(sandbox.rootDir, 'workspace/old.txt'))).toBe(false);
+
+    // A sandbox that no longer matches gets the whole worktree, without leftovers
+    await sandbox.files.write('/workspace/stale.txt', 'left behind\n');
+    expect(await uploadIncremental(repoDir, sandbox, { baseManifest: manifest, fallbackToFull: true })).toMatchObject({
+      success: true, mode: 'full', filesUploaded: 2
+    });
+    expect(await sandbox.files.read('/workspace/task.txt')).toBe('task input\n');
+    expect(fsSync.existsSync(path.join(sandbox.rootDir, 'workspace/stale.txt'))).toBe(false);
+  }, 60000);
+
+  it.each(['patch', 'bundle'] as const)('should apply sandbox commits with renames, deletions and binary files (%s)', async (format) => {
+    // The fake claude commits a rename, a deletion and a binary change, and leaves a new file uncommitted
+    await fs.writeFile(path.join(hookDir, 'claude'), FAKE_CLAUDE.replace(
+      'echo "generated by fake claude" > generated.txt',
+      [
+        'git mv old.txt renamed.txt',
+        'git rm -q README.md',
+        "printf '\\000\\377\\001' > logo.bin",
+        'git add -A && git commit -q -m "Claude commit"',
+        'echo "generated by fake claude" > generated.txt'
+      ].join('\n')
+    ));
+    await fs.writeFile(path.join(repoDir, 'old.txt'), 'renamed content\n');
+    await fs.writeFile(path.join(repoDir, 'logo.bin'), Buffer.from([0, 1, 2]));
+    execSync('git add . && git commit -q -m "add files"', { cwd: repoDir });
+
+    const { sandbox } = await manager.createSandbox(`history-${format}`);
+    const tarball = await createTarball(repoDir);
+    try {
+      expect((await uploadToSandbox(tarball.path, sandbox)).success).toBe(true);
+    } finally {
+      await fs.rm(tarball.path, { force: true });
+    }
+    const options = { streamOutput: false, captureFullLog: false, gitUser: 'Test', gitEmail: 'test@example.com' };
+    expect((await executeClaudeInSandbox(sandbox, manager, 'Reorganize', createMockLogger(), options)).success).toBe(true);
+
+    const result = await downloadCommitHistory(sandbox, '/workspace', repoDir, { format, branch: 'sandbox-result' });
+
+    expect(result).toMatchObject({ success: true, format, commitsApplied: 2, branch: 'sandbox-result' });
+    const git = (args: string) => execSync(`git ${args}`, { cwd: repoDir, encoding: 'utf-8' }).trim();
+    expect(git('rev-parse --abbrev-ref HEAD')).toBe('sandbox-result');
+    expect(git('log --format=%s -3').split('\n')).toEqual(['Uncommitted sandbox changes', 'Claude commit', 'add files']);
+    expect(git('status --porcelain')).toBe('');
+    expect(fsSync.existsSync(path.join(repoDir, 'README.md'))).toBe(false);
+    expect(fsSync.existsSync(path.join(repoDir, 'old.txt'))).toBe(false);
+    expect(await fs.readFile(path.join(repoDir, 'renamed.txt'), 'utf-8')).toBe('renamed content\n');
+    expect([...await fs.readFile(path.join(repoDir, 'logo.bin'))]).toEqual([0, 255, 1]);
+    expect(await fs.readFile(path.join(repoDir, 'generated.txt'), 'utf-8')).toBe('generated by fake claude\n');
+  }, 60000);
+
+  it('should leave the worktree untouched when the commits do not apply', async () => {
+    await fs.writeFile(path.join(hookDir, 'claude'), FAKE_CLAUDE.replace(
+      'echo "generated by fake claude" > generated.txt',
+      'echo "# sandbox title" > README.md'
+    ));
+    const { sandbox } = await manager.createSandbox('history-conflict');
+    const tarball = await createTarball(repoDir);
+    try {
+      expect((await uploadToSandbox(tarball.path, sandbox)).success).toBe(true);
+    } finally {
+      await fs.rm(tarball.path, { force: true });
+    }
+    const options = { streamOutput: false, captureFullLog: false, gitUser: 'Test', gitEmail: 'test@example.com' };
+    expect((await executeClaudeInSandbox(sandbox, manager, 'Retitle', createMockLogger(), options)).success).toBe(true);
+    await fs.writeFile(path.join(repoDir, 'README.md'), '# local title\n');
+    execSync('git commit -q -am "local change"', { cwd: repoDir });
+    const head = execSync('git rev-parse HEAD', { cwd: repoDir, encoding: 'utf-8' }).trim();
+
+    const result = await downloadCommitHistory(sandbox, '/workspace', repoDir, { format: 'patch', branch: 'conflicting' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('git am failed');
+    expect(execSync('git rev-parse HEAD', { cwd: repoDir, encoding: 'utf-8' }).trim()).toBe(head);
+    expect(execSync('git branch --list conflicting', { cwd: repoDir, encoding: 'utf-8' }).trim()).toBe('');
+    expect(execSync('git status --porcelain', { cwd: repoDir, encoding: 'utf-8' }).trim()).toBe('');
+  }, 60000);
+});
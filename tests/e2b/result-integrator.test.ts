@@ -0,0 +1,277 @@
+/**
+ * Tests for the result integrator
+ *
+ * Covers:
+ * - Clean merges of independent task results
+ * - Dependency-aware integration order and skipped tasks
+ * - Auto-resolution of high-confidence conflicts
+ * - Tasks left for human attention and the integration report
+ *
+ * Uses real temporary git repositories and a temporary SQLite database.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { SessionDB } from '../../src/db.js';
+import { ResultIntegrator } from '../../src/e2b/result-integrator.js';
+import type { Logger } from '../../src/logger.js';
+import type { ParallelExecutionResult, TaskResult } from '../../src/types.js';
+
+const createMockLogger = (): Logger => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn()
+});
+
+const BATCH_ID = 'abcdef12-0000-0000-0000-000000000000';
+
+describe('ResultIntegrator', () => {
+  let tempDir: string;
+  let repoDir: string;
+  let outputDir: string;
+  let db: SessionDB;
+
+  const git = (command: string): string =>
+    execSync(`git ${command}`, { cwd: repoDir, encoding: 'utf-8' }).trim();
+
+  /** Write a task's downloaded changes and return its result */
+  const addTask = async (
+    taskId: string,
+    files: Record<string, string>,
+    overrides: Partial<TaskResult> = {}
+  ): Promise<TaskResult> => {
+    const outputPath = path.join(outputDir, taskId);
+    for (const [file, content] of Object.entries(files)) {
+      const target = path.join(outputPath, 'changed-files', file);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, content);
+    }
+    return {
+      taskId,
+      taskDescription: `Task ${taskId}`,
+      dependsOn: [],
+      sessionId: `session-${taskId}`,
+      sandboxId: `sandbox-${taskId}`,
+      worktreePath: '',
+      status: 'completed',
+      startTime: new Date(),
+      filesChanged: Object.keys(files).length,
+      outputPath,
+      ...overrides
+    };
+  };
+
+  const execution = (tasks: TaskResult[]): ParallelExecutionResult => ({
+    success: tasks.every(t => t.status === 'completed'),
+    tasks,
+    summary: {
+      totalDuration: 0,
+      sequentialDuration: 0,
+      timeSaved: 0,
+      successCount: tasks.filter(t => t.status === 'completed').length,
+      failureCount: tasks.filter(t => t.status === 'failed').length,
+      cancelledCount: tasks.filter(t => t.status === 'cancelled').length,
+      totalFilesChanged: 0,
+      totalCost: 0,
+      batchId: BATCH_ID
+    }
+  });
+
+  const createIntegrator = (confidenceThreshold?: number) =>
+    new ResultIntegrator(
+      { repoPath: repoDir, outputDir, confidenceThreshold, gitUser: 'Integrator', gitEmail: 'integrator@example.com' },
+      db,
+      createMockLogger()
+    );
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'result-integrator-test-'));
+    repoDir = path.join(tempDir, 'repo');
+    outputDir = path.join(tempDir, 'parallel-results');
+    await fs.mkdir(repoDir);
+
+    await fs.writeFile(path.join(repoDir, 'README.md'), '# test repo\n');
+    await fs.writeFile(path.join(repoDir, 'config.ts'), 'export const value = 1;\n');
+    await fs.writeFile(path.join(repoDir, 'notes.txt'), 'line one\n');
+    execSync(
+      'git init -q && git config user.email test@example.com && git config user.name Test && git add . && git commit -q -m init',
+      { cwd: repoDir }
+    );
+
+    // v0.5 tables (auto_fix_suggestions) are created from the migrations directory
+    await fs.mkdir(path.join(tempDir, 'migrations'));
+    await fs.copyFile(
+      path.join(process.cwd(), 'migrations', 'v0.5.0.sql'),
+      path.join(tempDir, 'migrations', 'v0.5.0.sql')
+    );
+    db = new SessionDB(path.join(tempDir, 'test.db'));
+    const originalCwd = process.cwd();
+    process.chdir(tempDir);
+    try {
+      await db.migrateToV05();
+    } finally {
+      process.chdir(originalCwd);
+    }
+  });
+
+  afterEach(async () => {
+    db.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should merge independent tasks cleanly onto the integration branch', async () => {
+    const tasks = [
+      await addTask('task-1', { 'src/a.ts': 'export const a = 1;\n' }),
+      await addTask('task-2', { 'src/b.ts': 'export const b = 2;\n' })
+    ];
+
+    const result = await createIntegrator().integrate(execution(tasks));
+
+    expect(result.success).toBe(true);
+    expect(result.integrationBranch).toBe('parallel-cc/integration-abcdef12');
+    expect(result.tasks.map(t => t.outcome)).toEqual(['merged', 'merged']);
+    expect(result.tasks[0].taskBranch).toBe('parallel-cc/task-abcdef12-task-1');
+
+    expect(git(`show ${result.integrationBranch}:src/a.ts`)).toBe('export const a = 1;');
+    expect(git(`show ${result.integrationBranch}:src/b.ts`)).toBe('export const b = 2;');
+    expect(git(`log -1 --format=%an ${result.integrationBranch}`)).toBe('Integrator');
+
+    // The user's checkout and config are untouched
+    expect(git('rev-parse --abbrev-ref HEAD')).not.toBe(result.integrationBranch);
+    expect(git('config user.name')).toBe('Test');
+    expect(git('worktree list').split('\n')).toHaveLength(1);
+  });
+
+  it('should use a custom integration branch and refuse to overwrite it', async () => {
+    const tasks = [await addTask('task-1', { 'src/a.ts': 'a\n' })];
+    const integrator = new ResultIntegrator(
+      { repoPath: repoDir, outputDir, integrationBranch: 'integration/custom' },
+      db,
+      createMockLogger()
+    );
+
+    const result = await integrator.integrate(execution(tasks));
+    expect(result.integrationBranch).toBe('integration/custom');
+
+    await expect(integrator.integrate(execution(tasks))).rejects.toThrow('already exists');
+  });
+
+  it('should rebuild task branches when a batch is integrated again onto another branch', async () => {
+    const tasks = [await addTask('task-1', { 'src/a.ts': 'a\n' })];
+    await createIntegrator().integrate(execution(tasks));
+    await fs.writeFile(path.join(outputDir, 'task-1', 'changed-files', 'src', 'a.ts'), 'a2\n');
+
+    const result = await new ResultIntegrator(
+      { repoPath: repoDir, outputDir, integrationBranch: 'integration/again' },
+      db,
+      createMockLogger()
+    ).integrate(execution(tasks));
+
+    expect(result.tasks.map(t => t.outcome)).toEqual(['merged']);
+    expect(git('show integration/again:src/a.ts')).toBe('a2');
+    expect(git(`show ${result.tasks[0].taskBranch}:src/a.ts`)).toBe('a2');
+  });
+
+  it('should carry files deleted by a task and its dependencies onto the integration branch', async () => {
+    const cleanup = await addTask('cleanup', {});
+    await fs.mkdir(cleanup.outputPath!, { recursive: true });
+    await fs.writeFile(path.join(cleanup.outputPath!, 'metadata.json'), JSON.stringify({ deletedFiles: ['notes.txt'] }));
+    const config = await addTask('config', { 'config.ts': 'export const value = 2;\n' }, { dependsOn: ['cleanup'] });
+
+    const result = await createIntegrator().integrate(execution([cleanup, config]));
+
+    expect(result.tasks.map(t => t.outcome)).toEqual(['merged', 'merged']);
+    expect(git(`ls-tree --name-only ${result.integrationBranch}`).split('\n')).toEqual(['README.md', 'config.ts']);
+    // The dependent's task commit holds only its own change
+    expect(git(`diff --name-only ${result.tasks[1].taskBranch}~1 ${result.tasks[1].taskBranch}`)).toBe('config.ts');
+  });
+
+  it('should skip failed tasks, tasks without changes and their dependents', async () => {
+    const tasks = [
+      await addTask('schema', { 'schema.sql': 'create table t;\n' }, { status: 'failed', error: 'boom' }),
+      await addTask('api', { 'api.ts': 'api\n' }, { dependsOn: ['schema'], status: 'cancelled' }),
+      await addTask('noop', { 'README.md': '# test repo\n' }),
+      await addTask('docs', { 'docs.md': 'docs\n' }, { dependsOn: ['noop'] })
+    ];
+
+    const result = await createIntegrator().integrate(execution(tasks));
+
+    const outcomes = Object.fromEntries(result.tasks.map(t => [t.taskId, t]));
+    expect(outcomes.schema.outcome).toBe('skipped');
+    expect(outcomes.schema.reason).toBe('Task failed');
+    expect(outcomes.api.outcome).toBe('skipped');
+    expect(outcomes.noop.outcome).toBe('skipped');
+    expect(outcomes.noop.reason).toBe('No changes');
+    expect(outcomes.docs.outcome).toBe('merged');
+    expect(git('branch --list "parallel-cc/task-*"')).not.toContain('noop');
+  });
+
+  it('should integrate dependents after their dependencies without self-conflicts', async () => {
+    // A dependent task's sandbox started from its dependency's changes
+    const tasks = [
+      await addTask('tests', { 'api.ts': 'export function api() { return 2; }\n', 'api.test.ts': 'test\n' }, {
+        dependsOn: ['api']
+      }),
+      await addTask('api', { 'api.ts': 'export function api() { return 1; }\n' })
+    ];
+
+    const result = await createIntegrator().integrate(execution(tasks));
+
+    expect(result.tasks.map(t => t.taskId)).toEqual(['api', 'tests']);
+    expect(result.tasks.map(t => t.outcome)).toEqual(['merged', 'merged']);
+    expect(git(`show ${result.integrationBranch}:api.ts`)).toBe('export function api() { return 2; }');
+  });
+
+  it('should auto-resolve whitespace-only conflicts above the threshold', async () => {
+    const tasks = [
+      await addTask('task-1', { 'config.ts': 'export const value  = 1;\n' }),
+      await addTask('task-2', { 'config.ts': 'export  const value = 1;\n' })
+    ];
+
+    const result = await createIntegrator().integrate(execution(tasks));
+
+    expect(result.tasks[1].outcome).toBe('auto-resolved');
+    expect(result.tasks[1].conflictsDetected).toBeGreaterThan(0);
+    expect(result.tasks[1].autoResolvedFiles).toEqual(['config.ts']);
+    expect(result.success).toBe(true);
+
+    const merged = git(`show ${result.integrationBranch}:config.ts`);
+    expect(merged).not.toContain('<<<<<<<');
+    expect(merged.replace(/\s+/g, ' ')).toBe('export const value = 1;');
+
+    const applied = db.getAutoFixSuggestions({ repo_path: repoDir, file_path: 'config.ts' })
+      .filter(s => s.applied_at);
+    expect(applied).toHaveLength(1);
+  });
+
+  it('should leave low-confidence conflicts for human attention', async () => {
+    const tasks = [
+      await addTask('task-1', { 'notes.txt': 'line one from task 1\n' }),
+      await addTask('task-2', { 'notes.txt': 'a different line from task 2\n' })
+    ];
+
+    const result = await createIntegrator().integrate(execution(tasks));
+
+    expect(result.success).toBe(false);
+    expect(result.tasks[0].outcome).toBe('merged');
+    expect(result.tasks[1].outcome).toBe('needs-attention');
+    expect(result.tasks[1].unresolvedFiles).toEqual(['notes.txt']);
+
+    // The failed merge is aborted; the branch keeps task-1's result
+    expect(git(`show ${result.integrationBranch}:notes.txt`)).toBe('line one from task 1');
+    expect(git(`rev-parse --verify ${result.tasks[1].taskBranch}`)).toMatch(/^[0-9a-f]{40}$/);
+
+    const report = await fs.readFile(result.reportPath!, 'utf-8');
+    expect(report).toContain('# Integration Summary');
+    expect(report).toContain('| task-2 | needs-attention |');
+    expect(report).toContain(`git cherry-pick ${result.tasks[1].taskBranch}`);
+  });
+
+  it('should reject thresholds outside 0-1', () => {
+    expect(() => createIntegrator(1.5)).toThrow('between 0 and 1');
+  });
+});
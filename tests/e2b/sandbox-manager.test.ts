@@ -7,6 +7,7 @@
  * - Timeout enforcement (30min/50min warnings, 1-hour hard limit)
  * - Input validation (prompt sanitization, file path validation)
  * - Error handling (E2B API failures, network errors)
+ * - Warm pool (prepare ahead, hand out, wait for warmups, refill, idle TTL, drain)
  *
  * All E2B SDK calls are mocked - no real cloud operations occur.
  */
@@ -902,6 +903,169 @@ describe('SandboxManager', () => {
     });
   });
 
+  describe('warm pool', () => {
+    let created: any[];
+
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(async () => {
+      created = [];
+      const { Sandbox } = await import('e2b');
+      vi.mocked(Sandbox.create).mockImplementation(async () => {
+        const sandbox = {
+          sandboxId: `warm-${created.length + 1}`,
+          kill: vi.fn().mockResolvedValue(undefined),
+          isRunning: vi.fn().mockResolvedValue(true),
+          setTimeout: vi.fn().mockResolvedValue(undefined)
+        };
+        created.push(sandbox);
+        return sandbox as any;
+      });
+    });
+
+    afterEach(async () => {
+      await manager.drainWarmPool();
+    });
+
+    it('should create and warm up the configured number of sandboxes', async () => {
+      const warmup = vi.fn().mockResolvedValue(true);
+
+      manager.startWarmPool({ size: 2, idleTtlMinutes: 10, warmup });
+      await flush();
+
+      expect(created).toHaveLength(2);
+      expect(warmup).toHaveBeenCalledTimes(2);
+      expect(manager.getWarmPoolSize()).toBe(2);
+    });
+
+    it('should hand out a prepared sandbox and top the pool back up', async () => {
+      manager.startWarmPool({ size: 1, idleTtlMinutes: 10, warmup: vi.fn().mockResolvedValue(true) });
+      await flush();
+
+      const result = await manager.acquireSandbox('session-1');
+      await flush();
+
+      expect(result.sandboxId).toBe('warm-1');
+      expect(created[0].setTimeout).toHaveBeenCalledWith(60 * 60 * 1000);
+      expect(manager.isPrepared('warm-1')).toBe(true);
+      expect(manager.getActiveSandboxIds()).toContain('warm-1');
+      expect(manager.getWarmPoolSize()).toBe(1);
+      expect(created).toHaveLength(2);
+
+      await manager.terminateSandbox('warm-1');
+      expect(manager.isPrepared('warm-1')).toBe(false);
+    });
+
+    it('should wait for a sandbox that is still warming up instead of creating another', async () => {
+      const finishWarmup: Array<(ready: boolean) => void> = [];
+      const warmup = vi.fn(() => new Promise<boolean>(resolve => { finishWarmup.push(resolve); }));
+      manager.startWarmPool({ size: 1, idleTtlMinutes: 10, warmup });
+      await flush();
+
+      const acquiring = manager.acquireSandbox('session-1');
+      await flush();
+      // The claimed warmup is replaced for the pool, no sandbox is created for the session
+      expect(created).toHaveLength(2);
+
+      finishWarmup[0](true);
+      const result = await acquiring;
+      finishWarmup[1](true);
+      await flush();
+
+      expect(result.sandboxId).toBe('warm-1');
+      expect(manager.isPrepared('warm-1')).toBe(true);
+      expect(created).toHaveLength(2);
+      expect(manager.getWarmPoolSize()).toBe(1);
+    });
+
+    it('should create a sandbox when a pending warmup fails', async () => {
+      const finishWarmup: Array<(ready: boolean) => void> = [];
+      const warmup = vi.fn(() => new Promise<boolean>(resolve => { finishWarmup.push(resolve); }));
+      manager.startWarmPool({ size: 1, idleTtlMinutes: 10, warmup });
+      await flush();
+
+      const acquiring = manager.acquireSandbox('session-1');
+      await flush();
+      finishWarmup[0](false);
+      const result = await acquiring;
+      finishWarmup[1](true);
+
+      expect(created[0].kill).toHaveBeenCalled();
+      expect(result.sandboxId).toBe('warm-3');
+      expect(manager.isPrepared('warm-3')).toBe(false);
+    });
+
+    it('should create a sandbox when the pool is empty', async () => {
+      const result = await manager.acquireSandbox('session-1');
+
+      expect(result.sandboxId).toBe('warm-1');
+      expect(manager.isPrepared('warm-1')).toBe(false);
+    });
+
+    it('should discard sandboxes whose warmup fails', async () => {
+      manager.startWarmPool({ size: 1, idleTtlMinutes: 10, warmup: vi.fn().mockResolvedValue(false) });
+      await flush();
+
+      expect(manager.getWarmPoolSize()).toBe(0);
+      expect(created[0].kill).toHaveBeenCalled();
+    });
+
+    it('should terminate sandboxes idle longer than the TTL', async () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+      try {
+        manager.startWarmPool({ size: 1, idleTtlMinutes: 1 });
+        await vi.waitFor(() => expect(manager.getWarmPoolSize()).toBe(1));
+
+        await vi.advanceTimersByTimeAsync(90 * 1000);
+
+        expect(manager.getWarmPoolSize()).toBe(0);
+        expect(created[0].kill).toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should shrink the pool and kill the surplus', async () => {
+      manager.startWarmPool({ size: 2, idleTtlMinutes: 10 });
+      await flush();
+
+      await manager.resizeWarmPool(1);
+
+      expect(manager.getWarmPoolSize()).toBe(1);
+      expect(created.filter(sandbox => sandbox.kill.mock.calls.length > 0)).toHaveLength(1);
+    });
+
+    it('should terminate sandboxes still warming up when drained', async () => {
+      let finishWarmup: (ready: boolean) => void = () => {};
+      const warmup = vi.fn(() => new Promise<boolean>(resolve => { finishWarmup = resolve; }));
+      manager.startWarmPool({ size: 1, idleTtlMinutes: 10, warmup });
+      await flush();
+
+      let drained = false;
+      const draining = manager.drainWarmPool().then(() => { drained = true; });
+      await flush();
+
+      expect(created[0].kill).toHaveBeenCalledTimes(1);
+      expect(drained).toBe(false);
+
+      finishWarmup(true);
+      await draining;
+
+      expect(created[0].kill).toHaveBeenCalledTimes(1);
+      expect(manager.getWarmPoolSize()).toBe(0);
+    });
+
+    it('should kill idle sandboxes on cleanupAll', async () => {
+      manager.startWarmPool({ size: 2, idleTtlMinutes: 10 });
+      await flush();
+
+      await manager.cleanupAll();
+
+      expect(manager.getWarmPoolSize()).toBe(0);
+      expect(created.every(sandbox => sandbox.kill.mock.calls.length === 1)).toBe(true);
+    });
+  });
+
   describe('applyTemplate', () => {
     beforeEach(async () => {
       // Setup sandbox.commands.run mock
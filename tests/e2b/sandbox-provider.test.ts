@@ -0,0 +1,392 @@
+/**
+ * Tests for the pluggable sandbox provider layer
+ *
+ * Covers:
+ * - Provider factory and name validation
+ * - E2B provider delegation to the SDK
+ * - Docker/Podman container provider CLI invocations
+ * - SandboxManager with a non-E2B provider
+ *
+ * The E2B SDK and child_process are mocked - no containers or cloud calls.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import {
+  createSandboxProvider,
+  isSandboxProviderName,
+  SANDBOX_PROVIDER_NAMES,
+  type SandboxProvider,
+  type SandboxHandle
+} from '../../src/e2b/sandbox-provider.js';
+import { E2BSandboxProvider } from '../../src/e2b/e2b-provider.js';
+import {
+  ContainerSandboxProvider,
+  ContainerSandbox,
+  DEFAULT_CONTAINER_IMAGE
+} from '../../src/e2b/container-provider.js';
+import { SandboxManager } from '../../src/e2b/sandbox-manager.js';
+import { SandboxCommandError, SandboxStatus } from '../../src/types.js';
+import type { Logger } from '../../src/logger.js';
+
+vi.mock('e2b', () => ({
+  Sandbox: {
+    create: vi.fn(),
+    connect: vi.fn()
+  }
+}));
+
+vi.mock('child_process', () => ({
+  spawn: vi.fn()
+}));
+
+const createMockLogger = (): Logger => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn()
+});
+
+interface FakeCliResponse {
+  exitCode?: number;
+  stdout?: string;
+  stderr?: string;
+}
+
+/**
+ * Make spawn() return a fake child process that emits the given responses in order
+ */
+async function mockSpawnResponses(...responses: FakeCliResponse[]) {
+  const { spawn } = await import('child_process');
+  const stdinWrites: unknown[] = [];
+  let call = 0;
+
+  vi.mocked(spawn).mockImplementation((() => {
+    const response = responses[Math.min(call++, responses.length - 1)] ?? {};
+    const child = new EventEmitter() as any;
+    child.stdout = new EventEmitter();
+    child.stderr = new EventEmitter();
+    child.stdin = Object.assign(new EventEmitter(), {
+      end: (data?: unknown) => {
+        stdinWrites.push(data);
+        setImmediate(() => {
+          if (response.stdout) child.stdout.emit('data', Buffer.from(response.stdout));
+          if (response.stderr) child.stderr.emit('data', Buffer.from(response.stderr));
+          child.emit('close', response.exitCode ?? 0);
+        });
+      }
+    });
+    child.kill = vi.fn();
+    return child;
+  }) as any);
+
+  return { spawn: vi.mocked(spawn), stdinWrites };
+}
+
+describe('sandbox provider factory', () => {
+  it('should list supported providers', () => {
+    expect(SANDBOX_PROVIDER_NAMES).toEqual(['e2b', 'docker', 'podman', 'process']);
+  });
+
+  it('should validate provider names', () => {
+    expect(isSandboxProviderName('e2b')).toBe(true);
+    expect(isSandboxProviderName('docker')).toBe(true);
+    expect(isSandboxProviderName('podman')).toBe(true);
+    expect(isSandboxProviderName('firecracker')).toBe(false);
+  });
+
+  it('should default to the E2B provider', () => {
+    const provider = createSandboxProvider();
+    expect(provider).toBeInstanceOf(E2BSandboxProvider);
+    expect(provider.requiresApiKey).toBe(true);
+  });
+
+  it('should create container providers for docker and podman', () => {
+    const docker = createSandboxProvider('docker');
+    const podman = createSandboxProvider('podman');
+
+    expect(docker).toBeInstanceOf(ContainerSandboxProvider);
+    expect(docker.name).toBe('docker');
+    expect(docker.requiresApiKey).toBe(false);
+    expect(podman.name).toBe('podman');
+    expect(podman.displayName).toBe('Podman');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createSandboxProvider('firecracker')).toThrow(/Unknown sandbox provider "firecracker"/);
+  });
+});
+
+describe('E2BSandboxProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.E2B_API_KEY = 'env-api-key';
+  });
+
+  afterEach(() => {
+    delete process.env.E2B_API_KEY;
+  });
+
+  it('should delegate create to Sandbox.create', async () => {
+    const { Sandbox } = await import('e2b');
+    const mockSandbox = { sandboxId: 'sb-1' };
+    vi.mocked(Sandbox.create).mockResolvedValue(mockSandbox as any);
+
+    const provider = new E2BSandboxProvider();
+    const sandbox = await provider.create({
+      template: 'anthropic-claude-code',
+      timeoutMs: 60000,
+      metadata: { sessionId: 's1' }
+    });
+
+    expect(sandbox).toBe(mockSandbox);
+    expect(Sandbox.create).toHaveBeenCalledWith('anthropic-claude-code', {
+      apiKey: 'env-api-key',
+      timeoutMs: 60000,
+      metadata: { sessionId: 's1' }
+    });
+  });
+
+  it('should delegate connect to Sandbox.connect with explicit API key', async () => {
+    const { Sandbox } = await import('e2b');
+    vi.mocked(Sandbox.connect).mockResolvedValue({ sandboxId: 'sb-2' } as any);
+
+    const provider = new E2BSandboxProvider();
+    await provider.connect('sb-2', { apiKey: 'custom-key' });
+
+    expect(Sandbox.connect).toHaveBeenCalledWith('sb-2', { apiKey: 'custom-key' });
+  });
+});
+
+describe('ContainerSandboxProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.PARALLEL_CC_SANDBOX_IMAGE;
+  });
+
+  afterEach(() => {
+    delete process.env.PARALLEL_CC_SANDBOX_IMAGE;
+  });
+
+  it('should start a detached container with labels and keep-alive script', async () => {
+    const { spawn } = await mockSpawnResponses({ stdout: '0123456789abcdef0123\n' });
+
+    const provider = new ContainerSandboxProvider('docker');
+    const sandbox = await provider.create({
+      template: 'anthropic-claude-code',
+      timeoutMs: 60000,
+      metadata: { sessionId: 's1' }
+    });
+
+    expect(sandbox.sandboxId).toBe('0123456789ab');
+    const [binary, args] = spawn.mock.calls[0] as [string, string[]];
+    expect(binary).toBe('docker');
+    expect(args.slice(0, 5)).toEqual(['run', '-d', '--rm', '-w', '/workspace']);
+    expect(args).toContain('parallel-cc.sessionId=s1');
+    expect(args).toContain(DEFAULT_CONTAINER_IMAGE);
+    expect(args).not.toContain('anthropic-claude-code');
+    expect(args[args.length - 1]).toContain('+ 60 ))');
+  });
+
+  it('should use configured image and podman binary', async () => {
+    const { spawn } = await mockSpawnResponses({ stdout: 'abcdef123456\n' });
+
+    const provider = new ContainerSandboxProvider('podman', { image: 'my-image:1' });
+    await provider.create({ template: 'ignored', timeoutMs: 1000, metadata: {} });
+
+    const [binary, args] = spawn.mock.calls[0] as [string, string[]];
+    expect(binary).toBe('podman');
+    expect(args).toContain('my-image:1');
+  });
+
+  it('should fall back to PARALLEL_CC_SANDBOX_IMAGE', async () => {
+    process.env.PARALLEL_CC_SANDBOX_IMAGE = 'env-image';
+    const { spawn } = await mockSpawnResponses({ stdout: 'abcdef123456\n' });
+
+    await new ContainerSandboxProvider('docker').create({ template: 't', timeoutMs: 1000, metadata: {} });
+
+    expect(spawn.mock.calls[0][1]).toContain('env-image');
+  });
+
+  it('should surface container start failures', async () => {
+    await mockSpawnResponses({ exitCode: 125, stderr: 'Unable to find image' });
+
+    const provider = new ContainerSandboxProvider('docker');
+    await expect(
+      provider.create({ template: 't', timeoutMs: 1000, metadata: {} })
+    ).rejects.toThrow('Unable to find image');
+  });
+
+  it('should reconnect only to running containers', async () => {
+    await mockSpawnResponses({ stdout: 'true\n' }, { stdout: 'false\n' });
+    const provider = new ContainerSandboxProvider('docker');
+
+    await expect(provider.connect('running')).resolves.toBeInstanceOf(ContainerSandbox);
+    await expect(provider.connect('stopped')).rejects.toThrow(/not found or not running/);
+  });
+});
+
+describe('ContainerSandbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should run commands via exec with cwd and env', async () => {
+    const { spawn } = await mockSpawnResponses({ exitCode: 3, stdout: 'out', stderr: 'err' });
+    const sandbox = new ContainerSandbox('docker', 'abc');
+
+    const run = sandbox.commands.run('echo hi', {
+      cwd: '/workspace',
+      envs: { FOO: 'bar' }
+    });
+
+    await expect(run).rejects.toBeInstanceOf(SandboxCommandError);
+    await expect(run).rejects.toMatchObject({ exitCode: 3, stdout: 'out', stderr: 'err' });
+    expect(spawn.mock.calls[0][1]).toEqual([
+      'exec', '-w', '/workspace', '-e', 'FOO=bar', 'abc', 'sh', '-c', 'echo hi'
+    ]);
+  });
+
+  it('should write files through stdin', async () => {
+    const { spawn, stdinWrites } = await mockSpawnResponses({});
+    const sandbox = new ContainerSandbox('docker', 'abc');
+
+    await sandbox.files.write('/root/.npmrc', 'content');
+
+    const args = spawn.mock.calls[0][1] as string[];
+    expect(args.slice(0, 3)).toEqual(['exec', '-i', 'abc']);
+    expect(args[args.length - 1]).toBe('/root/.npmrc');
+    expect(stdinWrites[0]).toBe('content');
+  });
+
+  it('should write binary data as bytes', async () => {
+    const { stdinWrites } = await mockSpawnResponses({});
+    const sandbox = new ContainerSandbox('docker', 'abc');
+
+    await sandbox.files.write('/workspace/a.bin', new Uint8Array([1, 2, 3]).buffer);
+
+    expect(Array.from(stdinWrites[0] as Uint8Array)).toEqual([1, 2, 3]);
+  });
+
+  it('should read files and fail on missing files', async () => {
+    await mockSpawnResponses({ stdout: 'data' }, { exitCode: 1, stderr: 'No such file' });
+    const sandbox = new ContainerSandbox('docker', 'abc');
+
+    await expect(sandbox.files.read('/tmp/x')).resolves.toBe('data');
+    await expect(sandbox.files.read('/tmp/y')).rejects.toThrow('No such file');
+  });
+
+  it('should treat already-removed containers as killed', async () => {
+    await mockSpawnResponses({ exitCode: 1, stderr: 'Error: No such container: abc' });
+    const sandbox = new ContainerSandbox('docker', 'abc');
+
+    await expect(sandbox.kill()).resolves.toBeUndefined();
+  });
+
+  it('should reset the deadline when extending timeout', async () => {
+    const { spawn } = await mockSpawnResponses({});
+    const sandbox = new ContainerSandbox('docker', 'abc');
+
+    await sandbox.setTimeout(120000);
+
+    const args = spawn.mock.calls[0][1] as string[];
+    expect(args[args.length - 1]).toContain('+ 120 ))');
+  });
+
+  it('should report a missing runtime binary', async () => {
+    const { spawn } = await import('child_process');
+    vi.mocked(spawn).mockImplementation((() => {
+      const child = new EventEmitter() as any;
+      child.stdout = new EventEmitter();
+      child.stderr = new EventEmitter();
+      child.stdin = Object.assign(new EventEmitter(), {
+        end: () => {
+          setImmediate(() => child.emit('error', Object.assign(new Error('spawn docker ENOENT'), { code: 'ENOENT' })));
+        }
+      });
+      return child;
+    }) as any);
+
+    const sandbox = new ContainerSandbox('docker', 'abc');
+    await expect(sandbox.commands.run('true')).rejects.toThrow(/docker not found in PATH/);
+  });
+});
+
+describe('SandboxManager with a custom provider', () => {
+  let mockLogger: Logger;
+  let mockHandle: SandboxHandle;
+  let provider: SandboxProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.E2B_API_KEY;
+    mockLogger = createMockLogger();
+
+    mockHandle = {
+      sandboxId: 'local-123',
+      commands: { run: vi.fn().mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' }) },
+      files: { write: vi.fn().mockResolvedValue(undefined), read: vi.fn().mockResolvedValue('') },
+      isRunning: vi.fn().mockResolvedValue(true),
+      kill: vi.fn().mockResolvedValue(undefined),
+      setTimeout: vi.fn().mockResolvedValue(undefined)
+    };
+
+    provider = {
+      name: 'docker',
+      displayName: 'Docker',
+      requiresApiKey: false,
+      create: vi.fn().mockResolvedValue(mockHandle),
+      connect: vi.fn().mockResolvedValue(mockHandle)
+    };
+  });
+
+  it('should create sandboxes without an E2B API key', async () => {
+    const manager = new SandboxManager(mockLogger, {}, provider);
+
+    const result = await manager.createSandbox('session-1');
+
+    expect(result.sandbox).toBe(mockHandle);
+    expect(result.sandboxId).toBe('local-123');
+    expect(result.status).toBe(SandboxStatus.INITIALIZING);
+    expect(provider.create).toHaveBeenCalledWith(expect.objectContaining({
+      timeoutMs: 60 * 60 * 1000,
+      metadata: expect.objectContaining({ sessionId: 'session-1' })
+    }));
+    expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining('Creating Docker sandbox'));
+  });
+
+  it('should not map local provider errors to E2B messages', async () => {
+    vi.mocked(provider.create).mockRejectedValueOnce(new Error('daemon not running (timeout)'));
+    const manager = new SandboxManager(mockLogger, {}, provider);
+
+    await expect(manager.createSandbox('session-1')).rejects.toThrow(
+      'Docker sandbox creation failed: daemon not running (timeout)'
+    );
+  });
+
+  it('should reconnect through the provider without an API key', async () => {
+    const manager = new SandboxManager(mockLogger, {}, provider);
+
+    const sandbox = await manager.getOrReconnectSandbox('local-123');
+
+    expect(sandbox).toBe(mockHandle);
+    expect(provider.connect).toHaveBeenCalledWith('local-123', { apiKey: undefined });
+  });
+
+  it('should terminate and extend timeout through the handle', async () => {
+    const manager = new SandboxManager(mockLogger, {}, provider);
+    await manager.createSandbox('session-1');
+
+    expect(await manager.extendTimeout('local-123', 10)).toBe(true);
+    expect(mockHandle.setTimeout).toHaveBeenCalledWith(10 * 60 * 1000);
+
+    const termination = await manager.terminateSandbox('local-123');
+    expect(termination.success).toBe(true);
+    expect(mockHandle.kill).toHaveBeenCalled();
+  });
+
+  it('should expose the configured provider', () => {
+    const manager = new SandboxManager(mockLogger, {}, provider);
+    expect(manager.getProvider()).toBe(provider);
+  });
+});
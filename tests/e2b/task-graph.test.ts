@@ -0,0 +1,129 @@
+/**
+ * Tests for task graph utilities
+ *
+ * Covers:
+ * - Task normalization and validation (IDs, dependencies, cycles)
+ * - Topological ordering and upstream resolution
+ * - Task file parsing (plain text, JSON, YAML)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeTasks,
+  topologicalOrder,
+  getUpstreamTasks,
+  parseTaskFile
+} from '../../src/e2b/task-graph.js';
+
+describe('normalizeTasks', () => {
+  it('should assign positional IDs to plain prompts', () => {
+    expect(normalizeTasks(['First', { prompt: 'Second' }])).toEqual([
+      { id: 'task-1', prompt: 'First', dependsOn: [] },
+      { id: 'task-2', prompt: 'Second', dependsOn: [] }
+    ]);
+  });
+
+  it('should keep explicit IDs and dependencies', () => {
+    const tasks = normalizeTasks([
+      { id: 'api', prompt: 'Add API' },
+      { id: 'tests', prompt: 'Add tests', dependsOn: ['api'] }
+    ]);
+    expect(tasks[1]).toEqual({ id: 'tests', prompt: 'Add tests', dependsOn: ['api'] });
+  });
+
+  it('should reject invalid and duplicate IDs', () => {
+    expect(() => normalizeTasks([{ id: '../x', prompt: 'A' }])).toThrow('Invalid task ID');
+    expect(() => normalizeTasks([{ id: 'a', prompt: 'A' }, { id: 'a', prompt: 'B' }])).toThrow('Duplicate task ID "a"');
+  });
+
+  it('should reject empty prompts', () => {
+    expect(() => normalizeTasks([{ id: 'a', prompt: '  ' }])).toThrow('empty prompt');
+  });
+
+  it('should reject unknown and self dependencies', () => {
+    expect(() => normalizeTasks([{ id: 'a', prompt: 'A', dependsOn: ['b'] }]))
+      .toThrow('Task "a" depends on unknown task "b"');
+    expect(() => normalizeTasks([{ id: 'a', prompt: 'A', dependsOn: ['a'] }]))
+      .toThrow('cannot depend on itself');
+  });
+
+  it('should reject dependency cycles', () => {
+    expect(() => normalizeTasks([
+      { id: 'a', prompt: 'A', dependsOn: ['c'] },
+      { id: 'b', prompt: 'B', dependsOn: ['a'] },
+      { id: 'c', prompt: 'C', dependsOn: ['b'] }
+    ])).toThrow('Task dependency cycle detected: a -> c -> b -> a');
+  });
+});
+
+describe('topologicalOrder', () => {
+  it('should keep input order when there are no dependencies', () => {
+    expect(topologicalOrder(normalizeTasks(['A', 'B', 'C']))).toEqual(['task-1', 'task-2', 'task-3']);
+  });
+
+  it('should place dependencies before dependents', () => {
+    const tasks = normalizeTasks([
+      { id: 'tests', prompt: 'Tests', dependsOn: ['api'] },
+      { id: 'api', prompt: 'API', dependsOn: ['schema'] },
+      { id: 'schema', prompt: 'Schema' }
+    ]);
+    expect(topologicalOrder(tasks)).toEqual(['schema', 'api', 'tests']);
+  });
+});
+
+describe('getUpstreamTasks', () => {
+  it('should return transitive dependencies in dependency order', () => {
+    const tasks = normalizeTasks([
+      { id: 'a', prompt: 'A' },
+      { id: 'b', prompt: 'B', dependsOn: ['a'] },
+      { id: 'c', prompt: 'C' },
+      { id: 'd', prompt: 'D', dependsOn: ['b', 'c'] }
+    ]);
+    expect(getUpstreamTasks('d', tasks)).toEqual(['a', 'b', 'c']);
+    expect(getUpstreamTasks('a', tasks)).toEqual([]);
+  });
+});
+
+describe('parseTaskFile', () => {
+  it('should read plain files as one task per line', () => {
+    const content = '# comment\nFirst task\n\n  Second task  \n';
+    expect(parseTaskFile(content, 'tasks.txt')).toEqual(['First task', 'Second task']);
+  });
+
+  it('should parse a JSON task list', () => {
+    const content = JSON.stringify([
+      'Plain task',
+      { id: 'api', prompt: 'Add API' },
+      { id: 'tests', prompt: 'Add tests', dependsOn: 'api' }
+    ]);
+    expect(parseTaskFile(content, 'tasks.json')).toEqual([
+      'Plain task',
+      { id: 'api', prompt: 'Add API', dependsOn: [] },
+      { id: 'tests', prompt: 'Add tests', dependsOn: ['api'] }
+    ]);
+  });
+
+  it('should parse a YAML object with a tasks list', () => {
+    const content = [
+      'tasks:',
+      '  - id: api',
+      '    prompt: Add API',
+      '  - id: tests',
+      '    prompt: Add tests',
+      '    dependsOn: [api]',
+      '  - prompt: Update docs'
+    ].join('\n');
+    expect(parseTaskFile(content, 'tasks.YML')).toEqual([
+      { id: 'api', prompt: 'Add API', dependsOn: [] },
+      { id: 'tests', prompt: 'Add tests', dependsOn: ['api'] },
+      { prompt: 'Update docs', dependsOn: [] }
+    ]);
+  });
+
+  it('should reject malformed structured files', () => {
+    expect(() => parseTaskFile('{not json', 'tasks.json')).toThrow('Failed to parse task file tasks.json');
+    expect(() => parseTaskFile('{"foo": 1}', 'tasks.json')).toThrow('must contain a list of tasks');
+    expect(() => parseTaskFile('[{"id": "a"}]', 'tasks.json')).toThrow('tasks.json task #1: "prompt" must be a string');
+    expect(() => parseTaskFile('[{"prompt": "A", "dependsOn": [1]}]', 'tasks.json')).toThrow('"dependsOn" must be');
+  });
+});
@@ -557,6 +557,28 @@ describe('validateTemplate', () => {
     expect(result.errors.some(e => e.includes('environment'))).toBe(true);
   });
 
+  it('should pass with a verify section', () => {
+    const template = createMockTemplate({
+      verify: { commands: ['npm test', 'npm run lint'], repairRounds: 2 }
+    });
+
+    const result = validateTemplate(template);
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should fail when verify commands are empty or repair rounds are invalid', () => {
+    const template = createMockTemplate({
+      verify: { commands: ['npm test', '  '], repairRounds: -1 }
+    });
+
+    const result = validateTemplate(template);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('verify.commands[1] must be a non-empty string');
+    expect(result.errors.some(e => e.includes('verify.repairRounds'))).toBe(true);
+  });
+
   it('should pass with optional fields omitted', () => {
     const template: SandboxTemplate = {
       name: 'minimal-template',
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for sandbox verification
+ *
+ * Covers:
+ * - Running verify commands and recording exit codes and output tails
+ * - E2B-style thrown command errors
+ * - Repair prompt and failure summary
+ *
+ * All sandbox calls are mocked - no real E2B operations occur.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  runVerifyCommands,
+  buildRepairPrompt,
+  describeVerifyFailures,
+  tailOutput
+} from '../../src/e2b/verification.js';
+import type { SandboxHandle } from '../../src/e2b/sandbox-provider.js';
+import type { Logger } from '../../src/logger.js';
+
+const createMockLogger = (): Logger => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn()
+});
+
+const createMockSandbox = (run: (cmd: string) => Promise<unknown>): SandboxHandle => ({
+  sandboxId: 'test-sandbox-123',
+  commands: { run: vi.fn().mockImplementation(run) }
+} as unknown as SandboxHandle);
+
+describe('runVerifyCommands', () => {
+  it('should run every command in the working directory and record results', async () => {
+    const sandbox = createMockSandbox(async (cmd: string) => cmd.includes('npm test')
+      ? { exitCode: 1, stdout: 'FAIL src/a.test.ts', stderr: '1 failed' }
+      : { exitCode: 0, stdout: 'ok', stderr: '' });
+
+    const results = await runVerifyCommands(sandbox, ['npm test', 'npm run lint'], createMockLogger(), '/workspace');
+
+    expect(sandbox.commands.run).toHaveBeenCalledTimes(2);
+    expect((sandbox.commands.run as any).mock.calls[0][0]).toBe('cd /workspace && npm test');
+    expect(results.map(r => [r.command, r.exitCode])).toEqual([['npm test', 1], ['npm run lint', 0]]);
+    expect(results[0].outputTail).toBe('FAIL src/a.test.ts\n1 failed');
+  });
+
+  it('should read the result from errors thrown for non-zero exit codes', async () => {
+    const sandbox = createMockSandbox(async () => {
+      throw Object.assign(new Error('exit status 2'), { exitCode: 2, stdout: '', stderr: 'lint error' });
+    });
+
+    const [result] = await runVerifyCommands(sandbox, ['npm run lint'], createMockLogger(), '/workspace');
+
+    expect(result.exitCode).toBe(2);
+    expect(result.outputTail).toBe('lint error');
+  });
+
+  it('should report -1 when the command could not be run', async () => {
+    const sandbox = createMockSandbox(async () => {
+      throw new Error('sandbox not running');
+    });
+
+    const [result] = await runVerifyCommands(sandbox, ['npm test'], createMockLogger(), '/workspace');
+
+    expect(result.exitCode).toBe(-1);
+    expect(result.outputTail).toBe('sandbox not running');
+  });
+});
+
+describe('tailOutput', () => {
+  it('should keep only the last 50 lines', () => {
+    const output = Array.from({ length: 80 }, (_, i) => `line ${i + 1}`).join('\n');
+
+    const tail = tailOutput(output).split('\n');
+
+    expect(tail).toHaveLength(50);
+    expect(tail[0]).toBe('line 31');
+    expect(tail[49]).toBe('line 80');
+  });
+
+  it('should cap the tail length', () => {
+    expect(tailOutput('x'.repeat(10000))).toHaveLength(4000);
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('should list only the failed commands with their output', () => {
+    const results = [
+      { command: 'npm test', exitCode: 1, outputTail: 'expected 2, got 3', durationMs: 10 },
+      { command: 'npm run lint', exitCode: 0, outputTail: '', durationMs: 5 }
+    ];
+
+    const prompt = buildRepairPrompt(results);
+
+    expect(prompt).toContain('Command: npm test\nExit code: 1');
+    expect(prompt).toContain('expected 2, got 3');
+    expect(prompt).not.toContain('npm run lint');
+    expect(describeVerifyFailures(results)).toBe('npm test (exit 1)');
+  });
+});
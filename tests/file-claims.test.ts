@@ -3,9 +3,11 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { existsSync, unlinkSync, readdirSync } from 'fs';
+import { existsSync, unlinkSync, readdirSync, mkdtempSync, mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { SessionDB } from '../src/db.js';
-import { FileClaimsManager, ConflictError } from '../src/file-claims.js';
+import { FileClaimsManager, ConflictError, ClaimDeadlockError } from '../src/file-claims.js';
 import type { Session } from '../src/types.js';
 
 describe('FileClaimsManager', () => {
@@ -217,6 +219,254 @@ describe('FileClaimsManager', () => {
     });
   });
 
+  describe('directory and glob claims', () => {
+    it('should block files inside a glob claim, including files not created yet', async () => {
+      await manager.acquireClaim({
+        sessionId: session1.id,
+        repoPath,
+        filePath: 'src/auth/**',
+        mode: 'EXCLUSIVE'
+      });
+
+      const result = await manager.checkClaims({
+        repoPath,
+        filePaths: ['src/auth/new-provider.ts'],
+        requestedMode: 'SHARED'
+      });
+      expect(result.available).toBe(false);
+      expect(result.conflicts[0].reason).toContain('Incompatible EXCLUSIVE claim on src/auth/**');
+
+      await expect(
+        manager.acquireClaim({
+          sessionId: session2.id,
+          repoPath,
+          filePath: 'src/auth/providers/oauth.ts',
+          mode: 'EXCLUSIVE'
+        })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should block a pattern claim over a claimed file', async () => {
+      await manager.acquireClaim({
+        sessionId: session2.id,
+        repoPath,
+        filePath: 'src/auth/login.ts',
+        mode: 'EXCLUSIVE'
+      });
+
+      await expect(
+        manager.acquireClaim({
+          sessionId: session1.id,
+          repoPath,
+          filePath: 'src/**/*.ts',
+          mode: 'INTENT'
+        })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should allow claims on patterns that do not overlap', async () => {
+      await manager.acquireClaim({
+        sessionId: session1.id,
+        repoPath,
+        filePath: 'src/auth/**',
+        mode: 'EXCLUSIVE'
+      });
+
+      const claim = await manager.acquireClaim({
+        sessionId: session2.id,
+        repoPath,
+        filePath: 'src/billing/',
+        mode: 'EXCLUSIVE'
+      });
+
+      expect(claim.file_path).toBe('src/billing/');
+    });
+
+    it('should claim an existing directory as everything inside it', async () => {
+      const realRepo = mkdtempSync(join(tmpdir(), 'parallel-cc-claims-'));
+      try {
+        mkdirSync(join(realRepo, 'src', 'auth'), { recursive: true });
+
+        const claim = await manager.acquireClaim({
+          sessionId: session1.id,
+          repoPath: realRepo,
+          filePath: './src/auth',
+          mode: 'EXCLUSIVE'
+        });
+
+        expect(claim.file_path).toBe('src/auth/');
+        const result = await manager.checkClaims({
+          repoPath: realRepo,
+          filePaths: ['src/auth/session.ts'],
+          requestedMode: 'INTENT'
+        });
+        expect(result.available).toBe(false);
+      } finally {
+        rmSync(realRepo, { recursive: true, force: true });
+      }
+    });
+
+    it('should list pattern claims covering a file', async () => {
+      await manager.acquireClaim({
+        sessionId: session1.id,
+        repoPath,
+        filePath: 'src/auth/**',
+        mode: 'SHARED'
+      });
+      await manager.acquireClaim({
+        sessionId: session1.id,
+        repoPath,
+        filePath: 'README.md',
+        mode: 'SHARED'
+      });
+
+      const claims = manager.listClaims({ filePaths: ['src/auth/login.ts'] });
+      expect(claims.map(c => c.file_path)).toEqual(['src/auth/**']);
+    });
+  });
+
+  describe('claim wait queue', () => {
+    let session3: Session;
+
+    beforeEach(() => {
+      session3 = db.createSession({
+        id: 'session-3',
+        pid: 12347,
+        repo_path: repoPath,
+        worktree_path: `${repoPath}-worktree-2`,
+        worktree_name: 'worktree-2',
+        is_main_repo: false
+      });
+    });
+
+    const claimAs = (sessionId: string, filePath: string) =>
+      manager.acquireClaim({ sessionId, repoPath, filePath, mode: 'EXCLUSIVE' });
+
+    const requestAs = (sessionId: string, filePath: string) =>
+      manager.requestClaim({ sessionId, repoPath, filePath, mode: 'EXCLUSIVE' });
+
+    it('should grant a free claim without queueing', async () => {
+      const result = await requestAs(session1.id, 'src/app.ts');
+
+      expect(result.status).toBe('granted');
+      expect(db.listClaimRequests()).toHaveLength(0);
+    });
+
+    it('should queue a conflicting request and grant it when the holder releases', async () => {
+      const held = await claimAs(session1.id, 'src/app.ts');
+
+      const result = await requestAs(session2.id, 'src/app.ts');
+      expect(result.status).toBe('waiting');
+      if (result.status !== 'waiting') return;
+      expect(result.position).toBe(1);
+      expect(result.conflicts[0].existingClaim.id).toBe(held.id);
+
+      await manager.releaseClaim(held.id, session1.id);
+
+      const request = db.getClaimRequest(result.request.id);
+      expect(request?.status).toBe('granted');
+      const claims = manager.listClaims({ sessionId: session2.id });
+      expect(claims.map(c => c.id)).toEqual([request?.claim_id]);
+    });
+
+    it('should grant waiting requests in FIFO order', async () => {
+      const held = await claimAs(session1.id, 'src/app.ts');
+      const first = await requestAs(session2.id, 'src/app.ts');
+      const second = await requestAs(session3.id, 'src/**');
+      if (first.status !== 'waiting' || second.status !== 'waiting') {
+        throw new Error('Expected both requests to wait');
+      }
+      expect(second.position).toBe(2);
+
+      await manager.releaseClaim(held.id, session1.id);
+      expect(db.getClaimRequest(first.request.id)?.status).toBe('granted');
+      expect(db.getClaimRequest(second.request.id)?.status).toBe('waiting');
+
+      await manager.releaseAllForSession(session2.id);
+      expect(db.getClaimRequest(second.request.id)?.status).toBe('granted');
+    });
+
+    it('should queue behind an earlier conflicting request even when the file is free', async () => {
+      const held = await claimAs(session1.id, 'src/app.ts');
+      await requestAs(session2.id, 'src/**');
+
+      const result = await requestAs(session3.id, 'src/app.ts');
+
+      expect(result.status).toBe('waiting');
+      expect(held.is_active).toBe(true);
+    });
+
+    it('should refuse to wait when sessions would wait on each other', async () => {
+      await claimAs(session1.id, 'src/a.ts');
+      await claimAs(session2.id, 'src/b.ts');
+      expect((await requestAs(session1.id, 'src/b.ts')).status).toBe('waiting');
+
+      const error = await requestAs(session2.id, 'src/a.ts').catch(e => e);
+
+      expect(error).toBeInstanceOf(ClaimDeadlockError);
+      expect((error as ClaimDeadlockError).cycle).toEqual([session2.id, session1.id, session2.id]);
+      expect(db.listClaimRequests({ session_id: session2.id })).toHaveLength(0);
+    });
+
+    it('should grant the request once the holder session goes stale', async () => {
+      await claimAs(session1.id, 'src/app.ts');
+      const result = await requestAs(session2.id, 'src/app.ts');
+      if (result.status !== 'waiting') throw new Error('Expected request to wait');
+
+      const stillWaiting = await manager.waitForClaim(result.request.id, { timeoutMs: 20, pollIntervalMs: 5 });
+      expect(stillWaiting.status).toBe('waiting');
+
+      db['db'].prepare(`UPDATE sessions SET last_heartbeat = datetime('now', '-1 hour') WHERE id = ?`).run(session1.id);
+      const granted = await manager.waitForClaim(result.request.id, { timeoutMs: 20, pollIntervalMs: 5 });
+
+      expect(granted.status).toBe('granted');
+      expect(manager.listClaims({ sessionId: session1.id })).toHaveLength(0);
+    });
+
+    it('should grant a queued request before a later direct acquireClaim', async () => {
+      await claimAs(session1.id, 'src/app.ts');
+      const result = await requestAs(session2.id, 'src/app.ts');
+      if (result.status !== 'waiting') throw new Error('Expected request to wait');
+
+      db['db'].prepare(`UPDATE sessions SET last_heartbeat = datetime('now', '-1 hour') WHERE id = ?`).run(session1.id);
+      const error = await claimAs(session3.id, 'src/app.ts').catch(e => e);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      const request = db.getClaimRequest(result.request.id);
+      expect(request?.status).toBe('granted');
+      expect(manager.listClaims({ filePaths: ['src/app.ts'] }).map(c => c.id)).toEqual([request?.claim_id]);
+    });
+
+    it('should not let a direct acquireClaim jump ahead of a waiting request', async () => {
+      await claimAs(session1.id, 'src/app.ts');
+      await requestAs(session2.id, 'src/**');
+
+      await expect(claimAs(session3.id, 'src/other.ts')).rejects.toThrow(/queued behind 1 earlier request/);
+      expect(manager.listClaims({ sessionId: session3.id })).toHaveLength(0);
+    });
+
+    it('should time out acquireClaim in wait mode and drop the request', async () => {
+      await claimAs(session1.id, 'src/app.ts');
+
+      await expect(
+        manager.acquireClaim({ sessionId: session2.id, repoPath, filePath: 'src/app.ts', mode: 'SHARED', waitTimeoutMs: 10 })
+      ).rejects.toThrow(/still blocked after waiting 10ms/);
+
+      expect(db.listClaimRequests({ status: 'waiting' })).toHaveLength(0);
+    });
+
+    it('should cancel waiting requests of a released session', async () => {
+      await claimAs(session1.id, 'src/app.ts');
+      const result = await requestAs(session2.id, 'src/app.ts');
+      if (result.status !== 'waiting') throw new Error('Expected request to wait');
+
+      await manager.releaseAllForSession(session2.id);
+
+      expect(db.getClaimRequest(result.request.id)).toMatchObject({ status: 'cancelled', cancel_reason: 'Session released' });
+      expect(await manager.cancelClaimRequest(result.request.id, session2.id)).toBe(false);
+    });
+  });
+
   describe('releaseClaim', () => {
     it('should release claim successfully', async () => {
       const claim = await manager.acquireClaim({
@@ -442,6 +692,86 @@ describe('FileClaimsManager', () => {
     });
   });
 
+  describe('verifyFiles', () => {
+    it('should report files under EXCLUSIVE claims of other sessions', async () => {
+      await manager.acquireClaim({ sessionId: session1.id, repoPath, filePath: 'src/auth/', mode: 'EXCLUSIVE' });
+      await manager.acquireClaim({ sessionId: session1.id, repoPath, filePath: 'src/shared.ts', mode: 'SHARED' });
+
+      const violations = manager.verifyFiles({
+        repoPaths: [repoPath, `${repoPath}-worktree`],
+        filePaths: ['src/auth/login.ts', 'src/shared.ts', 'README.md'],
+        sessionIds: [session2.id]
+      });
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].filePath).toBe('src/auth/login.ts');
+      expect(violations[0].claim.file_path).toBe('src/auth/');
+    });
+
+    it('should ignore claims of the committing session', async () => {
+      await manager.acquireClaim({ sessionId: session1.id, repoPath, filePath: 'src/app.ts', mode: 'EXCLUSIVE' });
+
+      const violations = manager.verifyFiles({
+        repoPaths: [repoPath],
+        filePaths: ['src/app.ts'],
+        sessionIds: [session1.id]
+      });
+
+      expect(violations).toEqual([]);
+    });
+
+    it('should ignore claims of stale sessions', async () => {
+      await manager.acquireClaim({ sessionId: session1.id, repoPath, filePath: 'src/app.ts', mode: 'EXCLUSIVE' });
+      db['db'].prepare(`UPDATE sessions SET last_heartbeat = datetime('now', '-1 hour') WHERE id = ?`).run(session1.id);
+
+      const violations = manager.verifyFiles({
+        repoPaths: [repoPath],
+        filePaths: ['src/app.ts'],
+        sessionIds: []
+      });
+
+      expect(violations).toEqual([]);
+    });
+  });
+
+  describe('autoClaim', () => {
+    it('should claim an edited file relative to the session worktree', async () => {
+      const result = await manager.autoClaim({
+        sessionId: session2.id,
+        filePath: `${repoPath}-worktree/src/app.ts`,
+        mode: 'INTENT'
+      });
+
+      expect(result.status).toBe('claimed');
+      if (result.status !== 'claimed') return;
+      expect(result.claim).toMatchObject({ repo_path: repoPath, file_path: 'src/app.ts', claim_mode: 'INTENT' });
+    });
+
+    it('should reuse a claim the session already holds', async () => {
+      await manager.acquireClaim({ sessionId: session1.id, repoPath, filePath: 'src/**', mode: 'EXCLUSIVE' });
+
+      const result = await manager.autoClaim({ sessionId: session1.id, filePath: 'src/app.ts', mode: 'SHARED' });
+
+      expect(result.status).toBe('held');
+      expect(manager.listClaims({ sessionId: session1.id })).toHaveLength(1);
+    });
+
+    it('should block on an EXCLUSIVE claim of another session, including worktree claims', async () => {
+      await manager.acquireClaim({ sessionId: session2.id, repoPath: `${repoPath}-worktree`, filePath: 'src/app.ts', mode: 'EXCLUSIVE' });
+
+      const result = await manager.autoClaim({ sessionId: session1.id, filePath: `${repoPath}/src/app.ts`, mode: 'INTENT' });
+
+      expect(result.status).toBe('blocked');
+      if (result.status !== 'blocked') return;
+      expect(result.violations[0].claim.session_id).toBe(session2.id);
+    });
+
+    it('should skip files outside the worktree and unknown sessions', async () => {
+      expect((await manager.autoClaim({ sessionId: session1.id, filePath: '/etc/hosts', mode: 'INTENT' })).status).toBe('skipped');
+      expect((await manager.autoClaim({ sessionId: 'missing', filePath: 'src/app.ts', mode: 'INTENT' })).status).toBe('skipped');
+    });
+  });
+
   describe('listClaims', () => {
     it('should list all active claims', async () => {
       await manager.acquireClaim({
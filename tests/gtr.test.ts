@@ -3,13 +3,14 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { execSync } from 'child_process';
+import { execSync, execFileSync } from 'child_process';
 import { GtrWrapper } from '../src/gtr.js';
 import type { GtrResult, GtrListEntry } from '../src/types.js';
 
 // Mock child_process
 vi.mock('child_process', () => ({
   execSync: vi.fn(),
+  execFileSync: vi.fn(),
   exec: vi.fn(),
 }));
 
@@ -635,6 +636,18 @@ branch refs/heads/feature`;
       expect(name).not.toMatch(/^parallel-/);
     });
 
+    it('should build the name from a label', () => {
+      const name = GtrWrapper.generateWorktreeName('parallel-', 'Auth refactor: OAuth/PKCE!');
+
+      expect(name).toMatch(/^parallel-auth-refactor-oauth-pkce-[a-z0-9]{4}$/);
+    });
+
+    it('should fall back to a timestamp when the label has no usable characters', () => {
+      const name = GtrWrapper.generateWorktreeName('parallel-', '!!!');
+
+      expect(name).toMatch(/^parallel-[a-z0-9]+-[a-z0-9]{4}$/);
+    });
+
     it('should preserve prefix exactly', () => {
       const customPrefix = 'my-custom-prefix-';
       const name = GtrWrapper.generateWorktreeName(customPrefix);
@@ -643,6 +656,69 @@ branch refs/heads/feature`;
     });
   });
 
+  describe('formatBranchName (static)', () => {
+    const values = { user: 'Jane Doe', date: '2026-10-19', label: 'Auth refactor', id: 'k3x9' };
+
+    it('should fill in slugified placeholders and keep separators', () => {
+      expect(GtrWrapper.formatBranchName('{user}/{date}-{label}', values)).toBe('jane-doe/2026-10-19-auth-refactor');
+      expect(GtrWrapper.formatBranchName('wip/{label}-{id}', values)).toBe('wip/auth-refactor-k3x9');
+    });
+
+    it('should drop characters git does not allow in branch names', () => {
+      expect(GtrWrapper.formatBranchName('/team: {label}../', values)).toBe('team-auth-refactor');
+    });
+
+    it('should reject unknown placeholders', () => {
+      expect(() => GtrWrapper.formatBranchName('{user}/{ticket}', values)).toThrow('Unknown placeholder {ticket}');
+    });
+  });
+
+  describe('resolveBaseRef', () => {
+    it('should use HEAD without running git', () => {
+      expect(gtr.resolveBaseRef('HEAD')).toEqual({ ref: 'HEAD' });
+      expect(execFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should fetch a remote-tracking base ref before using it', () => {
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: string[]) =>
+        args[0] === 'remote' ? 'origin\nupstream\n' : '') as any);
+
+      expect(gtr.resolveBaseRef('upstream/main')).toEqual({ ref: 'upstream/main', warning: undefined });
+      expect(execFileSync).toHaveBeenCalledWith('git', ['fetch', '--quiet', 'upstream', 'main'], expect.objectContaining({
+        cwd: mockRepoPath,
+        timeout: 30000
+      }));
+    });
+
+    it('should use the last fetched state when the fetch fails', () => {
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: string[]) => {
+        if (args[0] === 'fetch') {
+          throw Object.assign(new Error('fetch failed'), { stderr: 'Could not resolve host' });
+        }
+        return args[0] === 'remote' ? 'origin\n' : '';
+      }) as any);
+
+      const result = gtr.resolveBaseRef('origin/main');
+
+      expect(result.ref).toBe('origin/main');
+      expect(result.warning).toContain('Could not resolve host');
+    });
+
+    it('should fall back to HEAD when the ref does not exist', () => {
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: string[]) => {
+        if (args[0] === 'rev-parse') {
+          throw new Error('unknown revision');
+        }
+        return '';
+      }) as any);
+
+      expect(gtr.resolveBaseRef('release/2.0')).toEqual({
+        ref: 'HEAD',
+        warning: 'Base ref release/2.0 not found, using HEAD'
+      });
+    });
+  });
+
   describe('edge cases and error handling', () => {
     beforeEach(() => {
       vi.mocked(execSync).mockReturnValueOnce('gtr version 1.2.3' as any);
@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { execSync } from 'child_process';
 import {
   getGlobalSettingsPath,
   getLocalSettingsPath,
@@ -14,6 +15,9 @@ import {
   writeSettings,
   isHookInstalled,
   mergeHookIntoSettings,
+  createAutoClaimHook,
+  isAutoClaimHookInstalled,
+  mergeAutoClaimHookIntoSettings,
   isInGitignore,
   addToGitignore,
   installHooks,
@@ -29,6 +33,17 @@ import {
   checkAliasStatus,
   // Combined installation (v0.2.4)
   installAll,
+  // Git hook installation
+  getGitHooksDir,
+  generatePreCommitHook,
+  isGitHookInstalled,
+  installGitHooks,
+  uninstallGitHooks,
+  checkGitHooksStatus,
+  generateMergeHook,
+  installMergeHooks,
+  uninstallMergeHooks,
+  checkMergeHooksStatus,
   checkAllStatus,
   type ClaudeSettings,
   type ShellType
@@ -480,6 +495,63 @@ describe('hooks-installer', () => {
     });
   });
 
+  describe('auto-claim hook', () => {
+    it('should create a PreToolUse hook for file-editing tools', () => {
+      const hook = createAutoClaimHook();
+
+      expect(hook.matcher).toBe('Edit|MultiEdit|Write|NotebookEdit');
+      expect(hook.hooks[0].command).toBe('parallel-cc claims auto --mode INTENT');
+      expect(createAutoClaimHook({ mode: 'SHARED', warnOnly: true }).hooks[0].command)
+        .toBe('parallel-cc claims auto --mode SHARED --warn');
+    });
+
+    it('should replace an older auto-claim hook and keep other PreToolUse hooks', () => {
+      const settings: ClaudeSettings = {
+        hooks: {
+          PreToolUse: [
+            { matcher: 'Bash', hooks: [{ type: 'command', command: 'echo other' }] },
+            createAutoClaimHook()
+          ]
+        }
+      };
+
+      const merged = mergeAutoClaimHookIntoSettings(settings, createAutoClaimHook({ mode: 'SHARED' }));
+
+      expect(merged.hooks?.PreToolUse).toHaveLength(2);
+      expect(merged.hooks?.PreToolUse?.[1].hooks[0].command).toContain('--mode SHARED');
+      expect(isAutoClaimHookInstalled(merged, createAutoClaimHook())).toBe(false);
+      expect(isAutoClaimHookInstalled(merged)).toBe(true);
+    });
+
+    it('should install next to the heartbeat hook', () => {
+      const result = installHooks({ local: true, repoPath: LOCAL_REPO_PATH, autoClaim: true });
+
+      expect(result.success).toBe(true);
+      const settings = readSettings(LOCAL_SETTINGS_PATH);
+      expect(isHookInstalled(settings)).toBe(true);
+      expect(isAutoClaimHookInstalled(settings)).toBe(true);
+      expect(checkHooksStatus({ repoPath: LOCAL_REPO_PATH }).localAutoClaim).toBe(true);
+    });
+
+    it('should add the auto-claim hook when only the heartbeat hook is installed', () => {
+      installHooks({ local: true, repoPath: LOCAL_REPO_PATH });
+
+      const result = installHooks({ local: true, repoPath: LOCAL_REPO_PATH, autoClaim: true });
+
+      expect(result.alreadyInstalled).toBe(false);
+      expect(isAutoClaimHookInstalled(readSettings(LOCAL_SETTINGS_PATH))).toBe(true);
+      expect(installHooks({ local: true, repoPath: LOCAL_REPO_PATH, autoClaim: true }).alreadyInstalled).toBe(true);
+    });
+
+    it('should be removed by uninstallHooks', () => {
+      installHooks({ local: true, repoPath: LOCAL_REPO_PATH, autoClaim: true });
+
+      uninstallHooks({ local: true, repoPath: LOCAL_REPO_PATH });
+
+      expect(readSettings(LOCAL_SETTINGS_PATH)?.hooks).toBeUndefined();
+    });
+  });
+
   describe('checkHooksStatus', () => {
     it('should report local not installed by default', () => {
       const status = checkHooksStatus({ repoPath: LOCAL_REPO_PATH });
@@ -836,4 +908,160 @@ describe('hooks-installer', () => {
       expect(status.alias).toBeDefined();
     });
   });
+
+  describe('git hooks', () => {
+    const gitRepo = path.join(TEST_DIR, 'git-repo');
+    const hookPath = path.join(gitRepo, '.git', 'hooks', 'pre-commit');
+
+    beforeEach(() => {
+      // Ignore hooksPath overrides passed through the environment
+      vi.stubEnv('GIT_CONFIG_COUNT', '0');
+      fs.mkdirSync(gitRepo, { recursive: true });
+      execSync('git init -q', { cwd: gitRepo });
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should resolve the shared hooks directory', () => {
+      expect(fs.realpathSync(getGitHooksDir(gitRepo))).toBe(fs.realpathSync(path.join(gitRepo, '.git', 'hooks')));
+
+      execSync('git config core.hooksPath .githooks', { cwd: gitRepo });
+      expect(getGitHooksDir(gitRepo)).toBe(path.join(gitRepo, '.githooks'));
+    });
+
+    it('should generate a hook that runs claims verify', () => {
+      expect(generatePreCommitHook()).toContain('exec parallel-cc claims verify --staged\n');
+      expect(generatePreCommitHook(true)).toContain('claims verify --staged --warn');
+      expect(generatePreCommitHook()).toContain('PARALLEL_CC_SKIP_CLAIMS=1');
+    });
+
+    it('should install an executable pre-commit hook', () => {
+      const result = installGitHooks({ repoPath: gitRepo });
+
+      expect(result.success).toBe(true);
+      expect(result.alreadyInstalled).toBe(false);
+      expect(fs.realpathSync(result.hookPath)).toBe(fs.realpathSync(hookPath));
+      expect(fs.statSync(hookPath).mode & 0o111).not.toBe(0);
+      expect(isGitHookInstalled(hookPath)).toBe(true);
+    });
+
+    it('should detect existing installation and update the mode', () => {
+      installGitHooks({ repoPath: gitRepo });
+      expect(installGitHooks({ repoPath: gitRepo }).alreadyInstalled).toBe(true);
+
+      const result = installGitHooks({ repoPath: gitRepo, warnOnly: true });
+      expect(result.alreadyInstalled).toBe(false);
+      expect(checkGitHooksStatus(gitRepo)).toMatchObject({ installed: true, warnOnly: true });
+    });
+
+    it('should not overwrite a foreign pre-commit hook', () => {
+      fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+      fs.writeFileSync(hookPath, '#!/bin/sh\nnpm run lint\n');
+
+      const result = installGitHooks({ repoPath: gitRepo });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('already exists');
+      expect(fs.readFileSync(hookPath, 'utf-8')).toBe('#!/bin/sh\nnpm run lint\n');
+
+      uninstallGitHooks({ repoPath: gitRepo });
+      expect(fs.existsSync(hookPath)).toBe(true);
+    });
+
+    it('should uninstall its own hook', () => {
+      installGitHooks({ repoPath: gitRepo });
+
+      const result = uninstallGitHooks({ repoPath: gitRepo });
+
+      expect(result.success).toBe(true);
+      expect(fs.existsSync(hookPath)).toBe(false);
+      expect(checkGitHooksStatus(gitRepo).installed).toBe(false);
+    });
+
+    it('should report not installed outside a git repository', () => {
+      const status = checkGitHooksStatus(LOCAL_REPO_PATH);
+
+      expect(status.installed).toBe(false);
+    });
+  });
+
+  describe('merge detection hooks', () => {
+    const gitRepo = path.join(TEST_DIR, 'merge-repo');
+    const hooksDir = path.join(gitRepo, '.git', 'hooks');
+
+    beforeEach(() => {
+      // Ignore hooksPath overrides passed through the environment
+      vi.stubEnv('GIT_CONFIG_COUNT', '0');
+      fs.mkdirSync(gitRepo, { recursive: true });
+      execSync('git init -q', { cwd: gitRepo });
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should generate hooks that run merge check in the background', () => {
+      const refTransaction = generateMergeHook('reference-transaction');
+      expect(refTransaction).toContain('[ "$1" = "committed" ] || exit 0');
+      expect(refTransaction).toContain('parallel-cc merge check --repo "$PWD" $refs');
+      expect(refTransaction).toContain('&)');
+
+      expect(generateMergeHook('post-merge')).toContain('git symbolic-ref -q HEAD');
+    });
+
+    it('should install both hooks and report status', () => {
+      const result = installMergeHooks({ repoPath: gitRepo });
+
+      expect(result.success).toBe(true);
+      expect(result.hookPaths.map(p => path.basename(p))).toEqual(['reference-transaction', 'post-merge']);
+      expect(fs.statSync(path.join(hooksDir, 'post-merge')).mode & 0o111).not.toBe(0);
+      expect(checkMergeHooksStatus(gitRepo)).toEqual({ installed: true, hooks: ['reference-transaction', 'post-merge'] });
+      expect(installMergeHooks({ repoPath: gitRepo }).alreadyInstalled).toBe(true);
+      expect(checkAllStatus(gitRepo).mergeHooks?.installed).toBe(true);
+    });
+
+    it('should leave foreign hooks alone', () => {
+      fs.mkdirSync(hooksDir, { recursive: true });
+      fs.writeFileSync(path.join(hooksDir, 'post-merge'), '#!/bin/sh\nnpm install\n');
+
+      const result = installMergeHooks({ repoPath: gitRepo });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('already exists');
+      expect(fs.existsSync(path.join(hooksDir, 'reference-transaction'))).toBe(false);
+
+      uninstallMergeHooks({ repoPath: gitRepo });
+      expect(fs.readFileSync(path.join(hooksDir, 'post-merge'), 'utf-8')).toBe('#!/bin/sh\nnpm install\n');
+    });
+
+    it('should uninstall its own hooks', () => {
+      installMergeHooks({ repoPath: gitRepo });
+
+      const result = uninstallMergeHooks({ repoPath: gitRepo });
+
+      expect(result.success).toBe(true);
+      expect(result.hookPaths).toHaveLength(2);
+      expect(checkMergeHooksStatus(gitRepo).installed).toBe(false);
+    });
+
+    it('should pass updated branch refs to merge check', async () => {
+      // Stand-in parallel-cc that records its arguments
+      const binDir = path.join(TEST_DIR, 'bin');
+      const argsFile = path.join(TEST_DIR, 'merge-check-args');
+      fs.mkdirSync(binDir, { recursive: true });
+      fs.writeFileSync(path.join(binDir, 'parallel-cc'), `#!/bin/sh\necho "$@" >> "${argsFile}"\n`, { mode: 0o755 });
+      installMergeHooks({ repoPath: gitRepo });
+
+      execSync('git -c user.name=Test -c user.email=test@test.com commit -q --allow-empty -m initial', {
+        cwd: gitRepo,
+        env: { ...process.env, PATH: `${binDir}${path.delimiter}${process.env.PATH}` }
+      });
+
+      await vi.waitFor(() => expect(fs.existsSync(argsFile)).toBe(true), { timeout: 5000, interval: 50 });
+      const branch = execSync('git symbolic-ref HEAD', { cwd: gitRepo, encoding: 'utf-8' }).trim();
+      expect(fs.readFileSync(argsFile, 'utf-8')).toContain(`merge check --repo ${fs.realpathSync(gitRepo)} ${branch}`);
+    });
+  });
 });
@@ -13,6 +13,7 @@ import {
   getParallelStatus,
   getMySession,
   claimFile,
+  waitForClaim,
   releaseFile,
   listFileClaims,
   detectAdvancedConflicts,
@@ -136,6 +137,28 @@ describe('MCP Tools Smoke Tests', () => {
     });
   });
 
+  describe('waitForClaim', () => {
+    it('should reject unknown request IDs', async () => {
+      const result = await waitForClaim({
+        requestId: '00000000-0000-4000-8000-000000000000',
+        timeoutSeconds: 0,
+        cancelOnTimeout: false
+      });
+      expect(result.success).toBe(false);
+      expect(result.status).toBeNull();
+    });
+
+    it('should handle missing session ID', async () => {
+      delete process.env.PARALLEL_CC_SESSION_ID;
+      const result = await waitForClaim({
+        requestId: '00000000-0000-4000-8000-000000000000',
+        timeoutSeconds: 0,
+        cancelOnTimeout: false
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('releaseFile', () => {
     it('should release claim by ID', async () => {
       // First acquire a claim
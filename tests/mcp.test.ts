@@ -11,7 +11,10 @@ import {
   checkMergeStatus,
   getMergeEvents,
   checkConflicts,
-  rebaseAssist
+  rebaseAssist,
+  listParallelBatches,
+  getParallelBatch,
+  cancelParallelBatch
 } from '../src/mcp/tools.js';
 import {
   GetParallelStatusInputSchema,
@@ -47,6 +50,7 @@ vi.mock('../src/coordinator.js', () => {
 function createMockSession(overrides: Partial<SessionInfo> = {}): SessionInfo {
   return {
     sessionId: overrides.sessionId ?? 'test-session-id',
+    name: overrides.name ?? null,
     pid: overrides.pid ?? 12345,
     worktreePath: overrides.worktreePath ?? '/home/user/repo',
     worktreeName: overrides.worktreeName ?? null,
@@ -131,6 +135,7 @@ describe('MCP Tools', () => {
     it('should properly map session info fields', async () => {
       const mockSession = createMockSession({
         sessionId: 'sess-123',
+        name: 'auth refactor',
         pid: 99999,
         worktreePath: '/home/user/repo-worktrees/feature',
         worktreeName: 'feature-branch',
@@ -144,6 +149,7 @@ describe('MCP Tools', () => {
 
       expect(result.sessions).toHaveLength(1);
       expect(result.sessions[0]).toEqual({
+        name: 'auth refactor',
         pid: 99999,
         worktreePath: '/home/user/repo-worktrees/feature',
         worktreeName: 'feature-branch',
@@ -411,7 +417,29 @@ describe('MCP Tools', () => {
       expect(mockCoordinatorInstance.subscribeToMerge).toHaveBeenCalledWith(
         'test-session-123',
         'feature-branch',
-        'develop'
+        'develop',
+        false
+      );
+    });
+
+    it('should pass autoRebase through to the subscription', async () => {
+      process.env.PARALLEL_CC_SESSION_ID = 'test-session-123';
+      const mockSession = createMockSession({ sessionId: 'test-session-123' });
+      mockCoordinatorInstance.status.mockReturnValue(createMockStatusResult([mockSession]));
+      mockCoordinatorInstance.subscribeToMerge = vi.fn().mockReturnValue({
+        subscriptionId: 'sub-123',
+        success: true,
+        message: 'Subscribed'
+      });
+
+      const result = await notifyWhenMerged({ branch: 'feature-branch', targetBranch: 'main', autoRebase: true });
+
+      expect(result.message).toContain('rebased onto');
+      expect(mockCoordinatorInstance.subscribeToMerge).toHaveBeenCalledWith(
+        'test-session-123',
+        'feature-branch',
+        'main',
+        true
       );
     });
 
@@ -874,6 +902,70 @@ describe('MCP Tools', () => {
     });
   });
 
+  // ==========================================================================
+  // Parallel batch tests (v2.1)
+  // ==========================================================================
+
+  describe('parallel batches', () => {
+    const batch = {
+      id: 'batch-1',
+      repoPath: '/home/user/repo',
+      outputDir: '/home/user/repo/parallel-results',
+      config: { tasks: [], repoPath: '/home/user/repo', outputDir: '/home/user/repo/parallel-results', provider: 'process' },
+      status: 'running',
+      pid: 4242,
+      createdAt: '2025-01-01 10:00:00',
+      updatedAt: '2025-01-01 10:05:00'
+    };
+    const tasks = [
+      {
+        batchId: 'batch-1', taskId: 'api', position: 0, prompt: 'Add API', dependsOn: [], status: 'completed',
+        outputPath: '/out/api', filesChanged: 3, costEstimate: 0.2,
+        startedAt: '2025-01-01T10:00:00.000Z', endedAt: '2025-01-01T10:02:00.000Z'
+      },
+      {
+        batchId: 'batch-1', taskId: 'docs', position: 1, prompt: 'Update docs', dependsOn: ['api'], status: 'failed',
+        outputPath: '/out/docs', filesChanged: 0, costEstimate: 0.1, error: 'Claude failed'
+      }
+    ];
+    let mockDb: Record<string, ReturnType<typeof vi.fn>>;
+
+    beforeEach(() => {
+      mockDb = {
+        listParallelBatches: vi.fn().mockReturnValue([batch]),
+        getParallelBatch: vi.fn((id: string) => (id === 'batch-1' ? batch : null)),
+        getParallelBatchTasks: vi.fn().mockReturnValue(tasks)
+      };
+      (mockCoordinatorInstance as any).getDB = vi.fn(() => mockDb);
+    });
+
+    it('should list batches with task counts', async () => {
+      const result = await listParallelBatches({ status: 'running' });
+
+      expect(mockDb.listParallelBatches).toHaveBeenCalledWith({ repoPath: undefined, status: 'running', limit: 20 });
+      expect(result.total).toBe(1);
+      expect(result.batches[0]).toMatchObject({ batchId: 'batch-1', totalTasks: 2, finishedTasks: 2, failedTasks: 1 });
+    });
+
+    it('should return per-task status, duration and cost', async () => {
+      const result = await getParallelBatch({ batchId: 'batch-1' });
+
+      expect(result.found).toBe(true);
+      expect(result.tasks[0]).toMatchObject({ taskId: 'api', status: 'completed', durationMs: 120000, filesChanged: 3 });
+      expect(result.tasks[1]).toMatchObject({ taskId: 'docs', error: 'Claude failed' });
+      expect(result.tasks[1].durationMs).toBeUndefined();
+      expect(result.totalCost).toBeCloseTo(0.3);
+    });
+
+    it('should report unknown batches', async () => {
+      expect(await getParallelBatch({ batchId: 'missing' })).toEqual({ found: false, tasks: [], totalCost: 0 });
+
+      const cancelled = await cancelParallelBatch({ batchId: 'missing' });
+      expect(cancelled.success).toBe(false);
+      expect(cancelled.error).toBe('Batch not found: missing');
+    });
+  });
+
   // ==========================================================================
   // Edge cases
   // ==========================================================================
@@ -9,7 +9,13 @@ import { execSync, spawnSync } from 'child_process';
 import { tmpdir } from 'os';
 import { randomUUID } from 'crypto';
 import { SessionDB } from '../src/db.js';
-import { MergeDetector, type MergeDetectorConfig } from '../src/merge-detector.js';
+import {
+  MergeDetector,
+  refToBranchName,
+  isAutoRebaseEnabled,
+  setAutoRebaseEnabled,
+  type MergeDetectorConfig
+} from '../src/merge-detector.js';
 
 // Helper to create a temp directory
 function createTempDir(): string {
@@ -487,4 +493,419 @@ describe('MergeDetector', () => {
       expect(detector.getConfig().pollIntervalSeconds).toBe(45);
     });
   });
+
+  describe('detectMerge', () => {
+    let repoDir: string;
+    let defaultBranch: string;
+
+    const git = (dir: string, command: string) =>
+      execSync(`git ${command}`, { cwd: dir, encoding: 'utf-8', stdio: 'pipe' }).trim();
+
+    // Feature branch with two commits, leaving the default branch checked out
+    const createFeatureBranch = (dir: string) => {
+      git(dir, 'checkout -q -b feature');
+      createCommit(dir, 'feature.txt', 'one\n', 'Feature part 1');
+      createCommit(dir, 'feature.txt', 'one\ntwo\n', 'Feature part 2');
+      git(dir, `checkout -q ${defaultBranch}`);
+    };
+
+    beforeEach(() => {
+      repoDir = createTempDir();
+      initGitRepo(repoDir);
+      createCommit(repoDir, 'readme.txt', 'initial', 'Initial commit');
+      defaultBranch = getDefaultBranch(repoDir);
+      createFeatureBranch(repoDir);
+      createCommit(repoDir, 'other.txt', 'other', 'Unrelated work on the target');
+    });
+
+    afterEach(() => {
+      rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it('should report a merge commit as merge', () => {
+      detector = new MergeDetector(db);
+      git(repoDir, 'merge -q --no-edit feature');
+
+      expect(detector.detectMerge(repoDir, 'feature', defaultBranch)).toEqual({ targetRef: defaultBranch, style: 'merge' });
+    });
+
+    it('should detect a squash merge by patch-id', () => {
+      detector = new MergeDetector(db);
+      git(repoDir, 'merge -q --squash feature');
+      git(repoDir, 'commit -q -m "Feature (squashed)"');
+      createCommit(repoDir, 'later.txt', 'later', 'Later work');
+
+      expect(detector.detectMerge(repoDir, 'feature', defaultBranch)?.style).toBe('squash');
+      expect(detector.checkIfBranchMerged(repoDir, 'feature', defaultBranch)).toBe(true);
+    });
+
+    it('should detect an edited squash merge by tree comparison', () => {
+      detector = new MergeDetector(db);
+      git(repoDir, 'merge -q --squash feature');
+      writeFileSync(join(repoDir, 'changelog.txt'), 'feature added');
+      git(repoDir, 'add changelog.txt');
+      git(repoDir, 'commit -q -m "Feature (squashed, with changelog)"');
+
+      expect(detector.detectMerge(repoDir, 'feature', defaultBranch)?.style).toBe('squash');
+    });
+
+    it('should detect a rebase merge', () => {
+      detector = new MergeDetector(db);
+      git(repoDir, `cherry-pick ${defaultBranch}~1..feature`);
+
+      expect(detector.detectMerge(repoDir, 'feature', defaultBranch)?.style).toBe('rebase');
+    });
+
+    it('should not report a branch whose changes are only partly in the target', () => {
+      detector = new MergeDetector(db);
+      git(repoDir, 'cherry-pick feature~1');
+
+      expect(detector.detectMerge(repoDir, 'feature', defaultBranch)).toBeNull();
+    });
+
+    describe('with a remote', () => {
+      let remoteDir: string;
+      let otherDir: string;
+
+      beforeEach(() => {
+        remoteDir = createTempDir();
+        otherDir = createTempDir();
+        git(remoteDir, 'init -q --bare');
+        git(repoDir, `remote add origin "${remoteDir}"`);
+        git(repoDir, `push -q origin ${defaultBranch} feature`);
+
+        // Another clone merges the pull request and pushes
+        git(otherDir, `clone -q "${remoteDir}" .`);
+        git(otherDir, 'config user.email "test@test.com"');
+        git(otherDir, 'config user.name "Test User"');
+        git(otherDir, 'merge -q --squash origin/feature');
+        git(otherDir, 'commit -q -m "Feature (#1)"');
+        git(otherDir, `push -q origin ${defaultBranch}`);
+      });
+
+      afterEach(() => {
+        rmSync(remoteDir, { recursive: true, force: true });
+        rmSync(otherDir, { recursive: true, force: true });
+      });
+
+      it('should fetch the target branch and detect a merge made on the remote', async () => {
+        detector = new MergeDetector(db, { fetchRemote: true });
+        db.createSession({
+          id: 'session-1',
+          pid: process.pid,
+          repo_path: repoDir,
+          worktree_path: repoDir,
+          worktree_name: null,
+          is_main_repo: true
+        });
+        db.createSubscription({
+          id: randomUUID(),
+          session_id: 'session-1',
+          repo_path: repoDir,
+          branch_name: 'feature',
+          target_branch: defaultBranch,
+          is_active: true
+        });
+
+        const result = await detector.pollForMerges();
+
+        expect(result.newMerges).toHaveLength(1);
+        expect(result.newMerges[0].merge_style).toBe('squash');
+        expect(result.newMerges[0].target_commit).toBe(git(otherDir, 'rev-parse HEAD'));
+        expect(db.getMergeEvent(repoDir, 'feature', defaultBranch)?.merge_style).toBe('squash');
+      });
+
+      it('should only use local refs when fetching is disabled', () => {
+        detector = new MergeDetector(db, { fetchRemote: false });
+
+        expect(detector.detectMerge(repoDir, 'feature', defaultBranch)).toBeNull();
+      });
+
+      it('should not fetch by default', () => {
+        detector = new MergeDetector(db);
+
+        expect(detector.detectMerge(repoDir, 'feature', defaultBranch)).toBeNull();
+        expect(git(repoDir, `rev-parse origin/${defaultBranch}`)).not.toBe(git(otherDir, 'rev-parse HEAD'));
+      });
+
+      it('should update the remote-tracking ref after a force push of the target branch', () => {
+        git(repoDir, `fetch -q origin`);
+        git(otherDir, 'reset -q --hard HEAD~1');
+        git(otherDir, 'merge -q --no-ff -m "Merge feature" origin/feature');
+        git(otherDir, `push -q --force origin ${defaultBranch}`);
+        detector = new MergeDetector(db, { fetchRemote: true });
+
+        expect(detector.detectMerge(repoDir, 'feature', defaultBranch)).toEqual({
+          targetRef: `origin/${defaultBranch}`,
+          style: 'merge'
+        });
+        expect(git(repoDir, `rev-parse origin/${defaultBranch}`)).toBe(git(otherDir, 'rev-parse HEAD'));
+      });
+    });
+  });
+
+  describe('auto-rebase after merge', () => {
+    let repoDir: string;
+    let worktreeDir: string;
+    let defaultBranch: string;
+
+    const git = (dir: string, command: string) =>
+      execSync(`git ${command}`, { cwd: dir, encoding: 'utf-8', stdio: 'pipe' }).trim();
+
+    const subscribe = (sessionId: string, autoRebase: boolean) => db.createSubscription({
+      id: randomUUID(),
+      session_id: sessionId,
+      repo_path: repoDir,
+      branch_name: 'feature',
+      target_branch: defaultBranch,
+      is_active: true,
+      auto_rebase: autoRebase
+    });
+
+    beforeEach(async () => {
+      await db.runMigration('0.5.0');
+      repoDir = createTempDir();
+      worktreeDir = `${repoDir}-work`;
+      initGitRepo(repoDir);
+      createCommit(repoDir, 'app.txt', 'line 1\n', 'Initial commit');
+      defaultBranch = getDefaultBranch(repoDir);
+
+      // Another session works on its own branch in a worktree
+      git(repoDir, `worktree add -q -b work "${worktreeDir}"`);
+      createCommit(worktreeDir, 'work.txt', 'work\n', 'Work in progress');
+
+      // feature is merged into the default branch
+      git(repoDir, 'checkout -q -b feature');
+      createCommit(repoDir, 'app.txt', 'line 1\nfeature\n', 'Feature');
+      git(repoDir, `checkout -q ${defaultBranch}`);
+      git(repoDir, 'merge -q feature');
+
+      for (const [id, worktreePath] of [['session-main', repoDir], ['session-work', worktreeDir]]) {
+        db.createSession({
+          id,
+          pid: process.pid,
+          repo_path: repoDir,
+          worktree_path: worktreePath,
+          worktree_name: id === 'session-work' ? 'work' : null,
+          is_main_repo: id === 'session-main'
+        });
+      }
+    });
+
+    afterEach(() => {
+      rmSync(worktreeDir, { recursive: true, force: true });
+      rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it('should rebase a clean worktree that subscribed with auto-rebase', async () => {
+      detector = new MergeDetector(db);
+      subscribe('session-work', true);
+
+      const result = await detector.pollForMerges();
+
+      expect(result.autoRebases).toEqual([
+        { sessionId: 'session-work', worktreePath: worktreeDir, branch: 'work', status: 'rebased' }
+      ]);
+      expect(() => git(worktreeDir, `merge-base --is-ancestor ${defaultBranch} HEAD`)).not.toThrow();
+
+      const [logged] = db.getConflictResolutions({ session_id: 'session-work' });
+      expect(logged).toMatchObject({ file_path: '.', resolution_strategy: 'AUTO_FIX', action: 'AUTO_REBASE' });
+      expect(logged.resolved_at).toBeDefined();
+      expect(logged.metadata).toMatchObject({ outcome: 'rebased', mergedBranch: 'feature' });
+    });
+
+    it('should leave worktrees with uncommitted changes alone', async () => {
+      detector = new MergeDetector(db);
+      subscribe('session-work', true);
+      writeFileSync(join(worktreeDir, 'work.txt'), 'uncommitted\n');
+      const head = git(worktreeDir, 'rev-parse HEAD');
+
+      const result = await detector.pollForMerges();
+
+      expect(result.autoRebases?.[0].status).toBe('skipped_dirty');
+      expect(git(worktreeDir, 'rev-parse HEAD')).toBe(head);
+      expect(db.getConflictResolutions({ session_id: 'session-work' })).toMatchObject([
+        { file_path: '.', resolution_strategy: 'ABANDONED', action: 'AUTO_REBASE', metadata: { outcome: 'skipped_dirty' } }
+      ]);
+    });
+
+    it('should skip and log worktrees that would conflict', async () => {
+      detector = new MergeDetector(db);
+      subscribe('session-work', true);
+      createCommit(worktreeDir, 'app.txt', 'line 1\nwork\n', 'Conflicting change');
+      const head = git(worktreeDir, 'rev-parse HEAD');
+
+      const result = await detector.pollForMerges();
+
+      expect(result.autoRebases?.[0]).toMatchObject({ status: 'skipped_conflicts', conflictingFiles: ['app.txt'] });
+      expect(git(worktreeDir, 'rev-parse HEAD')).toBe(head);
+      expect(db.getConflictResolutions({ session_id: 'session-work' })).toMatchObject([
+        { file_path: 'app.txt', resolution_strategy: 'MANUAL', action: 'AUTO_REBASE' }
+      ]);
+    });
+
+    it('should rebase every session when enabled for the repo', async () => {
+      detector = new MergeDetector(db);
+      subscribe('session-main', false);
+      setAutoRebaseEnabled(repoDir, true);
+      expect(isAutoRebaseEnabled(worktreeDir)).toBe(true);
+
+      const result = await detector.pollForMerges();
+
+      // The main repo is on the target branch itself and is left out
+      expect(result.autoRebases?.map(r => [r.sessionId, r.status])).toEqual([['session-work', 'rebased']]);
+    });
+
+    it('should not rebase without opting in', async () => {
+      detector = new MergeDetector(db);
+      subscribe('session-work', false);
+      const head = git(worktreeDir, 'rev-parse HEAD');
+
+      const result = await detector.pollForMerges();
+
+      expect(result.newMerges).toHaveLength(1);
+      expect(result.autoRebases).toBeUndefined();
+      expect(git(worktreeDir, 'rev-parse HEAD')).toBe(head);
+    });
+  });
+
+  describe('checkChangedRefs', () => {
+    let repoDir: string;
+    let defaultBranch: string;
+
+    // Merge a feature branch and subscribe to it
+    const mergeAndSubscribe = (branch: string) => {
+      execSync(`git checkout -q -b ${branch}`, { cwd: repoDir, stdio: 'pipe' });
+      createCommit(repoDir, `${branch}.txt`, branch, `Add ${branch}`);
+      execSync(`git checkout -q ${defaultBranch}`, { cwd: repoDir, stdio: 'pipe' });
+      execSync(`git merge -q ${branch}`, { cwd: repoDir, stdio: 'pipe' });
+      db.createSubscription({
+        id: randomUUID(),
+        session_id: 'session-1',
+        repo_path: repoDir,
+        branch_name: branch,
+        target_branch: defaultBranch,
+        is_active: true
+      });
+    };
+
+    beforeEach(() => {
+      repoDir = createTempDir();
+      initGitRepo(repoDir);
+      createCommit(repoDir, 'readme.txt', 'initial', 'Initial commit');
+      defaultBranch = getDefaultBranch(repoDir);
+      db.createSession({
+        id: 'session-1',
+        pid: process.pid,
+        repo_path: repoDir,
+        worktree_path: repoDir,
+        worktree_name: null,
+        is_main_repo: true
+      });
+    });
+
+    afterEach(() => {
+      rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it('should only check subscriptions whose branch or target changed', async () => {
+      detector = new MergeDetector(db);
+      mergeAndSubscribe('feature-a');
+      mergeAndSubscribe('feature-b');
+
+      const result = await detector.checkChangedRefs(repoDir, ['refs/heads/feature-a']);
+
+      expect(result.subscriptionsChecked).toBe(1);
+      expect(result.newMerges.map(m => m.branch_name)).toEqual(['feature-a']);
+      expect(db.getMergeEvent(repoDir, 'feature-b', defaultBranch)).toBeNull();
+    });
+
+    it('should check every subscription of the repo for a target update or no refs', async () => {
+      detector = new MergeDetector(db);
+      mergeAndSubscribe('feature-a');
+      mergeAndSubscribe('feature-b');
+
+      const result = await detector.checkChangedRefs(repoDir, [`refs/heads/${defaultBranch}`]);
+      expect(result.newMerges).toHaveLength(2);
+
+      mergeAndSubscribe('feature-c');
+      const all = await detector.checkChangedRefs(repoDir);
+      expect(all.newMerges.map(m => m.branch_name)).toEqual(['feature-c']);
+    });
+
+    it('should match subscriptions from a worktree of the repo', async () => {
+      detector = new MergeDetector(db);
+      mergeAndSubscribe('feature-a');
+      const worktreeDir = `${repoDir}-wt`;
+      execSync(`git worktree add -q -b other "${worktreeDir}"`, { cwd: repoDir, stdio: 'pipe' });
+
+      try {
+        const result = await detector.checkChangedRefs(worktreeDir, ['feature-a']);
+        expect(result.newMerges).toHaveLength(1);
+      } finally {
+        rmSync(worktreeDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should ignore refs that are not branches', async () => {
+      detector = new MergeDetector(db);
+      mergeAndSubscribe('feature-a');
+
+      const result = await detector.checkChangedRefs(repoDir, ['refs/tags/v1.0', 'ORIG_HEAD']);
+
+      expect(result.subscriptionsChecked).toBe(0);
+      expect(result.newMerges).toHaveLength(0);
+    });
+
+    it('should report a path outside any git repository', async () => {
+      detector = new MergeDetector(db);
+      const plainDir = createTempDir();
+
+      try {
+        const result = await detector.checkChangedRefs(plainDir, ['refs/heads/main']);
+        expect(result.errors[0]).toContain('Not a git repository');
+      } finally {
+        rmSync(plainDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should detect a merge from a ref watch before the next poll', async () => {
+      detector = new MergeDetector(db, { pollIntervalSeconds: 1000, watchRefs: true, refDebounceMs: 50 });
+      execSync('git checkout -q -b feature', { cwd: repoDir, stdio: 'pipe' });
+      createCommit(repoDir, 'feature.txt', 'feature', 'Feature commit');
+      execSync(`git checkout -q ${defaultBranch}`, { cwd: repoDir, stdio: 'pipe' });
+      db.createSubscription({
+        id: randomUUID(),
+        session_id: 'session-1',
+        repo_path: repoDir,
+        branch_name: 'feature',
+        target_branch: defaultBranch,
+        is_active: true
+      });
+
+      detector.startPolling();
+      expect(detector.getWatchedGitDirs()).toHaveLength(1);
+
+      execSync('git merge -q feature', { cwd: repoDir, stdio: 'pipe' });
+
+      await vi.waitFor(
+        () => expect(db.getMergeEvent(repoDir, 'feature', defaultBranch)).not.toBeNull(),
+        { timeout: 5000, interval: 50 }
+      );
+
+      detector.stopPolling();
+      expect(detector.getWatchedGitDirs()).toEqual([]);
+    });
+  });
+});
+
+describe('refToBranchName', () => {
+  it('should map branch refs to the names subscriptions use', () => {
+    expect(refToBranchName('refs/heads/feature/login')).toBe('feature/login');
+    expect(refToBranchName('refs/remotes/origin/main')).toBe('origin/main');
+    expect(refToBranchName('main')).toBe('main');
+    expect(refToBranchName('refs/tags/v1.0')).toBeNull();
+    expect(refToBranchName('HEAD')).toBeNull();
+    expect(refToBranchName('FETCH_HEAD')).toBeNull();
+  });
 });
@@ -797,4 +797,59 @@ describe('Database Migration Runner', () => {
       }
     });
   });
+
+  describe('session cost backfill', () => {
+    it('should copy existing session costs into session_costs when the table is created', async () => {
+      await db.migrateToV05();
+
+      const originalCwd = process.cwd();
+      const projectRoot = path.resolve(__dirname, '..');
+      process.chdir(projectRoot);
+
+      try {
+        await db.runMigration('1.0.0');
+        await db.runMigration('1.1.0');
+      } finally {
+        process.chdir(originalCwd);
+      }
+
+      const sessionId = randomUUID();
+      db.createSession({
+        id: sessionId,
+        pid: 12345,
+        repo_path: '/path/to/repo',
+        worktree_path: '/path/to/repo',
+        worktree_name: null,
+        is_main_repo: true
+      });
+      db.updateSessionCost(sessionId, 1, 0.75);
+      db.updateSessionAttribution(sessionId, { templateName: 'node-20', gitUser: 'Alice' });
+      db.createSession({
+        id: randomUUID(),
+        pid: 12346,
+        repo_path: '/path/to/repo',
+        worktree_path: '/path/to/repo-worktree',
+        worktree_name: 'worktree',
+        is_main_repo: false
+      });
+
+      // Simulate a database from before session_costs existed
+      db['db'].exec('DROP TABLE session_costs');
+      db.close();
+      db = new SessionDB(testDbPath);
+      db.close();
+      db = new SessionDB(testDbPath);
+
+      const rows = db['db'].prepare('SELECT * FROM session_costs').all() as Array<Record<string, unknown>>;
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        session_id: sessionId,
+        compute_cost: 0.75,
+        model_cost: 0,
+        repo_path: '/path/to/repo',
+        template_name: 'node-20',
+        git_user: 'Alice'
+      });
+    });
+  });
 });
@@ -0,0 +1,150 @@
+/**
+ * Tests for OverlapWatcher (live overlap detection between worktrees)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { execSync } from 'child_process';
+import { tmpdir } from 'os';
+import { randomUUID } from 'crypto';
+import { SessionDB } from '../src/db.js';
+import { OverlapWatcher } from '../src/overlap-watcher.js';
+
+function git(dir: string, command: string): string {
+  return execSync(`git ${command}`, { cwd: dir, encoding: 'utf-8', stdio: 'pipe' });
+}
+
+describe('OverlapWatcher', () => {
+  let root: string;
+  let repoPath: string;
+  let db: SessionDB;
+  let dbPath: string;
+  let watcher: OverlapWatcher;
+
+  // Register a session working in a new worktree of the repo
+  const addWorktreeSession = (name: string, pid: number): string => {
+    const worktreePath = join(root, name);
+    git(repoPath, `worktree add -q -b ${name} "${worktreePath}"`);
+    db.createSession({
+      id: name,
+      pid,
+      repo_path: repoPath,
+      worktree_path: worktreePath,
+      worktree_name: name,
+      is_main_repo: false
+    });
+    return worktreePath;
+  };
+
+  beforeEach(() => {
+    root = join(tmpdir(), `overlap-watcher-test-${randomUUID()}`);
+    repoPath = join(root, 'repo');
+    mkdirSync(join(repoPath, 'src'), { recursive: true });
+    git(repoPath, 'init -q');
+    git(repoPath, 'config user.email "test@test.com"');
+    git(repoPath, 'config user.name "Test User"');
+    writeFileSync(join(repoPath, 'src', 'app.ts'), 'export const app = 1;\n');
+    writeFileSync(join(repoPath, 'src', 'util.ts'), 'export const util = 1;\n');
+    git(repoPath, 'add .');
+    git(repoPath, 'commit -q -m initial');
+
+    dbPath = join(tmpdir(), `test-overlap-watcher-${randomUUID()}.db`);
+    db = new SessionDB(dbPath);
+    db.createSession({
+      id: 'main',
+      pid: 1001,
+      repo_path: repoPath,
+      worktree_path: repoPath,
+      worktree_name: null,
+      is_main_repo: true
+    });
+    watcher = new OverlapWatcher(db);
+  });
+
+  afterEach(() => {
+    watcher.stopPolling();
+    db.close();
+    rmSync(dbPath, { force: true });
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should report no overlaps for a single session', () => {
+    writeFileSync(join(repoPath, 'src', 'app.ts'), 'export const app = 2;\n');
+
+    expect(watcher.detectOverlaps(repoPath)).toEqual([]);
+  });
+
+  it('should detect a file with uncommitted changes in two worktrees', () => {
+    const worktree = addWorktreeSession('feature-a', 1002);
+    writeFileSync(join(repoPath, 'src', 'app.ts'), 'export const app = 2;\n');
+    writeFileSync(join(worktree, 'src', 'app.ts'), 'export const app = 3;\n');
+    writeFileSync(join(worktree, 'src', 'util.ts'), 'export const util = 3;\n');
+
+    const overlaps = watcher.detectOverlaps(repoPath);
+
+    expect(overlaps).toHaveLength(1);
+    expect(overlaps[0].filePath).toBe('src/app.ts');
+    expect(overlaps[0].sessions.map(s => s.sessionId).sort()).toEqual(['feature-a', 'main']);
+  });
+
+  it('should include committed changes and new untracked files', () => {
+    const worktreeA = addWorktreeSession('feature-a', 1002);
+    const worktreeB = addWorktreeSession('feature-b', 1003);
+
+    writeFileSync(join(worktreeA, 'src', 'util.ts'), 'export const util = 2;\n');
+    git(worktreeA, 'commit -q -am "change util"');
+    writeFileSync(join(worktreeB, 'src', 'util.ts'), 'export const util = 3;\n');
+
+    writeFileSync(join(worktreeA, 'src', 'new.ts'), 'a\n');
+    writeFileSync(join(worktreeB, 'src', 'new.ts'), 'b\n');
+
+    const overlaps = watcher.detectOverlaps(repoPath);
+
+    expect(overlaps.map(o => o.filePath)).toEqual(['src/new.ts', 'src/util.ts']);
+    expect(overlaps[1].sessions.map(s => s.sessionId).sort()).toEqual(['feature-a', 'feature-b']);
+  });
+
+  it('should not count changes another worktree already merged', () => {
+    const worktree = addWorktreeSession('feature-a', 1002);
+    writeFileSync(join(repoPath, 'src', 'app.ts'), 'export const app = 2;\n');
+    git(repoPath, 'commit -q -am "change app"');
+    git(worktree, `merge -q --ff-only ${git(repoPath, 'rev-parse HEAD').trim()}`);
+
+    expect(watcher.detectOverlaps(repoPath)).toEqual([]);
+  });
+
+  it('should notify only about overlaps that are new since the last poll', async () => {
+    const onNewOverlap = vi.fn();
+    watcher = new OverlapWatcher(db, { onNewOverlap });
+    const worktree = addWorktreeSession('feature-a', 1002);
+    writeFileSync(join(repoPath, 'src', 'app.ts'), 'export const app = 2;\n');
+    writeFileSync(join(worktree, 'src', 'app.ts'), 'export const app = 3;\n');
+
+    const first = await watcher.pollForOverlaps();
+    const second = await watcher.pollForOverlaps();
+
+    expect(first.reposChecked).toBe(1);
+    expect(first.newOverlaps).toHaveLength(1);
+    expect(second.overlaps).toHaveLength(1);
+    expect(second.newOverlaps).toHaveLength(0);
+    expect(onNewOverlap).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report git failures as poll errors', async () => {
+    db.createSession({
+      id: 'broken',
+      pid: 1004,
+      repo_path: repoPath,
+      worktree_path: root,
+      worktree_name: 'broken',
+      is_main_repo: false
+    });
+    expect(existsSync(root)).toBe(true);
+
+    const result = await watcher.pollForOverlaps(repoPath);
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.reposChecked).toBe(0);
+  });
+});